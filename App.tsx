@@ -7,17 +7,52 @@
  */
 
 import React, { useEffect } from 'react';
-import { StatusBar, useColorScheme } from 'react-native';
+import { Alert, StatusBar, useColorScheme } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import AppNavigator from './src/navigation/AppNavigator';
 import { initializeStores } from './src/stores';
+import { reconcileBlockingConfig } from './src/features/blocking/configSync';
+import { isStorageUnavailable, resetStorage } from './src/utils/storage';
+
+/**
+ * The saved data is kept as is; only the user can decide to wipe it
+ */
+function showStorageUnavailable() {
+  Alert.alert(
+    "Saved settings can't be unlocked",
+    'Boundly could not read its encryption key, so your limits and history are not loaded. ' +
+      'Changes made now are not saved. Restarting the phone may help - or start fresh and ' +
+      'lose the saved data.',
+    [
+      { text: 'Keep data', style: 'cancel' },
+      {
+        text: 'Start fresh',
+        style: 'destructive',
+        onPress: () => {
+          if (resetStorage()) {
+            Alert.alert('Storage reset', 'Restart Boundly to continue.');
+          } else {
+            Alert.alert('Reset failed', "A new key couldn't be created. Try again later.");
+          }
+        },
+      },
+    ],
+  );
+}
 
 function App(): React.JSX.Element {
   const isDarkMode = useColorScheme() === 'dark';
 
-  // Initialize stores from persistent storage on app start
+  // Initialize stores from persistent storage on app start, then repair the
+  // native blocking config if it drifted from them
   useEffect(() => {
     initializeStores();
+    if (isStorageUnavailable()) {
+      // Without reconciliation no config is written, so native keeps enforcing the saved settings
+      showStorageUnavailable();
+      return;
+    }
+    reconcileBlockingConfig();
   }, []);
 
   return (
@@ -0,0 +1,29 @@
+/**
+ * @format
+ */
+
+import { assignAppList, EMPTY_APP_LISTS, getAppList } from '../src/features/appSelection/appLists';
+
+const MAPS = { packageName: 'com.google.android.apps.maps', appName: 'Maps' };
+const FEED = { packageName: 'com.example.feed', appName: 'Feed' };
+
+describe('app lists', () => {
+  it('reports which list an app is on', () => {
+    const lists = { allowedApps: [MAPS], blockedApps: [FEED] };
+    expect(getAppList(MAPS.packageName, lists)).toBe('allow');
+    expect(getAppList(FEED.packageName, lists)).toBe('block');
+    expect(getAppList('com.example.other', lists)).toBeNull();
+  });
+
+  it('keeps an app on one list at a time', () => {
+    const allowed = assignAppList(EMPTY_APP_LISTS, MAPS, 'allow');
+    expect(allowed).toEqual({ allowedApps: [MAPS], blockedApps: [] });
+    expect(assignAppList(allowed, MAPS, 'block')).toEqual({ allowedApps: [], blockedApps: [MAPS] });
+  });
+
+  it('takes an app off both lists with null', () => {
+    const lists = assignAppList(assignAppList(EMPTY_APP_LISTS, MAPS, 'allow'), FEED, 'block');
+    expect(assignAppList(lists, MAPS, null)).toEqual({ allowedApps: [], blockedApps: [FEED] });
+    expect(EMPTY_APP_LISTS).toEqual({ allowedApps: [], blockedApps: [] });
+  });
+});
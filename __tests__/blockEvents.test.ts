@@ -0,0 +1,61 @@
+/**
+ * @format
+ */
+
+import {
+  countBlocksByApp,
+  formatBlockCount,
+  formatBlockOutcome,
+  getBlockOutcome,
+  getBlockTimeline,
+} from '../src/features/stats/blockEvents';
+import type { BlockEvent } from '../src/native/NativeBlockingServiceModule';
+
+const VIDEO = 'com.example.video';
+const CHAT = 'com.example.chat';
+
+const event = (packageName: string, timestampMs: number, outcome = 'blocked'): BlockEvent => ({
+  packageName,
+  timestampMs,
+  usageMs: 0,
+  limitMs: 0,
+  outcome,
+});
+
+describe('countBlocksByApp', () => {
+  it('counts every event per app', () => {
+    const events = [event(VIDEO, 1), event(CHAT, 2, 'dismissed'), event(VIDEO, 3, 'extended')];
+    expect(countBlocksByApp(events)).toEqual({ [VIDEO]: 2, [CHAT]: 1 });
+  });
+
+  it('is empty without events', () => {
+    expect(countBlocksByApp([])).toEqual({});
+  });
+});
+
+describe('getBlockTimeline', () => {
+  it('puts the newest first and caps the list', () => {
+    const events = [event(VIDEO, 1), event(CHAT, 3), event(VIDEO, 2)];
+    expect(getBlockTimeline(events, 2).map((e) => e.timestampMs)).toEqual([3, 2]);
+    expect(events.map((e) => e.timestampMs)).toEqual([1, 3, 2]);
+  });
+});
+
+describe('outcomes', () => {
+  it('treats unknown outcomes as unanswered blocks', () => {
+    expect(getBlockOutcome(event(VIDEO, 1, 'extended'))).toBe('extended');
+    expect(getBlockOutcome(event(VIDEO, 1, 'something-new'))).toBe('blocked');
+  });
+
+  it('labels outcomes', () => {
+    expect(formatBlockOutcome(event(VIDEO, 1, 'dismissed'))).toBe('Closed');
+    expect(formatBlockOutcome(event(VIDEO, 1))).toBe('Blocked');
+  });
+});
+
+describe('formatBlockCount', () => {
+  it('reads naturally', () => {
+    expect(formatBlockCount(1)).toBe('Blocked once today');
+    expect(formatBlockCount(4)).toBe('Blocked 4 times today');
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * @format
+ */
+
+import {
+  BLOCKING_CONFIG_VERSION,
+  buildBlockingConfig,
+  findConfigDrift,
+  hasEnforcedRules,
+  parseBlockingConfig,
+  serializeBlockingConfig,
+  type BlockingConfigInput,
+} from '../src/features/blocking/blockingConfig';
+
+const MINUTE = 60 * 1000;
+const VIDEO = 'com.example.video';
+const CHAT = 'com.example.chat';
+
+const input: BlockingConfigInput = {
+  selectedApps: [
+    { packageName: VIDEO, appName: 'Video' },
+    { packageName: CHAT, appName: 'Chat' },
+  ],
+  appLists: { allowedApps: [], blockedApps: [] },
+  limits: { [VIDEO]: 30 * MINUTE, 'com.example.untracked': 10 * MINUTE },
+  openLimits: {},
+  sessionCaps: {},
+  schedules: {
+    [CHAT]: { blockedWindows: [{ startMinute: 22 * 60, endMinute: 7 * 60 }] },
+  },
+  groups: [
+    { id: 'social', name: 'Social', packageNames: [CHAT, 'com.example.feed'], limitMs: 60 * MINUTE },
+    { id: 'off', name: 'Off', packageNames: [VIDEO], limitMs: 0 },
+    { id: 'untracked', name: 'Untracked', packageNames: ['com.example.feed'], limitMs: MINUTE },
+  ],
+  warningSettings: { percent: 80, minutesLeft: null },
+  warningsDisabled: [CHAT],
+  showRemainingPill: true,
+  dayStartHour: 4,
+};
+
+describe('buildBlockingConfig', () => {
+  const config = buildBlockingConfig(input);
+
+  it('keeps rules of tracked apps only', () => {
+    expect(config.selectedApps).toEqual([VIDEO, CHAT]);
+    expect(config.limits).toEqual([
+      { packageName: VIDEO, limitMs: 30 * MINUTE },
+      {
+        packageName: CHAT,
+        limitMs: 0,
+        blockedWindows: [{ startMinute: 22 * 60, endMinute: 7 * 60 }],
+      },
+    ]);
+  });
+
+  it('keeps apps that only have an open limit', () => {
+    const withOpens = buildBlockingConfig({ ...input, limits: {}, openLimits: { [VIDEO]: 10 } });
+    expect(withOpens.limits).toEqual([
+      { packageName: VIDEO, limitMs: 0, maxOpens: 10 },
+      {
+        packageName: CHAT,
+        limitMs: 0,
+        blockedWindows: [{ startMinute: 22 * 60, endMinute: 7 * 60 }],
+      },
+    ]);
+  });
+
+  it('passes session caps through', () => {
+    const cap = { maxSessionMinutes: 15, cooldownMinutes: 30 };
+    const withCap = buildBlockingConfig({ ...input, sessionCaps: { [VIDEO]: cap } });
+    expect(withCap.limits[0]).toEqual({ packageName: VIDEO, limitMs: 30 * MINUTE, sessionCap: cap });
+  });
+
+  it('lists always-allowed and always-blocked apps by package name', () => {
+    const withLists = buildBlockingConfig({
+      ...input,
+      appLists: {
+        allowedApps: [{ packageName: 'com.example.maps', appName: 'Maps' }],
+        blockedApps: [{ packageName: 'com.example.feed', appName: 'Feed' }],
+      },
+    });
+    expect(withLists.allowedApps).toEqual(['com.example.maps']);
+    expect(withLists.blockedApps).toEqual(['com.example.feed']);
+  });
+
+  it('keeps groups with a budget and tracked members, limited to those members', () => {
+    expect(config.groups).toEqual([
+      { id: 'social', name: 'Social', packageNames: [CHAT], limitMs: 60 * MINUTE },
+    ]);
+  });
+
+  it('turns thresholds that are off into 0', () => {
+    expect(config.warnings).toEqual({ percent: 80, minutesLeft: 0, disabledPackageNames: [CHAT] });
+  });
+
+  it('carries the version, pill switch and day start hour', () => {
+    expect(config.version).toBe(BLOCKING_CONFIG_VERSION);
+    expect(config.overlayPill).toBe(true);
+    expect(config.dayStartHour).toBe(4);
+  });
+});
+
+describe('hasEnforcedRules', () => {
+  it('needs tracked apps with a rule or group', () => {
+    expect(hasEnforcedRules(buildBlockingConfig(input))).toBe(true);
+    expect(hasEnforcedRules(buildBlockingConfig({ ...input, selectedApps: [] }))).toBe(false);
+    expect(
+      hasEnforcedRules(buildBlockingConfig({ ...input, limits: {}, schedules: {}, groups: [] })),
+    ).toBe(false);
+  });
+
+  it('counts always-blocked apps on their own', () => {
+    const blockedOnly = buildBlockingConfig({
+      ...input,
+      selectedApps: [],
+      appLists: { allowedApps: [], blockedApps: [{ packageName: VIDEO, appName: 'Video' }] },
+    });
+    expect(hasEnforcedRules(blockedOnly)).toBe(true);
+  });
+});
+
+describe('parseBlockingConfig', () => {
+  const config = buildBlockingConfig(input);
+
+  it('round-trips a serialized config', () => {
+    expect(parseBlockingConfig(serializeBlockingConfig(config))).toEqual(config);
+  });
+
+  it('rejects missing, malformed and other-version documents', () => {
+    expect(parseBlockingConfig(null)).toBeNull();
+    expect(parseBlockingConfig('{"version":')).toBeNull();
+    expect(parseBlockingConfig(JSON.stringify({ ...config, limits: 'none' }))).toBeNull();
+    expect(
+      parseBlockingConfig(JSON.stringify({ ...config, version: BLOCKING_CONFIG_VERSION + 1 })),
+    ).toBeNull();
+  });
+});
+
+describe('findConfigDrift', () => {
+  const config = buildBlockingConfig(input);
+
+  it('finds nothing when native matches the stores', () => {
+    expect(findConfigDrift(config, serializeBlockingConfig(config))).toEqual([]);
+  });
+
+  it('reports every section without a usable document', () => {
+    const all = [
+      'selectedApps',
+      'allowedApps',
+      'blockedApps',
+      'limits',
+      'groups',
+      'warnings',
+      'overlayPill',
+      'dayStartHour',
+    ];
+    expect(findConfigDrift(config, null)).toEqual(all);
+    expect(findConfigDrift(config, 'not json')).toEqual(all);
+  });
+
+  it('reports only the sections that differ', () => {
+    const stored = buildBlockingConfig({ ...input, showRemainingPill: false, dayStartHour: 0 });
+    expect(findConfigDrift(config, serializeBlockingConfig(stored))).toEqual([
+      'overlayPill',
+      'dayStartHour',
+    ]);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * @format
+ */
+
+import {
+  CHALLENGE_SENTENCES,
+  checkArithmetic,
+  checkSentence,
+  generateArithmetic,
+  getCountdownRemainingSeconds,
+  pickSentence,
+} from '../src/features/blocking/challenges/challenges';
+
+// Cycles through fixed values so generation is deterministic
+const sequence = (...values: number[]) => {
+  let index = 0;
+  return () => values[index++ % values.length];
+};
+
+describe('unlock challenges', () => {
+  describe('sentence', () => {
+    it('picks one of the known sentences', () => {
+      expect(pickSentence(() => 0)).toBe(CHALLENGE_SENTENCES[0]);
+      expect(pickSentence(() => 0.999)).toBe(CHALLENGE_SENTENCES[CHALLENGE_SENTENCES.length - 1]);
+    });
+
+    it('ignores extra whitespace but not case or punctuation', () => {
+      const sentence = 'I set this limit for a reason.';
+      expect(checkSentence(sentence, '  I set this  limit for a reason. ')).toBe(true);
+      expect(checkSentence(sentence, 'i set this limit for a reason.')).toBe(false);
+      expect(checkSentence(sentence, 'I set this limit for a reason')).toBe(false);
+    });
+  });
+
+  describe('countdown', () => {
+    it('counts down whole seconds to zero', () => {
+      const start = 1_000_000;
+      expect(getCountdownRemainingSeconds(start, start)).toBe(30);
+      expect(getCountdownRemainingSeconds(start, start + 29_001)).toBe(1);
+      expect(getCountdownRemainingSeconds(start, start + 30_000)).toBe(0);
+      expect(getCountdownRemainingSeconds(start, start + 45_000)).toBe(0);
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('generates additions and products with matching answers', () => {
+      const addition = generateArithmetic(sequence(0.1, 0, 0.999));
+      expect(addition).toEqual({ left: 12, right: 89, operator: '+', answer: 101 });
+
+      const product = generateArithmetic(sequence(0.9, 0, 0));
+      expect(product).toEqual({ left: 3, right: 12, operator: '×', answer: 36 });
+    });
+
+    it('accepts only the exact integer answer', () => {
+      const task = { left: 7, right: 13, operator: '×' as const, answer: 91 };
+      expect(checkArithmetic(task, ' 91 ')).toBe(true);
+      expect(checkArithmetic(task, '90')).toBe(false);
+      expect(checkArithmetic(task, '91.0')).toBe(false);
+      expect(checkArithmetic(task, '')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * @format
+ */
+
+import {
+  CONFIG_VERSION,
+  buildConfigFile,
+  diffConfig,
+  parseConfig,
+  serializeConfig,
+  type ConfigSnapshot,
+} from '../src/features/config/configFile';
+import { DEFAULT_POMODORO_CONFIG } from '../src/features/focus/pomodoro';
+import { DEFAULT_WARNING_SETTINGS } from '../src/features/limits/warnings';
+
+const MINUTE = 60 * 1000;
+const NOW = new Date(2026, 2, 9, 20, 0).getTime();
+
+const snapshot: ConfigSnapshot = {
+  selectedApps: [
+    { packageName: 'com.instagram.android', appName: 'Instagram' },
+    { packageName: 'com.zhiliaoapp.musically', appName: 'TikTok' },
+  ],
+  allowedApps: [{ packageName: 'com.google.android.apps.maps', appName: 'Maps' }],
+  blockedApps: [],
+  limits: { 'com.instagram.android': 30 * MINUTE },
+  openLimits: { 'com.zhiliaoapp.musically': 10 },
+  sessionCaps: { 'com.zhiliaoapp.musically': { maxSessionMinutes: 15, cooldownMinutes: 30 } },
+  schedules: {
+    'com.instagram.android': { weekendLimitMs: 15 * MINUTE, blockedWindows: [{ startMinute: 1320, endMinute: 420 }] },
+  },
+  graceSettings: { 'com.instagram.android': { extensionsPerDay: 2, extensionMinutes: 5 } },
+  challenges: { 'com.instagram.android': 'arithmetic' },
+  groups: [{ id: 'g1', name: 'Social', packageNames: ['com.zhiliaoapp.musically'], limitMs: 60 * MINUTE }],
+  pomodoroConfig: DEFAULT_POMODORO_CONFIG,
+  warningSettings: { percent: 90, minutesLeft: null },
+  warningsDisabled: ['com.zhiliaoapp.musically'],
+  showRemainingPill: true,
+  dayStartHour: 4,
+};
+
+const parse = (json: string) => parseConfig(json, DEFAULT_POMODORO_CONFIG);
+
+describe('configuration file', () => {
+  it('round-trips an export', () => {
+    const result = parse(serializeConfig(buildConfigFile(snapshot, NOW)));
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      const { app, version, exportedAt, ...rest } = result.config;
+      expect(rest).toEqual(snapshot);
+      expect([app, version, exportedAt]).toEqual(['boundly', CONFIG_VERSION, new Date(NOW).toISOString()]);
+    }
+  });
+
+  it('rejects invalid JSON, foreign documents and newer versions', () => {
+    expect(parse('{nope').ok).toBe(false);
+    expect(parse(JSON.stringify({ version: 1, selectedApps: [] })).ok).toBe(false);
+    const future = parse(JSON.stringify({ app: 'boundly', version: CONFIG_VERSION + 1, selectedApps: [] }));
+    expect(future.ok).toBe(false);
+    if (!future.ok) {
+      expect(future.error).toMatch(/newer version/);
+    }
+  });
+
+  it('rejects malformed fields with the reason', () => {
+    const file = { ...buildConfigFile(snapshot, NOW), limits: { 'com.instagram.android': '30m' } };
+    const result = parse(JSON.stringify(file));
+    expect(result).toEqual({ ok: false, error: 'Bad limit for com.instagram.android' });
+
+    const badWindow = {
+      ...buildConfigFile(snapshot, NOW),
+      schedules: { 'com.instagram.android': { blockedWindows: [{ startMinute: 1500, endMinute: 0 }] } },
+    };
+    expect(parse(JSON.stringify(badWindow)).ok).toBe(false);
+    const badCap = {
+      ...buildConfigFile(snapshot, NOW),
+      sessionCaps: { x: { maxSessionMinutes: 15, cooldownMinutes: 0 } },
+    };
+    expect(parse(JSON.stringify(badCap))).toEqual({ ok: false, error: 'Bad session cap for x' });
+    const badChallenge = { ...buildConfigFile(snapshot, NOW), challenges: { x: 'riddle' } };
+    expect(parse(JSON.stringify(badChallenge)).ok).toBe(false);
+    const badWarning = {
+      ...buildConfigFile(snapshot, NOW),
+      warningSettings: { percent: 120, minutesLeft: 5 },
+    };
+    expect(parse(JSON.stringify(badWarning))).toEqual({ ok: false, error: 'Bad warning percentage' });
+    const badDayStart = { ...buildConfigFile(snapshot, NOW), dayStartHour: 24 };
+    expect(parse(JSON.stringify(badDayStart)).ok).toBe(false);
+    const badPill = { ...buildConfigFile(snapshot, NOW), showRemainingPill: 'yes' };
+    expect(parse(JSON.stringify(badPill)).ok).toBe(false);
+    const bothLists = {
+      ...buildConfigFile(snapshot, NOW),
+      blockedApps: [{ packageName: 'com.google.android.apps.maps', appName: 'Maps' }],
+    };
+    expect(parse(JSON.stringify(bothLists))).toEqual({
+      ok: false,
+      error: 'com.google.android.apps.maps is on both allowedApps and blockedApps',
+    });
+  });
+
+  it('fills optional sections for minimal files', () => {
+    const result = parse(JSON.stringify({ app: 'boundly', version: 1, selectedApps: [] }));
+    expect(result.ok && result.config.pomodoroConfig).toEqual(DEFAULT_POMODORO_CONFIG);
+    expect(result.ok && result.config.groups).toEqual([]);
+    expect(result.ok && result.config.openLimits).toEqual({});
+    expect(result.ok && result.config.sessionCaps).toEqual({});
+    expect(result.ok && result.config.allowedApps).toEqual([]);
+    expect(result.ok && result.config.blockedApps).toEqual([]);
+    expect(result.ok && result.config.warningSettings).toEqual(DEFAULT_WARNING_SETTINGS);
+    expect(result.ok && result.config.warningsDisabled).toEqual([]);
+    expect(result.ok && result.config.showRemainingPill).toBe(false);
+    expect(result.ok && result.config.dayStartHour).toBe(0);
+  });
+});
+
+describe('diffConfig', () => {
+  it('is empty for identical configurations', () => {
+    expect(diffConfig(snapshot, snapshot)).toEqual([]);
+  });
+
+  it('lists app, limit and group changes', () => {
+    const incoming: ConfigSnapshot = {
+      ...snapshot,
+      selectedApps: [snapshot.selectedApps[0], { packageName: 'com.twitter.android', appName: 'X' }],
+      limits: { 'com.instagram.android': 45 * MINUTE, 'com.twitter.android': 20 * MINUTE },
+      groups: [],
+    };
+    expect(diffConfig(snapshot, incoming)).toEqual([
+      { kind: 'add', text: 'Track X' },
+      { kind: 'remove', text: 'Stop tracking TikTok' },
+      { kind: 'change', text: 'Instagram limit: 30m → 45m' },
+      { kind: 'add', text: 'X limit: none → 20m' },
+      { kind: 'remove', text: 'Group Social' },
+    ]);
+  });
+
+  it('lists open limit changes', () => {
+    const incoming: ConfigSnapshot = {
+      ...snapshot,
+      openLimits: { 'com.instagram.android': 20, 'com.zhiliaoapp.musically': 5 },
+    };
+    expect(diffConfig(snapshot, incoming)).toEqual([
+      { kind: 'add', text: 'Instagram opens/day: none → 20' },
+      { kind: 'change', text: 'TikTok opens/day: 10 → 5' },
+    ]);
+  });
+
+  it('lists app list changes', () => {
+    const incoming: ConfigSnapshot = {
+      ...snapshot,
+      allowedApps: [],
+      blockedApps: [{ packageName: 'com.reddit.frontpage', appName: 'Reddit' }],
+    };
+    expect(diffConfig(snapshot, incoming)).toEqual([
+      { kind: 'remove', text: 'Stop always allowing Maps' },
+      { kind: 'add', text: 'Always block Reddit' },
+    ]);
+  });
+
+  it('lists pill and day start changes', () => {
+    const incoming: ConfigSnapshot = { ...snapshot, showRemainingPill: false, dayStartHour: 0 };
+    expect(diffConfig(snapshot, incoming)).toEqual([
+      { kind: 'change', text: 'Time-left pill: on → off' },
+      { kind: 'change', text: 'Day starts at: 04:00 → 00:00' },
+    ]);
+  });
+
+  it('lists warning changes', () => {
+    const incoming: ConfigSnapshot = {
+      ...snapshot,
+      warningSettings: DEFAULT_WARNING_SETTINGS,
+      warningsDisabled: ['com.instagram.android'],
+    };
+    expect(diffConfig(snapshot, incoming)).toEqual([
+      { kind: 'change', text: 'Limit warnings' },
+      { kind: 'change', text: 'Instagram warnings: on → off' },
+      { kind: 'change', text: 'TikTok warnings: off → on' },
+    ]);
+  });
+});
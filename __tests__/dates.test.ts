@@ -0,0 +1,67 @@
+/**
+ * @format
+ */
+
+import { addDays, getDayKey, getDayRange, setDayStartHour } from '../src/utils/dates';
+
+const HOUR = 60 * 60 * 1000;
+
+afterEach(() => setDayStartHour(0));
+
+const at = (day: number, hour: number, minute = 0, month = 2) =>
+  new Date(2026, month, day, hour, minute).getTime();
+
+describe('day keys with the default midnight boundary', () => {
+  it('uses the calendar date', () => {
+    expect(getDayKey(at(10, 0))).toBe('2026-03-10');
+    expect(getDayKey(at(10, 23, 59))).toBe('2026-03-10');
+  });
+
+  it('spans midnight to midnight', () => {
+    const { startMs, endMs } = getDayRange('2026-03-10');
+    expect(startMs).toBe(at(10, 0));
+    expect(endMs).toBe(at(11, 0));
+  });
+});
+
+describe('day keys with a later day start', () => {
+  beforeEach(() => setDayStartHour(4));
+
+  it('counts the early hours towards the previous day', () => {
+    expect(getDayKey(at(10, 2))).toBe('2026-03-09');
+    expect(getDayKey(at(10, 3, 59))).toBe('2026-03-09');
+    expect(getDayKey(at(10, 4))).toBe('2026-03-10');
+  });
+
+  it('rolls back across month boundaries', () => {
+    expect(getDayKey(at(1, 1))).toBe('2026-02-28');
+  });
+
+  it('spans one day start to the next', () => {
+    const { startMs, endMs } = getDayRange('2026-03-10');
+    expect(startMs).toBe(at(10, 4));
+    expect(endMs).toBe(at(11, 4));
+  });
+
+  it('keeps day keys calendar-based', () => {
+    expect(addDays('2026-03-01', -1)).toBe('2026-02-28');
+  });
+});
+
+// Runs in whatever zone the machine is in - with DST, this covers the short
+// and long days and a day start inside the skipped hour
+describe.each([0, 2, 4])('every day of a year starting at %i:00', (hour) => {
+  beforeEach(() => setDayStartHour(hour));
+
+  it('has ranges that agree with the day keys and leave no gaps', () => {
+    for (let dayKey = '2026-01-01'; dayKey < '2027-01-01'; dayKey = addDays(dayKey, 1)) {
+      const { startMs, endMs } = getDayRange(dayKey);
+      expect(getDayKey(startMs)).toBe(dayKey);
+      expect(getDayKey(startMs - 1)).toBe(addDays(dayKey, -1));
+      expect(getDayKey(endMs - 1)).toBe(dayKey);
+      expect(endMs).toBe(getDayRange(addDays(dayKey, 1)).startMs);
+      expect(endMs - startMs).toBeGreaterThanOrEqual(22 * HOUR);
+      expect(endMs - startMs).toBeLessThanOrEqual(26 * HOUR);
+    }
+  });
+});
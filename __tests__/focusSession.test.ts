@@ -0,0 +1,45 @@
+/**
+ * @format
+ */
+
+import {
+  formatCountdown,
+  getFocusRemainingMs,
+  isBlockedByFocus,
+  isFocusActive,
+  type FocusSession,
+} from '../src/features/focus/focusSession';
+
+const MINUTE = 60 * 1000;
+const START = new Date(2026, 2, 9, 14, 0).getTime();
+
+const session: FocusSession = {
+  startedAt: START,
+  endsAt: START + 45 * MINUTE,
+  packageNames: ['com.instagram.android'],
+};
+
+describe('focus sessions', () => {
+  it('is active until the end time', () => {
+    expect(isFocusActive(session, START + 44 * MINUTE)).toBe(true);
+    expect(isFocusActive(session, START + 45 * MINUTE)).toBe(false);
+    expect(isFocusActive(null, START)).toBe(false);
+  });
+
+  it('blocks only the chosen apps while running', () => {
+    expect(isBlockedByFocus(session, 'com.instagram.android', START + MINUTE)).toBe(true);
+    expect(isBlockedByFocus(session, 'com.whatsapp', START + MINUTE)).toBe(false);
+    expect(isBlockedByFocus(session, 'com.instagram.android', START + 50 * MINUTE)).toBe(false);
+  });
+
+  it('never reports negative remaining time', () => {
+    expect(getFocusRemainingMs(session, START + 15 * MINUTE)).toBe(30 * MINUTE);
+    expect(getFocusRemainingMs(session, START + 60 * MINUTE)).toBe(0);
+  });
+
+  it('formats the countdown', () => {
+    expect(formatCountdown(45 * MINUTE)).toBe('45:00');
+    expect(formatCountdown(59 * 1000 + 1)).toBe('1:00');
+    expect(formatCountdown(65 * MINUTE)).toBe('1:05:00');
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * @format
+ */
+
+import {
+  findActiveGrant,
+  getRemainingExtensions,
+  pruneGrants,
+  type GraceGrant,
+  type GraceSettings,
+} from '../src/features/limits/grace';
+
+const MINUTE = 60 * 1000;
+const NOW = new Date(2026, 2, 9, 20, 0).getTime();
+const APP = 'com.instagram.android';
+
+const settings: GraceSettings = { extensionsPerDay: 2, extensionMinutes: 5 };
+
+const grant = (packageName: string, dayKey: string, grantedAt: number): GraceGrant => ({
+  packageName,
+  dayKey,
+  grantedAt,
+  expiresAt: grantedAt + 5 * MINUTE,
+});
+
+describe('grace extensions', () => {
+  it('counts only today’s grants for the app', () => {
+    const grants = [
+      grant(APP, '2026-03-09', NOW - 60 * MINUTE),
+      grant(APP, '2026-03-08', NOW - 24 * 60 * MINUTE),
+      grant('com.whatsapp', '2026-03-09', NOW - 30 * MINUTE),
+    ];
+    expect(getRemainingExtensions(settings, grants, APP, '2026-03-09')).toBe(1);
+  });
+
+  it('never goes below zero and is zero without settings', () => {
+    const grants = [1, 2, 3].map((i) => grant(APP, '2026-03-09', NOW - i * 60 * MINUTE));
+    expect(getRemainingExtensions(settings, grants, APP, '2026-03-09')).toBe(0);
+    expect(getRemainingExtensions(undefined, [], APP, '2026-03-09')).toBe(0);
+  });
+
+  it('finds a grant only while it runs', () => {
+    const grants = [grant(APP, '2026-03-09', NOW)];
+    expect(findActiveGrant(grants, APP, NOW + 4 * MINUTE)).toBe(grants[0]);
+    expect(findActiveGrant(grants, APP, NOW + 5 * MINUTE)).toBeNull();
+    expect(findActiveGrant(grants, 'com.whatsapp', NOW + MINUTE)).toBeNull();
+  });
+
+  it('keeps the last 30 days of the log', () => {
+    const grants = [grant(APP, '2026-02-08', NOW), grant(APP, '2026-02-07', NOW)];
+    expect(pruneGrants(grants, '2026-03-09')).toEqual([grants[0]]);
+  });
+});
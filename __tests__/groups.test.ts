@@ -0,0 +1,58 @@
+/**
+ * @format
+ */
+
+import {
+  findExhaustedGroup,
+  getGroupUsage,
+  getGroupsForApp,
+  type AppGroup,
+} from '../src/features/limits/groups';
+
+const MINUTE = 60 * 1000;
+
+const social: AppGroup = {
+  id: 'group_social',
+  name: 'Social',
+  packageNames: ['com.instagram.android', 'com.zhiliaoapp.musically'],
+  limitMs: 60 * MINUTE,
+};
+
+const news: AppGroup = {
+  id: 'group_news',
+  name: 'News',
+  packageNames: ['com.reddit.frontpage', 'com.instagram.android'],
+  limitMs: 0,
+};
+
+describe('app groups', () => {
+  it('sums usage across members only', () => {
+    const usage = {
+      'com.instagram.android': 20 * MINUTE,
+      'com.zhiliaoapp.musically': 15 * MINUTE,
+      'com.whatsapp': 90 * MINUTE,
+    };
+    expect(getGroupUsage(social, usage)).toBe(35 * MINUTE);
+  });
+
+  it('finds every group an app belongs to', () => {
+    expect(getGroupsForApp('com.instagram.android', [social, news])).toEqual([social, news]);
+    expect(getGroupsForApp('com.whatsapp', [social, news])).toEqual([]);
+  });
+
+  it('blocks all members once the shared budget is used up', () => {
+    const usage = {
+      'com.instagram.android': 45 * MINUTE,
+      'com.zhiliaoapp.musically': 15 * MINUTE,
+    };
+    expect(findExhaustedGroup('com.zhiliaoapp.musically', [social], usage)).toEqual({
+      group: social,
+      usageMs: 60 * MINUTE,
+    });
+  });
+
+  it('ignores groups under budget or without a limit', () => {
+    const usage = { 'com.instagram.android': 59 * MINUTE, 'com.reddit.frontpage': 500 * MINUTE };
+    expect(findExhaustedGroup('com.instagram.android', [social, news], usage)).toBeNull();
+  });
+});
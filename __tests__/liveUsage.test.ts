@@ -0,0 +1,101 @@
+/**
+ * @format
+ */
+
+import {
+  endLiveSession,
+  getLiveUsageMs,
+  mergeLiveUsage,
+  startLiveSession,
+} from '../src/utils/liveUsage';
+
+const MINUTE = 60 * 1000;
+const DAY_START = new Date(2026, 2, 10).getTime();
+const APP = 'com.example.video';
+
+describe('getLiveUsageMs', () => {
+  it('returns the system total without a session', () => {
+    expect(getLiveUsageMs(APP, 30 * MINUTE, DAY_START, null, DAY_START + MINUTE, DAY_START)).toBe(
+      30 * MINUTE,
+    );
+  });
+
+  it('ignores a session for another app', () => {
+    const session = startLiveSession('com.other', 0, DAY_START);
+    expect(getLiveUsageMs(APP, 5 * MINUTE, null, session, DAY_START + MINUTE, DAY_START)).toBe(
+      5 * MINUTE,
+    );
+  });
+
+  it('adds the whole session when the system total lags behind it', () => {
+    const start = DAY_START + 60 * MINUTE;
+    const session = startLiveSession(APP, 20 * MINUTE, start);
+    // System still reports the total from before the session
+    const usage = getLiveUsageMs(APP, 20 * MINUTE, start + 8 * MINUTE, session, start + 10 * MINUTE, DAY_START);
+    expect(usage).toBe(30 * MINUTE);
+  });
+
+  it('does not count the session twice once the system has caught up', () => {
+    const start = DAY_START + 60 * MINUTE;
+    const session = startLiveSession(APP, 20 * MINUTE, start);
+    // System total read 6 minutes into the session already includes them
+    const usage = getLiveUsageMs(APP, 26 * MINUTE, start + 6 * MINUTE, session, start + 10 * MINUTE, DAY_START);
+    expect(usage).toBe(30 * MINUTE);
+  });
+
+  it('keeps the larger estimate when earlier sessions were counted late', () => {
+    const start = DAY_START + 60 * MINUTE;
+    const session = startLiveSession(APP, 20 * MINUTE, start);
+    // The system total grew by more than this session (an earlier one was flushed)
+    const usage = getLiveUsageMs(APP, 35 * MINUTE, start + 5 * MINUTE, session, start + 10 * MINUTE, DAY_START);
+    expect(usage).toBe(40 * MINUTE);
+  });
+
+  it('stops counting at the end of the session', () => {
+    const start = DAY_START + 60 * MINUTE;
+    const session = endLiveSession(startLiveSession(APP, 20 * MINUTE, start), start + 4 * MINUTE);
+    expect(getLiveUsageMs(APP, 20 * MINUTE, start, session, start + 30 * MINUTE, DAY_START)).toBe(
+      24 * MINUTE,
+    );
+  });
+
+  it('keeps the first end time', () => {
+    const session = endLiveSession(startLiveSession(APP, 0, DAY_START), DAY_START + MINUTE);
+    expect(endLiveSession(session, DAY_START + 5 * MINUTE).endedAt).toBe(DAY_START + MINUTE);
+  });
+
+  it('only counts a session running past midnight from the start of the day', () => {
+    const session = startLiveSession(APP, 50 * MINUTE, DAY_START - 10 * MINUTE);
+    expect(getLiveUsageMs(APP, 0, null, session, DAY_START + 5 * MINUTE, DAY_START)).toBe(
+      5 * MINUTE,
+    );
+  });
+
+  it('ignores a session that ended before today', () => {
+    const session = endLiveSession(
+      startLiveSession(APP, 50 * MINUTE, DAY_START - 10 * MINUTE),
+      DAY_START - 5 * MINUTE,
+    );
+    expect(getLiveUsageMs(APP, 0, null, session, DAY_START + 5 * MINUTE, DAY_START)).toBe(0);
+  });
+});
+
+describe('mergeLiveUsage', () => {
+  it('only updates the session app', () => {
+    const start = DAY_START + 60 * MINUTE;
+    const session = startLiveSession(APP, 10 * MINUTE, start);
+    const usage = { [APP]: 10 * MINUTE, 'com.other': 3 * MINUTE };
+    expect(mergeLiveUsage(usage, start, session, start + 2 * MINUTE, DAY_START)).toEqual({
+      [APP]: 12 * MINUTE,
+      'com.other': 3 * MINUTE,
+    });
+    expect(usage[APP]).toBe(10 * MINUTE);
+  });
+
+  it('adds an app missing from the totals', () => {
+    const session = startLiveSession(APP, 0, DAY_START + MINUTE);
+    expect(mergeLiveUsage({}, null, session, DAY_START + 3 * MINUTE, DAY_START)).toEqual({
+      [APP]: 2 * MINUTE,
+    });
+  });
+});
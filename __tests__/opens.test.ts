@@ -0,0 +1,50 @@
+/**
+ * @format
+ */
+
+import {
+  formatOpens,
+  hasOpenLimit,
+  isOpenLimitExceeded,
+  parseOpenLimitInput,
+} from '../src/features/limits/opens';
+
+describe('open limits', () => {
+  it('only counts positive limits', () => {
+    expect(hasOpenLimit(10)).toBe(true);
+    expect(hasOpenLimit(0)).toBe(false);
+    expect(hasOpenLimit(undefined)).toBe(false);
+  });
+
+  it('allows the last open and blocks the one after', () => {
+    expect(isOpenLimitExceeded(10, 10)).toBe(false);
+    expect(isOpenLimitExceeded(10, 11)).toBe(true);
+    expect(isOpenLimitExceeded(undefined, 50)).toBe(false);
+  });
+});
+
+describe('parseOpenLimitInput', () => {
+  it('accepts whole numbers in range', () => {
+    expect(parseOpenLimitInput(' 12 ')).toBe(12);
+    expect(parseOpenLimitInput('999')).toBe(999);
+  });
+
+  it('rejects everything else', () => {
+    expect(parseOpenLimitInput('0')).toBeNull();
+    expect(parseOpenLimitInput('1000')).toBeNull();
+    expect(parseOpenLimitInput('2.5')).toBeNull();
+    expect(parseOpenLimitInput('ten')).toBeNull();
+    expect(parseOpenLimitInput('')).toBeNull();
+  });
+});
+
+describe('formatOpens', () => {
+  it('shows progress against the limit', () => {
+    expect(formatOpens(3, 10)).toBe('3/10 opens');
+  });
+
+  it('counts opens without a limit', () => {
+    expect(formatOpens(1)).toBe('1 open');
+    expect(formatOpens(4)).toBe('4 opens');
+  });
+});
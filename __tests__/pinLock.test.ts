@@ -0,0 +1,99 @@
+/**
+ * @format
+ */
+
+import {
+  INITIAL_LOCKOUT,
+  MAX_ATTEMPTS,
+  createPinRecord,
+  generateRecoveryCode,
+  getAttemptsLeft,
+  hashSecret,
+  isLockedOut,
+  isValidPin,
+  registerFailure,
+  verifyPin,
+  verifyRecoveryCode,
+  type LockoutState,
+} from '../src/features/pin/pinLock';
+
+jest.mock('../src/native/NativeSecureKeyModule');
+
+const MINUTE = 60 * 1000;
+const NOW = new Date(2026, 2, 9, 20, 0).getTime();
+
+// Deterministic stand-in for Math.random
+const seeded = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return (seed - 1) / 2147483646;
+};
+
+const failTimes = (count: number, state: LockoutState = INITIAL_LOCKOUT): LockoutState => {
+  let next = state;
+  for (let i = 0; i < count; i++) {
+    next = registerFailure(next, NOW);
+  }
+  return next;
+};
+
+describe('hashSecret', () => {
+  it('is PBKDF2-HMAC-SHA256 as hex', () => {
+    // RFC 7914 test vector
+    expect(hashSecret('passwd', 'salt', 1)).toBe(
+      '55ac046e56e3089fec1691c22544b605f94185216dde0465e68b9d57c20dacbc',
+    );
+  });
+});
+
+describe('PIN lock', () => {
+  it('accepts 4-8 digits only', () => {
+    expect(isValidPin('1234')).toBe(true);
+    expect(isValidPin('12345678')).toBe(true);
+    expect(isValidPin('123')).toBe(false);
+    expect(isValidPin('12a4')).toBe(false);
+  });
+
+  it('stores only salted hashes and verifies the PIN', () => {
+    const { record } = createPinRecord('4821', seeded(7));
+    expect(JSON.stringify(record)).not.toContain('4821');
+    expect(verifyPin(record, '4821')).toBe(true);
+    expect(verifyPin(record, '4822')).toBe(false);
+  });
+
+  it('salts so the same PIN hashes differently', () => {
+    const first = createPinRecord('4821', seeded(1)).record;
+    const second = createPinRecord('4821', seeded(2)).record;
+    expect(first.hash).not.toBe(second.hash);
+    expect(hashSecret('4821', first.salt, first.iterations)).toBe(first.hash);
+  });
+
+  it('accepts the recovery code in any case and spacing', () => {
+    const { record, recoveryCode } = createPinRecord('4821', seeded(3));
+    expect(recoveryCode).toMatch(/^[A-Z2-9]{4}-[A-Z2-9]{4}-[A-Z2-9]{4}$/);
+    expect(verifyRecoveryCode(record, recoveryCode.toLowerCase().replace(/-/g, ' '))).toBe(true);
+    expect(verifyRecoveryCode(record, generateRecoveryCode(seeded(4)))).toBe(false);
+  });
+
+  it('draws salts and recovery codes from a secure source by default', () => {
+    const mathRandom = jest.spyOn(Math, 'random');
+    const { record, recoveryCode } = createPinRecord('4821');
+    expect(mathRandom).not.toHaveBeenCalled();
+    mathRandom.mockRestore();
+    expect(record.salt).toMatch(/^[0-9a-f]{32}$/);
+    expect(verifyRecoveryCode(record, recoveryCode)).toBe(true);
+  });
+
+  it('locks out after repeated failures, longer each time', () => {
+    const almost = failTimes(MAX_ATTEMPTS - 1);
+    expect(isLockedOut(almost, NOW)).toBe(false);
+    expect(getAttemptsLeft(almost)).toBe(1);
+
+    const first = failTimes(1, almost);
+    expect(first.lockedUntil).toBe(NOW + MINUTE);
+    expect(isLockedOut(first, NOW + 30 * 1000)).toBe(true);
+    expect(isLockedOut(first, NOW + MINUTE)).toBe(false);
+
+    const second = failTimes(MAX_ATTEMPTS, first);
+    expect(second.lockedUntil).toBe(NOW + 5 * MINUTE);
+  });
+});
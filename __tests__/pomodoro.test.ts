@@ -0,0 +1,60 @@
+/**
+ * @format
+ */
+
+import {
+  DEFAULT_POMODORO_CONFIG,
+  getPomodoroPhase,
+  isBlockedByPomodoro,
+  isValidPomodoroConfig,
+  type PomodoroState,
+} from '../src/features/focus/pomodoro';
+
+const MINUTE = 60 * 1000;
+const START = new Date(2026, 2, 9, 9, 0).getTime();
+
+// 25m work, 5m short break, 15m long break, 4 cycles => 130m per set
+const state: PomodoroState = {
+  startedAt: START,
+  config: DEFAULT_POMODORO_CONFIG,
+  packageNames: ['com.instagram.android'],
+};
+
+const at = (minutes: number) => START + minutes * MINUTE;
+
+describe('pomodoro cycles', () => {
+  it('starts with a work phase', () => {
+    expect(getPomodoroPhase(state, at(0))).toEqual({ kind: 'work', cycle: 1, endsAt: at(25) });
+  });
+
+  it('alternates work and short breaks', () => {
+    expect(getPomodoroPhase(state, at(26))).toEqual({
+      kind: 'shortBreak',
+      cycle: 1,
+      endsAt: at(30),
+    });
+    expect(getPomodoroPhase(state, at(30))).toEqual({ kind: 'work', cycle: 2, endsAt: at(55) });
+  });
+
+  it('takes a long break after the last cycle and then repeats', () => {
+    // Fourth work phase runs 90-115, long break 115-130
+    expect(getPomodoroPhase(state, at(120))).toEqual({
+      kind: 'longBreak',
+      cycle: 4,
+      endsAt: at(130),
+    });
+    expect(getPomodoroPhase(state, at(131))).toEqual({ kind: 'work', cycle: 1, endsAt: at(155) });
+  });
+
+  it('blocks the chosen apps only during work phases', () => {
+    expect(isBlockedByPomodoro(state, 'com.instagram.android', at(10))).toBe(true);
+    expect(isBlockedByPomodoro(state, 'com.instagram.android', at(27))).toBe(false);
+    expect(isBlockedByPomodoro(state, 'com.whatsapp', at(10))).toBe(false);
+    expect(isBlockedByPomodoro(null, 'com.instagram.android', at(10))).toBe(false);
+  });
+
+  it('rejects configs with empty phases', () => {
+    expect(isValidPomodoroConfig(DEFAULT_POMODORO_CONFIG)).toBe(true);
+    expect(isValidPomodoroConfig({ ...DEFAULT_POMODORO_CONFIG, workMinutes: 0 })).toBe(false);
+  });
+});
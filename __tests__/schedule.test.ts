@@ -0,0 +1,97 @@
+/**
+ * @format
+ */
+
+import {
+  evaluateLimit,
+  findActiveWindow,
+  formatClockTime,
+  getEffectiveLimit,
+  hasActiveRule,
+  parseClockTime,
+  type LimitSchedule,
+} from '../src/features/limits/schedule';
+
+const MINUTE = 60 * 1000;
+
+// 2026-03-09 is a Monday, 2026-03-14 a Saturday
+const monday = (hour: number, minute = 0) => new Date(2026, 2, 9, hour, minute);
+const saturday = (hour: number, minute = 0) => new Date(2026, 2, 14, hour, minute);
+
+const nightBlock: LimitSchedule = {
+  blockedWindows: [{ startMinute: 22 * 60, endMinute: 7 * 60 }],
+};
+
+describe('getEffectiveLimit', () => {
+  const schedule: LimitSchedule = {
+    weekdayLimitMs: 30 * MINUTE,
+    weekendLimitMs: 90 * MINUTE,
+    blockedWindows: [],
+  };
+
+  test('uses the weekday or weekend budget when set', () => {
+    expect(getEffectiveLimit(60 * MINUTE, schedule, monday(12))).toBe(30 * MINUTE);
+    expect(getEffectiveLimit(60 * MINUTE, schedule, saturday(12))).toBe(90 * MINUTE);
+  });
+
+  test('falls back to the daily limit', () => {
+    const weekdayOnly = { ...schedule, weekendLimitMs: undefined };
+    expect(getEffectiveLimit(60 * MINUTE, weekdayOnly, saturday(12))).toBe(60 * MINUTE);
+    expect(getEffectiveLimit(undefined, undefined, monday(12))).toBeUndefined();
+  });
+});
+
+describe('findActiveWindow', () => {
+  test('handles windows that wrap past midnight', () => {
+    expect(findActiveWindow(nightBlock, monday(23, 30))).toBeDefined();
+    expect(findActiveWindow(nightBlock, monday(6, 59))).toBeDefined();
+    expect(findActiveWindow(nightBlock, monday(7, 0))).toBeUndefined();
+    expect(findActiveWindow(nightBlock, monday(21, 59))).toBeUndefined();
+  });
+
+  test('handles same-day windows', () => {
+    const lunch = { blockedWindows: [{ startMinute: 12 * 60, endMinute: 13 * 60 }] };
+    expect(findActiveWindow(lunch, monday(12, 30))).toBeDefined();
+    expect(findActiveWindow(lunch, monday(13, 0))).toBeUndefined();
+  });
+});
+
+describe('evaluateLimit', () => {
+  test('blocks inside a window even without usage or a budget', () => {
+    expect(evaluateLimit(undefined, nightBlock, 0, monday(23))).toEqual({
+      blocked: true,
+      reason: 'window',
+      effectiveLimitMs: undefined,
+      windowEndMinute: 7 * 60,
+    });
+  });
+
+  test('blocks once the day budget is used up', () => {
+    const schedule = { weekendLimitMs: 2 * 60 * MINUTE, blockedWindows: [] };
+    expect(evaluateLimit(60 * MINUTE, schedule, 90 * MINUTE, monday(12)).reason).toBe('limit');
+    expect(evaluateLimit(60 * MINUTE, schedule, 90 * MINUTE, saturday(12)).blocked).toBe(false);
+  });
+});
+
+describe('hasActiveRule', () => {
+  test('counts budgets and windows as rules', () => {
+    expect(hasActiveRule(undefined, undefined)).toBe(false);
+    expect(hasActiveRule(0, { blockedWindows: [] })).toBe(false);
+    expect(hasActiveRule(undefined, nightBlock)).toBe(true);
+    expect(hasActiveRule(undefined, { weekendLimitMs: MINUTE, blockedWindows: [] })).toBe(true);
+  });
+});
+
+describe('clock time parsing', () => {
+  test('round-trips HH:MM', () => {
+    expect(parseClockTime('22:00')).toBe(1320);
+    expect(parseClockTime('7:05')).toBe(425);
+    expect(formatClockTime(425)).toBe('07:05');
+  });
+
+  test('rejects invalid times', () => {
+    expect(parseClockTime('24:00')).toBeNull();
+    expect(parseClockTime('10:60')).toBeNull();
+    expect(parseClockTime('10pm')).toBeNull();
+  });
+});
@@ -0,0 +1,22 @@
+/**
+ * @format
+ */
+
+import { isSessionCapEnabled, parseCapMinutes, type SessionCap } from '../src/features/limits/sessionCap';
+
+const cap: SessionCap = { maxSessionMinutes: 15, cooldownMinutes: 10 };
+
+describe('session cap settings', () => {
+  it('needs both a session length and a cooldown', () => {
+    expect(isSessionCapEnabled(cap)).toBe(true);
+    expect(isSessionCapEnabled({ maxSessionMinutes: 15, cooldownMinutes: 0 })).toBe(false);
+    expect(isSessionCapEnabled(undefined)).toBe(false);
+  });
+
+  it('parses whole minutes within range', () => {
+    expect(parseCapMinutes(' 15 ', 240)).toBe(15);
+    expect(parseCapMinutes('0', 240)).toBeNull();
+    expect(parseCapMinutes('300', 240)).toBeNull();
+    expect(parseCapMinutes('1.5', 240)).toBeNull();
+  });
+});
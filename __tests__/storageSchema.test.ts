@@ -0,0 +1,168 @@
+/**
+ * @format
+ */
+
+import { StorageKeys } from '../src/utils/storage';
+import { runMigrations, type Migration } from '../src/utils/migrations';
+import {
+  QUARANTINE_PREFIX,
+  StoredShapes,
+  getQuarantinedKeys,
+  readStored,
+  type KeyValueStore,
+} from '../src/utils/storageSchema';
+
+function createStore(initial: Record<string, string | number> = {}): KeyValueStore {
+  const data = new Map<string, string | number>(Object.entries(initial));
+  return {
+    getString: key => {
+      const value = data.get(key);
+      return typeof value === 'string' ? value : undefined;
+    },
+    getNumber: key => {
+      const value = data.get(key);
+      return typeof value === 'number' ? value : undefined;
+    },
+    set: (key, value) => {
+      data.set(key, value as string | number);
+    },
+    remove: key => data.delete(key),
+    getAllKeys: () => [...data.keys()],
+  };
+}
+
+describe('readStored', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns null for a missing key', () => {
+    expect(readStored('missing', StoredShapes.limits, createStore())).toBeNull();
+  });
+
+  it('returns a blob that matches its shape', () => {
+    const apps = [{ packageName: 'com.example', appName: 'Example' }];
+    const store = createStore({ [StorageKeys.SELECTED_APPS]: JSON.stringify(apps) });
+    expect(readStored(StorageKeys.SELECTED_APPS, StoredShapes.selectedApps, store)).toEqual(apps);
+    expect(getQuarantinedKeys(store)).toEqual([]);
+  });
+
+  it('quarantines invalid JSON and keeps the raw text', () => {
+    const store = createStore({ [StorageKeys.APP_LIMITS]: '{"com.example": 60' });
+    expect(readStored(StorageKeys.APP_LIMITS, StoredShapes.limits, store)).toBeNull();
+    expect(store.getString(StorageKeys.APP_LIMITS)).toBeUndefined();
+
+    const [quarantined] = getQuarantinedKeys(store);
+    expect(quarantined.startsWith(`${QUARANTINE_PREFIX}${StorageKeys.APP_LIMITS}.`)).toBe(true);
+    expect(store.getString(quarantined)).toBe('{"com.example": 60');
+  });
+
+  it('quarantines a blob with the wrong shape', () => {
+    const store = createStore({
+      [StorageKeys.PIN_LOCKOUT]: JSON.stringify({ failedAttempts: '3', lockedUntil: null }),
+    });
+    expect(readStored(StorageKeys.PIN_LOCKOUT, StoredShapes.pinLockout, store)).toBeNull();
+    expect(getQuarantinedKeys(store)).toHaveLength(1);
+  });
+
+  it('accepts optional and nullable fields', () => {
+    const store = createStore({
+      [StorageKeys.LIMIT_SCHEDULES]: JSON.stringify({ 'com.example': { blockedWindows: [] } }),
+      [StorageKeys.PIN_LOCKOUT]: JSON.stringify({ failedAttempts: 0, lockedUntil: null }),
+    });
+    expect(readStored(StorageKeys.LIMIT_SCHEDULES, StoredShapes.schedules, store)).not.toBeNull();
+    expect(readStored(StorageKeys.PIN_LOCKOUT, StoredShapes.pinLockout, store)).not.toBeNull();
+  });
+
+  it('rejects unknown challenge types', () => {
+    const store = createStore({
+      [StorageKeys.UNLOCK_CHALLENGES]: JSON.stringify({ 'com.example': 'riddle' }),
+    });
+    expect(readStored(StorageKeys.UNLOCK_CHALLENGES, StoredShapes.challenges, store)).toBeNull();
+  });
+});
+
+describe('runMigrations', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const recordingMigrations = (order: number[]): Migration[] => [
+    { version: 2, description: 'second', migrate: () => order.push(2) },
+    { version: 1, description: 'first', migrate: () => order.push(1) },
+    { version: 3, description: 'third', migrate: () => order.push(3) },
+  ];
+
+  it('runs pending migrations oldest first and stamps the version', () => {
+    const order: number[] = [];
+    const store = createStore();
+    expect(runMigrations(store, recordingMigrations(order))).toEqual({
+      fromVersion: 0,
+      toVersion: 3,
+    });
+    expect(order).toEqual([1, 2, 3]);
+    expect(store.getNumber(StorageKeys.SCHEMA_VERSION)).toBe(3);
+  });
+
+  it('only runs migrations newer than the stored version', () => {
+    const order: number[] = [];
+    const store = createStore({ [StorageKeys.SCHEMA_VERSION]: 2 });
+    runMigrations(store, recordingMigrations(order));
+    expect(order).toEqual([3]);
+  });
+
+  it('stops at a failing migration and keeps the last good version', () => {
+    const store = createStore();
+    const result = runMigrations(store, [
+      { version: 1, description: 'ok', migrate: () => {} },
+      {
+        version: 2,
+        description: 'broken',
+        migrate: () => {
+          throw new Error('boom');
+        },
+      },
+      { version: 3, description: 'never', migrate: () => {} },
+    ]);
+    expect(result.toVersion).toBe(1);
+    expect(result.error).toContain('boom');
+    expect(store.getNumber(StorageKeys.SCHEMA_VERSION)).toBe(1);
+  });
+
+  it('leaves a newer schema untouched after a downgrade', () => {
+    const order: number[] = [];
+    const store = createStore({ [StorageKeys.SCHEMA_VERSION]: 7 });
+    expect(runMigrations(store, recordingMigrations(order))).toEqual({
+      fromVersion: 7,
+      toVersion: 7,
+    });
+    expect(order).toEqual([]);
+  });
+
+  it('migrates blobs through the store it is given', () => {
+    const store = createStore({ legacy_limits: JSON.stringify({ 'com.example': 60 }) });
+    runMigrations(store, [
+      {
+        version: 1,
+        description: 'rename key',
+        migrate: target => {
+          target.set(StorageKeys.APP_LIMITS, target.getString('legacy_limits') ?? '{}');
+          target.remove('legacy_limits');
+        },
+      },
+    ]);
+    expect(readStored(StorageKeys.APP_LIMITS, StoredShapes.limits, store)).toEqual({
+      'com.example': 60,
+    });
+  });
+});
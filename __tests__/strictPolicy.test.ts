@@ -0,0 +1,123 @@
+/**
+ * @format
+ */
+
+import {
+  checkPolicy,
+  isGraceStricter,
+  isListChangeStricter,
+  isScheduleStricter,
+  isSessionCapStricter,
+  isStrictActive,
+} from '../src/features/strict/policy';
+import { parseStrictEnd } from '../src/features/strict/strictMode';
+
+const MINUTE = 60 * 1000;
+const NOW = new Date(2026, 2, 9, 20, 0).getTime();
+const UNTIL = NOW + 60 * MINUTE;
+
+describe('strict mode policy', () => {
+  it('allows everything when strict mode is off or over', () => {
+    expect(checkPolicy({ type: 'removeApp' }, null, NOW).allowed).toBe(true);
+    expect(checkPolicy({ type: 'stopService' }, NOW - MINUTE, NOW).allowed).toBe(true);
+    expect(isStrictActive(UNTIL, UNTIL)).toBe(false);
+  });
+
+  it('allows adding and lowering limits but not raising or removing them', () => {
+    const setLimit = (previousMs: number | undefined, nextMs: number) =>
+      checkPolicy({ type: 'setLimit', previousMs, nextMs }, UNTIL, NOW);
+    expect(setLimit(undefined, 30 * MINUTE).allowed).toBe(true);
+    expect(setLimit(60 * MINUTE, 30 * MINUTE).allowed).toBe(true);
+    expect(setLimit(30 * MINUTE, 60 * MINUTE).allowed).toBe(false);
+    expect(checkPolicy({ type: 'removeLimit' }, UNTIL, NOW).allowed).toBe(false);
+  });
+
+  it('treats open limits like time limits', () => {
+    const setOpenLimit = (previous: number | undefined, next: number) =>
+      checkPolicy({ type: 'setOpenLimit', previous, next }, UNTIL, NOW);
+    expect(setOpenLimit(undefined, 10).allowed).toBe(true);
+    expect(setOpenLimit(10, 5).allowed).toBe(true);
+    expect(setOpenLimit(5, 10).allowed).toBe(false);
+    expect(checkPolicy({ type: 'removeOpenLimit' }, UNTIL, NOW).allowed).toBe(false);
+  });
+
+  it('only lets session caps get shorter with longer breaks', () => {
+    const cap = { maxSessionMinutes: 15, cooldownMinutes: 30 };
+    expect(isSessionCapStricter(undefined, cap)).toBe(true);
+    expect(isSessionCapStricter(cap, { maxSessionMinutes: 10, cooldownMinutes: 45 })).toBe(true);
+    expect(isSessionCapStricter(cap, { maxSessionMinutes: 20, cooldownMinutes: 30 })).toBe(false);
+    expect(isSessionCapStricter(cap, { maxSessionMinutes: 15, cooldownMinutes: 10 })).toBe(false);
+    expect(checkPolicy({ type: 'removeSessionCap' }, UNTIL, NOW).allowed).toBe(false);
+  });
+
+  it('only lets grace extensions get fewer and shorter', () => {
+    const grace = { extensionsPerDay: 2, extensionMinutes: 5 };
+    expect(isGraceStricter(grace, { extensionsPerDay: 1, extensionMinutes: 5 })).toBe(true);
+    expect(isGraceStricter(grace, { extensionsPerDay: 3, extensionMinutes: 5 })).toBe(false);
+    expect(isGraceStricter(grace, { extensionsPerDay: 2, extensionMinutes: 10 })).toBe(false);
+    expect(checkPolicy({ type: 'removeGrace' }, UNTIL, NOW).allowed).toBe(true);
+  });
+
+  it('treats an app without grace as having no extensions', () => {
+    const setGrace = checkPolicy(
+      { type: 'setGrace', previous: undefined, next: { extensionsPerDay: 10, extensionMinutes: 60 } },
+      UNTIL,
+      NOW,
+    );
+    expect(setGrace.allowed).toBe(false);
+    expect(isGraceStricter(undefined, { extensionsPerDay: 0, extensionMinutes: 0 })).toBe(true);
+  });
+
+  it('lets apps move towards the block list only', () => {
+    expect(isListChangeStricter(null, 'block')).toBe(true);
+    expect(isListChangeStricter('allow', null)).toBe(true);
+    expect(isListChangeStricter('block', null)).toBe(false);
+    expect(isListChangeStricter(null, 'allow')).toBe(false);
+    const unblock = checkPolicy({ type: 'setAppList', previous: 'block', next: null }, UNTIL, NOW);
+    expect(unblock.allowed).toBe(false);
+  });
+
+  it('refuses deselecting apps and stopping the service with a reason', () => {
+    const decision = checkPolicy({ type: 'removeApp' }, UNTIL, NOW);
+    expect(decision.allowed).toBe(false);
+    expect(decision.reason).toBeTruthy();
+    expect(checkPolicy({ type: 'stopService' }, UNTIL, NOW).allowed).toBe(false);
+  });
+
+  it('keeps the day start hour until strict mode ends', () => {
+    expect(checkPolicy({ type: 'setDayStartHour' }, UNTIL, NOW).allowed).toBe(false);
+    expect(checkPolicy({ type: 'setDayStartHour' }, null, NOW).allowed).toBe(true);
+  });
+
+  it('only lets strict mode be extended', () => {
+    const extend = (nextEndsAt: number) =>
+      checkPolicy({ type: 'setStrictMode', previousEndsAt: UNTIL, nextEndsAt }, UNTIL, NOW);
+    expect(extend(UNTIL + MINUTE).allowed).toBe(true);
+    expect(extend(UNTIL - MINUTE).allowed).toBe(false);
+  });
+
+  it('keeps blocked windows and caps overrides at the daily limit', () => {
+    const window = { startMinute: 22 * 60, endMinute: 7 * 60 };
+    const previous = { blockedWindows: [window] };
+    expect(isScheduleStricter(previous, { blockedWindows: [] }, 60 * MINUTE)).toBe(false);
+    expect(
+      isScheduleStricter(previous, { weekendLimitMs: 30 * MINUTE, blockedWindows: [window] }, 60 * MINUTE),
+    ).toBe(true);
+    expect(
+      isScheduleStricter(previous, { weekendLimitMs: 90 * MINUTE, blockedWindows: [window] }, 60 * MINUTE),
+    ).toBe(false);
+  });
+});
+
+describe('parseStrictEnd', () => {
+  it('parses a future local time', () => {
+    expect(parseStrictEnd('2026-03-10 18:30', NOW)).toBe(new Date(2026, 2, 10, 18, 30).getTime());
+  });
+
+  it('rejects past, malformed and impossible times', () => {
+    expect(parseStrictEnd('2026-03-09 19:00', NOW)).toBeNull();
+    expect(parseStrictEnd('tomorrow', NOW)).toBeNull();
+    expect(parseStrictEnd('2026-02-31 10:00', NOW)).toBeNull();
+    expect(parseStrictEnd('2026-03-10 25:00', NOW)).toBeNull();
+  });
+});
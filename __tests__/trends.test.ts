@@ -0,0 +1,75 @@
+/**
+ * @format
+ */
+
+import { computeTrend } from '../src/features/stats/trends';
+
+const MINUTE = 60 * 1000;
+
+describe('computeTrend', () => {
+  const todayKey = '2026-03-10';
+  const history = {
+    '2026-03-05': { 'com.a': 50 * MINUTE, 'com.b': 5 * MINUTE },
+    '2026-03-07': { 'com.a': 20 * MINUTE },
+    '2026-03-08': { 'com.a': 10 * MINUTE, 'com.b': 30 * MINUTE },
+    '2026-03-09': { 'com.a': 25 * MINUTE },
+    '2026-03-10': { 'com.a': 5 * MINUTE },
+  };
+  const limits = { 'com.a': 30 * MINUTE };
+
+  test('builds one bar per day ending today', () => {
+    const trend = computeTrend(history, ['com.a'], limits, {}, 7, todayKey);
+    expect(trend.days.map((day) => day.dayKey)).toEqual([
+      '2026-03-04',
+      '2026-03-05',
+      '2026-03-06',
+      '2026-03-07',
+      '2026-03-08',
+      '2026-03-09',
+      '2026-03-10',
+    ]);
+    expect(trend.maxUsageMs).toBe(50 * MINUTE);
+  });
+
+  test('ignores days without data for average and best/worst', () => {
+    const trend = computeTrend(history, ['com.a'], limits, {}, 7, todayKey);
+    expect(trend.averageMs).toBe(22 * MINUTE);
+    expect(trend.bestDay?.dayKey).toBe('2026-03-10');
+    expect(trend.worstDay?.dayKey).toBe('2026-03-05');
+  });
+
+  test('counts the streak of days under limit ending today', () => {
+    const trend = computeTrend(history, ['com.a'], limits, {}, 7, todayKey);
+    expect(trend.streakDays).toBe(4);
+    expect(trend.days[1].underLimit).toBe(false);
+  });
+
+  test('aggregates usage across apps and only checks apps with limits', () => {
+    const trend = computeTrend(history, ['com.a', 'com.b'], limits, {}, 7, todayKey);
+    expect(trend.days[4].usageMs).toBe(40 * MINUTE);
+    expect(trend.days[4].underLimit).toBe(true);
+  });
+
+  test('checks each day against its weekday or weekend budget', () => {
+    // 2026-03-07/08 are a weekend
+    const schedules = { 'com.a': { weekendLimitMs: 15 * MINUTE, blockedWindows: [] } };
+    const trend = computeTrend(history, ['com.a'], limits, schedules, 7, todayKey);
+    expect(trend.days[3].underLimit).toBe(false);
+    expect(trend.days[4].underLimit).toBe(true);
+    expect(trend.streakDays).toBe(3);
+  });
+
+  test('counts an app limited only at weekends on those days', () => {
+    const schedules = { 'com.b': { weekendLimitMs: 20 * MINUTE, blockedWindows: [] } };
+    const trend = computeTrend(history, ['com.b'], {}, schedules, 7, todayKey);
+    expect(trend.days[4].underLimit).toBe(false);
+    expect(trend.days[1].underLimit).toBeNull();
+  });
+
+  test('has no limit status when no app has a limit', () => {
+    const trend = computeTrend(history, ['com.b'], limits, {}, 30, todayKey);
+    expect(trend.days).toHaveLength(30);
+    expect(trend.days.every((day) => day.underLimit === null)).toBe(true);
+    expect(trend.streakDays).toBe(0);
+  });
+});
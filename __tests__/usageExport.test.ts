@@ -0,0 +1,97 @@
+/**
+ * @format
+ */
+
+import {
+  buildUsageRows,
+  escapeCsvField,
+  getExportRange,
+  isValidDayKey,
+  toCsv,
+  toJson,
+} from '../src/features/stats/usageExport';
+
+const MINUTE = 60 * 1000;
+
+describe('usage export', () => {
+  // 2026-03-06 is a Friday, 2026-03-07 a Saturday
+  const history = {
+    '2026-03-06': { 'com.a': 45 * MINUTE, 'com.b': 90 * 1000 },
+    '2026-03-07': { 'com.a': 20 * MINUTE },
+  };
+  const apps = [
+    { packageName: 'com.a', appName: 'Insta, gram' },
+    { packageName: 'com.b', appName: 'Other' },
+  ];
+  const limits = { 'com.a': 30 * MINUTE };
+  const schedules = { 'com.a': { weekendLimitMs: 15 * MINUTE, blockedWindows: [] } };
+
+  test('builds one row per app and day with data, using that day’s limit', () => {
+    const rows = buildUsageRows(history, apps, limits, schedules, '2026-03-05', '2026-03-07');
+    expect(rows).toEqual([
+      {
+        date: '2026-03-06',
+        packageName: 'com.a',
+        appName: 'Insta, gram',
+        usageMinutes: 45,
+        limitMinutes: 30,
+        limitHit: true,
+      },
+      {
+        date: '2026-03-06',
+        packageName: 'com.b',
+        appName: 'Other',
+        usageMinutes: 1.5,
+        limitMinutes: null,
+        limitHit: null,
+      },
+      {
+        date: '2026-03-07',
+        packageName: 'com.a',
+        appName: 'Insta, gram',
+        usageMinutes: 20,
+        limitMinutes: 15,
+        limitHit: true,
+      },
+      {
+        date: '2026-03-07',
+        packageName: 'com.b',
+        appName: 'Other',
+        usageMinutes: 0,
+        limitMinutes: null,
+        limitHit: null,
+      },
+    ]);
+  });
+
+  test('writes CSV with a header and quoted fields', () => {
+    const rows = buildUsageRows(history, apps, limits, schedules, '2026-03-06', '2026-03-06');
+    expect(toCsv(rows).split('\n')).toEqual([
+      'date,package,app,usage_minutes,limit_minutes,limit_hit',
+      '2026-03-06,com.a,"Insta, gram",45,30,true',
+      '2026-03-06,com.b,Other,1.5,,',
+    ]);
+    expect(escapeCsvField('say "hi"')).toBe('"say ""hi"""');
+  });
+
+  test('keeps formula-like app names as text', () => {
+    expect(escapeCsvField('=HYPERLINK("x")')).toBe(`"'=HYPERLINK(""x"")"`);
+    expect(escapeCsvField('@Home')).toBe("'@Home");
+    expect(escapeCsvField('+1 Fitness')).toBe("'+1 Fitness");
+    expect(escapeCsvField('-')).toBe("'-");
+  });
+
+  test('writes JSON with the range', () => {
+    const rows = buildUsageRows(history, apps, limits, schedules, '2026-03-07', '2026-03-07');
+    const parsed = JSON.parse(toJson(rows, '2026-03-07', '2026-03-07'));
+    expect(parsed.from).toBe('2026-03-07');
+    expect(parsed.rows).toHaveLength(2);
+  });
+
+  test('ranges end today and day keys are validated', () => {
+    expect(getExportRange(7, '2026-03-10')).toEqual({ fromKey: '2026-03-04', toKey: '2026-03-10' });
+    expect(isValidDayKey('2026-02-28')).toBe(true);
+    expect(isValidDayKey('2026-02-30')).toBe(false);
+    expect(isValidDayKey('2026-3-1')).toBe(false);
+  });
+});
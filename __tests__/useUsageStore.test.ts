@@ -0,0 +1,196 @@
+/**
+ * @format
+ */
+
+import { useUsageStore } from '../src/stores/useUsageStore';
+import UsageStatsModule from '../src/native/UsageStatsModule';
+import { getDaysToBackfill, pruneHistory, HISTORY_DAYS } from '../src/utils/usageHistory';
+import { addDays, getDayKey } from '../src/utils/dates';
+
+jest.mock('../src/native/NativeUsageStatsModule');
+
+const { setMockSessions } = jest.requireMock<
+  typeof import('../src/native/__mocks__/NativeUsageStatsModule')
+>('../src/native/NativeUsageStatsModule');
+
+const HOUR = 60 * 60 * 1000;
+const MINUTE = 60 * 1000;
+
+const at = (dayKey: string, hour: number, minute = 0): number => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return new Date(year, month - 1, day, hour, minute).getTime();
+};
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.clearAllMocks();
+  useUsageStore.setState({
+    todayUsage: {},
+    yesterdayUsage: {},
+    history: {},
+    todayOpens: {},
+    lastUpdated: null,
+  });
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('getDaysToBackfill', () => {
+  const now = at('2026-03-10', 12);
+
+  test('re-queries the partially captured last refresh day and days after it', () => {
+    const history = { '2026-03-07': { app: 1 } };
+    expect(getDaysToBackfill(at('2026-03-07', 9), now, history)).toEqual([
+      '2026-03-07',
+      '2026-03-08',
+      '2026-03-09',
+    ]);
+  });
+
+  test('only asks for yesterday when it is missing after a same-day refresh', () => {
+    expect(getDaysToBackfill(at('2026-03-10', 8), now, {})).toEqual(['2026-03-09']);
+    expect(getDaysToBackfill(at('2026-03-10', 8), now, { '2026-03-09': {} })).toEqual([]);
+  });
+
+  test('caps back-fill on a fresh install to the event retention window', () => {
+    const days = getDaysToBackfill(null, now, {});
+    expect(days[0]).toBe('2026-03-03');
+    expect(days[days.length - 1]).toBe('2026-03-09');
+    expect(days).toHaveLength(7);
+  });
+});
+
+describe('pruneHistory', () => {
+  test('keeps a rolling window ending today', () => {
+    const todayKey = '2026-03-10';
+    const oldest = addDays(todayKey, -(HISTORY_DAYS - 1));
+    const pruned = pruneHistory(
+      {
+        [addDays(oldest, -1)]: { app: 1 },
+        [oldest]: { app: 2 },
+        [todayKey]: { app: 3 },
+      },
+      todayKey,
+    );
+    expect(Object.keys(pruned).sort()).toEqual([oldest, todayKey]);
+  });
+});
+
+describe('useUsageStore.refreshUsage', () => {
+  test('splits a session crossing midnight between calendar days', async () => {
+    jest.setSystemTime(at('2026-03-10', 12));
+    setMockSessions([
+      { packageName: 'com.social', startMs: at('2026-03-09', 23, 30), endMs: at('2026-03-10', 0, 45) },
+    ]);
+
+    await useUsageStore.getState().refreshUsage();
+
+    const state = useUsageStore.getState();
+    expect(state.getTodayUsage('com.social')).toBe(45 * MINUTE);
+    expect(state.getYesterdayUsage('com.social')).toBe(30 * MINUTE);
+    expect(state.getUsageForDay('2026-03-09', 'com.social')).toBe(30 * MINUTE);
+  });
+
+  test('compares against the real previous day after a rollover', async () => {
+    setMockSessions([
+      { packageName: 'com.video', startMs: at('2026-03-09', 10), endMs: at('2026-03-09', 11) },
+      { packageName: 'com.video', startMs: at('2026-03-09', 21), endMs: at('2026-03-09', 22) },
+      { packageName: 'com.video', startMs: at('2026-03-10', 9), endMs: at('2026-03-10', 9, 30) },
+    ]);
+
+    // First refresh mid-morning only saw the first hour of the 9th
+    jest.setSystemTime(at('2026-03-09', 12));
+    await useUsageStore.getState().refreshUsage();
+    expect(useUsageStore.getState().getTodayUsage('com.video')).toBe(HOUR);
+
+    jest.setSystemTime(at('2026-03-10', 10));
+    await useUsageStore.getState().refreshUsage();
+
+    const state = useUsageStore.getState();
+    expect(state.getYesterdayUsage('com.video')).toBe(2 * HOUR);
+    expect(state.getTodayUsage('com.video')).toBe(30 * MINUTE);
+    expect(state.getTimeSaved('com.video')).toBe(90 * MINUTE);
+  });
+
+  test('back-fills days when the app was not opened', async () => {
+    setMockSessions([
+      { packageName: 'com.game', startMs: at('2026-03-06', 20), endMs: at('2026-03-06', 21) },
+      { packageName: 'com.game', startMs: at('2026-03-08', 20), endMs: at('2026-03-08', 22) },
+    ]);
+
+    jest.setSystemTime(at('2026-03-05', 12));
+    await useUsageStore.getState().refreshUsage();
+
+    jest.setSystemTime(at('2026-03-10', 12));
+    await useUsageStore.getState().refreshUsage();
+
+    const state = useUsageStore.getState();
+    expect(state.getUsageForDay('2026-03-06', 'com.game')).toBe(HOUR);
+    expect(state.getUsageForDay('2026-03-07', 'com.game')).toBe(0);
+    expect(state.getUsageForDay('2026-03-08', 'com.game')).toBe(2 * HOUR);
+    expect(state.history['2026-03-07']).toEqual({});
+    expect(getDayKey(state.lastUpdated!)).toBe('2026-03-10');
+    expect(UsageStatsModule!.getUsageStatsForRange).toHaveBeenCalledWith(
+      at('2026-03-07', 0),
+      at('2026-03-08', 0),
+    );
+  });
+});
+
+describe('useUsageStore.getTodayOpens', () => {
+  test('counts opens since the start of today only', async () => {
+    jest.setSystemTime(at('2026-03-10', 12));
+    setMockSessions([
+      { packageName: 'com.chat', startMs: at('2026-03-09', 23), endMs: at('2026-03-09', 23, 5) },
+      { packageName: 'com.chat', startMs: at('2026-03-10', 8), endMs: at('2026-03-10', 8, 5) },
+      { packageName: 'com.chat', startMs: at('2026-03-10', 9), endMs: at('2026-03-10', 9, 5) },
+    ]);
+
+    await useUsageStore.getState().refreshUsage();
+    expect(useUsageStore.getState().getTodayOpens('com.chat')).toBe(2);
+    expect(useUsageStore.getState().getTodayOpens('com.other')).toBe(0);
+  });
+
+  test('forgets the count once the day rolls over', async () => {
+    jest.setSystemTime(at('2026-03-10', 12));
+    setMockSessions([
+      { packageName: 'com.chat', startMs: at('2026-03-10', 8), endMs: at('2026-03-10', 8, 5) },
+    ]);
+    await useUsageStore.getState().refreshUsage();
+
+    jest.setSystemTime(at('2026-03-11', 9));
+    expect(useUsageStore.getState().getTodayOpens('com.chat')).toBe(0);
+  });
+});
+
+describe('UsageStatsModule.getAppUsageForRange', () => {
+  test('clips one app to the range and ignores the others', async () => {
+    setMockSessions([
+      { packageName: 'com.video', appName: 'Video', startMs: at('2026-03-09', 23), endMs: at('2026-03-10', 1) },
+      { packageName: 'com.video', appName: 'Video', startMs: at('2026-03-10', 20), endMs: at('2026-03-10', 21) },
+      { packageName: 'com.chat', startMs: at('2026-03-10', 9), endMs: at('2026-03-10', 10) },
+    ]);
+
+    const stat = await UsageStatsModule!.getAppUsageForRange(
+      'com.video',
+      at('2026-03-10', 0),
+      at('2026-03-11', 0),
+    );
+    expect(stat).toEqual({ packageName: 'com.video', appName: 'Video', totalTimeInForeground: 2 * HOUR });
+  });
+
+  test('is null for an app without usage in the range', async () => {
+    setMockSessions([
+      { packageName: 'com.video', startMs: at('2026-03-09', 20), endMs: at('2026-03-09', 21) },
+    ]);
+
+    const stat = await UsageStatsModule!.getAppUsageForRange(
+      'com.video',
+      at('2026-03-10', 0),
+      at('2026-03-11', 0),
+    );
+    expect(stat).toBeNull();
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * @format
+ */
+
+import { DEFAULT_WARNING_SETTINGS, getWarningPoints } from '../src/features/limits/warnings';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+describe('getWarningPoints', () => {
+  it('places both defaults, earliest first', () => {
+    expect(getWarningPoints(DEFAULT_WARNING_SETTINGS, HOUR)).toEqual([
+      { threshold: 'percent', atUsageMs: 48 * MINUTE },
+      { threshold: 'minutesLeft', atUsageMs: 55 * MINUTE },
+    ]);
+  });
+
+  it('orders by usage when the time-left warning comes first', () => {
+    const points = getWarningPoints({ percent: 90, minutesLeft: 15 }, HOUR);
+    expect(points.map((point) => point.threshold)).toEqual(['minutesLeft', 'percent']);
+  });
+
+  it('skips thresholds that are off', () => {
+    expect(getWarningPoints({ percent: null, minutesLeft: 5 }, HOUR)).toEqual([
+      { threshold: 'minutesLeft', atUsageMs: 55 * MINUTE },
+    ]);
+    expect(getWarningPoints({ percent: null, minutesLeft: null }, HOUR)).toEqual([]);
+  });
+
+  it('skips a time-left warning that would fire before any use', () => {
+    expect(getWarningPoints({ percent: null, minutesLeft: 10 }, 5 * MINUTE)).toEqual([]);
+  });
+
+  it('has no points without a limit', () => {
+    expect(getWarningPoints(DEFAULT_WARNING_SETTINGS, 0)).toEqual([]);
+  });
+});
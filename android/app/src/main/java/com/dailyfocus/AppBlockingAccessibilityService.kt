@@ -3,13 +3,13 @@ package com.dailyfocus
 import android.accessibilityservice.AccessibilityService
 import android.accessibilityservice.AccessibilityServiceInfo
 import android.app.usage.UsageStatsManager
+import android.content.ComponentName
 import android.content.Context
 import android.content.Intent
 import android.content.SharedPreferences
+import android.content.pm.PackageManager
 import android.util.Log
 import android.view.accessibility.AccessibilityEvent
-import org.json.JSONArray
-import org.json.JSONObject
 
 /**
  * App Blocking Accessibility Service
@@ -21,6 +21,12 @@ import org.json.JSONObject
  * 2. Checks if the app should be blocked
  * 3. If blocked, immediately brings Boundly to foreground
  * 4. This effectively prevents the blocked app from being used
+ * 5. Publishes every change to ForegroundAppEvents, which drives BlockingService
+ *    and the JS listener instead of polling
+ *
+ * Only windows that belong to an activity count as an app change - keyboards,
+ * the notification shade and other overlays also fire window events but leave
+ * the app underneath in the foreground.
  * 
  * Requirements:
  * - User must enable this service in Settings > Accessibility
@@ -31,10 +37,11 @@ class AppBlockingAccessibilityService : AccessibilityService() {
     companion object {
         private const val TAG = "AppBlockingAccessibility"
         private const val PREFS_NAME = "blocking_config"
-        private const val KEY_SELECTED_APPS = "selected_apps"
-        private const val KEY_LIMITS = "limits"
     }
     
+    // "package/class" -> whether that window is an activity, resolved once per component
+    private val activityWindows = HashMap<String, Boolean>()
+    
     override fun onServiceConnected() {
         super.onServiceConnected()
         Log.d(TAG, "AccessibilityService connected")
@@ -47,6 +54,7 @@ class AppBlockingAccessibilityService : AccessibilityService() {
             notificationTimeout = 0
         }
         setServiceInfo(info)
+        ForegroundAppEvents.setConnected(true)
     }
     
     override fun onAccessibilityEvent(event: AccessibilityEvent?) {
@@ -55,8 +63,15 @@ class AppBlockingAccessibilityService : AccessibilityService() {
         try {
             // Only process window state changes (app launches/switches)
             if (event.eventType == AccessibilityEvent.TYPE_WINDOW_STATE_CHANGED) {
-                val packageName = event.packageName?.toString()
-                if (packageName == null || packageName == this.packageName) {
+                val packageName = event.packageName?.toString() ?: return
+                val className = event.className?.toString() ?: return
+                if (!isActivityWindow(packageName, className)) {
+                    return // IME, system UI or another overlay - the app below stays in front
+                }
+                // Published before skipping our own app, so returning to the
+                // previous app after Boundly still counts as a change
+                ForegroundAppEvents.publish(packageName)
+                if (packageName == this.packageName) {
                     return // Skip our own app
                 }
                 
@@ -73,70 +88,133 @@ class AppBlockingAccessibilityService : AccessibilityService() {
         }
     }
     
+    private fun isActivityWindow(packageName: String, className: String): Boolean {
+        val key = "$packageName/$className"
+        return activityWindows.getOrPut(key) {
+            try {
+                packageManager.getActivityInfo(ComponentName(packageName, className), 0)
+                true
+            } catch (e: PackageManager.NameNotFoundException) {
+                false
+            }
+        }
+    }
+    
     override fun onInterrupt() {
         Log.d(TAG, "AccessibilityService interrupted")
     }
     
+    override fun onUnbind(intent: Intent?): Boolean {
+        ForegroundAppEvents.setConnected(false)
+        return super.onUnbind(intent)
+    }
+    
     private fun shouldBlockApp(packageName: String): Boolean {
         return try {
             val prefs = applicationContext.getSharedPreferences(PREFS_NAME, Context.MODE_PRIVATE)
-            val selectedAppsJson = prefs.getString(KEY_SELECTED_APPS, "[]") ?: "[]"
-            val limitsJson = prefs.getString(KEY_LIMITS, "{}") ?: "{}"
+            val config = BlockingConfigStore.read(prefs)
+            
+            // The lists come first: allowed apps are never blocked, blocked apps always are
+            when (AppLists.listFor(config, packageName, applicationContext.packageName)) {
+                AppList.ALLOW -> return false
+                AppList.BLOCK -> return true
+                null -> {}
+            }
             
-            // Parse JSON
-            val selectedApps = parseStringArray(selectedAppsJson)
-            val limits = parseLimitsMap(limitsJson)
+            // Focus sessions and pomodoro work phases block their apps regardless of usage
+            val focus = FocusSessions.read(prefs)
+            if (focus != null && focus.packageNames.contains(packageName)) {
+                return true
+            }
+            val pomodoro = Pomodoro.read(prefs)
+            if (pomodoro != null && Pomodoro.isBlocked(pomodoro, packageName, System.currentTimeMillis())) {
+                return true
+            }
             
             // Check if app is selected
-            if (!selectedApps.contains(packageName)) {
+            if (!config.selectedApps.contains(packageName)) {
+                return false
+            }
+            
+            // A granted grace extension suspends limits until it runs out
+            if (GraceExtensions.isExtended(prefs, packageName)) {
                 return false
             }
             
-            // Check if limit is set
-            val limitMs = limits[packageName] ?: return false
-            if (limitMs <= 0) {
+            // Check if a rule or a group budget is set
+            val rule = config.limits[packageName]
+            val groups = AppGroups.groupsForApp(packageName, config.groups)
+            val now = java.util.Calendar.getInstance()
+            val dayStartHour = config.dayStartHour
+            val day = DayBoundary.dayDate(dayStartHour, now.timeInMillis)
+            val limitMs = rule?.let { LimitRules.effectiveLimitMs(it, day) } ?: 0L
+            val hasOwnRule = rule != null &&
+                (limitMs > 0 || rule.blockedWindows.isNotEmpty() || LimitRules.hasOpenLimit(rule) ||
+                    SessionCaps.isEnabled(rule.sessionCap))
+            if (!hasOwnRule && groups.none { it.limitMs > 0 }) {
                 return false
             }
             
             // Get current usage
-            val usageMs = getCurrentUsage(packageName)
+            val usageMs = getCurrentUsage(packageName, dayStartHour)
             
             Log.d(TAG, "Checking app: $packageName, usage: ${usageMs}ms, limit: ${limitMs}ms")
             
-            usageMs >= limitMs
+            if (rule != null && LimitRules.isBlocked(rule, usageMs, now, dayStartHour)) {
+                return true
+            }
+            if (rule != null && LimitRules.isOverOpens(rule, getOpensToday(packageName, dayStartHour))) {
+                return true
+            }
+            // Sessions are timed by BlockingService - only a running cooldown is checked here
+            if (SessionCaps.isEnabled(rule?.sessionCap) && SessionCaps.cooldownUntil(prefs, packageName) > 0) {
+                return true
+            }
+            AppGroups.findExhaustedGroup(packageName, groups) { getCurrentUsage(it, dayStartHour) } != null
         } catch (e: Exception) {
             Log.e(TAG, "Error checking if should block: ${e.message}", e)
             false
         }
     }
     
-    private fun getCurrentUsage(packageName: String): Long {
+    /**
+     * Usage since the day start hour - from events, as queryUsageStats buckets
+     * always start at midnight
+     */
+    private fun getCurrentUsage(packageName: String, dayStartHour: Int): Long {
         return try {
             val usageStatsManager = getSystemService(Context.USAGE_STATS_SERVICE) as? UsageStatsManager
                 ?: return 0L
             
-            val calendar = java.util.Calendar.getInstance()
-            calendar.set(java.util.Calendar.HOUR_OF_DAY, 0)
-            calendar.set(java.util.Calendar.MINUTE, 0)
-            calendar.set(java.util.Calendar.SECOND, 0)
-            calendar.set(java.util.Calendar.MILLISECOND, 0)
-            val startTime = calendar.timeInMillis
-            val endTime = System.currentTimeMillis()
-            
-            val stats = usageStatsManager.queryUsageStats(
-                UsageStatsManager.INTERVAL_DAILY,
-                startTime,
-                endTime
-            ) ?: return 0L
-            
-            val appStat = stats.find { it.packageName == packageName }
-            appStat?.totalTimeInForeground ?: 0L
+            val totals = UsageEventsAggregator.computeForegroundTimes(
+                usageStatsManager,
+                DayBoundary.dayStartMs(dayStartHour),
+                System.currentTimeMillis()
+            )
+            totals[packageName] ?: 0L
         } catch (e: Exception) {
             Log.e(TAG, "Error getting current usage: ${e.message}")
             0L
         }
     }
     
+    private fun getOpensToday(packageName: String, dayStartHour: Int): Int {
+        return try {
+            val usageStatsManager = getSystemService(Context.USAGE_STATS_SERVICE) as? UsageStatsManager
+                ?: return 0
+            
+            val counts = UsageEventsAggregator.countOpens(
+                usageStatsManager,
+                DayBoundary.dayStartMs(dayStartHour),
+                System.currentTimeMillis()
+            )
+            counts[packageName] ?: 0
+        } catch (e: Exception) {
+            Log.e(TAG, "Error counting opens: ${e.message}")
+            0
+        }
+    }
+    
     private fun blockApp(packageName: String) {
         try {
             // Immediately bring Boundly to foreground
@@ -156,36 +234,4 @@ class AppBlockingAccessibilityService : AccessibilityService() {
             Log.e(TAG, "Error blocking app: ${e.message}", e)
         }
     }
-    
-    // JSON parsing helpers
-    private fun parseStringArray(json: String): Set<String> {
-        return try {
-            val jsonArray = JSONArray(json)
-            val result = mutableSetOf<String>()
-            for (i in 0 until jsonArray.length()) {
-                result.add(jsonArray.getString(i))
-            }
-            result
-        } catch (e: Exception) {
-            Log.e(TAG, "Error parsing selected apps: ${e.message}")
-            emptySet()
-        }
-    }
-    
-    private fun parseLimitsMap(json: String): Map<String, Long> {
-        return try {
-            val jsonObject = JSONObject(json)
-            val result = mutableMapOf<String, Long>()
-            val keys = jsonObject.keys()
-            while (keys.hasNext()) {
-                val key = keys.next()
-                result[key] = jsonObject.getLong(key)
-            }
-            result
-        } catch (e: Exception) {
-            Log.e(TAG, "Error parsing limits: ${e.message}")
-            emptyMap()
-        }
-    }
 }
-
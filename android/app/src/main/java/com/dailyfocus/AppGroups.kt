@@ -0,0 +1,76 @@
+package com.dailyfocus
+
+import android.util.Log
+import org.json.JSONArray
+import org.json.JSONObject
+
+/**
+ * App Groups
+ *
+ * Named groups of apps sharing one combined daily budget.
+ * Every member is blocked once the summed usage reaches the group limit.
+ *
+ * Mirrors src/features/limits/groups.ts - keep the two in sync.
+ */
+data class AppGroupRule(
+    val id: String,
+    val name: String,
+    val packageNames: Set<String>,
+    val limitMs: Long
+)
+
+object AppGroups {
+    private const val TAG = "AppGroups"
+
+    fun groupsForApp(packageName: String, groups: List<AppGroupRule>): List<AppGroupRule> {
+        return groups.filter { it.packageNames.contains(packageName) }
+    }
+
+    /**
+     * First group containing the app whose combined budget is used up
+     * usageOf is called once per member package
+     */
+    fun findExhaustedGroup(
+        packageName: String,
+        groups: List<AppGroupRule>,
+        usageOf: (String) -> Long
+    ): Pair<AppGroupRule, Long>? {
+        for (group in groupsForApp(packageName, groups)) {
+            if (group.limitMs <= 0) {
+                continue
+            }
+            val usageMs = group.packageNames.sumOf { usageOf(it) }
+            if (usageMs >= group.limitMs) {
+                return Pair(group, usageMs)
+            }
+        }
+        return null
+    }
+
+    /**
+     * Parse the groups JSON of installs from before BlockingConfig
+     */
+    fun parse(json: String): List<AppGroupRule> {
+        return try {
+            val jsonArray = JSONArray(json)
+            (0 until jsonArray.length()).map { fromJson(jsonArray.getJSONObject(it)) }
+        } catch (e: Exception) {
+            Log.e(TAG, "Error parsing groups: ${e.message}")
+            emptyList()
+        }
+    }
+
+    fun fromJson(group: JSONObject): AppGroupRule {
+        val members = group.optJSONArray("packageNames") ?: JSONArray()
+        val packageNames = mutableSetOf<String>()
+        for (i in 0 until members.length()) {
+            packageNames.add(members.getString(i))
+        }
+        return AppGroupRule(
+            id = group.getString("id"),
+            name = group.optString("name", ""),
+            packageNames = packageNames,
+            limitMs = group.optLong("limitMs", 0L)
+        )
+    }
+}
@@ -0,0 +1,26 @@
+package com.dailyfocus
+
+/**
+ * App Lists
+ *
+ * Always-allowed apps (phone, maps, banking) are never blocked, not even by
+ * focus sessions, pomodoro or group limits; always-blocked apps are blocked
+ * whatever else applies. Both services check the lists before any other
+ * rule, and Boundly itself counts as always allowed.
+ *
+ * Mirrors src/features/appSelection/appLists.ts - keep the two in sync.
+ */
+enum class AppList { ALLOW, BLOCK }
+
+object AppLists {
+    /**
+     * The app's list, null when the usual rules decide
+     */
+    fun listFor(config: BlockingConfig, packageName: String, ownPackageName: String): AppList? {
+        return when {
+            packageName == ownPackageName || config.allowedApps.contains(packageName) -> AppList.ALLOW
+            config.blockedApps.contains(packageName) -> AppList.BLOCK
+            else -> null
+        }
+    }
+}
@@ -0,0 +1,109 @@
+package com.dailyfocus
+
+import android.content.SharedPreferences
+import android.util.Log
+import org.json.JSONArray
+import org.json.JSONObject
+
+/**
+ * Block Events
+ *
+ * Log of every time BlockingService blocked an app, with what the user did
+ * about it - the "attempts" behind the stats screen. Kept on the device only
+ * and capped, oldest events dropped first.
+ *
+ * An event starts out "blocked" and is answered once: "dismissed" from the
+ * blocking screen, or "extended" when a grace extension is granted.
+ *
+ * Read in JS by src/features/stats/blockEvents.ts - keep the two in sync.
+ */
+data class BlockEvent(
+    val packageName: String,
+    val timestampMs: Long,
+    val usageMs: Long,
+    val limitMs: Long, // 0 for focus sessions and pomodoro
+    val outcome: String
+)
+
+object BlockEvents {
+    const val OUTCOME_BLOCKED = "blocked"
+    const val OUTCOME_DISMISSED = "dismissed"
+    const val OUTCOME_EXTENDED = "extended"
+
+    private const val TAG = "BlockEvents"
+    private const val KEY_EVENTS = "block_events"
+    private const val MAX_EVENTS = 500
+    // Checks repeat every 2 seconds until Boundly is in front - one open is one event
+    private const val REPEAT_WINDOW_MS = 10_000L
+
+    fun append(
+        prefs: SharedPreferences,
+        packageName: String,
+        usageMs: Long,
+        limitMs: Long,
+        nowMs: Long = System.currentTimeMillis()
+    ) {
+        val events = read(prefs).toMutableList()
+        val last = events.lastOrNull { it.packageName == packageName }
+        if (last != null && last.outcome == OUTCOME_BLOCKED && nowMs - last.timestampMs < REPEAT_WINDOW_MS) {
+            return
+        }
+        events.add(BlockEvent(packageName, nowMs, usageMs, limitMs, OUTCOME_BLOCKED))
+        save(prefs, events.takeLast(MAX_EVENTS))
+    }
+
+    /**
+     * Answer the app's latest unanswered event - a no-op when there is none
+     */
+    fun resolve(prefs: SharedPreferences, packageName: String, outcome: String) {
+        val events = read(prefs).toMutableList()
+        val index = events.indexOfLast { it.packageName == packageName }
+        if (index < 0 || events[index].outcome != OUTCOME_BLOCKED) {
+            return
+        }
+        events[index] = events[index].copy(outcome = outcome)
+        save(prefs, events)
+    }
+
+    /**
+     * Events at or after sinceMs, oldest first
+     */
+    fun readSince(prefs: SharedPreferences, sinceMs: Long): List<BlockEvent> {
+        return read(prefs).filter { it.timestampMs >= sinceMs }
+    }
+
+    private fun read(prefs: SharedPreferences): List<BlockEvent> {
+        val stored = prefs.getString(KEY_EVENTS, null) ?: return emptyList()
+        return try {
+            val json = JSONArray(stored)
+            (0 until json.length()).map { i ->
+                val event = json.getJSONObject(i)
+                BlockEvent(
+                    packageName = event.getString("packageName"),
+                    timestampMs = event.getLong("timestampMs"),
+                    usageMs = event.optLong("usageMs", 0L),
+                    limitMs = event.optLong("limitMs", 0L),
+                    outcome = event.optString("outcome", OUTCOME_BLOCKED)
+                )
+            }
+        } catch (e: Exception) {
+            Log.e(TAG, "Error reading block events: ${e.message}")
+            emptyList()
+        }
+    }
+
+    private fun save(prefs: SharedPreferences, events: List<BlockEvent>) {
+        val json = JSONArray()
+        for (event in events) {
+            json.put(
+                JSONObject()
+                    .put("packageName", event.packageName)
+                    .put("timestampMs", event.timestampMs)
+                    .put("usageMs", event.usageMs)
+                    .put("limitMs", event.limitMs)
+                    .put("outcome", event.outcome)
+            )
+        }
+        prefs.edit().putString(KEY_EVENTS, json.toString()).apply()
+    }
+}
@@ -0,0 +1,163 @@
+package com.dailyfocus
+
+import android.content.Context
+import android.content.SharedPreferences
+import android.util.Log
+import org.json.JSONArray
+import org.json.JSONObject
+
+/**
+ * Blocking Config
+ *
+ * The one document both blocking services enforce: tracked apps, their rules,
+ * the always-allowed and always-blocked lists, groups, warnings, the
+ * remaining-time pill and the day start hour. JS builds it from the stores
+ * and replaces it whole through applyBlockingConfig, so a service never sees
+ * half of an update.
+ *
+ * Installs from before the document still have the old per-field keys; they
+ * are read until the app starts and reconciles, which writes the document and
+ * removes them.
+ *
+ * Mirrors src/features/blocking/blockingConfig.ts - keep the two in sync.
+ */
+data class BlockingConfig(
+    val selectedApps: Set<String> = emptySet(),
+    val allowedApps: Set<String> = emptySet(),
+    val blockedApps: Set<String> = emptySet(),
+    val limits: Map<String, AppLimitRule> = emptyMap(),
+    val groups: List<AppGroupRule> = emptyList(),
+    val warnings: WarningSettings = WarningSettings(0, 0, emptySet()),
+    val overlayPill: Boolean = false,
+    val dayStartHour: Int = 0
+) {
+    /**
+     * Whether there are limits or always-blocked apps to enforce (focus time aside)
+     */
+    fun hasRules(): Boolean {
+        return blockedApps.isNotEmpty() ||
+            (selectedApps.isNotEmpty() && (limits.isNotEmpty() || groups.isNotEmpty()))
+    }
+}
+
+object BlockingConfigStore {
+    private const val TAG = "BlockingConfig"
+    private const val PREFS_NAME = "blocking_config"
+    private const val KEY_CONFIG = "config"
+
+    // Bump with a matching change in blockingConfig.ts
+    const val VERSION = 1
+
+    private const val LEGACY_SELECTED_APPS = "selected_apps"
+    private const val LEGACY_LIMITS = "limits"
+    private const val LEGACY_GROUPS = "groups"
+    private const val LEGACY_WARNINGS = "warnings"
+    private const val LEGACY_OVERLAY_PILL = "overlay_pill"
+    private const val LEGACY_DAY_START_HOUR = "day_start_hour"
+
+    /**
+     * The stored document as JS wrote it, for reconciliation
+     */
+    fun readJson(prefs: SharedPreferences): String? {
+        return prefs.getString(KEY_CONFIG, null)
+    }
+
+    fun read(prefs: SharedPreferences): BlockingConfig {
+        val json = readJson(prefs) ?: return readLegacy(prefs)
+        return try {
+            parse(json)
+        } catch (e: Exception) {
+            // Only documents that parsed are written, so this is a downgrade or corruption
+            Log.e(TAG, "Error parsing config: ${e.message}")
+            BlockingConfig()
+        }
+    }
+
+    fun read(context: Context): BlockingConfig {
+        return read(context.getSharedPreferences(PREFS_NAME, Context.MODE_PRIVATE))
+    }
+
+    /**
+     * Replace the document in one commit - throws, leaving the old one, when it doesn't parse
+     */
+    fun write(prefs: SharedPreferences, json: String) {
+        parse(json)
+        val committed = prefs.edit()
+            .putString(KEY_CONFIG, json)
+            .remove(LEGACY_SELECTED_APPS)
+            .remove(LEGACY_LIMITS)
+            .remove(LEGACY_GROUPS)
+            .remove(LEGACY_WARNINGS)
+            .remove(LEGACY_OVERLAY_PILL)
+            .remove(LEGACY_DAY_START_HOUR)
+            .commit()
+        if (!committed) {
+            throw IllegalStateException("Config could not be saved")
+        }
+    }
+
+    fun parse(json: String): BlockingConfig {
+        val config = JSONObject(json)
+        val version = config.getInt("version")
+        if (version != VERSION) {
+            throw IllegalArgumentException("Unsupported config version $version")
+        }
+
+        val appsArray = config.getJSONArray("selectedApps")
+        val selectedApps = (0 until appsArray.length()).map { appsArray.getString(it) }.toSet()
+
+        // Added after version 1 - documents from before the lists have neither
+        val allowedArray = config.optJSONArray("allowedApps") ?: JSONArray()
+        val allowedApps = (0 until allowedArray.length()).map { allowedArray.getString(it) }.toSet()
+        val blockedArray = config.optJSONArray("blockedApps") ?: JSONArray()
+        val blockedApps = (0 until blockedArray.length()).map { blockedArray.getString(it) }.toSet()
+
+        val limitsArray = config.getJSONArray("limits")
+        val limits = mutableMapOf<String, AppLimitRule>()
+        for (i in 0 until limitsArray.length()) {
+            val limit = limitsArray.getJSONObject(i)
+            limits[limit.getString("packageName")] = LimitRules.fromJson(limit)
+        }
+
+        val groupsArray = config.getJSONArray("groups")
+        val groups = (0 until groupsArray.length()).map { AppGroups.fromJson(groupsArray.getJSONObject(it)) }
+
+        val warnings = config.getJSONObject("warnings")
+        val disabledArray = warnings.getJSONArray("disabledPackageNames")
+        val disabled = (0 until disabledArray.length()).map { disabledArray.getString(it) }.toSet()
+
+        return BlockingConfig(
+            selectedApps = selectedApps,
+            allowedApps = allowedApps,
+            blockedApps = blockedApps,
+            limits = limits,
+            groups = groups,
+            warnings = WarningSettings(warnings.getInt("percent"), warnings.getInt("minutesLeft"), disabled),
+            overlayPill = config.getBoolean("overlayPill"),
+            dayStartHour = config.getInt("dayStartHour").coerceIn(0, 23)
+        )
+    }
+
+    private fun readLegacy(prefs: SharedPreferences): BlockingConfig {
+        return try {
+            val appsArray = JSONArray(prefs.getString(LEGACY_SELECTED_APPS, "[]") ?: "[]")
+            val warnings = prefs.getString(LEGACY_WARNINGS, null)?.let { JSONObject(it) }
+            val disabledArray = warnings?.optJSONArray("disabled") ?: JSONArray()
+            BlockingConfig(
+                selectedApps = (0 until appsArray.length()).map { appsArray.getString(it) }.toSet(),
+                limits = LimitRules.parse(prefs.getString(LEGACY_LIMITS, "{}") ?: "{}"),
+                groups = AppGroups.parse(prefs.getString(LEGACY_GROUPS, "[]") ?: "[]"),
+                warnings = WarningSettings(
+                    warnings?.optInt("percent", 0) ?: 0,
+                    warnings?.optInt("minutesLeft", 0) ?: 0,
+                    (0 until disabledArray.length()).map { disabledArray.getString(it) }.toSet()
+                ),
+                overlayPill = prefs.getBoolean(LEGACY_OVERLAY_PILL, false),
+                dayStartHour = prefs.getInt(LEGACY_DAY_START_HOUR, 0)
+            )
+        } catch (e: Exception) {
+            Log.e(TAG, "Error reading legacy config: ${e.message}")
+            BlockingConfig()
+        }
+    }
+}
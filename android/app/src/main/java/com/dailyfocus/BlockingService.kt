@@ -4,9 +4,11 @@ import android.app.*
 import android.app.usage.UsageStatsManager
 import android.content.Context
 import android.content.Intent
+import android.content.SharedPreferences
 import android.content.pm.PackageManager
 import android.os.Build
 import android.os.IBinder
+import android.os.PowerManager
 import android.util.Log
 import androidx.core.app.NotificationCompat
 import java.util.concurrent.Executors
@@ -20,24 +22,54 @@ import java.util.concurrent.TimeUnit
  * 
  * How it works:
  * 1. Runs as foreground service (with notification)
- * 2. Checks foreground app every 2 seconds
+ * 2. Checks the foreground app whenever ForegroundAppEvents reports a change
+ *    (published by the accessibility service), falling back to polling every
+ *    2 seconds when the accessibility service is off
  * 3. If blocked app detected, brings Boundly to foreground
- * 4. Uses UsageStatsManager to check current usage
+ * 4. Uses UsageStatsManager to check usage since the day start hour
+ *    (DayBoundary), plus the time of the current foreground session
+ *    (LiveUsage) as the system totals lag
+ * 5. During a focus session, blocks the session's apps regardless of usage
+ *    and shows the remaining time in the notification
+ * 6. During pomodoro work phases, blocks the cycle's apps; breaks release them
+ * 7. Posts a warning notification before an app's own limit is reached
+ *    (LimitWarnings), once per threshold and day
+ * 8. Times continuous sessions of capped apps and blocks them for a
+ *    cooldown once a session runs too long (SessionCaps)
+ * 9. Checks the always-allowed and always-blocked lists before anything
+ *    else (AppLists)
  * 
  * Battery Considerations:
- * - Uses efficient polling (2 seconds)
+ * - With events, only re-checks every 2 seconds while a monitored app is open
+ *   (its limit can run out without another event); otherwise every 30 seconds,
+ *   for the notification countdown and ending focus sessions
  * - Stops when no apps are being tracked
  * - Can be stopped by user
  */
 class BlockingService : Service() {
     private val executor = Executors.newSingleThreadScheduledExecutor()
     private var checkTask: ScheduledFuture<*>? = null
-    private val CHECK_INTERVAL_SECONDS = 2L
+    private val POLL_INTERVAL_SECONDS = 2L
+    private val IDLE_INTERVAL_SECONDS = 30L
+    @Volatile private var isMonitoring = false
+    // Foreground session of a monitored app - only touched on the executor thread
+    private var liveSession: LiveSession? = null
+    // Config and today's totals, read once per check - also executor thread only
+    private var config = BlockingConfig()
+    private var dayUsage: Map<String, Long>? = null
+    private var dayOpens: Map<String, Int>? = null
+    private val foregroundListener = ForegroundAppEvents.Listener { packageName ->
+        executor.execute { checkAndBlock(packageName) }
+    }
+    private var notificationText: String? = null
+    private var overlayPill: OverlayPill? = null
     
     companion object {
         private const val TAG = "BlockingService"
         private const val NOTIFICATION_ID = 1001
         private const val CHANNEL_ID = "blocking_service_channel"
+        private const val WARNING_NOTIFICATION_ID = 1002
+        private const val WARNING_CHANNEL_ID = "limit_warnings_channel"
         
         // Action to start/stop service
         const val ACTION_START = "com.dailyfocus.BLOCKING_SERVICE_START"
@@ -45,8 +77,6 @@ class BlockingService : Service() {
         
         // SharedPreferences keys for storing blocking config
         private const val PREFS_NAME = "blocking_config"
-        private const val KEY_SELECTED_APPS = "selected_apps"
-        private const val KEY_LIMITS = "limits"
         private const val KEY_BLOCKED_APP = "blocked_app"
         private const val KEY_BLOCKED_APP_NAME = "blocked_app_name"
     }
@@ -54,6 +84,7 @@ class BlockingService : Service() {
     override fun onCreate() {
         super.onCreate()
         createNotificationChannel()
+        overlayPill = OverlayPill(this)
         Log.d(TAG, "BlockingService created")
     }
     
@@ -70,6 +101,13 @@ class BlockingService : Service() {
                 stopForeground(true)
                 stopSelf()
             }
+            null -> {
+                // Restarted by the system after the process was killed (START_STICKY).
+                // Config, focus sessions and pomodoro cycles are still in SharedPreferences.
+                Log.d(TAG, "Restarting blocking service after process restart")
+                startForeground(NOTIFICATION_ID, createNotification())
+                startMonitoring()
+            }
         }
         return START_STICKY // Restart if killed
     }
@@ -94,12 +132,22 @@ class BlockingService : Service() {
                 description = "Monitors apps and enforces daily limits"
                 setShowBadge(false)
             }
+            val warningChannel = NotificationChannel(
+                WARNING_CHANNEL_ID,
+                "Limit Warnings",
+                NotificationManager.IMPORTANCE_DEFAULT
+            ).apply {
+                description = "Heads-up before an app reaches its daily limit"
+            }
             val notificationManager = getSystemService(NotificationManager::class.java)
             notificationManager.createNotificationChannel(channel)
+            notificationManager.createNotificationChannel(warningChannel)
         }
     }
     
-    private fun createNotification(): Notification {
+    private fun createNotification(
+        contentText: String = "Monitoring apps and enforcing limits"
+    ): Notification {
         val intent = Intent(this, MainActivity::class.java)
         val pendingIntent = PendingIntent.getActivity(
             this,
@@ -110,7 +158,7 @@ class BlockingService : Service() {
         
         return NotificationCompat.Builder(this, CHANNEL_ID)
             .setContentTitle("Boundly")
-            .setContentText("Monitoring apps and enforcing limits")
+            .setContentText(contentText)
             .setSmallIcon(android.R.drawable.ic_dialog_info)
             .setContentIntent(pendingIntent)
             .setOngoing(true)
@@ -118,48 +166,147 @@ class BlockingService : Service() {
             .build()
     }
     
+    /**
+     * Show the focus or pomodoro countdown (or the default text) - only re-posts when the text changes
+     */
+    private fun updateNotification(focus: FocusState?, pomodoro: PomodoroState?) {
+        val now = System.currentTimeMillis()
+        val text = when {
+            focus != null -> "Focus session: ${FocusSessions.formatRemaining(focus.remainingMs(now))} left"
+            pomodoro != null -> Pomodoro.notificationText(pomodoro, now)
+            else -> "Monitoring apps and enforcing limits"
+        }
+        if (text == notificationText) {
+            return
+        }
+        notificationText = text
+        val notificationManager = getSystemService(Context.NOTIFICATION_SERVICE) as NotificationManager
+        notificationManager.notify(NOTIFICATION_ID, createNotification(text))
+    }
+    
     private fun startMonitoring() {
-        if (checkTask != null) {
+        if (isMonitoring) {
             Log.d(TAG, "Monitoring already started")
             return
         }
         
         Log.d(TAG, "Starting monitoring task")
-        checkTask = executor.scheduleWithFixedDelay(
-            { checkAndBlock() },
-            0,
-            CHECK_INTERVAL_SECONDS,
-            TimeUnit.SECONDS
-        )
+        isMonitoring = true
+        ForegroundAppEvents.addListener(foregroundListener)
+        scheduleCheck(0)
     }
     
     private fun stopMonitoring() {
+        isMonitoring = false
+        ForegroundAppEvents.removeListener(foregroundListener)
         checkTask?.cancel(true)
         checkTask = null
+        overlayPill?.hide()
         Log.d(TAG, "Stopped monitoring")
     }
     
-    private fun checkAndBlock() {
+    /**
+     * Periodic check - rescheduled after each run, as the interval depends on
+     * whether events are available and what is in the foreground
+     */
+    private fun scheduleCheck(delaySeconds: Long) {
+        if (!isMonitoring) {
+            return
+        }
+        checkTask = executor.schedule({
+            checkAndBlock()
+            scheduleCheck(nextCheckDelaySeconds())
+        }, delaySeconds, TimeUnit.SECONDS)
+    }
+    
+    private fun nextCheckDelaySeconds(): Long {
+        if (!ForegroundAppEvents.isConnected) {
+            return POLL_INTERVAL_SECONDS
+        }
+        val powerManager = getSystemService(Context.POWER_SERVICE) as PowerManager
+        val foregroundApp = ForegroundAppEvents.lastPackageName
+        if (!powerManager.isInteractive || foregroundApp == null) {
+            return IDLE_INTERVAL_SECONDS
+        }
+        return if (isMonitored(foregroundApp)) POLL_INTERVAL_SECONDS else IDLE_INTERVAL_SECONDS
+    }
+    
+    private fun isMonitored(packageName: String): Boolean {
+        val prefs = getSharedPreferences(PREFS_NAME, Context.MODE_PRIVATE)
+        return config.selectedApps.contains(packageName) ||
+            config.blockedApps.contains(packageName) ||
+            FocusSessions.read(prefs)?.packageNames?.contains(packageName) == true ||
+            Pomodoro.read(prefs)?.packageNames?.contains(packageName) == true
+    }
+    
+    /**
+     * @param changedApp app reported by ForegroundAppEvents, null for periodic checks
+     */
+    private fun checkAndBlock(changedApp: String? = null) {
+        // Anything that doesn't set this - untracked apps, blocks, errors - hides the pill
+        var pillText: String? = null
+        dayUsage = null
+        dayOpens = null
         try {
             // Check if we have any apps to monitor
             val prefs = getSharedPreferences(PREFS_NAME, Context.MODE_PRIVATE)
-            val selectedAppsJson = prefs.getString(KEY_SELECTED_APPS, "[]") ?: "[]"
-            if (selectedAppsJson == "[]") {
+            config = BlockingConfigStore.read(prefs)
+            if (FocusSessions.hasExpired(prefs)) {
+                Log.d(TAG, "Focus session ended")
+                FocusSessions.clear(prefs)
+            }
+            val focus = FocusSessions.read(prefs)
+            val pomodoro = Pomodoro.read(prefs)
+            updateNotification(focus, pomodoro)
+            
+            if (focus == null && pomodoro == null && !config.hasRules()) {
                 // No apps to monitor, stop service
                 Log.d(TAG, "No apps to monitor, stopping service")
                 stopSelf()
                 return
             }
 
-            val foregroundApp = getForegroundApp()
+            val foregroundApp = changedApp
+                ?: if (ForegroundAppEvents.isConnected) ForegroundAppEvents.lastPackageName else getForegroundApp()
+            updateLiveSession(foregroundApp)
             if (foregroundApp == null) {
                 return
             }
             
-            val ourPackageName = applicationContext.packageName
+            // Boundly and always-allowed apps are never blocked; always-blocked apps always are
+            when (AppLists.listFor(config, foregroundApp, applicationContext.packageName)) {
+                AppList.ALLOW -> return
+                AppList.BLOCK -> {
+                    Log.d(TAG, "Blocking always-blocked app: $foregroundApp")
+                    val usageMs = getLiveUsage(foregroundApp)
+                    prefs.edit()
+                        .putString(KEY_BLOCKED_APP, foregroundApp)
+                        .putString(KEY_BLOCKED_APP_NAME, getAppName(foregroundApp))
+                        .putLong("blocked_usage_ms", usageMs)
+                        .putLong("blocked_limit_ms", 0L)
+                        .apply()
+                    BlockEvents.append(prefs, foregroundApp, usageMs, 0L)
+                    bringAppToForeground()
+                    return
+                }
+                null -> {}
+            }
             
-            // Skip if it's our own app
-            if (foregroundApp == ourPackageName) {
+            // Focus sessions and pomodoro work phases block their apps regardless of usage
+            val inFocus = focus != null && focus.packageNames.contains(foregroundApp)
+            val inWorkPhase = pomodoro != null &&
+                Pomodoro.isBlocked(pomodoro, foregroundApp, System.currentTimeMillis())
+            if (inFocus || inWorkPhase) {
+                Log.d(TAG, "Blocking app during focus time: $foregroundApp")
+                val usageMs = getLiveUsage(foregroundApp)
+                prefs.edit()
+                    .putString(KEY_BLOCKED_APP, foregroundApp)
+                    .putString(KEY_BLOCKED_APP_NAME, getAppName(foregroundApp))
+                    .putLong("blocked_usage_ms", usageMs)
+                    .putLong("blocked_limit_ms", 0L)
+                    .apply()
+                BlockEvents.append(prefs, foregroundApp, usageMs, 0L)
+                bringAppToForeground()
                 return
             }
             
@@ -177,6 +324,7 @@ class BlockingService : Service() {
                         .putLong("blocked_usage_ms", info.usageMs)
                         .putLong("blocked_limit_ms", info.limitMs)
                         .apply()
+                    BlockEvents.append(prefs, foregroundApp, info.usageMs, info.limitMs)
                     bringAppToForeground()
                 } else {
                     // Clear blocked app info if not blocked
@@ -187,10 +335,17 @@ class BlockingService : Service() {
                         .remove("blocked_usage_ms")
                         .remove("blocked_limit_ms")
                         .apply()
+                    warnIfDue(prefs, foregroundApp, info)
+                    if (config.overlayPill) {
+                        pillText = info.remaining?.let { RemainingTimes.label(it) }
+                    }
                 }
             }
         } catch (e: Exception) {
             Log.e(TAG, "Error in checkAndBlock: ${e.message}", e)
+        } finally {
+            val text = pillText
+            if (text != null && isMonitoring) overlayPill?.show(text) else overlayPill?.hide()
         }
     }
     
@@ -217,79 +372,181 @@ class BlockingService : Service() {
         }
     }
     
-    private data class BlockInfo(val appName: String, val usageMs: Long, val limitMs: Long)
+    private data class BlockInfo(
+        val appName: String,
+        val usageMs: Long,
+        val limitMs: Long,
+        val remaining: RemainingTime? = null
+    )
+    
+    /**
+     * Post a warning when the app passed a threshold it hasn't been warned about today
+     */
+    private fun warnIfDue(prefs: SharedPreferences, packageName: String, info: BlockInfo) {
+        val settings = config.warnings
+        if (settings.disabled.contains(packageName)) {
+            return
+        }
+        val dayKey = DayBoundary.dayKey(config.dayStartHour)
+        val fired = LimitWarnings.firedWarnings(prefs, dayKey, packageName)
+        val due = LimitWarnings.dueWarnings(settings, info.usageMs, info.limitMs, fired)
+        if (due.isEmpty()) {
+            return
+        }
+        // Both thresholds passing at once gets a single notification
+        LimitWarnings.markFired(prefs, dayKey, packageName, due)
+        val notification = NotificationCompat.Builder(this, WARNING_CHANNEL_ID)
+            .setContentTitle("Almost at your limit")
+            .setContentText(LimitWarnings.message(info.appName, info.usageMs, info.limitMs))
+            .setSmallIcon(android.R.drawable.ic_dialog_info)
+            .setAutoCancel(true)
+            .setPriority(NotificationCompat.PRIORITY_DEFAULT)
+            .build()
+        val notificationManager = getSystemService(Context.NOTIFICATION_SERVICE) as NotificationManager
+        notificationManager.notify(WARNING_NOTIFICATION_ID, notification)
+        Log.d(TAG, "Warned about $packageName: $due")
+    }
     
     private fun shouldBlockApp(packageName: String): Pair<Boolean, BlockInfo>? {
         return try {
-            // Get selected apps and limits from SharedPreferences
             val prefs = getSharedPreferences(PREFS_NAME, Context.MODE_PRIVATE)
-            val selectedAppsJson = prefs.getString(KEY_SELECTED_APPS, "[]") ?: "[]"
-            val limitsJson = prefs.getString(KEY_LIMITS, "{}") ?: "{}"
-            
-            // Parse JSON
-            val selectedApps = parseStringArray(selectedAppsJson)
-            val limits = parseLimitsMap(limitsJson)
             
             // Check if app is selected
-            if (!selectedApps.contains(packageName)) {
+            if (!config.selectedApps.contains(packageName)) {
+                return null
+            }
+            
+            // A granted grace extension suspends limits until it runs out
+            if (GraceExtensions.isExtended(prefs, packageName)) {
                 return null
             }
             
-            // Check if limit is set
-            val limitMs = limits[packageName] ?: return null
-            if (limitMs <= 0) {
+            // Check if a rule or a group budget is set
+            val rule = config.limits[packageName]
+            val groups = AppGroups.groupsForApp(packageName, config.groups)
+            val now = java.util.Calendar.getInstance()
+            val dayStartHour = config.dayStartHour
+            val day = DayBoundary.dayDate(dayStartHour, now.timeInMillis)
+            val limitMs = rule?.let { LimitRules.effectiveLimitMs(it, day) } ?: 0L
+            val hasOwnRule = rule != null &&
+                (limitMs > 0 || rule.blockedWindows.isNotEmpty() || LimitRules.hasOpenLimit(rule) ||
+                    SessionCaps.isEnabled(rule.sessionCap))
+            if (!hasOwnRule && groups.none { it.limitMs > 0 }) {
                 return null
             }
             
             // Get current usage
-            val usageMs = getCurrentUsage(packageName)
+            val usageMs = getLiveUsage(packageName)
             
-            // Get app name
-            val appName = try {
-                val packageManager = packageManager
-                val appInfo = packageManager.getApplicationInfo(packageName, 0)
-                packageManager.getApplicationLabel(appInfo).toString()
-            } catch (e: Exception) {
-                packageName.substringAfterLast(".")
-            }
+            val appName = getAppName(packageName)
             
             Log.d(TAG, "Checking app: $packageName ($appName), usage: ${usageMs}ms, limit: ${limitMs}ms")
             
-            val shouldBlock = usageMs >= limitMs
-            Pair(shouldBlock, BlockInfo(appName, usageMs, limitMs))
+            if (rule != null && LimitRules.isBlocked(rule, usageMs, now, dayStartHour)) {
+                return Pair(true, BlockInfo(appName, usageMs, limitMs))
+            }
+            if (rule != null && LimitRules.isOverOpens(rule, getOpensToday(packageName))) {
+                Log.d(TAG, "Open limit reached for $packageName: ${rule.maxOpens}")
+                return Pair(true, BlockInfo(appName, usageMs, limitMs))
+            }
+            val sessionCap = rule?.sessionCap
+            if (sessionCap != null && SessionCaps.isEnabled(sessionCap) &&
+                SessionCaps.observe(prefs, packageName, sessionCap)) {
+                Log.d(TAG, "Session cap reached for $packageName, cooling down")
+                return Pair(true, BlockInfo(appName, usageMs, limitMs))
+            }
+            
+            // Shared group budget: combined usage of all members
+            val exhausted = AppGroups.findExhaustedGroup(packageName, groups) { getLiveUsage(it) }
+            if (exhausted != null) {
+                val (group, groupUsageMs) = exhausted
+                Log.d(TAG, "Group ${group.name} exhausted: ${groupUsageMs}ms of ${group.limitMs}ms")
+                return Pair(true, BlockInfo(appName, groupUsageMs, group.limitMs))
+            }
+            
+            val remaining = RemainingTimes.compute(packageName, limitMs, groups) { getLiveUsage(it) }
+            Pair(false, BlockInfo(appName, usageMs, limitMs, remaining))
         } catch (e: Exception) {
             Log.e(TAG, "Error checking if should block: ${e.message}", e)
             null
         }
     }
     
+    private fun getAppName(packageName: String): String {
+        return try {
+            val appInfo = packageManager.getApplicationInfo(packageName, 0)
+            packageManager.getApplicationLabel(appInfo).toString()
+        } catch (e: Exception) {
+            packageName.substringAfterLast(".")
+        }
+    }
+    
+    /**
+     * Start timing a monitored app when it comes to the foreground; stop on
+     * Boundly, other apps or screen off
+     */
+    private fun updateLiveSession(foregroundApp: String?) {
+        val powerManager = getSystemService(Context.POWER_SERVICE) as PowerManager
+        if (foregroundApp == null || foregroundApp == applicationContext.packageName ||
+            !powerManager.isInteractive || !isMonitored(foregroundApp)) {
+            liveSession = null
+        } else if (liveSession?.packageName != foregroundApp) {
+            liveSession = LiveUsage.start(foregroundApp, getCurrentUsage(foregroundApp), System.currentTimeMillis())
+        }
+    }
+    
+    private fun getLiveUsage(packageName: String): Long {
+        val now = System.currentTimeMillis()
+        // Usage totals are read now, they just lag behind the session
+        return LiveUsage.usageMs(packageName, getCurrentUsage(packageName), now, liveSession, now, getDayStartMs())
+    }
+    
+    private fun getDayStartMs(): Long {
+        return DayBoundary.dayStartMs(config.dayStartHour)
+    }
+    
+    /**
+     * Usage since the day start hour - from events, as queryUsageStats buckets
+     * always start at midnight
+     */
     private fun getCurrentUsage(packageName: String): Long {
         return try {
             val usageStatsManager = getSystemService(Context.USAGE_STATS_SERVICE) as? UsageStatsManager
                 ?: return 0L
             
-            val calendar = java.util.Calendar.getInstance()
-            calendar.set(java.util.Calendar.HOUR_OF_DAY, 0)
-            calendar.set(java.util.Calendar.MINUTE, 0)
-            calendar.set(java.util.Calendar.SECOND, 0)
-            calendar.set(java.util.Calendar.MILLISECOND, 0)
-            val startTime = calendar.timeInMillis
-            val endTime = System.currentTimeMillis()
-            
-            val stats = usageStatsManager.queryUsageStats(
-                UsageStatsManager.INTERVAL_DAILY,
-                startTime,
-                endTime
-            ) ?: return 0L
-            
-            val appStat = stats.find { it.packageName == packageName }
-            appStat?.totalTimeInForeground ?: 0L
+            val totals = dayUsage ?: UsageEventsAggregator.computeForegroundTimes(
+                usageStatsManager,
+                getDayStartMs(),
+                System.currentTimeMillis()
+            ).also { dayUsage = it }
+            totals[packageName] ?: 0L
         } catch (e: Exception) {
             Log.e(TAG, "Error getting current usage: ${e.message}")
             0L
         }
     }
     
+    /**
+     * Opens since the day start hour - the current open shows up in the
+     * events within a check or two
+     */
+    private fun getOpensToday(packageName: String): Int {
+        return try {
+            val usageStatsManager = getSystemService(Context.USAGE_STATS_SERVICE) as? UsageStatsManager
+                ?: return 0
+            
+            val counts = dayOpens ?: UsageEventsAggregator.countOpens(
+                usageStatsManager,
+                getDayStartMs(),
+                System.currentTimeMillis()
+            ).also { dayOpens = it }
+            counts[packageName] ?: 0
+        } catch (e: Exception) {
+            Log.e(TAG, "Error counting opens: ${e.message}")
+            0
+        }
+    }
+    
     private fun bringAppToForeground() {
         try {
             val intent = Intent(this, MainActivity::class.java).apply {
@@ -302,36 +559,4 @@ class BlockingService : Service() {
             Log.e(TAG, "Error bringing app to foreground: ${e.message}", e)
         }
     }
-    
-    // JSON parsing helpers using org.json
-    private fun parseStringArray(json: String): Set<String> {
-        return try {
-            val jsonArray = org.json.JSONArray(json)
-            val result = mutableSetOf<String>()
-            for (i in 0 until jsonArray.length()) {
-                result.add(jsonArray.getString(i))
-            }
-            result
-        } catch (e: Exception) {
-            Log.e(TAG, "Error parsing selected apps: ${e.message}")
-            emptySet()
-        }
-    }
-    
-    private fun parseLimitsMap(json: String): Map<String, Long> {
-        return try {
-            val jsonObject = org.json.JSONObject(json)
-            val result = mutableMapOf<String, Long>()
-            val keys = jsonObject.keys()
-            while (keys.hasNext()) {
-                val key = keys.next()
-                result[key] = jsonObject.getLong(key)
-            }
-            result
-        } catch (e: Exception) {
-            Log.e(TAG, "Error parsing limits: ${e.message}")
-            emptyMap()
-        }
-    }
 }
-
@@ -9,20 +9,20 @@ import com.facebook.react.bridge.Promise
 import com.facebook.react.bridge.ReactApplicationContext
 import com.facebook.react.bridge.ReadableArray
 import com.facebook.react.bridge.ReadableMap
-import org.json.JSONArray
-import org.json.JSONObject
+import com.facebook.react.bridge.WritableNativeArray
+import com.facebook.react.bridge.WritableNativeMap
+import org.json.JSONException
 
 /**
  * BlockingServiceModule Implementation
  * 
- * Controls the BlockingService foreground service.
+ * Controls the BlockingService foreground service and stores the BlockingConfig
+ * document it enforces.
  */
 class BlockingServiceModuleImpl(reactContext: ReactApplicationContext) :
     BlockingServiceModuleSpec(reactContext) {
 
     private val PREFS_NAME = "blocking_config"
-    private val KEY_SELECTED_APPS = "selected_apps"
-    private val KEY_LIMITS = "limits"
 
     private fun getSharedPreferences(): SharedPreferences {
         return reactApplicationContext.getSharedPreferences(PREFS_NAME, Context.MODE_PRIVATE)
@@ -34,47 +34,42 @@ class BlockingServiceModuleImpl(reactContext: ReactApplicationContext) :
         return runningServices.any { it.service.className == BlockingService::class.java.name }
     }
 
-    override fun startBlockingService(selectedApps: ReadableArray, limits: ReadableArray, promise: Promise) {
+    override fun applyBlockingConfig(configJson: String, promise: Promise) {
         try {
-            Log.d("BlockingServiceModule", "Starting blocking service")
-            
-            // Convert ReadableArray to JSON array
-            val appsArray = JSONArray()
-            for (i in 0 until selectedApps.size()) {
-                appsArray.put(selectedApps.getString(i))
-            }
-            
-            // Convert ReadableArray of AppLimit objects to JSON object
-            val limitsObject = JSONObject()
-            for (i in 0 until limits.size()) {
-                val limitMap = limits.getMap(i)
-                if (limitMap != null) {
-                    val packageName = limitMap.getString("packageName")
-                    val limitMs = limitMap.getDouble("limitMs").toLong()
-                    if (packageName != null) {
-                        limitsObject.put(packageName, limitMs)
-                    }
-                }
-            }
-            
-            // Store in SharedPreferences for service to access
             val prefs = getSharedPreferences()
-            prefs.edit()
-                .putString(KEY_SELECTED_APPS, appsArray.toString())
-                .putString(KEY_LIMITS, limitsObject.toString())
-                .apply()
-            
-            // Start the service
-            val intent = Intent(reactApplicationContext, BlockingService::class.java).apply {
-                action = BlockingService.ACTION_START
-            }
-            
-            if (android.os.Build.VERSION.SDK_INT >= android.os.Build.VERSION_CODES.O) {
-                reactApplicationContext.startForegroundService(intent)
-            } else {
-                reactApplicationContext.startService(intent)
-            }
-            
+            BlockingConfigStore.write(prefs, configJson)
+            // Session state of apps that lost their cap would only go stale
+            val cappedApps = BlockingConfigStore.read(prefs).limits
+                .filterValues { SessionCaps.isEnabled(it.sessionCap) }
+                .keys
+            SessionCaps.retain(prefs, cappedApps)
+            Log.d("BlockingServiceModule", "Blocking config applied")
+            promise.resolve(null)
+        } catch (e: JSONException) {
+            Log.e("BlockingServiceModule", "Invalid blocking config: ${e.message}", e)
+            promise.reject("INVALID_CONFIG", "Invalid blocking config: ${e.message}", e)
+        } catch (e: IllegalArgumentException) {
+            Log.e("BlockingServiceModule", "Invalid blocking config: ${e.message}", e)
+            promise.reject("INVALID_CONFIG", "Invalid blocking config: ${e.message}", e)
+        } catch (e: Exception) {
+            Log.e("BlockingServiceModule", "Error applying blocking config: ${e.message}", e)
+            promise.reject("SERVICE_ERROR", "Error applying blocking config: ${e.message}", e)
+        }
+    }
+
+    override fun getBlockingConfig(promise: Promise) {
+        try {
+            promise.resolve(BlockingConfigStore.readJson(getSharedPreferences()))
+        } catch (e: Exception) {
+            Log.e("BlockingServiceModule", "Error reading blocking config: ${e.message}", e)
+            promise.reject("SERVICE_ERROR", "Error reading blocking config: ${e.message}", e)
+        }
+    }
+
+    override fun startBlockingService(promise: Promise) {
+        try {
+            Log.d("BlockingServiceModule", "Starting blocking service")
+            launchService()
             Log.d("BlockingServiceModule", "Blocking service started")
             promise.resolve(null)
         } catch (e: Exception) {
@@ -83,8 +78,26 @@ class BlockingServiceModuleImpl(reactContext: ReactApplicationContext) :
         }
     }
 
+    private fun launchService() {
+        val intent = Intent(reactApplicationContext, BlockingService::class.java).apply {
+            action = BlockingService.ACTION_START
+        }
+        
+        if (android.os.Build.VERSION.SDK_INT >= android.os.Build.VERSION_CODES.O) {
+            reactApplicationContext.startForegroundService(intent)
+        } else {
+            reactApplicationContext.startService(intent)
+        }
+    }
+
     override fun stopBlockingService(promise: Promise) {
         try {
+            if (StrictMode.isActive(getSharedPreferences())) {
+                Log.d("BlockingServiceModule", "Refusing to stop blocking service in strict mode")
+                promise.reject("STRICT_MODE", "Blocking cannot be stopped while strict mode is active")
+                return
+            }
+            
             Log.d("BlockingServiceModule", "Stopping blocking service")
             
             val intent = Intent(reactApplicationContext, BlockingService::class.java).apply {
@@ -100,6 +113,141 @@ class BlockingServiceModuleImpl(reactContext: ReactApplicationContext) :
         }
     }
 
+    override fun startFocusSession(packageNames: ReadableArray, endsAtMs: Double, promise: Promise) {
+        try {
+            val apps = mutableSetOf<String>()
+            for (i in 0 until packageNames.size()) {
+                packageNames.getString(i)?.let { apps.add(it) }
+            }
+            FocusSessions.save(getSharedPreferences(), FocusState(apps, endsAtMs.toLong()))
+            
+            // The service also enforces the session, so make sure it is running
+            launchService()
+            
+            Log.d("BlockingServiceModule", "Focus session started for ${apps.size} apps")
+            promise.resolve(null)
+        } catch (e: Exception) {
+            Log.e("BlockingServiceModule", "Error starting focus session: ${e.message}", e)
+            promise.reject("SERVICE_ERROR", "Error starting focus session: ${e.message}", e)
+        }
+    }
+
+    override fun stopFocusSession(promise: Promise) {
+        try {
+            FocusSessions.clear(getSharedPreferences())
+            Log.d("BlockingServiceModule", "Focus session stopped")
+            promise.resolve(null)
+        } catch (e: Exception) {
+            Log.e("BlockingServiceModule", "Error stopping focus session: ${e.message}", e)
+            promise.reject("SERVICE_ERROR", "Error stopping focus session: ${e.message}", e)
+        }
+    }
+
+    override fun startPomodoro(packageNames: ReadableArray, startedAtMs: Double, config: ReadableMap, promise: Promise) {
+        try {
+            val apps = mutableSetOf<String>()
+            for (i in 0 until packageNames.size()) {
+                packageNames.getString(i)?.let { apps.add(it) }
+            }
+            val cycleConfig = PomodoroConfig(
+                workMinutes = config.getInt("workMinutes"),
+                shortBreakMinutes = config.getInt("shortBreakMinutes"),
+                longBreakMinutes = config.getInt("longBreakMinutes"),
+                cyclesBeforeLongBreak = config.getInt("cyclesBeforeLongBreak")
+            )
+            Pomodoro.save(getSharedPreferences(), PomodoroState(startedAtMs.toLong(), cycleConfig, apps))
+            
+            // Work phases are enforced by the service, so make sure it is running
+            launchService()
+            
+            Log.d("BlockingServiceModule", "Pomodoro started for ${apps.size} apps")
+            promise.resolve(null)
+        } catch (e: Exception) {
+            Log.e("BlockingServiceModule", "Error starting pomodoro: ${e.message}", e)
+            promise.reject("SERVICE_ERROR", "Error starting pomodoro: ${e.message}", e)
+        }
+    }
+
+    override fun stopPomodoro(promise: Promise) {
+        try {
+            Pomodoro.clear(getSharedPreferences())
+            Log.d("BlockingServiceModule", "Pomodoro stopped")
+            promise.resolve(null)
+        } catch (e: Exception) {
+            Log.e("BlockingServiceModule", "Error stopping pomodoro: ${e.message}", e)
+            promise.reject("SERVICE_ERROR", "Error stopping pomodoro: ${e.message}", e)
+        }
+    }
+
+    override fun grantExtension(packageName: String, untilMs: Double, promise: Promise) {
+        try {
+            val prefs = getSharedPreferences()
+            GraceExtensions.grant(prefs, packageName, untilMs.toLong())
+            BlockEvents.resolve(prefs, packageName, BlockEvents.OUTCOME_EXTENDED)
+            Log.d("BlockingServiceModule", "Extension granted for $packageName")
+            promise.resolve(null)
+        } catch (e: Exception) {
+            Log.e("BlockingServiceModule", "Error granting extension: ${e.message}", e)
+            promise.reject("SERVICE_ERROR", "Error granting extension: ${e.message}", e)
+        }
+    }
+
+    override fun setStrictMode(endsAtMs: Double, promise: Promise) {
+        try {
+            StrictMode.extend(getSharedPreferences(), endsAtMs.toLong())
+            Log.d("BlockingServiceModule", "Strict mode active until ${endsAtMs.toLong()}")
+            promise.resolve(null)
+        } catch (e: Exception) {
+            Log.e("BlockingServiceModule", "Error setting strict mode: ${e.message}", e)
+            promise.reject("SERVICE_ERROR", "Error setting strict mode: ${e.message}", e)
+        }
+    }
+
+    override fun markBlockDismissed(packageName: String, promise: Promise) {
+        try {
+            BlockEvents.resolve(getSharedPreferences(), packageName, BlockEvents.OUTCOME_DISMISSED)
+            promise.resolve(null)
+        } catch (e: Exception) {
+            Log.e("BlockingServiceModule", "Error recording dismissed block: ${e.message}", e)
+            promise.reject("SERVICE_ERROR", "Error recording dismissed block: ${e.message}", e)
+        }
+    }
+
+    override fun getBlockEvents(sinceMs: Double, promise: Promise) {
+        try {
+            val result = WritableNativeArray()
+            for (event in BlockEvents.readSince(getSharedPreferences(), sinceMs.toLong())) {
+                val eventMap = WritableNativeMap()
+                eventMap.putString("packageName", event.packageName)
+                eventMap.putDouble("timestampMs", event.timestampMs.toDouble())
+                eventMap.putDouble("usageMs", event.usageMs.toDouble())
+                eventMap.putDouble("limitMs", event.limitMs.toDouble())
+                eventMap.putString("outcome", event.outcome)
+                result.pushMap(eventMap)
+            }
+            promise.resolve(result)
+        } catch (e: Exception) {
+            Log.e("BlockingServiceModule", "Error reading block events: ${e.message}", e)
+            promise.reject("SERVICE_ERROR", "Error reading block events: ${e.message}", e)
+        }
+    }
+
+    override fun getSessionCooldowns(promise: Promise) {
+        try {
+            val result = WritableNativeArray()
+            for ((packageName, untilMs) in SessionCaps.cooldowns(getSharedPreferences())) {
+                val cooldownMap = WritableNativeMap()
+                cooldownMap.putString("packageName", packageName)
+                cooldownMap.putDouble("untilMs", untilMs.toDouble())
+                result.pushMap(cooldownMap)
+            }
+            promise.resolve(result)
+        } catch (e: Exception) {
+            Log.e("BlockingServiceModule", "Error reading session cooldowns: ${e.message}", e)
+            promise.reject("SERVICE_ERROR", "Error reading session cooldowns: ${e.message}", e)
+        }
+    }
+
     override fun isBlockingServiceRunning(promise: Promise) {
         try {
             val isRunning = isServiceRunning()
@@ -141,5 +289,30 @@ class BlockingServiceModuleImpl(reactContext: ReactApplicationContext) :
             promise.reject("SETTINGS_ERROR", "Error opening accessibility settings: ${e.message}", e)
         }
     }
+
+    override fun canDrawOverlays(promise: Promise) {
+        try {
+            promise.resolve(OverlayPill.canDraw(reactApplicationContext))
+        } catch (e: Exception) {
+            Log.e("BlockingServiceModule", "Error checking overlay permission: ${e.message}", e)
+            promise.reject("OVERLAY_ERROR", "Error checking overlay permission: ${e.message}", e)
+        }
+    }
+
+    override fun openOverlaySettings(promise: Promise) {
+        try {
+            val intent = Intent(
+                android.provider.Settings.ACTION_MANAGE_OVERLAY_PERMISSION,
+                android.net.Uri.parse("package:${reactApplicationContext.packageName}")
+            )
+            intent.flags = Intent.FLAG_ACTIVITY_NEW_TASK
+            reactApplicationContext.startActivity(intent)
+            Log.d("BlockingServiceModule", "Opened overlay settings")
+            promise.resolve(null)
+        } catch (e: Exception) {
+            Log.e("BlockingServiceModule", "Error opening overlay settings: ${e.message}", e)
+            promise.reject("SETTINGS_ERROR", "Error opening overlay settings: ${e.message}", e)
+        }
+    }
 }
 
@@ -27,11 +27,44 @@ abstract class BlockingServiceModuleSpec internal constructor(context: ReactAppl
     }
 
     @ReactMethod
-    abstract fun startBlockingService(selectedApps: ReadableArray, limits: ReadableArray, promise: Promise)
+    abstract fun applyBlockingConfig(configJson: String, promise: Promise)
+
+    @ReactMethod
+    abstract fun getBlockingConfig(promise: Promise)
+
+    @ReactMethod
+    abstract fun startBlockingService(promise: Promise)
 
     @ReactMethod
     abstract fun stopBlockingService(promise: Promise)
 
+    @ReactMethod
+    abstract fun startFocusSession(packageNames: ReadableArray, endsAtMs: Double, promise: Promise)
+
+    @ReactMethod
+    abstract fun stopFocusSession(promise: Promise)
+
+    @ReactMethod
+    abstract fun startPomodoro(packageNames: ReadableArray, startedAtMs: Double, config: ReadableMap, promise: Promise)
+
+    @ReactMethod
+    abstract fun stopPomodoro(promise: Promise)
+
+    @ReactMethod
+    abstract fun grantExtension(packageName: String, untilMs: Double, promise: Promise)
+
+    @ReactMethod
+    abstract fun setStrictMode(endsAtMs: Double, promise: Promise)
+
+    @ReactMethod
+    abstract fun markBlockDismissed(packageName: String, promise: Promise)
+
+    @ReactMethod
+    abstract fun getBlockEvents(sinceMs: Double, promise: Promise)
+
+    @ReactMethod
+    abstract fun getSessionCooldowns(promise: Promise)
+
     @ReactMethod
     abstract fun isBlockingServiceRunning(promise: Promise)
     
@@ -40,5 +73,11 @@ abstract class BlockingServiceModuleSpec internal constructor(context: ReactAppl
     
     @ReactMethod
     abstract fun openAccessibilitySettings(promise: Promise)
+
+    @ReactMethod
+    abstract fun canDrawOverlays(promise: Promise)
+
+    @ReactMethod
+    abstract fun openOverlaySettings(promise: Promise)
 }
 
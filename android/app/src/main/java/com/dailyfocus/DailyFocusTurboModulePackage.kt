@@ -19,6 +19,7 @@ class DailyFocusTurboModulePackage : TurboReactPackage() {
             UsageStatsModuleSpec.NAME -> UsageStatsModuleImpl(reactContext)
             ForegroundAppModuleSpec.NAME -> ForegroundAppModuleImpl(reactContext)
             BlockingServiceModuleSpec.NAME -> BlockingServiceModuleImpl(reactContext)
+            SecureKeyModuleSpec.NAME -> SecureKeyModuleImpl(reactContext)
             else -> null
         }
     }
@@ -57,6 +58,16 @@ class DailyFocusTurboModulePackage : TurboReactPackage() {
                 true   // isTurboModule
             )
             
+            moduleInfos[SecureKeyModuleSpec.NAME] = ReactModuleInfo(
+                SecureKeyModuleSpec.NAME,
+                SecureKeyModuleSpec.NAME,
+                false, // canOverrideExistingModule
+                true,  // needsEagerInit
+                true,  // hasConstants
+                false, // isCxxModule
+                true   // isTurboModule
+            )
+            
             moduleInfos
         }
     }
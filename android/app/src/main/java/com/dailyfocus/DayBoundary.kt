@@ -0,0 +1,59 @@
+package com.dailyfocus
+
+import java.util.Calendar
+import java.util.Locale
+
+/**
+ * Day Boundary
+ *
+ * Days start at a configurable hour, so with 4 a session at 02:00 still
+ * counts towards the previous day. Used for "today" usage, weekday/weekend
+ * budgets and the per-day warning log. The hour arrives with BlockingConfig.
+ *
+ * Always computed from calendar fields in the current default time zone -
+ * never by adding 24h - so DST days and time zone changes keep their days.
+ *
+ * Mirrors src/utils/dates.ts - keep the two in sync.
+ */
+object DayBoundary {
+    /**
+     * Midnight of the calendar date the current day belongs to - its
+     * DAY_OF_WEEK decides weekday/weekend budgets
+     */
+    fun dayDate(startHour: Int, nowMs: Long = System.currentTimeMillis()): Calendar {
+        val calendar = Calendar.getInstance()
+        calendar.timeInMillis = nowMs
+        if (calendar.get(Calendar.HOUR_OF_DAY) < startHour) {
+            calendar.add(Calendar.DAY_OF_MONTH, -1)
+        }
+        calendar.set(Calendar.HOUR_OF_DAY, 0)
+        calendar.set(Calendar.MINUTE, 0)
+        calendar.set(Calendar.SECOND, 0)
+        calendar.set(Calendar.MILLISECOND, 0)
+        return calendar
+    }
+
+    /**
+     * Start of the current day - an hour skipped by DST resolves to the first
+     * time after it, which dayDate agrees is already the new day
+     */
+    fun dayStartMs(startHour: Int, nowMs: Long = System.currentTimeMillis()): Long {
+        val calendar = dayDate(startHour, nowMs)
+        calendar.set(Calendar.HOUR_OF_DAY, startHour)
+        return calendar.timeInMillis
+    }
+
+    /**
+     * YYYY-MM-DD, matching getDayKey on the JS side
+     */
+    fun dayKey(startHour: Int, nowMs: Long = System.currentTimeMillis()): String {
+        val calendar = dayDate(startHour, nowMs)
+        return String.format(
+            Locale.US,
+            "%04d-%02d-%02d",
+            calendar.get(Calendar.YEAR),
+            calendar.get(Calendar.MONTH) + 1,
+            calendar.get(Calendar.DAY_OF_MONTH)
+        )
+    }
+}
@@ -0,0 +1,76 @@
+package com.dailyfocus
+
+import android.content.SharedPreferences
+import org.json.JSONArray
+
+/**
+ * Focus Sessions
+ *
+ * A timed "block everything" mode, independent of daily limits.
+ * The session lives in the blocking_config SharedPreferences so it survives
+ * process restarts - BlockingService is START_STICKY and picks it up again.
+ *
+ * Mirrors src/features/focus/focusSession.ts - keep the two in sync.
+ */
+data class FocusState(val packageNames: Set<String>, val endsAtMs: Long) {
+    fun remainingMs(nowMs: Long): Long = (endsAtMs - nowMs).coerceAtLeast(0L)
+}
+
+object FocusSessions {
+    private const val KEY_FOCUS_APPS = "focus_apps"
+    private const val KEY_FOCUS_ENDS_AT = "focus_ends_at"
+
+    /**
+     * Active session, or null when none is running or it already ended
+     */
+    fun read(prefs: SharedPreferences, nowMs: Long = System.currentTimeMillis()): FocusState? {
+        val endsAtMs = prefs.getLong(KEY_FOCUS_ENDS_AT, 0L)
+        if (endsAtMs <= nowMs) {
+            return null
+        }
+        val appsJson = prefs.getString(KEY_FOCUS_APPS, "[]") ?: "[]"
+        val packageNames = mutableSetOf<String>()
+        try {
+            val jsonArray = JSONArray(appsJson)
+            for (i in 0 until jsonArray.length()) {
+                packageNames.add(jsonArray.getString(i))
+            }
+        } catch (e: Exception) {
+            return null
+        }
+        return FocusState(packageNames, endsAtMs)
+    }
+
+    /**
+     * True when a session was stored but its end time has passed
+     */
+    fun hasExpired(prefs: SharedPreferences, nowMs: Long = System.currentTimeMillis()): Boolean {
+        val endsAtMs = prefs.getLong(KEY_FOCUS_ENDS_AT, 0L)
+        return endsAtMs in 1..nowMs
+    }
+
+    fun save(prefs: SharedPreferences, state: FocusState) {
+        val appsArray = JSONArray()
+        state.packageNames.forEach { appsArray.put(it) }
+        prefs.edit()
+            .putString(KEY_FOCUS_APPS, appsArray.toString())
+            .putLong(KEY_FOCUS_ENDS_AT, state.endsAtMs)
+            .apply()
+    }
+
+    fun clear(prefs: SharedPreferences) {
+        prefs.edit()
+            .remove(KEY_FOCUS_APPS)
+            .remove(KEY_FOCUS_ENDS_AT)
+            .apply()
+    }
+
+    /**
+     * Remaining time for the notification, e.g. "1h 5m" or "12m"
+     */
+    fun formatRemaining(ms: Long): String {
+        val minutes = ((ms + 59_999) / 60_000).toInt()
+        val hours = minutes / 60
+        return if (hours > 0) "${hours}h ${minutes % 60}m" else "${minutes}m"
+    }
+}
@@ -0,0 +1,56 @@
+package com.dailyfocus
+
+import java.util.concurrent.CopyOnWriteArraySet
+
+/**
+ * Foreground App Events
+ *
+ * In-process stream of foreground app changes. AppBlockingAccessibilityService
+ * publishes every activity window change it sees; BlockingService and
+ * ForegroundAppModule (which forwards to JS) subscribe.
+ *
+ * Without the accessibility service there are no events, and BlockingService
+ * falls back to polling.
+ */
+object ForegroundAppEvents {
+    fun interface Listener {
+        fun onForegroundAppChanged(packageName: String)
+    }
+
+    private val listeners = CopyOnWriteArraySet<Listener>()
+
+    // True while the accessibility service is connected and publishing
+    @Volatile
+    var isConnected: Boolean = false
+        private set
+
+    @Volatile
+    var lastPackageName: String? = null
+        private set
+
+    fun setConnected(connected: Boolean) {
+        isConnected = connected
+        if (!connected) {
+            lastPackageName = null
+        }
+    }
+
+    /**
+     * Notify listeners - repeated events for the same app are dropped
+     */
+    fun publish(packageName: String) {
+        if (packageName == lastPackageName) {
+            return
+        }
+        lastPackageName = packageName
+        listeners.forEach { it.onForegroundAppChanged(packageName) }
+    }
+
+    fun addListener(listener: Listener) {
+        listeners.add(listener)
+    }
+
+    fun removeListener(listener: Listener) {
+        listeners.remove(listener)
+    }
+}
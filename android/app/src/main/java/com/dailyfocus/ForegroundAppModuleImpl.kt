@@ -13,6 +13,8 @@ import com.facebook.react.bridge.WritableNativeMap
  * ForegroundAppModule Implementation
  * 
  * Implements the TurboModule spec for detecting current foreground app.
+ * Foreground changes are pushed to JS from ForegroundAppEvents while JS
+ * has updates started.
  */
 class ForegroundAppModuleImpl(reactContext: ReactApplicationContext) :
     ForegroundAppModuleSpec(reactContext) {
@@ -93,13 +95,37 @@ class ForegroundAppModuleImpl(reactContext: ReactApplicationContext) :
         return getForegroundAppAndroid10Plus(activityManager)
     }
 
-    override fun addForegroundAppListener(callback: com.facebook.react.bridge.Callback) {
-        // For MVP, we'll handle this in JS layer with periodic checks
-        // This is a placeholder for future implementation
+    // Forwards ForegroundAppEvents to JS, skipping Boundly itself like getCurrentForegroundApp
+    private val foregroundListener = ForegroundAppEvents.Listener { packageName ->
+        if (packageName == reactApplicationContext.packageName) {
+            return@Listener
+        }
+        val appInfo = WritableNativeMap()
+        appInfo.putString("packageName", packageName)
+        appInfo.putString("appName", getAppName(packageName))
+        emitOnForegroundAppChanged(appInfo)
+    }
+
+    private fun getAppName(packageName: String): String {
+        return try {
+            val packageManager = getPackageManager()
+            packageManager.getApplicationLabel(packageManager.getApplicationInfo(packageName, 0)).toString()
+        } catch (e: PackageManager.NameNotFoundException) {
+            packageName.substringAfterLast(".")
+        }
+    }
+
+    override fun startForegroundAppUpdates() {
+        ForegroundAppEvents.addListener(foregroundListener)
+    }
+
+    override fun stopForegroundAppUpdates() {
+        ForegroundAppEvents.removeListener(foregroundListener)
     }
 
-    override fun removeForegroundAppListener() {
-        // Placeholder
+    override fun invalidate() {
+        ForegroundAppEvents.removeListener(foregroundListener)
+        super.invalidate()
     }
 }
 
@@ -4,6 +4,7 @@ import com.facebook.react.bridge.ReactApplicationContext
 import com.facebook.react.bridge.ReactContextBaseJavaModule
 import com.facebook.react.bridge.ReactMethod
 import com.facebook.react.bridge.Promise
+import com.facebook.react.bridge.ReadableMap
 import com.facebook.react.module.annotations.ReactModule
 import com.facebook.react.turbomodule.core.interfaces.TurboModule
 
@@ -12,6 +13,7 @@ import com.facebook.react.turbomodule.core.interfaces.TurboModule
  * 
  * This implements the TurboModule interface for detecting foreground apps.
  * The spec is defined in NativeForegroundAppModule.ts and Codegen generates the interface.
+ * onForegroundAppChanged is a typed TurboModule event emitter (CodegenTypes.EventEmitter).
  */
 @ReactModule(name = ForegroundAppModuleSpec.NAME)
 abstract class ForegroundAppModuleSpec internal constructor(context: ReactApplicationContext) :
@@ -29,9 +31,14 @@ abstract class ForegroundAppModuleSpec internal constructor(context: ReactApplic
     abstract fun getCurrentForegroundApp(promise: Promise)
 
     @ReactMethod
-    abstract fun addForegroundAppListener(callback: com.facebook.react.bridge.Callback)
+    abstract fun startForegroundAppUpdates()
 
     @ReactMethod
-    abstract fun removeForegroundAppListener()
+    abstract fun stopForegroundAppUpdates()
+
+    // Same as the emitter Codegen generates for the JS spec's onForegroundAppChanged
+    protected fun emitOnForegroundAppChanged(value: ReadableMap) {
+        mEventEmitterCallback?.invoke("onForegroundAppChanged", value)
+    }
 }
 
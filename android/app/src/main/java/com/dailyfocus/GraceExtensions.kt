@@ -0,0 +1,56 @@
+package com.dailyfocus
+
+import android.content.SharedPreferences
+import org.json.JSONObject
+
+/**
+ * Grace Extensions
+ *
+ * Temporary "N more minutes" exemptions granted from the blocking screen.
+ * The daily allowance is counted on the JS side; the service only needs to
+ * know until when each app is exempt from its limit.
+ * Focus sessions and pomodoro work phases are never exempted.
+ *
+ * Mirrors src/features/limits/grace.ts - keep the two in sync.
+ */
+object GraceExtensions {
+    private const val KEY_EXTENSIONS = "extensions"
+
+    /**
+     * Package name to the time its extension runs out
+     */
+    private fun readAll(prefs: SharedPreferences): Map<String, Long> {
+        return try {
+            val json = JSONObject(prefs.getString(KEY_EXTENSIONS, "{}") ?: "{}")
+            val result = mutableMapOf<String, Long>()
+            val keys = json.keys()
+            while (keys.hasNext()) {
+                val key = keys.next()
+                result[key] = json.optLong(key, 0L)
+            }
+            result
+        } catch (e: Exception) {
+            emptyMap()
+        }
+    }
+
+    fun isExtended(extensions: Map<String, Long>, packageName: String, nowMs: Long): Boolean {
+        return (extensions[packageName] ?: 0L) > nowMs
+    }
+
+    /**
+     * Extensions with the new one added and any that already ran out dropped
+     */
+    fun withGrant(extensions: Map<String, Long>, packageName: String, untilMs: Long, nowMs: Long): Map<String, Long> {
+        return extensions.filterValues { it > nowMs } + (packageName to untilMs)
+    }
+
+    fun isExtended(prefs: SharedPreferences, packageName: String, nowMs: Long = System.currentTimeMillis()): Boolean {
+        return isExtended(readAll(prefs), packageName, nowMs)
+    }
+
+    fun grant(prefs: SharedPreferences, packageName: String, untilMs: Long, nowMs: Long = System.currentTimeMillis()) {
+        val updated = withGrant(readAll(prefs), packageName, untilMs, nowMs)
+        prefs.edit().putString(KEY_EXTENSIONS, JSONObject(updated).toString()).apply()
+    }
+}
@@ -0,0 +1,132 @@
+package com.dailyfocus
+
+import android.util.Log
+import org.json.JSONArray
+import org.json.JSONObject
+import java.util.Calendar
+
+/**
+ * Limit Rules
+ *
+ * Scheduled limits shared by BlockingService and AppBlockingAccessibilityService:
+ * - Weekday (Mon-Fri) / weekend (Sat-Sun) budgets overriding the daily limit
+ * - Blocked windows (e.g. 22:00-07:00) where the app is blocked regardless of usage
+ * - Max opens per day, blocking the open that goes over it
+ * - An optional session cap, enforced through SessionCaps
+ *
+ * Mirrors src/features/limits/schedule.ts and opens.ts - keep them in sync.
+ */
+data class BlockedWindow(val startMinute: Int, val endMinute: Int)
+
+data class AppLimitRule(
+    val limitMs: Long,
+    val weekdayLimitMs: Long? = null,
+    val weekendLimitMs: Long? = null,
+    val blockedWindows: List<BlockedWindow> = emptyList(),
+    val maxOpens: Int? = null,
+    val sessionCap: SessionCap? = null
+)
+
+object LimitRules {
+    private const val TAG = "LimitRules"
+
+    fun isWeekend(calendar: Calendar): Boolean {
+        val day = calendar.get(Calendar.DAY_OF_WEEK)
+        return day == Calendar.SATURDAY || day == Calendar.SUNDAY
+    }
+
+    /**
+     * Daily budget for the given day, or null if the app has no budget
+     */
+    fun effectiveLimitMs(rule: AppLimitRule, calendar: Calendar): Long? {
+        val override = if (isWeekend(calendar)) rule.weekendLimitMs else rule.weekdayLimitMs
+        if (override != null && override > 0) {
+            return override
+        }
+        return if (rule.limitMs > 0) rule.limitMs else null
+    }
+
+    fun findActiveWindow(rule: AppLimitRule, calendar: Calendar): BlockedWindow? {
+        val minute = calendar.get(Calendar.HOUR_OF_DAY) * 60 + calendar.get(Calendar.MINUTE)
+        return rule.blockedWindows.firstOrNull { window ->
+            when {
+                window.startMinute == window.endMinute -> false
+                window.startMinute < window.endMinute ->
+                    minute >= window.startMinute && minute < window.endMinute
+                // Wraps past midnight, e.g. 22:00-07:00
+                else -> minute >= window.startMinute || minute < window.endMinute
+            }
+        }
+    }
+
+    fun hasOpenLimit(rule: AppLimitRule): Boolean {
+        return (rule.maxOpens ?: 0) > 0
+    }
+
+    /**
+     * With a limit of 10 the 10th open is allowed and the 11th blocked
+     */
+    fun isOverOpens(rule: AppLimitRule, opens: Int): Boolean {
+        val maxOpens = rule.maxOpens ?: return false
+        return maxOpens > 0 && opens > maxOpens
+    }
+
+    /**
+     * Blocked windows win over budgets: they apply even with zero usage.
+     * Windows follow the clock, budgets the day - before the day start hour
+     * the previous day's weekday/weekend budget still applies.
+     */
+    fun isBlocked(rule: AppLimitRule, usageMs: Long, calendar: Calendar, dayStartHour: Int): Boolean {
+        if (findActiveWindow(rule, calendar) != null) {
+            return true
+        }
+        val day = DayBoundary.dayDate(dayStartHour, calendar.timeInMillis)
+        val limitMs = effectiveLimitMs(rule, day) ?: return false
+        return usageMs >= limitMs
+    }
+
+    /**
+     * Parse the limits JSON of installs from before BlockingConfig
+     * Accepts the oldest format ({"pkg": limitMs}) as well as rule objects
+     */
+    fun parse(json: String): Map<String, AppLimitRule> {
+        return try {
+            val jsonObject = JSONObject(json)
+            val result = mutableMapOf<String, AppLimitRule>()
+            val keys = jsonObject.keys()
+            while (keys.hasNext()) {
+                val key = keys.next()
+                val value = jsonObject.get(key)
+                result[key] = if (value is JSONObject) {
+                    fromJson(value)
+                } else {
+                    AppLimitRule(limitMs = jsonObject.getLong(key))
+                }
+            }
+            result
+        } catch (e: Exception) {
+            Log.e(TAG, "Error parsing limits: ${e.message}")
+            emptyMap()
+        }
+    }
+
+    /**
+     * One rule as written by JS - extra fields like packageName are ignored
+     */
+    fun fromJson(json: JSONObject): AppLimitRule {
+        val windows = mutableListOf<BlockedWindow>()
+        val windowsArray = json.optJSONArray("blockedWindows") ?: JSONArray()
+        for (i in 0 until windowsArray.length()) {
+            val window = windowsArray.getJSONObject(i)
+            windows.add(BlockedWindow(window.getInt("startMinute"), window.getInt("endMinute")))
+        }
+        return AppLimitRule(
+            limitMs = json.optLong("limitMs", 0L),
+            weekdayLimitMs = if (json.has("weekdayLimitMs")) json.getLong("weekdayLimitMs") else null,
+            weekendLimitMs = if (json.has("weekendLimitMs")) json.getLong("weekendLimitMs") else null,
+            blockedWindows = windows,
+            maxOpens = if (json.has("maxOpens")) json.getInt("maxOpens") else null,
+            sessionCap = json.optJSONObject("sessionCap")?.let { SessionCaps.fromJson(it) }
+        )
+    }
+}
@@ -0,0 +1,118 @@
+package com.dailyfocus
+
+import android.content.SharedPreferences
+import org.json.JSONArray
+import org.json.JSONObject
+
+/**
+ * Limit Warnings
+ *
+ * Decides when to post the "almost at your limit" notifications: at a share
+ * of the limit and at a time left, each at most once per app and day. The
+ * settings arrive with BlockingConfig; the fired log lives here so a warning
+ * isn't repeated after the service or the app restarts.
+ *
+ * The decisions (warningPoints, dueWarnings, the WarningLog updates) are pure
+ * and covered by LimitWarningsTest; only readLog/saveLog touch storage.
+ * warningPoints must place warnings like getWarningPoints in
+ * src/features/limits/warnings.ts, which previews them in the app.
+ */
+data class WarningSettings(val percent: Int, val minutesLeft: Int, val disabled: Set<String>)
+
+// Warnings fired on dayKey, packageName -> thresholds
+data class WarningLog(val dayKey: String, val fired: Map<String, Set<String>>)
+
+object LimitWarnings {
+    const val THRESHOLD_PERCENT = "percent"
+    const val THRESHOLD_MINUTES_LEFT = "minutesLeft"
+
+    private const val KEY_FIRED = "warnings_fired"
+
+    /**
+     * Usage at which each enabled warning fires, earliest first
+     */
+    fun warningPoints(settings: WarningSettings, limitMs: Long): List<Pair<String, Long>> {
+        if (limitMs <= 0) {
+            return emptyList()
+        }
+        val points = mutableListOf<Pair<String, Long>>()
+        if (settings.percent in 1..99) {
+            points.add(THRESHOLD_PERCENT to Math.round(limitMs * settings.percent / 100.0))
+        }
+        // A limit shorter than the warning window would warn before any use
+        if (settings.minutesLeft > 0) {
+            val atUsageMs = limitMs - settings.minutesLeft * 60_000L
+            if (atUsageMs > 0) {
+                points.add(THRESHOLD_MINUTES_LEFT to atUsageMs)
+            }
+        }
+        return points.sortedBy { it.second }
+    }
+
+    /**
+     * Warnings that are due and haven't fired yet - none once the limit is reached
+     */
+    fun dueWarnings(settings: WarningSettings, usageMs: Long, limitMs: Long, fired: Set<String>): List<String> {
+        if (usageMs >= limitMs) {
+            return emptyList()
+        }
+        return warningPoints(settings, limitMs)
+            .filter { (threshold, atUsageMs) -> usageMs >= atUsageMs && !fired.contains(threshold) }
+            .map { it.first }
+    }
+
+    fun firedWarnings(log: WarningLog?, dayKey: String, packageName: String): Set<String> {
+        if (log == null || log.dayKey != dayKey) {
+            return emptySet()
+        }
+        return log.fired[packageName] ?: emptySet()
+    }
+
+    /**
+     * Record fired warnings - a log from another day starts over
+     */
+    fun markFired(log: WarningLog?, dayKey: String, packageName: String, thresholds: List<String>): WarningLog {
+        val fired = if (log != null && log.dayKey == dayKey) log.fired else emptyMap()
+        val all = (fired[packageName] ?: emptySet()) + thresholds
+        return WarningLog(dayKey, fired + (packageName to all))
+    }
+
+    fun firedWarnings(prefs: SharedPreferences, dayKey: String, packageName: String): Set<String> {
+        return firedWarnings(readLog(prefs), dayKey, packageName)
+    }
+
+    fun markFired(prefs: SharedPreferences, dayKey: String, packageName: String, thresholds: List<String>) {
+        saveLog(prefs, markFired(readLog(prefs), dayKey, packageName, thresholds))
+    }
+
+    private fun readLog(prefs: SharedPreferences): WarningLog? {
+        return try {
+            val json = prefs.getString(KEY_FIRED, null)?.let { JSONObject(it) } ?: return null
+            val firedJson = json.optJSONObject("fired") ?: JSONObject()
+            val fired = mutableMapOf<String, Set<String>>()
+            val keys = firedJson.keys()
+            while (keys.hasNext()) {
+                val packageName = keys.next()
+                val thresholds = firedJson.getJSONArray(packageName)
+                fired[packageName] = (0 until thresholds.length()).map { thresholds.getString(it) }.toSet()
+            }
+            WarningLog(json.optString("dayKey"), fired)
+        } catch (e: Exception) {
+            null
+        }
+    }
+
+    private fun saveLog(prefs: SharedPreferences, log: WarningLog) {
+        val fired = JSONObject()
+        for ((packageName, thresholds) in log.fired) {
+            fired.put(packageName, JSONArray(thresholds.toList()))
+        }
+        val json = JSONObject().put("dayKey", log.dayKey).put("fired", fired)
+        prefs.edit().putString(KEY_FIRED, json.toString()).apply()
+    }
+
+    fun message(appName: String, usageMs: Long, limitMs: Long): String {
+        val minutesLeft = maxOf(1L, Math.ceil((limitMs - usageMs) / 60_000.0).toLong())
+        return "$appName: $minutesLeft minute${if (minutesLeft != 1L) "s" else ""} left today"
+    }
+}
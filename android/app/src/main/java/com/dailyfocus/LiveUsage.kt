@@ -0,0 +1,59 @@
+package com.dailyfocus
+
+/**
+ * Live Usage
+ *
+ * Merges system usage totals with the foreground session in progress, so a
+ * limit triggers within seconds instead of when UsageStatsManager catches up.
+ * The larger of "system total + time since it was read" and "total at session
+ * start + whole session" wins, which never counts the open session twice.
+ * An ended session keeps counting up to its end until the next one replaces it.
+ *
+ * Mirrors src/utils/liveUsage.ts - keep the two in sync.
+ */
+data class LiveSession(
+    val packageName: String,
+    val startedAtMs: Long,
+    val baseUsageMs: Long,
+    val endedAtMs: Long? = null
+)
+
+object LiveUsage {
+    fun start(packageName: String, systemUsageMs: Long, nowMs: Long): LiveSession {
+        return LiveSession(packageName, nowMs, systemUsageMs)
+    }
+
+    fun end(session: LiveSession, nowMs: Long): LiveSession {
+        return if (session.endedAtMs != null) session else session.copy(endedAtMs = nowMs)
+    }
+
+    /**
+     * Today's usage for one app including the session in progress
+     *
+     * @param reportedAtMs when systemUsageMs was read
+     * @param dayStartMs start of today - sessions running into a new day only count from here
+     */
+    fun usageMs(
+        packageName: String,
+        systemUsageMs: Long,
+        reportedAtMs: Long?,
+        session: LiveSession?,
+        nowMs: Long,
+        dayStartMs: Long
+    ): Long {
+        if (session == null || session.packageName != packageName || session.startedAtMs > nowMs) {
+            return systemUsageMs
+        }
+
+        val sessionStart = maxOf(session.startedAtMs, dayStartMs)
+        val sessionEnd = minOf(nowMs, session.endedAtMs ?: nowMs)
+        val sinceReport = sessionEnd - maxOf(sessionStart, reportedAtMs ?: sessionStart)
+        // The base was taken on another day when the session started before the day did
+        val base = if (session.startedAtMs >= dayStartMs) session.baseUsageMs else 0L
+
+        return maxOf(
+            systemUsageMs + sinceReport.coerceAtLeast(0L),
+            base + (sessionEnd - sessionStart).coerceAtLeast(0L)
+        )
+    }
+}
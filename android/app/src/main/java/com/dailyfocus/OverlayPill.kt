@@ -0,0 +1,119 @@
+package com.dailyfocus
+
+import android.content.Context
+import android.graphics.Color
+import android.graphics.PixelFormat
+import android.graphics.drawable.GradientDrawable
+import android.os.Build
+import android.os.Handler
+import android.os.Looper
+import android.provider.Settings
+import android.util.Log
+import android.util.TypedValue
+import android.view.Gravity
+import android.view.WindowManager
+import android.widget.TextView
+
+/**
+ * Overlay Pill
+ *
+ * Small "12 min left" label drawn over a limited app by BlockingService.
+ *
+ * Follows the overlay rules in src/features/blocking/BlockingScreen.tsx:
+ * - Opt-in, and needs "Display over other apps" granted from Settings
+ * - Untouchable and unfocusable - it never takes input from the app below
+ * - Only over apps with a limit or group budget, hidden everywhere else
+ *
+ * Window calls must run on the main thread, so every change is posted there.
+ */
+class OverlayPill(private val context: Context) {
+    companion object {
+        private const val TAG = "OverlayPill"
+
+        fun canDraw(context: Context): Boolean {
+            return Build.VERSION.SDK_INT < Build.VERSION_CODES.M || Settings.canDrawOverlays(context)
+        }
+    }
+
+    private val handler = Handler(Looper.getMainLooper())
+    private val windowManager = context.getSystemService(Context.WINDOW_SERVICE) as WindowManager
+    private var view: TextView? = null
+
+    fun show(text: String) {
+        handler.post {
+            if (!canDraw(context)) {
+                removeView()
+                return@post
+            }
+            val current = view
+            if (current != null) {
+                current.text = text
+                return@post
+            }
+            try {
+                val pill = createView(text)
+                windowManager.addView(pill, createLayoutParams())
+                view = pill
+            } catch (e: Exception) {
+                Log.e(TAG, "Error showing pill: ${e.message}", e)
+            }
+        }
+    }
+
+    fun hide() {
+        handler.post { removeView() }
+    }
+
+    private fun removeView() {
+        val current = view ?: return
+        try {
+            windowManager.removeView(current)
+        } catch (e: Exception) {
+            Log.e(TAG, "Error hiding pill: ${e.message}", e)
+        }
+        view = null
+    }
+
+    private fun dp(value: Float): Int {
+        return TypedValue.applyDimension(
+            TypedValue.COMPLEX_UNIT_DIP,
+            value,
+            context.resources.displayMetrics
+        ).toInt()
+    }
+
+    private fun createView(text: String): TextView {
+        return TextView(context).apply {
+            this.text = text
+            setTextColor(Color.WHITE)
+            setTextSize(TypedValue.COMPLEX_UNIT_SP, 13f)
+            setPadding(dp(12f), dp(6f), dp(12f), dp(6f))
+            background = GradientDrawable().apply {
+                cornerRadius = dp(16f).toFloat()
+                setColor(Color.argb(200, 32, 32, 32))
+            }
+        }
+    }
+
+    @Suppress("DEPRECATION")
+    private fun createLayoutParams(): WindowManager.LayoutParams {
+        val type = if (Build.VERSION.SDK_INT >= Build.VERSION_CODES.O) {
+            WindowManager.LayoutParams.TYPE_APPLICATION_OVERLAY
+        } else {
+            WindowManager.LayoutParams.TYPE_PHONE
+        }
+        return WindowManager.LayoutParams(
+            WindowManager.LayoutParams.WRAP_CONTENT,
+            WindowManager.LayoutParams.WRAP_CONTENT,
+            type,
+            WindowManager.LayoutParams.FLAG_NOT_FOCUSABLE or
+                WindowManager.LayoutParams.FLAG_NOT_TOUCHABLE or
+                WindowManager.LayoutParams.FLAG_LAYOUT_IN_SCREEN,
+            PixelFormat.TRANSLUCENT
+        ).apply {
+            gravity = Gravity.TOP or Gravity.END
+            x = dp(16f)
+            y = dp(48f)
+        }
+    }
+}
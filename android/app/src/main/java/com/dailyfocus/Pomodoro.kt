@@ -0,0 +1,126 @@
+package com.dailyfocus
+
+import android.content.SharedPreferences
+import org.json.JSONArray
+import org.json.JSONObject
+
+/**
+ * Pomodoro Cycles
+ *
+ * Work / short-break / long-break cycles on top of focus sessions.
+ * Selected apps are blocked during work phases and released during breaks.
+ * The phase is derived from the start time and config alone, so a restarted
+ * service resumes in the right phase without any stored progress.
+ *
+ * Mirrors src/features/focus/pomodoro.ts - keep the two in sync.
+ */
+data class PomodoroConfig(
+    val workMinutes: Int,
+    val shortBreakMinutes: Int,
+    val longBreakMinutes: Int,
+    val cyclesBeforeLongBreak: Int
+)
+
+data class PomodoroState(
+    val startedAtMs: Long,
+    val config: PomodoroConfig,
+    val packageNames: Set<String>
+)
+
+enum class PomodoroPhaseKind { WORK, SHORT_BREAK, LONG_BREAK }
+
+data class PomodoroPhase(val kind: PomodoroPhaseKind, val cycle: Int, val endsAtMs: Long)
+
+object Pomodoro {
+    private const val KEY_POMODORO = "pomodoro"
+    private const val MINUTE_MS = 60_000L
+
+    private fun setPhases(config: PomodoroConfig): List<Triple<PomodoroPhaseKind, Int, Long>> {
+        val cycles = config.cyclesBeforeLongBreak.coerceAtLeast(1)
+        val phases = mutableListOf<Triple<PomodoroPhaseKind, Int, Long>>()
+        for (cycle in 1..cycles) {
+            phases.add(Triple(PomodoroPhaseKind.WORK, cycle, config.workMinutes * MINUTE_MS))
+            if (cycle < cycles) {
+                phases.add(Triple(PomodoroPhaseKind.SHORT_BREAK, cycle, config.shortBreakMinutes * MINUTE_MS))
+            } else {
+                phases.add(Triple(PomodoroPhaseKind.LONG_BREAK, cycle, config.longBreakMinutes * MINUTE_MS))
+            }
+        }
+        return phases.filter { it.third > 0 }
+    }
+
+    fun currentPhase(state: PomodoroState, nowMs: Long): PomodoroPhase {
+        val phases = setPhases(state.config)
+        val setMs = phases.sumOf { it.third }
+        val elapsed = (nowMs - state.startedAtMs).coerceAtLeast(0L)
+        var phaseStart = state.startedAtMs + if (setMs > 0) (elapsed / setMs) * setMs else 0L
+        for ((kind, cycle, durationMs) in phases) {
+            if (nowMs < phaseStart + durationMs) {
+                return PomodoroPhase(kind, cycle, phaseStart + durationMs)
+            }
+            phaseStart += durationMs
+        }
+        // Only reachable with an all-zero config
+        return PomodoroPhase(PomodoroPhaseKind.WORK, 1, nowMs)
+    }
+
+    /**
+     * True if the app is blocked by the current work phase
+     */
+    fun isBlocked(state: PomodoroState, packageName: String, nowMs: Long): Boolean {
+        return state.packageNames.contains(packageName) &&
+            currentPhase(state, nowMs).kind == PomodoroPhaseKind.WORK
+    }
+
+    fun notificationText(state: PomodoroState, nowMs: Long): String {
+        val phase = currentPhase(state, nowMs)
+        val remaining = FocusSessions.formatRemaining((phase.endsAtMs - nowMs).coerceAtLeast(0L))
+        return when (phase.kind) {
+            PomodoroPhaseKind.WORK ->
+                "Pomodoro work ${phase.cycle}/${state.config.cyclesBeforeLongBreak}: $remaining left"
+            PomodoroPhaseKind.SHORT_BREAK -> "Pomodoro short break: $remaining left"
+            PomodoroPhaseKind.LONG_BREAK -> "Pomodoro long break: $remaining left"
+        }
+    }
+
+    fun read(prefs: SharedPreferences): PomodoroState? {
+        val json = prefs.getString(KEY_POMODORO, null) ?: return null
+        return try {
+            val jsonObject = JSONObject(json)
+            val appsArray = jsonObject.optJSONArray("packageNames") ?: JSONArray()
+            val packageNames = mutableSetOf<String>()
+            for (i in 0 until appsArray.length()) {
+                packageNames.add(appsArray.getString(i))
+            }
+            PomodoroState(
+                startedAtMs = jsonObject.getLong("startedAtMs"),
+                config = PomodoroConfig(
+                    workMinutes = jsonObject.getInt("workMinutes"),
+                    shortBreakMinutes = jsonObject.getInt("shortBreakMinutes"),
+                    longBreakMinutes = jsonObject.getInt("longBreakMinutes"),
+                    cyclesBeforeLongBreak = jsonObject.getInt("cyclesBeforeLongBreak")
+                ),
+                packageNames = packageNames
+            )
+        } catch (e: Exception) {
+            null
+        }
+    }
+
+    fun save(prefs: SharedPreferences, state: PomodoroState) {
+        val appsArray = JSONArray()
+        state.packageNames.forEach { appsArray.put(it) }
+        val json = JSONObject()
+            .put("startedAtMs", state.startedAtMs)
+            .put("workMinutes", state.config.workMinutes)
+            .put("shortBreakMinutes", state.config.shortBreakMinutes)
+            .put("longBreakMinutes", state.config.longBreakMinutes)
+            .put("cyclesBeforeLongBreak", state.config.cyclesBeforeLongBreak)
+            .put("packageNames", appsArray)
+        prefs.edit().putString(KEY_POMODORO, json.toString()).apply()
+    }
+
+    fun clear(prefs: SharedPreferences) {
+        prefs.edit().remove(KEY_POMODORO).apply()
+    }
+}
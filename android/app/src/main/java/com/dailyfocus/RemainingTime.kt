@@ -0,0 +1,53 @@
+package com.dailyfocus
+
+/**
+ * Remaining Time
+ *
+ * Time left today for an app: whichever runs out first, its own limit or a
+ * group budget it shares. Shown in the overlay pill (OverlayPill).
+ *
+ * Pure - covered by RemainingTimeTest.
+ */
+data class RemainingTime(val remainingMs: Long, val groupName: String?)
+
+object RemainingTimes {
+    /**
+     * @param limitMs the app's effective limit today, null or 0 without one
+     * @param usageOf called once per member package of each group
+     */
+    fun compute(
+        packageName: String,
+        limitMs: Long?,
+        groups: List<AppGroupRule>,
+        usageOf: (String) -> Long
+    ): RemainingTime? {
+        var remaining: RemainingTime? = null
+        if (limitMs != null && limitMs > 0) {
+            remaining = RemainingTime(limitMs - usageOf(packageName), null)
+        }
+        for (group in AppGroups.groupsForApp(packageName, groups)) {
+            if (group.limitMs <= 0) {
+                continue
+            }
+            val remainingMs = group.limitMs - group.packageNames.sumOf { usageOf(it) }
+            if (remaining == null || remainingMs < remaining.remainingMs) {
+                remaining = RemainingTime(remainingMs, group.name)
+            }
+        }
+        return remaining?.copy(remainingMs = remaining.remainingMs.coerceAtLeast(0L))
+    }
+
+    /**
+     * e.g. "12 min left" or "Social · 1h 05m left" - minutes round up so the
+     * pill never reads "0 min" before the block
+     */
+    fun label(remaining: RemainingTime): String {
+        val minutes = maxOf(1L, Math.ceil(remaining.remainingMs / 60_000.0).toLong())
+        val text = if (minutes >= 60) {
+            "${minutes / 60}h ${(minutes % 60).toString().padStart(2, '0')}m left"
+        } else {
+            "$minutes min left"
+        }
+        return if (remaining.groupName != null) "${remaining.groupName} · $text" else text
+    }
+}
@@ -0,0 +1,59 @@
+package com.dailyfocus
+
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.WritableArray
+import java.security.SecureRandom
+import javax.crypto.SecretKeyFactory
+import javax.crypto.spec.PBEKeySpec
+
+/**
+ * SecureKeyModule Implementation
+ *
+ * Implements the TurboModule spec on top of StorageKeyStore, plus
+ * SecureRandom bytes and PBKDF2 hashes for JS secrets.
+ */
+class SecureKeyModuleImpl(reactContext: ReactApplicationContext) :
+    SecureKeyModuleSpec(reactContext) {
+
+    companion object {
+        private const val HASH_ALGORITHM = "PBKDF2WithHmacSHA256"
+        private const val HASH_BITS = 256
+    }
+
+    private val secureRandom = SecureRandom()
+
+    override fun getStorageKey(): String {
+        return StorageKeyStore.getOrCreate(reactApplicationContext.applicationContext)
+    }
+
+    override fun resetStorageKey(): String {
+        return StorageKeyStore.reset(reactApplicationContext.applicationContext)
+    }
+
+    override fun getRandomBytes(count: Double): WritableArray {
+        val bytes = ByteArray(count.toInt())
+        secureRandom.nextBytes(bytes)
+        return Arguments.createArray().apply {
+            bytes.forEach { pushInt(it.toInt() and 0xff) }
+        }
+    }
+
+    override fun hashSecret(secret: String, salt: String, iterations: Double): String {
+        val spec = PBEKeySpec(secret.toCharArray(), salt.toByteArray(Charsets.UTF_8), iterations.toInt(), HASH_BITS)
+        return try {
+            val hash = SecretKeyFactory.getInstance(HASH_ALGORITHM).generateSecret(spec).encoded
+            hash.joinToString("") { "%02x".format(it.toInt() and 0xff) }
+        } finally {
+            spec.clearPassword()
+        }
+    }
+
+    override fun isLegacyKeyMigrated(): Boolean {
+        return StorageKeyStore.isLegacyKeyMigrated(reactApplicationContext.applicationContext)
+    }
+
+    override fun setLegacyKeyMigrated() {
+        StorageKeyStore.setLegacyKeyMigrated(reactApplicationContext.applicationContext)
+    }
+}
@@ -0,0 +1,46 @@
+package com.dailyfocus
+
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReactContextBaseJavaModule
+import com.facebook.react.bridge.ReactMethod
+import com.facebook.react.bridge.WritableArray
+import com.facebook.react.module.annotations.ReactModule
+import com.facebook.react.turbomodule.core.interfaces.TurboModule
+
+/**
+ * SecureKeyModule TurboModule Spec
+ *
+ * This implements the TurboModule interface for the MMKV encryption key.
+ * The spec is defined in NativeSecureKeyModule.ts and Codegen generates the interface.
+ * Methods are synchronous because JS opens storage while the bundle loads.
+ */
+@ReactModule(name = SecureKeyModuleSpec.NAME)
+abstract class SecureKeyModuleSpec internal constructor(context: ReactApplicationContext) :
+    ReactContextBaseJavaModule(context), TurboModule {
+
+    companion object {
+        const val NAME = "SecureKeyModule"
+    }
+
+    override fun getName(): String {
+        return NAME
+    }
+
+    @ReactMethod(isBlockingSynchronousMethod = true)
+    abstract fun getStorageKey(): String
+
+    @ReactMethod(isBlockingSynchronousMethod = true)
+    abstract fun resetStorageKey(): String
+
+    @ReactMethod(isBlockingSynchronousMethod = true)
+    abstract fun getRandomBytes(count: Double): WritableArray
+
+    @ReactMethod(isBlockingSynchronousMethod = true)
+    abstract fun hashSecret(secret: String, salt: String, iterations: Double): String
+
+    @ReactMethod(isBlockingSynchronousMethod = true)
+    abstract fun isLegacyKeyMigrated(): Boolean
+
+    @ReactMethod(isBlockingSynchronousMethod = true)
+    abstract fun setLegacyKeyMigrated()
+}
@@ -0,0 +1,158 @@
+package com.dailyfocus
+
+import android.content.SharedPreferences
+import android.util.Log
+import org.json.JSONObject
+
+/**
+ * Session Caps
+ *
+ * "No more than N minutes at a time": a capped app is blocked for a cooldown
+ * once a session reaches its maximum length. BlockingService advances each
+ * app's state on every foreground check and is its only writer; the
+ * accessibility service and JS only read the cooldowns.
+ *
+ * How it works:
+ * - Only time in the foreground counts: the gap between two checks is added
+ *   to the session when it is short enough to be one continuous stretch of
+ *   use, a longer gap means the app was away and adds nothing
+ * - A session lasts until the app has been away for a full cooldown, so
+ *   leaving for a minute and coming back doesn't start a fresh one
+ * - The cooldown starts as soon as the cap is reached
+ *
+ * Pure state machine in advance() - covered by SessionCapsTest.
+ */
+data class SessionCap(
+    val maxSessionMinutes: Int,
+    val cooldownMinutes: Int
+)
+
+sealed class SessionCapState {
+    data class Session(val usedMs: Long, val lastSeenAtMs: Long) : SessionCapState()
+    data class Cooldown(val untilMs: Long) : SessionCapState()
+}
+
+object SessionCaps {
+    private const val TAG = "SessionCaps"
+    private const val KEY_STATES = "session_caps"
+    private const val MINUTE_MS = 60_000L
+
+    // Checks run every couple of seconds while a capped app is in front -
+    // anything longer between two of them means the app was left
+    const val MAX_CHECK_GAP_MS = 10_000L
+
+    fun isEnabled(cap: SessionCap?): Boolean {
+        return cap != null && cap.maxSessionMinutes > 0 && cap.cooldownMinutes > 0
+    }
+
+    /**
+     * Next state after seeing the app in the foreground at nowMs
+     */
+    fun advance(state: SessionCapState?, cap: SessionCap, nowMs: Long): SessionCapState {
+        val cooldownMs = cap.cooldownMinutes * MINUTE_MS
+        if (state is SessionCapState.Cooldown && nowMs < state.untilMs) {
+            return state
+        }
+        val gapMs = if (state is SessionCapState.Session) nowMs - state.lastSeenAtMs else Long.MAX_VALUE
+        if (state is SessionCapState.Session && gapMs < cooldownMs) {
+            val usedMs = state.usedMs + if (gapMs <= MAX_CHECK_GAP_MS) gapMs else 0L
+            if (usedMs >= cap.maxSessionMinutes * MINUTE_MS) {
+                return SessionCapState.Cooldown(nowMs + cooldownMs)
+            }
+            return SessionCapState.Session(usedMs, nowMs)
+        }
+        // First open, a finished cooldown or a long enough break
+        return SessionCapState.Session(0L, nowMs)
+    }
+
+    /**
+     * Advance and store the app's state - true while it is cooling down
+     */
+    fun observe(prefs: SharedPreferences, packageName: String, cap: SessionCap, nowMs: Long = System.currentTimeMillis()): Boolean {
+        val states = readAll(prefs)
+        val next = advance(states[packageName], cap, nowMs)
+        if (next != states[packageName]) {
+            states[packageName] = next
+            save(prefs, states)
+        }
+        return next is SessionCapState.Cooldown && nowMs < next.untilMs
+    }
+
+    /**
+     * When the app can be reopened, 0 when it isn't cooling down
+     */
+    fun cooldownUntil(prefs: SharedPreferences, packageName: String, nowMs: Long = System.currentTimeMillis()): Long {
+        val state = readAll(prefs)[packageName]
+        return if (state is SessionCapState.Cooldown && nowMs < state.untilMs) state.untilMs else 0L
+    }
+
+    /**
+     * Every app currently cooling down, packageName -> until
+     */
+    fun cooldowns(prefs: SharedPreferences, nowMs: Long = System.currentTimeMillis()): Map<String, Long> {
+        return readAll(prefs)
+            .mapNotNull { (packageName, state) ->
+                if (state is SessionCapState.Cooldown && nowMs < state.untilMs) packageName to state.untilMs else null
+            }
+            .toMap()
+    }
+
+    /**
+     * Forget apps that no longer have a cap
+     */
+    fun retain(prefs: SharedPreferences, packageNames: Set<String>) {
+        val states = readAll(prefs)
+        if (states.keys.retainAll(packageNames)) {
+            save(prefs, states)
+        }
+    }
+
+    fun fromJson(json: JSONObject): SessionCap {
+        return SessionCap(
+            maxSessionMinutes = json.getInt("maxSessionMinutes"),
+            cooldownMinutes = json.getInt("cooldownMinutes")
+        )
+    }
+
+    private fun readAll(prefs: SharedPreferences): MutableMap<String, SessionCapState> {
+        val stored = prefs.getString(KEY_STATES, null) ?: return mutableMapOf()
+        return try {
+            val json = JSONObject(stored)
+            val states = mutableMapOf<String, SessionCapState>()
+            val keys = json.keys()
+            while (keys.hasNext()) {
+                val packageName = keys.next()
+                val state = json.getJSONObject(packageName)
+                states[packageName] = if (state.getString("phase") == "cooldown") {
+                    SessionCapState.Cooldown(state.getLong("untilMs"))
+                } else {
+                    // States stored before usedMs existed restart their session
+                    SessionCapState.Session(state.optLong("usedMs", 0L), state.getLong("lastSeenAtMs"))
+                }
+            }
+            states
+        } catch (e: Exception) {
+            Log.e(TAG, "Error reading session caps: ${e.message}")
+            mutableMapOf()
+        }
+    }
+
+    private fun save(prefs: SharedPreferences, states: Map<String, SessionCapState>) {
+        val json = JSONObject()
+        for ((packageName, state) in states) {
+            json.put(
+                packageName,
+                when (state) {
+                    is SessionCapState.Cooldown -> JSONObject()
+                        .put("phase", "cooldown")
+                        .put("untilMs", state.untilMs)
+                    is SessionCapState.Session -> JSONObject()
+                        .put("phase", "session")
+                        .put("usedMs", state.usedMs)
+                        .put("lastSeenAtMs", state.lastSeenAtMs)
+                }
+            )
+        }
+        prefs.edit().putString(KEY_STATES, json.toString()).apply()
+    }
+}
@@ -0,0 +1,148 @@
+package com.dailyfocus
+
+import android.content.Context
+import android.security.keystore.KeyGenParameterSpec
+import android.security.keystore.KeyProperties
+import android.util.Base64
+import android.util.Log
+import java.security.KeyStore
+import java.security.SecureRandom
+import javax.crypto.Cipher
+import javax.crypto.KeyGenerator
+import javax.crypto.SecretKey
+import javax.crypto.spec.GCMParameterSpec
+
+/**
+ * Storage Key Store
+ *
+ * Owns the per-install MMKV encryption key. The key itself is random text
+ * kept in SharedPreferences, encrypted (AES-GCM) with a wrapping key that is
+ * generated inside the Android Keystore and can't be exported.
+ *
+ * If the wrapped key can't be decrypted (e.g. app data restored onto another
+ * device, or a Keystore fault), getOrCreate throws StorageKeyUnavailableException
+ * instead of replacing it - storage encrypted with the old key would become
+ * unreadable for good. A new key is only made by an explicit reset().
+ */
+class StorageKeyUnavailableException(message: String, cause: Throwable? = null) :
+    Exception(message, cause)
+
+object StorageKeyStore {
+    private const val TAG = "StorageKeyStore"
+    private const val ANDROID_KEYSTORE = "AndroidKeyStore"
+    private const val WRAPPING_KEY_ALIAS = "daily_focus_storage_wrapping_key"
+    private const val TRANSFORMATION = "AES/GCM/NoPadding"
+    private const val GCM_TAG_BITS = 128
+
+    private const val PREFS_NAME = "secure_key"
+    private const val KEY_WRAPPED = "wrapped_storage_key"
+    private const val KEY_IV = "wrapped_storage_key_iv"
+    private const val KEY_LEGACY_MIGRATED = "legacy_key_migrated"
+
+    // MMKV accepts at most 16 bytes of key
+    private const val STORAGE_KEY_LENGTH = 16
+    private const val ALPHABET =
+        "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789"
+
+    @Synchronized
+    fun getOrCreate(context: Context): String {
+        val prefs = context.getSharedPreferences(PREFS_NAME, Context.MODE_PRIVATE)
+        val wrapped = prefs.getString(KEY_WRAPPED, null)
+        val iv = prefs.getString(KEY_IV, null)
+        if (wrapped != null && iv != null) {
+            try {
+                return unwrap(wrapped, iv)
+            } catch (e: Exception) {
+                if (isLegacyKeyMigrated(context)) {
+                    throw StorageKeyUnavailableException("Stored key can't be unwrapped", e)
+                }
+                // Storage is still under the legacy key, so nothing depends on this one yet
+                Log.e(TAG, "Stored key can't be unwrapped before migration, generating a new one", e)
+            }
+        }
+
+        return try {
+            createAndStore(context)
+        } catch (e: Exception) {
+            throw StorageKeyUnavailableException("Storage key can't be created", e)
+        }
+    }
+
+    /**
+     * Replace the key - whatever was encrypted with the old one is lost, so this
+     * only runs when the user chose to start over
+     */
+    @Synchronized
+    fun reset(context: Context): String {
+        val key = try {
+            // The wrapping key may be what broke, so it's replaced too
+            KeyStore.getInstance(ANDROID_KEYSTORE).apply { load(null) }.deleteEntry(WRAPPING_KEY_ALIAS)
+            createAndStore(context)
+        } catch (e: Exception) {
+            throw StorageKeyUnavailableException("Storage key can't be created", e)
+        }
+        // There is no legacy storage left to migrate
+        setLegacyKeyMigrated(context)
+        return key
+    }
+
+    fun isLegacyKeyMigrated(context: Context): Boolean {
+        return context.getSharedPreferences(PREFS_NAME, Context.MODE_PRIVATE)
+            .getBoolean(KEY_LEGACY_MIGRATED, false)
+    }
+
+    fun setLegacyKeyMigrated(context: Context) {
+        context.getSharedPreferences(PREFS_NAME, Context.MODE_PRIVATE)
+            .edit()
+            .putBoolean(KEY_LEGACY_MIGRATED, true)
+            .commit()
+    }
+
+    private fun createAndStore(context: Context): String {
+        val prefs = context.getSharedPreferences(PREFS_NAME, Context.MODE_PRIVATE)
+        val key = generateStorageKey()
+        val cipher = Cipher.getInstance(TRANSFORMATION)
+        cipher.init(Cipher.ENCRYPT_MODE, getOrCreateWrappingKey())
+        val encrypted = cipher.doFinal(key.toByteArray(Charsets.UTF_8))
+        prefs.edit()
+            .putString(KEY_WRAPPED, Base64.encodeToString(encrypted, Base64.NO_WRAP))
+            .putString(KEY_IV, Base64.encodeToString(cipher.iv, Base64.NO_WRAP))
+            .commit()
+        return key
+    }
+
+    private fun unwrap(wrapped: String, iv: String): String {
+        val cipher = Cipher.getInstance(TRANSFORMATION)
+        cipher.init(
+            Cipher.DECRYPT_MODE,
+            getOrCreateWrappingKey(),
+            GCMParameterSpec(GCM_TAG_BITS, Base64.decode(iv, Base64.NO_WRAP))
+        )
+        return String(cipher.doFinal(Base64.decode(wrapped, Base64.NO_WRAP)), Charsets.UTF_8)
+    }
+
+    private fun getOrCreateWrappingKey(): SecretKey {
+        val keyStore = KeyStore.getInstance(ANDROID_KEYSTORE).apply { load(null) }
+        (keyStore.getKey(WRAPPING_KEY_ALIAS, null) as? SecretKey)?.let { return it }
+
+        val generator = KeyGenerator.getInstance(KeyProperties.KEY_ALGORITHM_AES, ANDROID_KEYSTORE)
+        generator.init(
+            KeyGenParameterSpec.Builder(
+                WRAPPING_KEY_ALIAS,
+                KeyProperties.PURPOSE_ENCRYPT or KeyProperties.PURPOSE_DECRYPT
+            )
+                .setBlockModes(KeyProperties.BLOCK_MODE_GCM)
+                .setEncryptionPaddings(KeyProperties.ENCRYPTION_PADDING_NONE)
+                .setKeySize(256)
+                .build()
+        )
+        return generator.generateKey()
+    }
+
+    private fun generateStorageKey(): String {
+        val random = SecureRandom()
+        return (1..STORAGE_KEY_LENGTH)
+            .map { ALPHABET[random.nextInt(ALPHABET.length)] }
+            .joinToString("")
+    }
+}
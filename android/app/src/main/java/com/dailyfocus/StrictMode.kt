@@ -0,0 +1,33 @@
+package com.dailyfocus
+
+import android.content.SharedPreferences
+
+/**
+ * Strict Mode
+ *
+ * Until the stored end time, the blocking service may not be stopped from JS.
+ * The end time can only be pushed later, never brought forward, so a
+ * compromised or stale JS state cannot unlock settings early.
+ *
+ * Everything else strict mode forbids is refused by src/features/strict/policy.ts.
+ */
+object StrictMode {
+    private const val KEY_STRICT_UNTIL = "strict_until"
+
+    fun readUntil(prefs: SharedPreferences): Long {
+        return prefs.getLong(KEY_STRICT_UNTIL, 0L)
+    }
+
+    fun isActive(prefs: SharedPreferences, nowMs: Long = System.currentTimeMillis()): Boolean {
+        return readUntil(prefs) > nowMs
+    }
+
+    /**
+     * Store the end time, ignoring anything earlier than the current one
+     */
+    fun extend(prefs: SharedPreferences, untilMs: Long) {
+        if (untilMs > readUntil(prefs)) {
+            prefs.edit().putLong(KEY_STRICT_UNTIL, untilMs).apply()
+        }
+    }
+}
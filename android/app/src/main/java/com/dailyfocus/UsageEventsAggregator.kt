@@ -0,0 +1,104 @@
+package com.dailyfocus
+
+import android.app.usage.UsageEvents
+import android.app.usage.UsageStatsManager
+import android.os.Build
+import java.util.HashMap
+import java.util.HashSet
+
+/**
+ * Usage Events Aggregator
+ *
+ * Computes foreground time and opens per package for an exact time range.
+ *
+ * Why events instead of queryUsageStats:
+ * - queryUsageStats returns whole buckets that overlap the range, so a
+ *   "yesterday" query can include part of today (or miss part of yesterday)
+ * - Raw foreground/background events let us clip sessions at the boundaries
+ */
+object UsageEventsAggregator {
+
+    @Suppress("DEPRECATION")
+    fun computeForegroundTimes(
+        usageStatsManager: UsageStatsManager,
+        startMs: Long,
+        endMs: Long
+    ): Map<String, Long> {
+        val totals = HashMap<String, Long>()
+        val openSince = HashMap<String, Long>()
+        // Packages with an event in the range so far - only their first
+        // unmatched background event can belong to a session from before it
+        val seen = HashSet<String>()
+        val events = usageStatsManager.queryEvents(startMs, endMs) ?: return totals
+        val event = UsageEvents.Event()
+
+        while (events.hasNextEvent()) {
+            events.getNextEvent(event)
+            val packageName = event.packageName ?: continue
+            when (event.eventType) {
+                UsageEvents.Event.MOVE_TO_FOREGROUND -> {
+                    if (!openSince.containsKey(packageName)) {
+                        openSince[packageName] = event.timeStamp
+                    }
+                    seen.add(packageName)
+                }
+                UsageEvents.Event.MOVE_TO_BACKGROUND -> {
+                    // No matching foreground event: the first one closes a session that
+                    // started before the range, later ones are other activities of an
+                    // app whose time was already counted
+                    val since = openSince.remove(packageName)
+                        ?: if (seen.contains(packageName)) null else startMs
+                    seen.add(packageName)
+                    if (since != null) {
+                        val duration = (event.timeStamp - since).coerceAtLeast(0L)
+                        totals[packageName] = (totals[packageName] ?: 0L) + duration
+                    }
+                }
+            }
+        }
+
+        // Sessions still open at the end of the range (e.g. the current app today)
+        val rangeEnd = minOf(endMs, System.currentTimeMillis())
+        for ((packageName, since) in openSince) {
+            val duration = (rangeEnd - since).coerceAtLeast(0L)
+            totals[packageName] = (totals[packageName] ?: 0L) + duration
+        }
+
+        return totals
+    }
+
+    /**
+     * Times each package came to the foreground from another package, or
+     * after the screen was off - activity changes inside an app don't count
+     */
+    @Suppress("DEPRECATION")
+    fun countOpens(
+        usageStatsManager: UsageStatsManager,
+        startMs: Long,
+        endMs: Long
+    ): Map<String, Int> {
+        val counts = HashMap<String, Int>()
+        val events = usageStatsManager.queryEvents(startMs, endMs) ?: return counts
+        val event = UsageEvents.Event()
+        var lastForeground: String? = null
+
+        while (events.hasNextEvent()) {
+            events.getNextEvent(event)
+            when {
+                event.eventType == UsageEvents.Event.MOVE_TO_FOREGROUND -> {
+                    val packageName = event.packageName ?: continue
+                    if (packageName != lastForeground) {
+                        counts[packageName] = (counts[packageName] ?: 0) + 1
+                        lastForeground = packageName
+                    }
+                }
+                Build.VERSION.SDK_INT >= Build.VERSION_CODES.P &&
+                    event.eventType == UsageEvents.Event.SCREEN_NON_INTERACTIVE -> {
+                    lastForeground = null
+                }
+            }
+        }
+
+        return counts
+    }
+}
@@ -10,7 +10,6 @@ import com.facebook.react.bridge.Promise
 import com.facebook.react.bridge.ReactApplicationContext
 import com.facebook.react.bridge.WritableNativeArray
 import com.facebook.react.bridge.WritableNativeMap
-import java.util.Calendar
 import java.util.HashMap
 
 /**
@@ -114,13 +113,9 @@ class UsageStatsModuleImpl(reactContext: ReactApplicationContext) :
 
             val endTime = System.currentTimeMillis()
             
-            // Calculate today's start time (midnight)
-            val calendar = Calendar.getInstance()
-            calendar.set(Calendar.HOUR_OF_DAY, 0)
-            calendar.set(Calendar.MINUTE, 0)
-            calendar.set(Calendar.SECOND, 0)
-            calendar.set(Calendar.MILLISECOND, 0)
-            val todayStartTime = calendar.timeInMillis
+            // Today's start time (the day start hour) - the daily buckets still
+            // start at midnight, which is fine for listing apps
+            val todayStartTime = DayBoundary.dayStartMs(BlockingConfigStore.read(reactApplicationContext).dayStartHour)
             
             // Try multiple strategies to get usage stats
             // Strategy 1: Query with INTERVAL_DAILY for today's data (most accurate)
@@ -414,30 +409,19 @@ class UsageStatsModuleImpl(reactContext: ReactApplicationContext) :
                 return
             }
 
-            val calendar = Calendar.getInstance()
-            calendar.set(Calendar.HOUR_OF_DAY, 0)
-            calendar.set(Calendar.MINUTE, 0)
-            calendar.set(Calendar.SECOND, 0)
-            calendar.set(Calendar.MILLISECOND, 0)
-            val startTime = calendar.timeInMillis
-            val endTime = System.currentTimeMillis()
-
-            val stats = usageStatsManager.queryUsageStats(
-                UsageStatsManager.INTERVAL_DAILY,
-                startTime,
-                endTime
-            ) ?: run {
+            // Events rather than daily buckets, which always start at midnight
+            val totals = UsageEventsAggregator.computeForegroundTimes(
+                usageStatsManager,
+                DayBoundary.dayStartMs(BlockingConfigStore.read(reactApplicationContext).dayStartHour),
+                System.currentTimeMillis()
+            )
+            val totalTime = totals[packageName] ?: 0L
+            if (totalTime == 0L) {
                 promise.resolve(null)
                 return
             }
 
             val packageManager = getPackageManager()
-            val appStat = stats.find { it.packageName == packageName }
-
-            if (appStat == null || appStat.totalTimeInForeground == 0L) {
-                promise.resolve(null)
-                return
-            }
 
             try {
                 val appInfo = packageManager.getApplicationInfo(packageName, 0)
@@ -446,7 +430,7 @@ class UsageStatsModuleImpl(reactContext: ReactApplicationContext) :
                 val result = WritableNativeMap()
                 result.putString("packageName", packageName)
                 result.putString("appName", appName)
-                result.putDouble("totalTimeInForeground", appStat.totalTimeInForeground.toDouble())
+                result.putDouble("totalTimeInForeground", totalTime.toDouble())
                 promise.resolve(result)
             } catch (e: PackageManager.NameNotFoundException) {
                 promise.resolve(null)
@@ -456,6 +440,117 @@ class UsageStatsModuleImpl(reactContext: ReactApplicationContext) :
         }
     }
 
+    override fun getUsageStatsForRange(startMs: Double, endMs: Double, promise: Promise) {
+        try {
+            val usageStatsManager = getUsageStatsManager()
+            if (usageStatsManager == null) {
+                android.util.Log.e("UsageStatsModule", "UsageStatsManager is null")
+                promise.resolve(WritableNativeArray())
+                return
+            }
+
+            val totals = UsageEventsAggregator.computeForegroundTimes(
+                usageStatsManager,
+                startMs.toLong(),
+                endMs.toLong()
+            )
+            android.util.Log.d("UsageStatsModule", "Range query returned usage for ${totals.size} apps")
+
+            val packageManager = getPackageManager()
+            val result = WritableNativeArray()
+            for ((packageName, totalTime) in totals) {
+                if (packageName == reactApplicationContext.packageName || totalTime <= 0L) {
+                    continue
+                }
+
+                val appName = try {
+                    val appInfo = packageManager.getApplicationInfo(packageName, 0)
+                    packageManager.getApplicationLabel(appInfo).toString()
+                } catch (e: Exception) {
+                    extractAppNameFromPackage(packageName)
+                }
+
+                val statMap = WritableNativeMap()
+                statMap.putString("packageName", packageName)
+                statMap.putString("appName", appName)
+                statMap.putDouble("totalTimeInForeground", totalTime.toDouble())
+                result.pushMap(statMap)
+            }
+
+            promise.resolve(result)
+        } catch (e: Exception) {
+            android.util.Log.e("UsageStatsModule", "Error getting usage stats for range: ${e.message}", e)
+            promise.reject("USAGE_STATS_ERROR", "Error getting usage stats for range: ${e.message}", e)
+        }
+    }
+
+    override fun getAppUsageForRange(packageName: String, startMs: Double, endMs: Double, promise: Promise) {
+        try {
+            val usageStatsManager = getUsageStatsManager()
+            if (usageStatsManager == null) {
+                promise.resolve(null)
+                return
+            }
+
+            val totals = UsageEventsAggregator.computeForegroundTimes(
+                usageStatsManager,
+                startMs.toLong(),
+                endMs.toLong()
+            )
+            val totalTime = totals[packageName] ?: 0L
+            if (totalTime <= 0L) {
+                promise.resolve(null)
+                return
+            }
+
+            val packageManager = getPackageManager()
+            val appName = try {
+                val appInfo = packageManager.getApplicationInfo(packageName, 0)
+                packageManager.getApplicationLabel(appInfo).toString()
+            } catch (e: PackageManager.NameNotFoundException) {
+                extractAppNameFromPackage(packageName)
+            }
+
+            val result = WritableNativeMap()
+            result.putString("packageName", packageName)
+            result.putString("appName", appName)
+            result.putDouble("totalTimeInForeground", totalTime.toDouble())
+            promise.resolve(result)
+        } catch (e: Exception) {
+            promise.reject("USAGE_STATS_ERROR", "Error getting app usage for range: ${e.message}", e)
+        }
+    }
+
+    override fun getOpenCountsForRange(startMs: Double, endMs: Double, promise: Promise) {
+        try {
+            val usageStatsManager = getUsageStatsManager()
+            if (usageStatsManager == null) {
+                promise.resolve(WritableNativeArray())
+                return
+            }
+
+            val counts = UsageEventsAggregator.countOpens(
+                usageStatsManager,
+                startMs.toLong(),
+                endMs.toLong()
+            )
+            val result = WritableNativeArray()
+            for ((packageName, opens) in counts) {
+                if (packageName == reactApplicationContext.packageName) {
+                    continue
+                }
+                val countMap = WritableNativeMap()
+                countMap.putString("packageName", packageName)
+                countMap.putInt("opens", opens)
+                result.pushMap(countMap)
+            }
+            promise.resolve(result)
+        } catch (e: Exception) {
+            android.util.Log.e("UsageStatsModule", "Error counting opens for range: ${e.message}", e)
+            promise.reject("USAGE_STATS_ERROR", "Error counting opens for range: ${e.message}", e)
+        }
+    }
+
     override fun openUsageStatsSettings(promise: Promise) {
         try {
             android.util.Log.d("UsageStatsModule", "Opening Usage Stats Settings...")
@@ -35,6 +35,15 @@ abstract class UsageStatsModuleSpec internal constructor(context: ReactApplicati
     @ReactMethod
     abstract fun getAppUsageToday(packageName: String, promise: Promise)
 
+    @ReactMethod
+    abstract fun getUsageStatsForRange(startMs: Double, endMs: Double, promise: Promise)
+
+    @ReactMethod
+    abstract fun getAppUsageForRange(packageName: String, startMs: Double, endMs: Double, promise: Promise)
+
+    @ReactMethod
+    abstract fun getOpenCountsForRange(startMs: Double, endMs: Double, promise: Promise)
+
     @ReactMethod
     abstract fun hasUsageStatsPermission(promise: Promise)
 
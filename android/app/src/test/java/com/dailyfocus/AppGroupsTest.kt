@@ -0,0 +1,53 @@
+package com.dailyfocus
+
+import org.junit.Assert.assertEquals
+import org.junit.Assert.assertNull
+import org.junit.Test
+
+class AppGroupsTest {
+    private val minute = 60_000L
+    private val hour = 60 * minute
+    private val video = "com.example.video"
+    private val chat = "com.example.chat"
+    private val social = AppGroupRule("social", "Social", setOf(video, chat), hour)
+    private val streaming = AppGroupRule("streaming", "Streaming", setOf(video, "com.example.music"), 2 * hour)
+
+    private fun usage(vararg entries: Pair<String, Long>): (String) -> Long {
+        val map = mapOf(*entries)
+        return { map[it] ?: 0L }
+    }
+
+    @Test
+    fun findsTheGroupsAnAppBelongsTo() {
+        assertEquals(listOf(social, streaming), AppGroups.groupsForApp(video, listOf(social, streaming)))
+        assertEquals(listOf(social), AppGroups.groupsForApp(chat, listOf(social, streaming)))
+        assertEquals(emptyList<AppGroupRule>(), AppGroups.groupsForApp("com.other", listOf(social)))
+    }
+
+    @Test
+    fun sumsEveryMemberAgainstTheGroupLimit() {
+        assertNull(AppGroups.findExhaustedGroup(video, listOf(social), usage(video to 20 * minute, chat to 39 * minute)))
+        assertEquals(
+            Pair(social, hour),
+            AppGroups.findExhaustedGroup(video, listOf(social), usage(video to 20 * minute, chat to 40 * minute))
+        )
+    }
+
+    @Test
+    fun blocksEveryMemberOnceTheGroupIsUsedUp() {
+        val used = usage(chat to hour)
+        assertEquals(social, AppGroups.findExhaustedGroup(video, listOf(social), used)?.first)
+        assertEquals(social, AppGroups.findExhaustedGroup(chat, listOf(social), used)?.first)
+        assertNull(AppGroups.findExhaustedGroup("com.other", listOf(social), used))
+    }
+
+    @Test
+    fun skipsGroupsWithoutALimit() {
+        val unlimited = social.copy(limitMs = 0L)
+        assertNull(AppGroups.findExhaustedGroup(video, listOf(unlimited), usage(video to 5 * hour)))
+        assertEquals(
+            streaming,
+            AppGroups.findExhaustedGroup(video, listOf(unlimited, streaming), usage(video to 2 * hour))?.first
+        )
+    }
+}
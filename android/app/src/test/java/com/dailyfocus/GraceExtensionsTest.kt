@@ -0,0 +1,44 @@
+package com.dailyfocus
+
+import org.junit.Assert.assertEquals
+import org.junit.Assert.assertFalse
+import org.junit.Assert.assertTrue
+import org.junit.Test
+
+class GraceExtensionsTest {
+    private val minute = 60_000L
+    private val now = 1_773_082_800_000L // only differences between times matter
+    private val app = "com.example.video"
+
+    @Test
+    fun exemptsAnAppUntilItsExtensionRunsOut() {
+        val extensions = mapOf(app to now + 5 * minute)
+        assertTrue(GraceExtensions.isExtended(extensions, app, now))
+        assertTrue(GraceExtensions.isExtended(extensions, app, now + 5 * minute - 1))
+        assertFalse(GraceExtensions.isExtended(extensions, app, now + 5 * minute))
+    }
+
+    @Test
+    fun doesNotExemptOtherApps() {
+        assertFalse(GraceExtensions.isExtended(mapOf(app to now + minute), "com.other", now))
+        assertFalse(GraceExtensions.isExtended(emptyMap(), app, now))
+    }
+
+    @Test
+    fun dropsExtensionsThatRanOutWhenGranting() {
+        val extensions = mapOf("com.old" to now - minute, "com.other" to now + minute)
+        assertEquals(
+            mapOf("com.other" to now + minute, app to now + 10 * minute),
+            GraceExtensions.withGrant(extensions, app, now + 10 * minute, now)
+        )
+    }
+
+    @Test
+    fun replacesTheAppsPreviousExtension() {
+        val extensions = mapOf(app to now + minute)
+        assertEquals(
+            mapOf(app to now + 5 * minute),
+            GraceExtensions.withGrant(extensions, app, now + 5 * minute, now)
+        )
+    }
+}
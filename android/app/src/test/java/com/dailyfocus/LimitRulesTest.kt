@@ -0,0 +1,96 @@
+package com.dailyfocus
+
+import org.junit.Assert.assertEquals
+import org.junit.Assert.assertFalse
+import org.junit.Assert.assertNull
+import org.junit.Assert.assertTrue
+import org.junit.Test
+import java.util.Calendar
+
+class LimitRulesTest {
+    private val minute = 60_000L
+    private val rule = AppLimitRule(limitMs = 30 * minute, weekendLimitMs = 15 * minute)
+    private val night = BlockedWindow(startMinute = 22 * 60, endMinute = 7 * 60)
+
+    // 2026-03-06 is a Friday, 2026-03-07 a Saturday
+    private fun at(day: Int, hour: Int, minuteOfHour: Int = 0): Calendar {
+        return Calendar.getInstance().apply {
+            clear()
+            set(2026, Calendar.MARCH, day, hour, minuteOfHour)
+        }
+    }
+
+    @Test
+    fun usesTheWeekdayOrWeekendBudgetOverTheDailyLimit() {
+        assertEquals(30 * minute, LimitRules.effectiveLimitMs(rule, at(6, 12)))
+        assertEquals(15 * minute, LimitRules.effectiveLimitMs(rule, at(7, 12)))
+
+        val weekdays = AppLimitRule(limitMs = 30 * minute, weekdayLimitMs = 45 * minute)
+        assertEquals(45 * minute, LimitRules.effectiveLimitMs(weekdays, at(6, 12)))
+        assertEquals(30 * minute, LimitRules.effectiveLimitMs(weekdays, at(7, 12)))
+    }
+
+    @Test
+    fun hasNoBudgetWithoutALimitForThatDay() {
+        val weekendOnly = AppLimitRule(limitMs = 0L, weekendLimitMs = 15 * minute)
+        assertNull(LimitRules.effectiveLimitMs(weekendOnly, at(6, 12)))
+        assertEquals(15 * minute, LimitRules.effectiveLimitMs(weekendOnly, at(7, 12)))
+    }
+
+    @Test
+    fun findsBlockedWindowsIncludingOnesThatWrapPastMidnight() {
+        val lunch = BlockedWindow(startMinute = 12 * 60, endMinute = 13 * 60)
+        val windows = AppLimitRule(limitMs = 0L, blockedWindows = listOf(lunch, night))
+
+        assertEquals(lunch, LimitRules.findActiveWindow(windows, at(6, 12, 30)))
+        assertNull(LimitRules.findActiveWindow(windows, at(6, 13)))
+        assertEquals(night, LimitRules.findActiveWindow(windows, at(6, 23)))
+        assertEquals(night, LimitRules.findActiveWindow(windows, at(7, 6, 59)))
+        assertNull(LimitRules.findActiveWindow(windows, at(7, 7)))
+    }
+
+    @Test
+    fun ignoresEmptyWindows() {
+        val empty = AppLimitRule(limitMs = 0L, blockedWindows = listOf(BlockedWindow(600, 600)))
+        assertNull(LimitRules.findActiveWindow(empty, at(6, 10)))
+    }
+
+    @Test
+    fun blocksOnceTheBudgetIsUsedUp() {
+        assertFalse(LimitRules.isBlocked(rule, 29 * minute, at(6, 12), 0))
+        assertTrue(LimitRules.isBlocked(rule, 30 * minute, at(6, 12), 0))
+        assertTrue(LimitRules.isBlocked(rule, 15 * minute, at(7, 12), 0))
+    }
+
+    @Test
+    fun blocksInsideAWindowEvenWithoutUsage() {
+        val windowed = rule.copy(blockedWindows = listOf(night))
+        assertTrue(LimitRules.isBlocked(windowed, 0L, at(6, 22, 30), 0))
+        assertFalse(LimitRules.isBlocked(windowed, 0L, at(6, 21, 59), 0))
+    }
+
+    @Test
+    fun keepsThePreviousDaysBudgetBeforeTheDayStartHour() {
+        // Saturday 02:00 still belongs to Friday with days starting at 04:00
+        assertFalse(LimitRules.isBlocked(rule, 20 * minute, at(7, 2), 4))
+        assertTrue(LimitRules.isBlocked(rule, 20 * minute, at(7, 4), 4))
+    }
+
+    @Test
+    fun blocksTheOpenThatGoesOverTheMaximum() {
+        val opens = AppLimitRule(limitMs = 0L, maxOpens = 10)
+        assertTrue(LimitRules.hasOpenLimit(opens))
+        assertFalse(LimitRules.isOverOpens(opens, 10))
+        assertTrue(LimitRules.isOverOpens(opens, 11))
+    }
+
+    @Test
+    fun ignoresMissingOrZeroOpenLimits() {
+        assertFalse(LimitRules.hasOpenLimit(rule))
+        assertFalse(LimitRules.isOverOpens(rule, 100))
+
+        val zero = AppLimitRule(limitMs = 0L, maxOpens = 0)
+        assertFalse(LimitRules.hasOpenLimit(zero))
+        assertFalse(LimitRules.isOverOpens(zero, 1))
+    }
+}
@@ -0,0 +1,77 @@
+package com.dailyfocus
+
+import org.junit.Assert.assertEquals
+import org.junit.Test
+
+class LimitWarningsTest {
+    private val minute = 60_000L
+    private val hour = 60 * minute
+    private val app = "com.example.video"
+    private val defaults = WarningSettings(percent = 80, minutesLeft = 5, disabled = emptySet())
+
+    @Test
+    fun placesBothDefaultsEarliestFirst() {
+        assertEquals(
+            listOf(
+                LimitWarnings.THRESHOLD_PERCENT to 48 * minute,
+                LimitWarnings.THRESHOLD_MINUTES_LEFT to 55 * minute
+            ),
+            LimitWarnings.warningPoints(defaults, hour)
+        )
+    }
+
+    @Test
+    fun skipsATimeLeftWarningThatWouldFireBeforeAnyUse() {
+        val timeLeftOnly = defaults.copy(percent = 0, minutesLeft = 10)
+        assertEquals(emptyList<Pair<String, Long>>(), LimitWarnings.warningPoints(timeLeftOnly, 5 * minute))
+    }
+
+    @Test
+    fun isEmptyBeforeTheFirstThreshold() {
+        assertEquals(emptyList<String>(), LimitWarnings.dueWarnings(defaults, 30 * minute, hour, emptySet()))
+    }
+
+    @Test
+    fun returnsThresholdsThatWerePassed() {
+        assertEquals(listOf("percent"), LimitWarnings.dueWarnings(defaults, 50 * minute, hour, emptySet()))
+        assertEquals(
+            listOf("percent", "minutesLeft"),
+            LimitWarnings.dueWarnings(defaults, 56 * minute, hour, emptySet())
+        )
+    }
+
+    @Test
+    fun skipsWarningsThatAlreadyFired() {
+        assertEquals(listOf("minutesLeft"), LimitWarnings.dueWarnings(defaults, 56 * minute, hour, setOf("percent")))
+    }
+
+    @Test
+    fun isEmptyOnceTheLimitIsReached() {
+        assertEquals(emptyList<String>(), LimitWarnings.dueWarnings(defaults, hour, hour, emptySet()))
+    }
+
+    @Test
+    fun recordsFiredWarningsPerAppWithoutDuplicates() {
+        var log = LimitWarnings.markFired(null, "2026-03-10", app, listOf("percent"))
+        log = LimitWarnings.markFired(log, "2026-03-10", app, listOf("percent", "minutesLeft"))
+        log = LimitWarnings.markFired(log, "2026-03-10", "com.other", listOf("percent"))
+        assertEquals(setOf("percent", "minutesLeft"), LimitWarnings.firedWarnings(log, "2026-03-10", app))
+        assertEquals(setOf("percent"), LimitWarnings.firedWarnings(log, "2026-03-10", "com.other"))
+    }
+
+    @Test
+    fun startsOverOnANewDay() {
+        val log = LimitWarnings.markFired(null, "2026-03-10", app, listOf("percent"))
+        assertEquals(emptySet<String>(), LimitWarnings.firedWarnings(log, "2026-03-11", app))
+        assertEquals(
+            mapOf("com.other" to setOf("percent")),
+            LimitWarnings.markFired(log, "2026-03-11", "com.other", listOf("percent")).fired
+        )
+    }
+
+    @Test
+    fun roundsTheTimeLeftUpToWholeMinutes() {
+        assertEquals("Video: 5 minutes left today", LimitWarnings.message("Video", 55 * minute + 30_000L, hour))
+        assertEquals("Video: 1 minute left today", LimitWarnings.message("Video", 59 * minute + 30_000L, hour))
+    }
+}
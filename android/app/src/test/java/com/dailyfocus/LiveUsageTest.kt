@@ -0,0 +1,73 @@
+package com.dailyfocus
+
+import org.junit.Assert.assertEquals
+import org.junit.Test
+
+class LiveUsageTest {
+    private val minute = 60_000L
+    private val dayStart = 1_773_097_200_000L // only differences between times matter
+    private val app = "com.example.video"
+
+    @Test
+    fun returnsTheSystemTotalWithoutASession() {
+        assertEquals(30 * minute, LiveUsage.usageMs(app, 30 * minute, dayStart, null, dayStart + minute, dayStart))
+    }
+
+    @Test
+    fun ignoresASessionForAnotherApp() {
+        val session = LiveUsage.start("com.other", 0L, dayStart)
+        assertEquals(5 * minute, LiveUsage.usageMs(app, 5 * minute, null, session, dayStart + minute, dayStart))
+    }
+
+    @Test
+    fun addsTheWholeSessionWhenTheSystemTotalLagsBehindIt() {
+        val start = dayStart + 60 * minute
+        val session = LiveUsage.start(app, 20 * minute, start)
+        // System still reports the total from before the session
+        val usage = LiveUsage.usageMs(app, 20 * minute, start + 8 * minute, session, start + 10 * minute, dayStart)
+        assertEquals(30 * minute, usage)
+    }
+
+    @Test
+    fun doesNotCountTheSessionTwiceOnceTheSystemHasCaughtUp() {
+        val start = dayStart + 60 * minute
+        val session = LiveUsage.start(app, 20 * minute, start)
+        // System total read 6 minutes into the session already includes them
+        val usage = LiveUsage.usageMs(app, 26 * minute, start + 6 * minute, session, start + 10 * minute, dayStart)
+        assertEquals(30 * minute, usage)
+    }
+
+    @Test
+    fun keepsTheLargerEstimateWhenEarlierSessionsWereCountedLate() {
+        val start = dayStart + 60 * minute
+        val session = LiveUsage.start(app, 20 * minute, start)
+        // The system total grew by more than this session (an earlier one was flushed)
+        val usage = LiveUsage.usageMs(app, 35 * minute, start + 5 * minute, session, start + 10 * minute, dayStart)
+        assertEquals(40 * minute, usage)
+    }
+
+    @Test
+    fun stopsCountingAtTheEndOfTheSession() {
+        val start = dayStart + 60 * minute
+        val session = LiveUsage.end(LiveUsage.start(app, 20 * minute, start), start + 4 * minute)
+        assertEquals(24 * minute, LiveUsage.usageMs(app, 20 * minute, start, session, start + 30 * minute, dayStart))
+    }
+
+    @Test
+    fun keepsTheFirstEndTime() {
+        val session = LiveUsage.end(LiveUsage.start(app, 0L, dayStart), dayStart + minute)
+        assertEquals(dayStart + minute, LiveUsage.end(session, dayStart + 5 * minute).endedAtMs)
+    }
+
+    @Test
+    fun onlyCountsASessionRunningPastTheDayStartFromThatStart() {
+        val session = LiveUsage.start(app, 50 * minute, dayStart - 10 * minute)
+        assertEquals(5 * minute, LiveUsage.usageMs(app, 0L, null, session, dayStart + 5 * minute, dayStart))
+    }
+
+    @Test
+    fun ignoresASessionThatEndedBeforeTheDayStarted() {
+        val session = LiveUsage.end(LiveUsage.start(app, 50 * minute, dayStart - 10 * minute), dayStart - 5 * minute)
+        assertEquals(0L, LiveUsage.usageMs(app, 0L, null, session, dayStart + 5 * minute, dayStart))
+    }
+}
@@ -0,0 +1,79 @@
+package com.dailyfocus
+
+import org.junit.Assert.assertEquals
+import org.junit.Assert.assertNull
+import org.junit.Test
+
+class RemainingTimeTest {
+    private val minute = 60_000L
+    private val hour = 60 * minute
+    private val app = "com.example.video"
+    private val social = AppGroupRule("social", "Social", setOf(app, "com.example.chat"), hour)
+
+    private fun usage(vararg entries: Pair<String, Long>): (String) -> Long {
+        val map = mapOf(*entries)
+        return { map[it] ?: 0L }
+    }
+
+    @Test
+    fun countsDownTheAppLimit() {
+        assertEquals(
+            RemainingTime(40 * minute, null),
+            RemainingTimes.compute(app, hour, emptyList(), usage(app to 20 * minute))
+        )
+    }
+
+    @Test
+    fun isNullForAppsWithoutABudget() {
+        assertNull(RemainingTimes.compute(app, null, emptyList(), usage(app to 20 * minute)))
+        assertNull(RemainingTimes.compute(app, 0L, listOf(social.copy(limitMs = 0L)), usage()))
+    }
+
+    @Test
+    fun usesTheGroupBudgetWhenItRunsOutFirst() {
+        assertEquals(
+            RemainingTime(10 * minute, "Social"),
+            RemainingTimes.compute(
+                app,
+                hour,
+                listOf(social),
+                usage(app to 10 * minute, "com.example.chat" to 40 * minute)
+            )
+        )
+    }
+
+    @Test
+    fun keepsTheAppLimitWhenItIsTighterThanTheGroup() {
+        assertEquals(
+            RemainingTime(5 * minute, null),
+            RemainingTimes.compute(app, 15 * minute, listOf(social), usage(app to 10 * minute))
+        )
+    }
+
+    @Test
+    fun ignoresGroupsTheAppIsNotIn() {
+        val other = social.copy(packageNames = setOf("com.example.chat"))
+        assertNull(RemainingTimes.compute(app, null, listOf(other), usage()))
+    }
+
+    @Test
+    fun neverGoesBelowZero() {
+        assertEquals(0L, RemainingTimes.compute(app, hour, emptyList(), usage(app to 2 * hour))?.remainingMs)
+    }
+
+    @Test
+    fun roundsMinutesUp() {
+        assertEquals("12 min left", RemainingTimes.label(RemainingTime(11 * minute + 12_000L, null)))
+        assertEquals("1 min left", RemainingTimes.label(RemainingTime(0L, null)))
+    }
+
+    @Test
+    fun switchesToHoursPastAnHour() {
+        assertEquals("1h 05m left", RemainingTimes.label(RemainingTime(hour + 5 * minute, null)))
+    }
+
+    @Test
+    fun namesTheGroupWhenItsBudgetIsShown() {
+        assertEquals("Social · 3 min left", RemainingTimes.label(RemainingTime(3 * minute, "Social")))
+    }
+}
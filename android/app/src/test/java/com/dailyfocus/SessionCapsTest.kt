@@ -0,0 +1,65 @@
+package com.dailyfocus
+
+import org.junit.Assert.assertEquals
+import org.junit.Assert.assertSame
+import org.junit.Assert.assertTrue
+import org.junit.Test
+
+class SessionCapsTest {
+    private val minute = 60_000L
+    private val now = 1_773_082_800_000L // only differences between times matter
+    private val cap = SessionCap(maxSessionMinutes = 15, cooldownMinutes = 10)
+
+    // Checks every 2 seconds from fromMs up to toMs, as while the app is in front
+    private fun useBetween(state: SessionCapState?, fromMs: Long, toMs: Long): SessionCapState? {
+        var next = state
+        var at = fromMs
+        while (at <= toMs) {
+            next = SessionCaps.advance(next, cap, at)
+            at += 2_000L
+        }
+        return next
+    }
+
+    @Test
+    fun startsASessionOnTheFirstOpen() {
+        assertEquals(SessionCapState.Session(0L, now), SessionCaps.advance(null, cap, now))
+    }
+
+    @Test
+    fun coolsDownOnceTheSessionReachesTheCap() {
+        val during = useBetween(null, now, now + 14 * minute)
+        assertTrue(during is SessionCapState.Session)
+
+        val after = useBetween(during, now + 14 * minute + 2_000L, now + 15 * minute)
+        assertEquals(SessionCapState.Cooldown(now + 25 * minute), after)
+    }
+
+    @Test
+    fun staysBlockedUntilTheCooldownIsOverThenStartsAfresh() {
+        val cooling = SessionCapState.Cooldown(now)
+        assertSame(cooling, SessionCaps.advance(cooling, cap, now - minute))
+        assertEquals(SessionCapState.Session(0L, now), SessionCaps.advance(cooling, cap, now))
+    }
+
+    @Test
+    fun doesNotCountTimeAwayFromTheApp() {
+        val before = useBetween(null, now, now + 10 * minute)
+        val back = SessionCaps.advance(before, cap, now + 14 * minute)
+        assertEquals(SessionCapState.Session(10 * minute, now + 14 * minute), back)
+    }
+
+    @Test
+    fun keepsTheSessionThroughABreakShorterThanTheCooldown() {
+        val before = useBetween(null, now, now + 10 * minute)
+        val after = useBetween(before, now + 14 * minute, now + 19 * minute)
+        assertEquals(SessionCapState.Cooldown(now + 29 * minute), after)
+    }
+
+    @Test
+    fun startsANewSessionAfterABreakAsLongAsTheCooldown() {
+        val before = useBetween(null, now, now + 14 * minute)
+        val back = SessionCaps.advance(before, cap, now + 24 * minute)
+        assertEquals(SessionCapState.Session(0L, now + 24 * minute), back)
+    }
+}
@@ -1,3 +1,8 @@
 module.exports = {
   preset: 'react-native',
+  setupFiles: ['./jest.setup.js', './node_modules/react-native-gesture-handler/jestSetup.js'],
+  // Native-facing packages ship untranspiled ESM and must go through Babel
+  transformIgnorePatterns: [
+    'node_modules/(?!((jest-)?react-native|@react-native(-community)?|@react-navigation|react-native-mmkv)/)',
+  ],
 };
@@ -0,0 +1,13 @@
+/* eslint-env jest */
+/**
+ * Jest setup
+ *
+ * react-native-mmkv swaps in an in-memory instance under Jest, but still
+ * imports Nitro Modules eagerly - stub it so stores can be tested.
+ */
+
+jest.mock('react-native-nitro-modules', () => ({
+  NitroModules: {
+    createHybridObject: jest.fn(),
+  },
+}));
@@ -7,6 +7,9 @@
  * - Simple list of installed apps with usage
  * - Toggle to select/deselect
  * - Shows current usage for context
+ * - Shows which group(s) a selected app belongs to
+ * - "Always allow" / "Always block" chips put any app on one of the lists,
+ *   tracked or not (see appLists.ts)
  * - Minimal, clean interface
  */
 
@@ -27,13 +30,24 @@ import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useTheme } from '../../utils/theme';
 import { useAppStore } from '../../stores/useAppStore';
 import { useUsageStore } from '../../stores/useUsageStore';
+import { useGroupsStore } from '../../stores/useGroupsStore';
+import { useAppListsStore } from '../../stores/useAppListsStore';
+import { getGroupsForApp } from '../limits/groups';
+import { getAppList, type AppList } from './appLists';
+import StrictNotice from '../strict/StrictNotice';
 import { checkUsageStatsPermission, openUsageStatsSettings } from '../../utils/permissions';
 import UsageStatsModule from '../../native/UsageStatsModule';
 import type { UsageStat } from '../../native/UsageStatsModule';
+import { getDayKey, getDayRange } from '../../utils/dates';
 import type { RootStackParamList } from '../../navigation/AppNavigator';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
+const LIST_OPTIONS: { list: AppList; label: string }[] = [
+  { list: 'allow', label: 'Always allow' },
+  { list: 'block', label: 'Always block' },
+];
+
 export default function AppSelectionScreen() {
   const theme = useTheme();
   const navigation = useNavigation<NavigationProp>();
@@ -48,6 +62,11 @@ export default function AppSelectionScreen() {
   const removeApp = useAppStore((state) => state.removeApp);
   const isSelected = useAppStore((state) => state.isSelected);
   const refreshUsage = useUsageStore((state) => state.refreshUsage);
+  const groups = useGroupsStore((state) => state.groups);
+  const removeAppFromGroups = useGroupsStore((state) => state.removeAppFromGroups);
+  const allowedApps = useAppListsStore((state) => state.allowedApps);
+  const blockedApps = useAppListsStore((state) => state.blockedApps);
+  const setAppList = useAppListsStore((state) => state.setAppList);
 
   // Check permission when screen is focused (but only once, not on every focus)
   const hasCheckedOnFocus = React.useRef(false);
@@ -148,8 +167,13 @@ export default function AppSelectionScreen() {
         throw new Error('UsageStatsModule is not available');
       }
 
-      console.log('AppSelectionScreen: Calling getTodayUsageStats...');
-      const stats = await UsageStatsModule.getTodayUsageStats();
+      // Today as the usage store counts it, from the configured day start
+      const now = Date.now();
+      console.log('AppSelectionScreen: Calling getUsageStatsForRange...');
+      const stats = await UsageStatsModule.getUsageStatsForRange(
+        getDayRange(getDayKey(now)).startMs,
+        now,
+      );
       console.log('AppSelectionScreen: Received stats:', stats?.length || 0, 'apps');
       
       if (!stats || stats.length === 0) {
@@ -201,7 +225,10 @@ export default function AppSelectionScreen() {
 
   const handleToggle = (app: UsageStat) => {
     if (isSelected(app.packageName)) {
-      removeApp(app.packageName);
+      // Strict mode refuses deselecting, the app then stays in its groups too
+      if (removeApp(app.packageName)) {
+        removeAppFromGroups(app.packageName);
+      }
     } else {
       addApp({
         packageName: app.packageName,
@@ -210,6 +237,14 @@ export default function AppSelectionScreen() {
     }
   };
 
+  const listOf = (packageName: string) => getAppList(packageName, { allowedApps, blockedApps });
+
+  // Tapping the app's current list takes it off again
+  const handleListPress = (app: UsageStat, list: AppList) => {
+    const next = listOf(app.packageName) === list ? null : list;
+    setAppList({ packageName: app.packageName, appName: app.appName }, next);
+  };
+
   // Filter apps based on search query
   const filteredApps = useMemo(() => {
     if (!searchQuery.trim()) {
@@ -251,13 +286,13 @@ export default function AppSelectionScreen() {
           If you just granted permission, wait a few minutes for Android to collect usage data, then try again.
         </Text>
         <TouchableOpacity
-          style={[styles.button, { backgroundColor: theme.colors.primary, marginTop: 16 }]}
+          style={[styles.button, styles.retryButton, { backgroundColor: theme.colors.primary }]}
           onPress={handleRetry}
           activeOpacity={0.8}>
           <Text style={styles.buttonText}>Retry</Text>
         </TouchableOpacity>
         <TouchableOpacity
-          style={[styles.button, { backgroundColor: theme.colors.surface, borderWidth: 1, borderColor: theme.colors.border, marginTop: 12 }]}
+          style={[styles.button, styles.settingsButton, { backgroundColor: theme.colors.surface, borderColor: theme.colors.border }]}
           onPress={async () => {
             console.log('AppSelectionScreen: Open Settings button pressed');
             try {
@@ -293,8 +328,12 @@ export default function AppSelectionScreen() {
       </Text>
       <Text style={[styles.subtitle, { color: theme.colors.textSecondary }]}>
         {selectedApps.length} app{selectedApps.length !== 1 ? 's' : ''} selected
+        {allowedApps.length > 0 && ` · ${allowedApps.length} always allowed`}
+        {blockedApps.length > 0 && ` · ${blockedApps.length} always blocked`}
       </Text>
 
+      <StrictNotice />
+
       <View style={[styles.searchContainer, { backgroundColor: theme.colors.surface, borderColor: theme.colors.border }]}>
         <TextInput
           style={[styles.searchInput, { color: theme.colors.text }]}
@@ -336,6 +375,38 @@ export default function AppSelectionScreen() {
               <Text style={[styles.appUsage, { color: theme.colors.textSecondary }]}>
                 {formatTime(item.totalTimeInForeground)} today
               </Text>
+              {getGroupsForApp(item.packageName, groups).length > 0 && (
+                <Text style={[styles.appGroups, { color: theme.colors.primary }]}>
+                  {getGroupsForApp(item.packageName, groups)
+                    .map((group) => group.name)
+                    .join(', ')}
+                </Text>
+              )}
+              <View style={styles.chips}>
+                {LIST_OPTIONS.map(({ list, label }) => {
+                  const isOn = listOf(item.packageName) === list;
+                  const color = list === 'allow' ? theme.colors.success : theme.colors.error;
+                  return (
+                    <TouchableOpacity
+                      key={list}
+                      style={[
+                        styles.chip,
+                        { borderColor: theme.colors.border },
+                        isOn && { backgroundColor: color, borderColor: color },
+                      ]}
+                      onPress={() => handleListPress(item, list)}
+                      activeOpacity={0.7}>
+                      <Text
+                        style={[
+                          styles.chipText,
+                          isOn ? styles.chipTextSelected : { color: theme.colors.textSecondary },
+                        ]}>
+                        {label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
             </View>
             <Switch
               value={isSelected(item.packageName)}
@@ -414,6 +485,28 @@ const styles = StyleSheet.create({
   appUsage: {
     fontSize: 14,
   },
+  appGroups: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  chip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 12,
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
   emptyText: {
     fontSize: 16,
     textAlign: 'center',
@@ -425,6 +518,13 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     alignItems: 'center',
   },
+  retryButton: {
+    marginTop: 16,
+  },
+  settingsButton: {
+    borderWidth: 1,
+    marginTop: 12,
+  },
   buttonText: {
     color: '#FFFFFF',
     fontSize: 16,
@@ -5,10 +5,13 @@
  * - See current status
  * - Navigate to app selection
  * - View stats
+ * - Start a focus session or pomodoro cycles
+ * - Lock settings with strict mode
+ * - Back up or copy the configuration
  */
 
 import React, { useEffect, useState } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, AppState } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, AppState, ScrollView } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useTheme } from '../../utils/theme';
@@ -17,6 +20,12 @@ import type { RootStackParamList } from '../../navigation/AppNavigator';
 import { useAppStore } from '../../stores/useAppStore';
 import { useLimitsStore } from '../../stores/useLimitsStore';
 import { useBlockingService } from '../blocking/useBlockingService';
+import { hasActiveRule } from '../limits/schedule';
+import { getGroupsForApp } from '../limits/groups';
+import { useGroupsStore } from '../../stores/useGroupsStore';
+import FocusCard from '../focus/FocusCard';
+import PomodoroCard from '../focus/PomodoroCard';
+import StrictModeCard from '../strict/StrictModeCard';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
@@ -26,6 +35,8 @@ export default function HomeScreen() {
   const [isChecking, setIsChecking] = useState(true);
   const selectedApps = useAppStore((state) => state.selectedApps);
   const limits = useLimitsStore((state) => state.limits);
+  const schedules = useLimitsStore((state) => state.schedules);
+  const groups = useGroupsStore((state) => state.groups);
   const { isAccessibilityEnabled, checkAccessibilityStatus, openAccessibilitySettings } = useBlockingService();
 
   // Check permission when screen is focused (user might have granted it)
@@ -79,14 +90,18 @@ export default function HomeScreen() {
   }
 
   const activeAppsCount = selectedApps.filter(
-    (app) => limits[app.packageName] && limits[app.packageName] > 0,
+    (app) =>
+      hasActiveRule(limits[app.packageName], schedules[app.packageName]) ||
+      getGroupsForApp(app.packageName, groups).some((group) => group.limitMs > 0),
   ).length;
 
   const needsAccessibility = activeAppsCount > 0 && !isAccessibilityEnabled;
 
   return (
     <>
-      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <ScrollView
+        style={{ backgroundColor: theme.colors.background }}
+        contentContainerStyle={styles.scrollContent}>
         <Text style={[styles.title, { color: theme.colors.text }]}>
           Boundly
         </Text>
@@ -97,14 +112,14 @@ export default function HomeScreen() {
         </Text>
 
         {needsAccessibility && (
-          <View style={[styles.warningContainer, { backgroundColor: theme.colors.surface, borderColor: '#FFA500' }]}>
+          <View style={[styles.warningContainer, { backgroundColor: theme.colors.surface }]}>
             <Text style={[styles.warningTitle, { color: theme.colors.text }]}>
               ⚠️ Enable App Blocking
             </Text>
             <Text style={[styles.warningText, { color: theme.colors.textSecondary }]}>
               To prevent blocked apps from launching, you need to enable the Accessibility Service.
             </Text>
-            <Text style={[styles.warningText, { color: theme.colors.textSecondary, marginTop: 8 }]}>
+            <Text style={[styles.warningText, styles.warningTextSpaced, { color: theme.colors.textSecondary }]}>
               Tap the button below, then find "Boundly" and enable it.
             </Text>
             <TouchableOpacity
@@ -124,6 +139,10 @@ export default function HomeScreen() {
           </View>
         )}
 
+        {selectedApps.length > 0 && <FocusCard selectedApps={selectedApps} />}
+        {selectedApps.length > 0 && <PomodoroCard selectedApps={selectedApps} />}
+        {selectedApps.length > 0 && <StrictModeCard />}
+
         <View style={styles.buttonContainer}>
           <TouchableOpacity
             style={[styles.button, { backgroundColor: theme.colors.primary }]}
@@ -136,7 +155,8 @@ export default function HomeScreen() {
             <TouchableOpacity
               style={[
                 styles.button,
-                { backgroundColor: theme.colors.surface, borderWidth: 1, borderColor: theme.colors.border },
+                styles.secondaryButton,
+                { backgroundColor: theme.colors.surface, borderColor: theme.colors.border },
               ]}
               onPress={() => navigation.navigate('Limits')}
               activeOpacity={0.8}>
@@ -149,7 +169,8 @@ export default function HomeScreen() {
           <TouchableOpacity
             style={[
               styles.button,
-              { backgroundColor: theme.colors.surface, borderWidth: 1, borderColor: theme.colors.border },
+              styles.secondaryButton,
+              { backgroundColor: theme.colors.surface, borderColor: theme.colors.border },
             ]}
             onPress={() => navigation.navigate('Stats')}
             activeOpacity={0.8}>
@@ -157,8 +178,21 @@ export default function HomeScreen() {
               View Stats
             </Text>
           </TouchableOpacity>
+
+          <TouchableOpacity
+            style={[
+              styles.button,
+              styles.secondaryButton,
+              { backgroundColor: theme.colors.surface, borderColor: theme.colors.border },
+            ]}
+            onPress={() => navigation.navigate('Config')}
+            activeOpacity={0.8}>
+            <Text style={[styles.buttonText, { color: theme.colors.text }]}>
+              Backup & Restore
+            </Text>
+          </TouchableOpacity>
         </View>
-      </View>
+      </ScrollView>
     </>
   );
 }
@@ -170,6 +204,12 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     padding: 24,
   },
+  scrollContent: {
+    flexGrow: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
   title: {
     fontSize: 32,
     fontWeight: 'bold',
@@ -191,6 +231,9 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     alignItems: 'center',
   },
+  secondaryButton: {
+    borderWidth: 1,
+  },
   buttonText: {
     color: '#FFFFFF',
     fontSize: 16,
@@ -202,6 +245,7 @@ const styles = StyleSheet.create({
     padding: 16,
     borderRadius: 12,
     borderWidth: 2,
+    borderColor: '#FFA500',
     marginBottom: 24,
   },
   warningTitle: {
@@ -214,6 +258,9 @@ const styles = StyleSheet.create({
     lineHeight: 20,
     marginBottom: 4,
   },
+  warningTextSpaced: {
+    marginTop: 8,
+  },
   warningButton: {
     paddingVertical: 12,
     paddingHorizontal: 24,
@@ -0,0 +1,56 @@
+/**
+ * App Lists
+ *
+ * Two lists next to the tracked apps: apps that are always allowed (phone,
+ * maps, banking - never blocked by anything) and apps that are always
+ * blocked (a zero budget, no extensions).
+ *
+ * Precedence, first match wins:
+ * 1. Boundly itself and always-allowed apps - never blocked, not even by
+ *    focus sessions, pomodoro or group limits
+ * 2. Always-blocked apps - blocked whatever else applies
+ * 3. Everything else - focus time, then limits, schedules and groups
+ *
+ * An app is on at most one list; putting it on one takes it off the other.
+ *
+ * Mirrored in Kotlin by AppLists.kt - keep the two in sync.
+ */
+
+import type { SelectedApp } from '../../stores/useAppStore';
+
+export type AppList = 'allow' | 'block';
+
+export interface AppLists {
+  allowedApps: SelectedApp[];
+  blockedApps: SelectedApp[];
+}
+
+export const EMPTY_APP_LISTS: AppLists = { allowedApps: [], blockedApps: [] };
+
+/**
+ * The app's list, null when the usual rules decide
+ */
+export function getAppList(packageName: string, lists: AppLists): AppList | null {
+  if (lists.allowedApps.some((app) => app.packageName === packageName)) {
+    return 'allow';
+  }
+  if (lists.blockedApps.some((app) => app.packageName === packageName)) {
+    return 'block';
+  }
+  return null;
+}
+
+/**
+ * Put the app on a list, or take it off both with null
+ */
+export function assignAppList(lists: AppLists, app: SelectedApp, list: AppList | null): AppLists {
+  const isOther = (candidate: SelectedApp) => candidate.packageName !== app.packageName;
+  const allowedApps = lists.allowedApps.filter(isOther);
+  const blockedApps = lists.blockedApps.filter(isOther);
+  if (list === 'allow') {
+    allowedApps.push(app);
+  } else if (list === 'block') {
+    blockedApps.push(app);
+  }
+  return { allowedApps, blockedApps };
+}
@@ -3,8 +3,12 @@
  * 
  * UX Considerations:
  * - Minimal and non-aggressive
- * - Clear message about why app is blocked
+ * - Clear message about why app is blocked (time, schedule, group, opens, session, focus
+ *   or the block list)
+ * - Session caps show how long until the app can be reopened
  * - Option to dismiss (but app will be blocked again if still over limit)
+ * - Optional "N more minutes" from a small daily allowance, never during focus time
+ * - Optional friction (sentence, countdown, sum) before the extension is granted
  * - Play Store compliant: Not manipulative, clear purpose
  * 
  * Overlay Risks & Mitigations:
@@ -14,9 +18,11 @@
  * - Mitigation: Re-check periodically, but don't be too aggressive
  * - Risk: Play Store might flag as overlay abuse
  * - Mitigation: Clear purpose (user-set limits), not ads or manipulation
+ * - Risk: The remaining-time pill (OverlayPill.kt) draws over other apps
+ * - Mitigation: Opt-in, untouchable, only over apps with a limit, hidden once blocked
  */
 
-import React from 'react';
+import React, { useCallback, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -26,17 +32,43 @@ import {
 } from 'react-native';
 import { useTheme } from '../../utils/theme';
 import type { BlockedApp } from './useBlockingService';
+import { formatClockTime } from '../limits/schedule';
+import { formatCountdown } from '../focus/focusSession';
+import { getChallenge } from './challenges/registry';
 
 interface BlockingScreenProps {
   blockedApp: BlockedApp;
   onDismiss: () => void;
+  onExtend: () => void;
 }
 
 export default function BlockingScreen({
   blockedApp,
   onDismiss,
+  onExtend,
 }: BlockingScreenProps) {
   const theme = useTheme();
+  const [showChallenge, setShowChallenge] = useState(false);
+  const hasExtended = useRef(false);
+
+  const challenge = getChallenge(blockedApp.challenge);
+
+  // Challenges may report success more than once (e.g. re-rendered countdown)
+  const handleExtend = useCallback(() => {
+    if (hasExtended.current) {
+      return;
+    }
+    hasExtended.current = true;
+    onExtend();
+  }, [onExtend]);
+
+  const handleExtendPress = () => {
+    if (challenge) {
+      setShowChallenge(true);
+    } else {
+      handleExtend();
+    }
+  };
 
   const formatTime = (ms: number): string => {
     const minutes = Math.floor(ms / 60000);
@@ -47,6 +79,20 @@ export default function BlockingScreen({
     return `${minutes}m`;
   };
 
+  const isWindowBlock = blockedApp.reason === 'window';
+  const isGroupBlock = blockedApp.reason === 'group';
+  const isOpensBlock = blockedApp.reason === 'opens';
+  const isSessionBlock = blockedApp.reason === 'session' && blockedApp.availableAt !== undefined;
+  const isPomodoroBlock = blockedApp.reason === 'pomodoro';
+  const isListBlock = blockedApp.reason === 'blocklist';
+  const isFocusBlock =
+    (blockedApp.reason === 'focus' || isPomodoroBlock) && blockedApp.focusEndsAt !== undefined;
+
+  const focusEndsAt = new Date(blockedApp.focusEndsAt ?? 0);
+  const focusRemainingMs = Math.max(0, (blockedApp.focusEndsAt ?? 0) - Date.now());
+  const availableAt = new Date(blockedApp.availableAt ?? 0);
+  const cooldownRemainingMs = Math.max(0, (blockedApp.availableAt ?? 0) - Date.now());
+
   return (
     <Modal
       visible={true}
@@ -58,34 +104,138 @@ export default function BlockingScreen({
           <Text style={[styles.icon, { color: theme.colors.warning }]}>⏱</Text>
           
           <Text style={[styles.title, { color: theme.colors.text }]}>
-            Daily Limit Reached
+            {isFocusBlock
+              ? isPomodoroBlock
+                ? 'Pomodoro Work Phase'
+                : 'Focus Session Active'
+              : isWindowBlock
+              ? 'Blocked Right Now'
+              : isGroupBlock
+              ? 'Group Limit Reached'
+              : isOpensBlock
+              ? 'Open Limit Reached'
+              : isSessionBlock
+              ? 'Time for a Break'
+              : isListBlock
+              ? 'Always Blocked'
+              : 'Daily Limit Reached'}
           </Text>
 
           <Text style={[styles.appName, { color: theme.colors.primary }]}>
             {blockedApp.appName}
           </Text>
 
-          <View style={styles.statsContainer}>
-            <View style={styles.stat}>
-              <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
-                Used Today
-              </Text>
-              <Text style={[styles.statValue, { color: theme.colors.text }]}>
-                {formatTime(blockedApp.usageMs)}
-              </Text>
+          {isGroupBlock && blockedApp.groupName && (
+            <Text style={[styles.groupName, { color: theme.colors.textSecondary }]}>
+              Part of "{blockedApp.groupName}"
+            </Text>
+          )}
+
+          {isListBlock ? null : isFocusBlock ? (
+            <View style={styles.statsContainer}>
+              <View style={styles.stat}>
+                <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
+                  Time Left
+                </Text>
+                <Text style={[styles.statValue, { color: theme.colors.text }]}>
+                  {formatCountdown(focusRemainingMs)}
+                </Text>
+              </View>
+              <View style={styles.stat}>
+                <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
+                  Ends At
+                </Text>
+                <Text style={[styles.statValue, { color: theme.colors.text }]}>
+                  {formatClockTime(focusEndsAt.getHours() * 60 + focusEndsAt.getMinutes())}
+                </Text>
+              </View>
             </View>
-            <View style={styles.stat}>
-              <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
-                Daily Limit
-              </Text>
-              <Text style={[styles.statValue, { color: theme.colors.text }]}>
-                {formatTime(blockedApp.limitMs)}
-              </Text>
+          ) : isSessionBlock ? (
+            <View style={styles.statsContainer}>
+              <View style={styles.stat}>
+                <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
+                  Reopens In
+                </Text>
+                <Text style={[styles.statValue, { color: theme.colors.text }]}>
+                  {formatCountdown(cooldownRemainingMs)}
+                </Text>
+              </View>
+              <View style={styles.stat}>
+                <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
+                  Available At
+                </Text>
+                <Text style={[styles.statValue, { color: theme.colors.text }]}>
+                  {formatClockTime(availableAt.getHours() * 60 + availableAt.getMinutes())}
+                </Text>
+              </View>
+            </View>
+          ) : isOpensBlock ? (
+            <View style={styles.statsContainer}>
+              <View style={styles.stat}>
+                <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
+                  Opened Today
+                </Text>
+                <Text style={[styles.statValue, { color: theme.colors.text }]}>
+                  {blockedApp.opens ?? 0}
+                </Text>
+              </View>
+              <View style={styles.stat}>
+                <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
+                  Daily Opens
+                </Text>
+                <Text style={[styles.statValue, { color: theme.colors.text }]}>
+                  {blockedApp.maxOpens ?? 0}
+                </Text>
+              </View>
+            </View>
+          ) : (
+            <View style={styles.statsContainer}>
+              <View style={styles.stat}>
+                <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
+                  {isGroupBlock ? 'Group Used Today' : 'Used Today'}
+                </Text>
+                <Text style={[styles.statValue, { color: theme.colors.text }]}>
+                  {formatTime(blockedApp.usageMs)}
+                </Text>
+              </View>
+              {isWindowBlock && blockedApp.blockedUntilMinute !== undefined ? (
+                <View style={styles.stat}>
+                  <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
+                    Available At
+                  </Text>
+                  <Text style={[styles.statValue, { color: theme.colors.text }]}>
+                    {formatClockTime(blockedApp.blockedUntilMinute)}
+                  </Text>
+                </View>
+              ) : (
+                <View style={styles.stat}>
+                  <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
+                    {isGroupBlock ? 'Group Limit' : 'Daily Limit'}
+                  </Text>
+                  <Text style={[styles.statValue, { color: theme.colors.text }]}>
+                    {formatTime(blockedApp.limitMs)}
+                  </Text>
+                </View>
+              )}
             </View>
-          </View>
+          )}
 
           <Text style={[styles.message, { color: theme.colors.textSecondary }]}>
-            You've reached your daily limit for this app. Take a break and come back tomorrow.
+            {isFocusBlock
+              ? isPomodoroBlock
+                ? 'This app is blocked while you work. It will be available again at your next break.'
+                : "You're in a focus session. This app stays blocked until the timer runs out."
+              : isWindowBlock
+              ? "This app is scheduled to be blocked during this time. It'll be available again when the window ends."
+              : isGroupBlock
+              ? "You've used up the shared daily budget for this group. All apps in it are blocked until tomorrow."
+              : isSessionBlock
+              ? `You've used this app for ${blockedApp.sessionMinutes ?? 0} minutes in one go. It needs a break before you can open it again.`
+              : isOpensBlock
+              ? "You've opened this app as many times as you allowed today. Checking it less often is the point - see you tomorrow."
+              : isListBlock
+              ? "You've chosen to always block this app. Take it off the block list in app selection to use it again."
+              : "You've reached your daily limit for this app. Take a break and come back tomorrow."}
           </Text>
 
           <TouchableOpacity
@@ -95,8 +245,46 @@ export default function BlockingScreen({
             <Text style={styles.buttonText}>Got it</Text>
           </TouchableOpacity>
 
+          {showChallenge && challenge ? (
+            <View style={styles.challenge}>
+              <challenge.component onSolved={handleExtend} />
+              <TouchableOpacity onPress={() => setShowChallenge(false)} activeOpacity={0.6}>
+                <Text style={[styles.extensionsUsed, { color: theme.colors.textSecondary }]}>
+                  Never mind
+                </Text>
+              </TouchableOpacity>
+            </View>
+          ) : (
+            blockedApp.extensionsRemaining !== undefined &&
+            (blockedApp.extensionsRemaining > 0 ? (
+              <TouchableOpacity
+                style={[styles.extendButton, { borderColor: theme.colors.border }]}
+                onPress={handleExtendPress}
+                activeOpacity={0.8}>
+                <Text style={[styles.extendButtonText, { color: theme.colors.text }]}>
+                  {blockedApp.extensionMinutes} more minutes ({blockedApp.extensionsRemaining} left
+                  today)
+                </Text>
+              </TouchableOpacity>
+            ) : (
+              <Text style={[styles.extensionsUsed, { color: theme.colors.textSecondary }]}>
+                No extensions left today
+              </Text>
+            ))
+          )}
+
           <Text style={[styles.note, { color: theme.colors.textSecondary }]}>
-            Note: This screen will appear again if you try to use this app today.
+            {isFocusBlock
+              ? isPomodoroBlock
+                ? 'Note: This screen will appear again if you open this app before the break.'
+                : 'Note: This screen will appear again if you open this app before the session ends.'
+              : isWindowBlock
+              ? 'Note: This screen will appear again if you open this app before the window ends.'
+              : isSessionBlock
+              ? 'Note: This screen will appear again if you open this app before the break is over.'
+              : isListBlock
+              ? 'Note: This screen will appear every time you open this app.'
+              : 'Note: This screen will appear again if you try to use this app today.'}
           </Text>
         </View>
       </View>
@@ -139,6 +327,12 @@ const styles = StyleSheet.create({
     marginBottom: 24,
     textAlign: 'center',
   },
+  groupName: {
+    fontSize: 14,
+    marginTop: -16,
+    marginBottom: 24,
+    textAlign: 'center',
+  },
   statsContainer: {
     flexDirection: 'row',
     justifyContent: 'space-around',
@@ -179,6 +373,29 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  extendButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 32,
+    borderRadius: 8,
+    borderWidth: 1,
+    width: '100%',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  extendButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  challenge: {
+    width: '100%',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 16,
+  },
+  extensionsUsed: {
+    fontSize: 14,
+    marginBottom: 16,
+  },
   note: {
     fontSize: 12,
     textAlign: 'center',
@@ -0,0 +1,245 @@
+/**
+ * Blocking Config
+ *
+ * The one document the native services enforce: tracked apps, their rules,
+ * the always-allowed and always-blocked lists, groups, warnings, the
+ * remaining-time pill and the day start hour. Built from the stores (the
+ * source of truth) and handed to native whole, so the two sides can't
+ * disagree about part of it (see configSync.ts).
+ *
+ * Runtime state - focus sessions, pomodoro, extensions, strict mode - is
+ * pushed separately, as it changes on its own schedule.
+ *
+ * Read in Kotlin by BlockingConfig.kt - keep the two in sync.
+ */
+
+import type { SelectedApp } from '../../stores/useAppStore';
+import type { AppLists } from '../appSelection/appLists';
+import type { BlockedWindow, LimitSchedule } from '../limits/schedule';
+import { hasActiveRule } from '../limits/schedule';
+import { hasOpenLimit } from '../limits/opens';
+import { isSessionCapEnabled, type SessionCap } from '../limits/sessionCap';
+import type { AppGroup } from '../limits/groups';
+import type { WarningSettings } from '../limits/warnings';
+import {
+  isArrayOf,
+  isBoolean,
+  isIntegerInRange,
+  isNonNegativeNumber,
+  isOptional,
+  isShape,
+  isString,
+} from '../../utils/validation';
+
+// Bump with a matching change in BlockingConfig.kt
+export const BLOCKING_CONFIG_VERSION = 1;
+
+export interface AppLimit {
+  packageName: string;
+  limitMs: number; // 0 when only schedule rules apply
+  weekdayLimitMs?: number;
+  weekendLimitMs?: number;
+  blockedWindows?: BlockedWindow[];
+  maxOpens?: number;
+  sessionCap?: SessionCap;
+}
+
+export interface AppGroupConfig {
+  id: string;
+  name: string;
+  packageNames: string[];
+  limitMs: number; // Combined daily budget across members
+}
+
+export interface WarningConfig {
+  percent: number; // 0 = off
+  minutesLeft: number; // 0 = off
+  disabledPackageNames: string[];
+}
+
+export interface BlockingConfig {
+  version: number;
+  selectedApps: string[];
+  allowedApps: string[]; // never blocked, overrides everything below
+  blockedApps: string[]; // always blocked
+  limits: AppLimit[];
+  groups: AppGroupConfig[];
+  warnings: WarningConfig;
+  overlayPill: boolean;
+  dayStartHour: number;
+}
+
+export type BlockingConfigSection = Exclude<keyof BlockingConfig, 'version'>;
+
+export interface BlockingConfigInput {
+  selectedApps: SelectedApp[];
+  appLists: AppLists;
+  limits: Record<string, number>;
+  openLimits: Record<string, number>;
+  sessionCaps: Record<string, SessionCap>;
+  schedules: Record<string, LimitSchedule>;
+  groups: AppGroup[];
+  warningSettings: WarningSettings;
+  warningsDisabled: string[];
+  showRemainingPill: boolean;
+  dayStartHour: number;
+}
+
+const SECTIONS: BlockingConfigSection[] = [
+  'selectedApps',
+  'allowedApps',
+  'blockedApps',
+  'limits',
+  'groups',
+  'warnings',
+  'overlayPill',
+  'dayStartHour',
+];
+
+const isBlockingConfig = isShape<BlockingConfig>({
+  version: isNonNegativeNumber,
+  selectedApps: isArrayOf(isString),
+  allowedApps: isArrayOf(isString),
+  blockedApps: isArrayOf(isString),
+  limits: isArrayOf(
+    isShape<AppLimit>({
+      packageName: isString,
+      limitMs: isNonNegativeNumber,
+      weekdayLimitMs: isOptional(isNonNegativeNumber),
+      weekendLimitMs: isOptional(isNonNegativeNumber),
+      blockedWindows: isOptional(
+        isArrayOf(
+          isShape<BlockedWindow>({
+            startMinute: isNonNegativeNumber,
+            endMinute: isNonNegativeNumber,
+          }),
+        ),
+      ),
+      maxOpens: isOptional(isNonNegativeNumber),
+      sessionCap: isOptional(
+        isShape<SessionCap>({
+          maxSessionMinutes: isNonNegativeNumber,
+          cooldownMinutes: isNonNegativeNumber,
+        }),
+      ),
+    }),
+  ),
+  groups: isArrayOf(
+    isShape<AppGroupConfig>({
+      id: isString,
+      name: isString,
+      packageNames: isArrayOf(isString),
+      limitMs: isNonNegativeNumber,
+    }),
+  ),
+  warnings: isShape<WarningConfig>({
+    percent: isNonNegativeNumber,
+    minutesLeft: isNonNegativeNumber,
+    disabledPackageNames: isArrayOf(isString),
+  }),
+  overlayPill: isBoolean,
+  dayStartHour: isIntegerInRange(0, 23),
+});
+
+/**
+ * Only what the service acts on: rules of tracked apps, and groups with a
+ * budget and at least one tracked member
+ */
+export function buildBlockingConfig(input: BlockingConfigInput): BlockingConfig {
+  const selectedApps = input.selectedApps.map((app) => app.packageName);
+
+  const limits: AppLimit[] = [];
+  for (const packageName of selectedApps) {
+    const limit = input.limits[packageName];
+    const schedule = input.schedules[packageName];
+    const maxOpens = input.openLimits[packageName];
+    const sessionCap = input.sessionCaps[packageName];
+    if (
+      hasActiveRule(limit, schedule) ||
+      hasOpenLimit(maxOpens) ||
+      isSessionCapEnabled(sessionCap)
+    ) {
+      limits.push({
+        packageName,
+        limitMs: limit && limit > 0 ? limit : 0,
+        weekdayLimitMs: schedule?.weekdayLimitMs,
+        weekendLimitMs: schedule?.weekendLimitMs,
+        blockedWindows: schedule?.blockedWindows,
+        maxOpens: hasOpenLimit(maxOpens) ? maxOpens : undefined,
+        sessionCap: isSessionCapEnabled(sessionCap) ? sessionCap : undefined,
+      });
+    }
+  }
+
+  const groups: AppGroupConfig[] = input.groups
+    .map((group) => ({
+      id: group.id,
+      name: group.name,
+      packageNames: group.packageNames.filter((name) => selectedApps.includes(name)),
+      limitMs: group.limitMs,
+    }))
+    .filter((group) => group.limitMs > 0 && group.packageNames.length > 0);
+
+  return {
+    version: BLOCKING_CONFIG_VERSION,
+    selectedApps,
+    allowedApps: input.appLists.allowedApps.map((app) => app.packageName),
+    blockedApps: input.appLists.blockedApps.map((app) => app.packageName),
+    limits,
+    groups,
+    warnings: {
+      percent: input.warningSettings.percent ?? 0,
+      minutesLeft: input.warningSettings.minutesLeft ?? 0,
+      disabledPackageNames: input.warningsDisabled,
+    },
+    overlayPill: input.showRemainingPill,
+    dayStartHour: input.dayStartHour,
+  };
+}
+
+/**
+ * Whether the service has limits or always-blocked apps to enforce (focus time aside)
+ */
+export function hasEnforcedRules(config: BlockingConfig): boolean {
+  return (
+    config.blockedApps.length > 0 ||
+    (config.selectedApps.length > 0 && (config.limits.length > 0 || config.groups.length > 0))
+  );
+}
+
+export function serializeBlockingConfig(config: BlockingConfig): string {
+  return JSON.stringify(config);
+}
+
+/**
+ * The stored document, or null when it is missing, malformed or from another version
+ */
+export function parseBlockingConfig(json: string | null): BlockingConfig | null {
+  if (json === null) {
+    return null;
+  }
+  try {
+    const value: unknown = JSON.parse(json);
+    return isBlockingConfig(value) && value.version === BLOCKING_CONFIG_VERSION ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sections where the native document differs from the stores - all of them
+ * when there's no usable document
+ */
+export function findConfigDrift(
+  expected: BlockingConfig,
+  storedJson: string | null,
+): BlockingConfigSection[] {
+  const stored = parseBlockingConfig(storedJson);
+  if (!stored) {
+    return SECTIONS;
+  }
+  // Both sides come from buildBlockingConfig, so key order matches
+  return SECTIONS.filter(
+    (section) => JSON.stringify(expected[section]) !== JSON.stringify(stored[section]),
+  );
+}
@@ -0,0 +1,72 @@
+/**
+ * Arithmetic Challenge
+ *
+ * Solve a short sum or product to continue.
+ */
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TextInput } from 'react-native';
+import { useTheme } from '../../../utils/theme';
+import { checkArithmetic, generateArithmetic } from './challenges';
+import type { ChallengeProps } from './registry';
+
+export default function ArithmeticChallenge({ onSolved }: ChallengeProps) {
+  const theme = useTheme();
+  const [task] = useState(() => generateArithmetic());
+  const [input, setInput] = useState('');
+
+  const handleChange = (text: string) => {
+    setInput(text);
+    if (checkArithmetic(task, text)) {
+      onSolved();
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.prompt, { color: theme.colors.textSecondary }]}>
+        Solve to continue:
+      </Text>
+      <Text style={[styles.task, { color: theme.colors.text }]}>
+        {task.left} {task.operator} {task.right} = ?
+      </Text>
+      <TextInput
+        style={[
+          styles.input,
+          {
+            backgroundColor: theme.colors.background,
+            color: theme.colors.text,
+            borderColor: theme.colors.border,
+          },
+        ]}
+        value={input}
+        onChangeText={handleChange}
+        keyboardType="number-pad"
+        maxLength={5}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    alignItems: 'center',
+    gap: 8,
+  },
+  prompt: {
+    fontSize: 14,
+  },
+  task: {
+    fontSize: 24,
+    fontWeight: '600',
+  },
+  input: {
+    width: 120,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    fontSize: 20,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,55 @@
+/**
+ * Countdown Challenge
+ *
+ * Wait out a short countdown before continuing.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTheme } from '../../../utils/theme';
+import { getCountdownRemainingSeconds } from './challenges';
+import type { ChallengeProps } from './registry';
+
+export default function CountdownChallenge({ onSolved }: ChallengeProps) {
+  const theme = useTheme();
+  const [startedAt] = useState(() => Date.now());
+  const [remaining, setRemaining] = useState(() =>
+    getCountdownRemainingSeconds(startedAt, startedAt),
+  );
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const next = getCountdownRemainingSeconds(startedAt, Date.now());
+      setRemaining(next);
+      if (next === 0) {
+        clearInterval(interval);
+        onSolved();
+      }
+    }, 250);
+    return () => clearInterval(interval);
+  }, [startedAt, onSolved]);
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.prompt, { color: theme.colors.textSecondary }]}>
+        Take a breath. You can continue in
+      </Text>
+      <Text style={[styles.countdown, { color: theme.colors.primary }]}>{remaining}s</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    alignItems: 'center',
+    gap: 8,
+  },
+  prompt: {
+    fontSize: 14,
+  },
+  countdown: {
+    fontSize: 36,
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,71 @@
+/**
+ * Sentence Challenge
+ *
+ * Type the displayed sentence exactly to continue.
+ */
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TextInput } from 'react-native';
+import { useTheme } from '../../../utils/theme';
+import { checkSentence, pickSentence } from './challenges';
+import type { ChallengeProps } from './registry';
+
+export default function SentenceChallenge({ onSolved }: ChallengeProps) {
+  const theme = useTheme();
+  const [sentence] = useState(() => pickSentence());
+  const [input, setInput] = useState('');
+
+  const handleChange = (text: string) => {
+    setInput(text);
+    if (checkSentence(sentence, text)) {
+      onSolved();
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.prompt, { color: theme.colors.textSecondary }]}>
+        Type this sentence to continue:
+      </Text>
+      <Text style={[styles.sentence, { color: theme.colors.text }]}>{sentence}</Text>
+      <TextInput
+        style={[
+          styles.input,
+          {
+            backgroundColor: theme.colors.background,
+            color: theme.colors.text,
+            borderColor: theme.colors.border,
+          },
+        ]}
+        value={input}
+        onChangeText={handleChange}
+        autoCorrect={false}
+        autoCapitalize="none"
+        multiline
+        // Pasting would defeat the point
+        contextMenuHidden
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    gap: 8,
+  },
+  prompt: {
+    fontSize: 14,
+  },
+  sentence: {
+    fontSize: 16,
+    fontStyle: 'italic',
+  },
+  input: {
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    fontSize: 16,
+    minHeight: 64,
+  },
+});
@@ -0,0 +1,81 @@
+/**
+ * Unlock Challenges
+ *
+ * Pure generation and validation for the friction shown before an override
+ * (e.g. a grace extension) on the blocking screen. The UI for each type
+ * lives next to this file and is wired up in registry.ts.
+ *
+ * Why friction instead of a plain button:
+ * - A few seconds of effort is enough to break an impulsive reopen
+ * - Still lets a user with a real need get through
+ */
+
+export type ChallengeType = 'none' | 'sentence' | 'countdown' | 'arithmetic';
+
+export const CHALLENGE_TYPES: ChallengeType[] = ['none', 'sentence', 'countdown', 'arithmetic'];
+
+// Injected so generation is deterministic in tests
+export type RandomSource = () => number;
+
+// ----- Sentence -----
+
+export const CHALLENGE_SENTENCES = [
+  'I am choosing to spend more time on this app right now.',
+  'I set this limit for a reason and I am overriding it on purpose.',
+  'A few more minutes is my decision, not a habit.',
+  'I will close this app as soon as I have finished what I came for.',
+];
+
+export function pickSentence(random: RandomSource = Math.random): string {
+  return CHALLENGE_SENTENCES[Math.floor(random() * CHALLENGE_SENTENCES.length)];
+}
+
+const normalize = (text: string): string => text.trim().replace(/\s+/g, ' ');
+
+/**
+ * Exact match, ignoring extra whitespace - case and punctuation count
+ */
+export function checkSentence(expected: string, input: string): boolean {
+  return normalize(expected) === normalize(input);
+}
+
+// ----- Countdown -----
+
+export const COUNTDOWN_SECONDS = 30;
+
+export function getCountdownRemainingSeconds(
+  startedAt: number,
+  now: number,
+  seconds: number = COUNTDOWN_SECONDS,
+): number {
+  return Math.max(0, Math.ceil((startedAt + seconds * 1000 - now) / 1000));
+}
+
+// ----- Arithmetic -----
+
+export interface ArithmeticTask {
+  left: number;
+  right: number;
+  operator: '+' | '×';
+  answer: number;
+}
+
+/**
+ * Two-digit addition or a single-digit × two-digit product
+ */
+export function generateArithmetic(random: RandomSource = Math.random): ArithmeticTask {
+  const between = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+  if (random() < 0.5) {
+    const left = between(12, 89);
+    const right = between(12, 89);
+    return { left, right, operator: '+', answer: left + right };
+  }
+  const left = between(3, 9);
+  const right = between(12, 29);
+  return { left, right, operator: '×', answer: left * right };
+}
+
+export function checkArithmetic(task: ArithmeticTask, input: string): boolean {
+  const trimmed = input.trim();
+  return /^-?\d+$/.test(trimmed) && parseInt(trimmed, 10) === task.answer;
+}
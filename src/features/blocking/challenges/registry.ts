@@ -0,0 +1,41 @@
+/**
+ * Challenge Registry
+ *
+ * Maps each challenge type to its label and component. To add a type:
+ * extend ChallengeType in challenges.ts, add the pure validation there,
+ * build a component taking ChallengeProps and register it below.
+ */
+
+import type React from 'react';
+import type { ChallengeType } from './challenges';
+import SentenceChallenge from './SentenceChallenge';
+import CountdownChallenge from './CountdownChallenge';
+import ArithmeticChallenge from './ArithmeticChallenge';
+
+export interface ChallengeProps {
+  onSolved: () => void;
+}
+
+export interface ChallengeDefinition {
+  label: string;
+  component: React.ComponentType<ChallengeProps>;
+}
+
+export const CHALLENGES: Record<Exclude<ChallengeType, 'none'>, ChallengeDefinition> = {
+  sentence: { label: 'Type a sentence', component: SentenceChallenge },
+  countdown: { label: 'Wait 30 seconds', component: CountdownChallenge },
+  arithmetic: { label: 'Solve a sum', component: ArithmeticChallenge },
+};
+
+// Options for the per-app picker, 'none' first
+export const CHALLENGE_OPTIONS: Array<{ type: ChallengeType; label: string }> = [
+  { type: 'none', label: 'None' },
+  ...(Object.keys(CHALLENGES) as Array<Exclude<ChallengeType, 'none'>>).map((type) => ({
+    type,
+    label: CHALLENGES[type].label,
+  })),
+];
+
+export function getChallenge(type: ChallengeType | undefined): ChallengeDefinition | null {
+  return type && type !== 'none' ? CHALLENGES[type] : null;
+}
@@ -0,0 +1,87 @@
+/**
+ * Blocking Config Sync
+ *
+ * Hands the blocking config (blockingConfig.ts) to the native services.
+ *
+ * How it works:
+ * - The stores are the source of truth; native keeps one copy of the whole
+ *   document, replaced in a single write - never edited field by field
+ * - On app start, reconcileBlockingConfig() compares that copy with the
+ *   stores and rewrites it when anything drifted (a crash mid-update, a
+ *   change made while the service couldn't be reached, an older app version)
+ * - Until then writes are held back: the stores may not be loaded yet, and
+ *   an empty config would unblock everything
+ */
+
+import BlockingServiceModule from '../../native/BlockingServiceModule';
+import { useAppStore } from '../../stores/useAppStore';
+import { useAppListsStore } from '../../stores/useAppListsStore';
+import { useLimitsStore } from '../../stores/useLimitsStore';
+import { useGroupsStore } from '../../stores/useGroupsStore';
+import { useUsageStore } from '../../stores/useUsageStore';
+import {
+  buildBlockingConfig,
+  findConfigDrift,
+  serializeBlockingConfig,
+  type BlockingConfig,
+  type BlockingConfigSection,
+} from './blockingConfig';
+
+let isReconciled = false;
+
+/**
+ * The config as the stores describe it right now
+ */
+export function getStoreBlockingConfig(): BlockingConfig {
+  const limitsState = useLimitsStore.getState();
+  return buildBlockingConfig({
+    selectedApps: useAppStore.getState().selectedApps,
+    appLists: useAppListsStore.getState(),
+    limits: limitsState.limits,
+    openLimits: limitsState.openLimits,
+    sessionCaps: limitsState.sessionCaps,
+    schedules: limitsState.schedules,
+    groups: useGroupsStore.getState().groups,
+    warningSettings: limitsState.warningSettings,
+    warningsDisabled: limitsState.warningsDisabled,
+    showRemainingPill: limitsState.showRemainingPill,
+    dayStartHour: useUsageStore.getState().dayStartHour,
+  });
+}
+
+/**
+ * Replace the native copy - a no-op until the startup reconciliation ran
+ */
+export async function writeBlockingConfig(config: BlockingConfig): Promise<void> {
+  if (!BlockingServiceModule || !isReconciled) {
+    return;
+  }
+  await BlockingServiceModule.applyBlockingConfig(serializeBlockingConfig(config));
+}
+
+/**
+ * Repair drift between the stores and the native copy - call once the stores are loaded
+ *
+ * @returns the sections that had drifted
+ */
+export async function reconcileBlockingConfig(): Promise<BlockingConfigSection[]> {
+  if (!BlockingServiceModule) {
+    return [];
+  }
+  try {
+    const expected = getStoreBlockingConfig();
+    const drift = findConfigDrift(expected, await BlockingServiceModule.getBlockingConfig());
+    if (drift.length > 0) {
+      console.log('BlockingConfig: Repairing drift in', drift.join(', '));
+      await BlockingServiceModule.applyBlockingConfig(serializeBlockingConfig(expected));
+    } else {
+      console.log('BlockingConfig: Native config in sync');
+    }
+    return drift;
+  } catch (error) {
+    console.error('BlockingConfig: Error reconciling config:', error);
+    return [];
+  } finally {
+    isReconciled = true;
+  }
+}
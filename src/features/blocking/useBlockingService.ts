@@ -5,33 +5,137 @@
  * 
  * How it works:
  * 1. Starts a foreground service that runs continuously
- * 2. Service monitors foreground app every 2 seconds
+ * 2. Service reacts to foreground app changes from the accessibility service
+ *    (polls every 2 seconds only when that is off)
  * 3. When blocked app detected, service brings Boundly to foreground
- * 4. This hook shows the blocking screen when app is brought to foreground
+ * 4. This hook listens to the same changes and shows the blocking screen - it's
+ *    ready by the time Boundly is in front, and also checked again on 'active'
+ * 5. Focus sessions are pushed to the service and block their apps until the timer ends
+ * 6. Pomodoro cycles are pushed the same way and block their apps during work phases
+ * 7. Grace extensions ("5 more minutes") suspend limit blocks for a while, up to a daily allowance
+ * 8. Strict mode is pushed to the service, which then refuses to be stopped until it ends
+ * 9. With a PIN set, the service is only stopped from an unlocked session
+ * 10. Foreground sessions of tracked apps are timed live (useUsageStore), so
+ *     limits are judged on up-to-the-second usage rather than lagging totals
+ * 11. Limits, groups, warnings, the remaining-time pill and the day start hour
+ *     reach the service as one config document (configSync.ts), rewritten
+ *     whole on any change
+ * 12. The service logs each block; closing the blocking screen answers it (see blockEvents.ts)
+ * 13. Apps with an open limit are blocked on the open past it, counted natively (see opens.ts)
+ * 14. Session caps are timed by the service; this hook only reads the cooldowns (see sessionCap.ts)
+ * 15. Always-allowed apps are never blocked and always-blocked apps always are,
+ *     ahead of every other rule (see appLists.ts)
  */
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { AppState } from 'react-native';
 import BlockingServiceModule from '../../native/BlockingServiceModule';
 import ForegroundAppModule from '../../native/ForegroundAppModule';
 import { useAppStore } from '../../stores/useAppStore';
+import { useAppListsStore } from '../../stores/useAppListsStore';
 import { useLimitsStore } from '../../stores/useLimitsStore';
 import { useUsageStore } from '../../stores/useUsageStore';
+import { useGroupsStore } from '../../stores/useGroupsStore';
+import { useFocusStore } from '../../stores/useFocusStore';
+import { useGraceStore } from '../../stores/useGraceStore';
+import { useStrictStore } from '../../stores/useStrictStore';
+import { isPinUnlocked } from '../../stores/usePinStore';
+import { getDayKey } from '../../utils/dates';
+import { evaluateLimit, hasActiveRule, type BlockReason } from '../limits/schedule';
+import { findExhaustedGroup, getGroupsForApp } from '../limits/groups';
+import { hasOpenLimit, isOpenLimitExceeded } from '../limits/opens';
+import { isSessionCapEnabled } from '../limits/sessionCap';
+import { getFocusRemainingMs, isBlockedByFocus, isFocusActive } from '../focus/focusSession';
+import { getPomodoroPhase, isBlockedByPomodoro } from '../focus/pomodoro';
+import { findActiveGrant, getRemainingExtensions, isGraceEnabled } from '../limits/grace';
+import type { ChallengeType } from './challenges/challenges';
+import { checkPolicy } from '../strict/policy';
+import { hasEnforcedRules } from './blockingConfig';
+import { getStoreBlockingConfig, writeBlockingConfig } from './configSync';
+
+export type BlockedReason = BlockReason | 'group' | 'focus' | 'pomodoro' | 'opens' | 'session' | 'blocklist';
 
 export interface BlockedApp {
   packageName: string;
   appName: string;
-  usageMs: number;
+  usageMs: number; // Combined member usage when blocked by a group
   limitMs: number;
+  reason: BlockedReason;
+  blockedUntilMinute?: number; // end of the blocked window (minutes since midnight)
+  groupName?: string;
+  opens?: number; // times opened today, for open limit blocks
+  maxOpens?: number;
+  sessionMinutes?: number; // session cap, for session blocks
+  availableAt?: number; // epoch ms, end of the session cap cooldown
+  focusEndsAt?: number; // epoch ms, end of the focus session or pomodoro work phase
+  extensionsRemaining?: number; // grace extensions left today, undefined when grace is off
+  extensionMinutes?: number;
+  challenge?: ChallengeType; // friction shown before an extension is granted
 }
 
 export function useBlockingService() {
   const [blockedApp, setBlockedApp] = useState<BlockedApp | null>(null);
   const [isServiceRunning, setIsServiceRunning] = useState(false);
   const [isAccessibilityEnabled, setIsAccessibilityEnabled] = useState(false);
+  // Last app reported by foreground events - Boundly itself is never reported,
+  // so once we're in front this is the app the service blocked
+  const lastForegroundApp = useRef<string | null>(null);
   
   const selectedApps = useAppStore((state) => state.selectedApps);
+  const allowedApps = useAppListsStore((state) => state.allowedApps);
+  const blockedApps = useAppListsStore((state) => state.blockedApps);
   const limits = useLimitsStore((state) => state.limits);
+  const openLimits = useLimitsStore((state) => state.openLimits);
+  const sessionCaps = useLimitsStore((state) => state.sessionCaps);
+  const schedules = useLimitsStore((state) => state.schedules);
+  const graceSettings = useLimitsStore((state) => state.graceSettings);
+  const challenges = useLimitsStore((state) => state.challenges);
+  const warningSettings = useLimitsStore((state) => state.warningSettings);
+  const warningsDisabled = useLimitsStore((state) => state.warningsDisabled);
+  const showRemainingPill = useLimitsStore((state) => state.showRemainingPill);
+  const groups = useGroupsStore((state) => state.groups);
+  const focusSession = useFocusStore((state) => state.session);
+  const endFocus = useFocusStore((state) => state.endFocus);
+  const pomodoro = useFocusStore((state) => state.pomodoro);
+  const strictUntil = useStrictStore((state) => state.strictUntil);
+  const dayStartHour = useUsageStore((state) => state.dayStartHour);
+
+  // Focus sessions and pomodoro cycles need the service even without any limits
+  const hasTimedBlocking = (): boolean =>
+    isFocusActive(focusSession, Date.now()) || pomodoro !== null;
+
+  // Grace info for limit-style blocks (focus time can't be extended)
+  const getGraceInfo = (
+    packageName: string,
+  ): Pick<BlockedApp, 'extensionsRemaining' | 'extensionMinutes' | 'challenge'> => {
+    const settings = graceSettings[packageName];
+    if (!isGraceEnabled(settings)) {
+      return {};
+    }
+    const { grants } = useGraceStore.getState();
+    return {
+      extensionsRemaining: getRemainingExtensions(
+        settings,
+        grants,
+        packageName,
+        getDayKey(Date.now()),
+      ),
+      extensionMinutes: settings.extensionMinutes,
+      challenge: challenges[packageName],
+    };
+  };
+
+  const isAlwaysAllowed = (packageName: string): boolean =>
+    allowedApps.some((app) => app.packageName === packageName);
+
+  // An app needs enforcing if it has its own rule or belongs to a group with a budget,
+  // unless it is always allowed
+  const isEnforced = (packageName: string): boolean =>
+    !isAlwaysAllowed(packageName) &&
+    (hasActiveRule(limits[packageName], schedules[packageName]) ||
+      hasOpenLimit(openLimits[packageName]) ||
+      isSessionCapEnabled(sessionCaps[packageName]) ||
+      getGroupsForApp(packageName, groups).some((group) => group.limitMs > 0));
 
   // Check if service and accessibility are enabled on mount
   useEffect(() => {
@@ -78,30 +182,134 @@ export function useBlockingService() {
     }
   };
 
+  // Replace the service's config whenever part of it changes - before the
+  // start/stop below, so a starting service finds the new rules
+  useEffect(() => {
+    writeBlockingConfig(getStoreBlockingConfig()).catch((error) => {
+      console.error('BlockingService: Error writing blocking config:', error);
+    });
+  }, [
+    selectedApps,
+    allowedApps,
+    blockedApps,
+    limits,
+    openLimits,
+    sessionCaps,
+    schedules,
+    groups,
+    warningSettings,
+    warningsDisabled,
+    showRemainingPill,
+    dayStartHour,
+  ]);
+
   // Start/stop service when selected apps or limits change
   useEffect(() => {
     if (!BlockingServiceModule) {
       return;
     }
 
-    // Check if we have active limits
-    const hasActiveLimits = selectedApps.some((app) => {
-      const limit = limits[app.packageName];
-      return limit !== undefined && limit > 0;
-    });
+    // Check if we have active limits or apps that are always blocked
+    const hasActiveLimits = selectedApps.some((app) => isEnforced(app.packageName));
 
-    if (hasActiveLimits) {
+    if (hasActiveLimits || blockedApps.length > 0 || hasTimedBlocking()) {
       startService();
     } else {
       stopService();
     }
-  }, [selectedApps, limits]);
+  }, [
+    selectedApps,
+    allowedApps,
+    blockedApps,
+    limits,
+    openLimits,
+    sessionCaps,
+    schedules,
+    groups,
+    focusSession,
+    pomodoro,
+  ]);
+
+  // Push focus sessions to the service and end them when the timer runs out
+  useEffect(() => {
+    if (!BlockingServiceModule) {
+      return;
+    }
+
+    if (!focusSession || !isFocusActive(focusSession, Date.now())) {
+      BlockingServiceModule.stopFocusSession().catch((error) => {
+        console.error('BlockingService: Error stopping focus session:', error);
+      });
+      return;
+    }
+
+    BlockingServiceModule.startFocusSession(focusSession.packageNames, focusSession.endsAt).catch(
+      (error) => {
+        console.error('BlockingService: Error starting focus session:', error);
+      },
+    );
+
+    const timer = setTimeout(endFocus, getFocusRemainingMs(focusSession, Date.now()));
+    return () => clearTimeout(timer);
+  }, [focusSession, endFocus]);
 
-  // Check for blocked app when app comes to foreground (brought here by service)
+  // Push pomodoro cycles to the service - it derives the phases itself
+  useEffect(() => {
+    if (!BlockingServiceModule) {
+      return;
+    }
+
+    if (!pomodoro) {
+      BlockingServiceModule.stopPomodoro().catch((error) => {
+        console.error('BlockingService: Error stopping pomodoro:', error);
+      });
+      return;
+    }
+
+    BlockingServiceModule.startPomodoro(
+      pomodoro.packageNames,
+      pomodoro.startedAt,
+      pomodoro.config,
+    ).catch((error) => {
+      console.error('BlockingService: Error starting pomodoro:', error);
+    });
+  }, [pomodoro]);
+
+  // Push strict mode to the service so it can't be stopped behind the store's back
+  useEffect(() => {
+    if (!BlockingServiceModule || strictUntil === null) {
+      return;
+    }
+
+    BlockingServiceModule.setStrictMode(strictUntil).catch((error) => {
+      console.error('BlockingService: Error setting strict mode:', error);
+    });
+  }, [strictUntil]);
+
+  // Check for blocked app when app comes to foreground (brought here by service),
+  // and as soon as a tracked app comes to the foreground
   useEffect(() => {
     const subscription = AppState.addEventListener('change', (nextAppState) => {
       if (nextAppState === 'active') {
+        useUsageStore.getState().endSession();
+        checkForBlockedApp();
+      }
+    });
+
+    ForegroundAppModule?.startForegroundAppUpdates();
+    const foregroundSubscription = ForegroundAppModule?.onForegroundAppChanged((appInfo) => {
+      lastForegroundApp.current = appInfo.packageName;
+      const { startSession, endSession } = useUsageStore.getState();
+      const isForeground = (app: { packageName: string }) =>
+        app.packageName === appInfo.packageName;
+      if (selectedApps.some(isForeground)) {
+        startSession(appInfo.packageName);
         checkForBlockedApp();
+      } else {
+        endSession();
+        if (blockedApps.some(isForeground)) {
+          checkForBlockedApp();
+        }
       }
     });
 
@@ -110,8 +318,45 @@ export function useBlockingService() {
       checkForBlockedApp();
     }
 
-    return () => subscription.remove();
-  }, [selectedApps, limits]);
+    return () => {
+      subscription.remove();
+      foregroundSubscription?.remove();
+      ForegroundAppModule?.stopForegroundAppUpdates();
+    };
+  }, [
+    selectedApps,
+    allowedApps,
+    blockedApps,
+    limits,
+    openLimits,
+    sessionCaps,
+    schedules,
+    groups,
+    focusSession,
+    pomodoro,
+  ]);
+
+  // Prefer the pushed app - querying from Boundly usually only sees Boundly
+  const getForegroundPackage = async (): Promise<string | null> => {
+    if (lastForegroundApp.current) {
+      return lastForegroundApp.current;
+    }
+    const foregroundApp = await ForegroundAppModule?.getCurrentForegroundApp();
+    return foregroundApp?.packageName ?? null;
+  };
+
+  // Cooldown end per capped app - the service runs the sessions, JS only shows them
+  const getSessionCooldowns = async (): Promise<Record<string, number>> => {
+    const hasCaps = selectedApps.some((app) => isSessionCapEnabled(sessionCaps[app.packageName]));
+    if (!BlockingServiceModule || !hasCaps) {
+      return {};
+    }
+    const cooldowns: Record<string, number> = {};
+    for (const cooldown of await BlockingServiceModule.getSessionCooldowns()) {
+      cooldowns[cooldown.packageName] = cooldown.untilMs;
+    }
+    return cooldowns;
+  };
 
   const checkForBlockedApp = async () => {
     try {
@@ -119,10 +364,58 @@ export function useBlockingService() {
         return;
       }
 
-      const hasActiveLimits = selectedApps.some((app) => {
-        const limit = limits[app.packageName];
-        return limit !== undefined && limit > 0;
-      });
+      // Always-blocked apps come first - only when actually in front, as the list never clears
+      if (blockedApps.length > 0) {
+        const foregroundPackage = await getForegroundPackage();
+        const listedApp = blockedApps.find((app) => app.packageName === foregroundPackage);
+        if (listedApp) {
+          console.log('BlockingService: Showing block list block for:', listedApp.packageName);
+          setBlockedApp({
+            packageName: listedApp.packageName,
+            appName: listedApp.appName,
+            usageMs: useUsageStore.getState().getTodayUsage(listedApp.packageName),
+            limitMs: 0,
+            reason: 'blocklist',
+          });
+          return;
+        }
+      }
+
+      // Focus sessions and pomodoro work phases block their apps regardless of limits or usage,
+      // except for always-allowed ones
+      const now = Date.now();
+      const focusApps = selectedApps.filter(
+        (app) =>
+          !isAlwaysAllowed(app.packageName) &&
+          (isBlockedByFocus(focusSession, app.packageName, now) ||
+            isBlockedByPomodoro(pomodoro, app.packageName, now)),
+      );
+      if (focusApps.length > 0) {
+        const foregroundPackage = await getForegroundPackage();
+        const focusApp = foregroundPackage
+          ? focusApps.find((app) => app.packageName === foregroundPackage)
+          : focusApps[0];
+        if (focusApp) {
+          console.log('BlockingService: Showing focus block for:', focusApp.packageName);
+          const byFocus = isBlockedByFocus(focusSession, focusApp.packageName, now);
+          setBlockedApp({
+            packageName: focusApp.packageName,
+            appName: focusApp.appName,
+            usageMs: useUsageStore.getState().getTodayUsage(focusApp.packageName),
+            limitMs: 0,
+            reason: byFocus ? 'focus' : 'pomodoro',
+            focusEndsAt:
+              byFocus && focusSession
+                ? focusSession.endsAt
+                : pomodoro
+                ? getPomodoroPhase(pomodoro, now).endsAt
+                : undefined,
+          });
+          return;
+        }
+      }
+
+      const hasActiveLimits = selectedApps.some((app) => isEnforced(app.packageName));
 
       if (!hasActiveLimits) {
         setBlockedApp(null);
@@ -136,33 +429,98 @@ export function useBlockingService() {
       }
 
       // Check all selected apps to see if any are blocked
-      const usageStoreState = useUsageStore.getState();
-      const currentUsage = usageStoreState?.todayUsage || {};
+      const currentUsage = useUsageStore.getState().getLiveTodayUsage();
+
+      const { grants } = useGraceStore.getState();
+      const cooldowns = await getSessionCooldowns();
 
       for (const app of selectedApps) {
-        const limitMs = limits[app.packageName];
-        if (!limitMs || limitMs === 0) {
+        if (!isEnforced(app.packageName)) {
+          continue;
+        }
+
+        // Skip apps inside a granted extension
+        if (findActiveGrant(grants, app.packageName, Date.now())) {
           continue;
         }
 
         const usageMs = currentUsage[app.packageName] || 0;
+        const evaluation = evaluateLimit(
+          limits[app.packageName],
+          schedules[app.packageName],
+          usageMs,
+          new Date(),
+        );
+        const opens = useUsageStore.getState().getTodayOpens(app.packageName);
+        const maxOpens = openLimits[app.packageName];
+        const overOpens = !evaluation.blocked && isOpenLimitExceeded(maxOpens, opens);
+        const sessionCap = sessionCaps[app.packageName];
+        const availableAt = cooldowns[app.packageName] ?? 0;
+        const inCooldown =
+          !evaluation.blocked && !overOpens && isSessionCapEnabled(sessionCap) && availableAt > now;
+        const exhaustedGroup =
+          evaluation.blocked || overOpens || inCooldown
+            ? null
+            : findExhaustedGroup(app.packageName, groups, currentUsage);
 
-        if (usageMs >= limitMs) {
+        if (
+          (evaluation.blocked && evaluation.reason) ||
+          overOpens ||
+          inCooldown ||
+          exhaustedGroup
+        ) {
           // Check if this app is currently in foreground
-          const foregroundApp = await ForegroundAppModule.getCurrentForegroundApp();
+          const foregroundPackage = await getForegroundPackage();
           
           // If service brought us here, the blocked app might not be foreground anymore
           // But we should still show blocking screen if usage exceeds limit
           // Check if the blocked app was recently in foreground or if we were brought here by service
-          if (foregroundApp?.packageName === app.packageName || !foregroundApp) {
+          if (foregroundPackage === app.packageName || !foregroundPackage) {
             // Show blocking screen for this app
             console.log('BlockingService: Showing blocking screen for:', app.packageName);
-            setBlockedApp({
-              packageName: app.packageName,
-              appName: app.appName,
-              usageMs,
-              limitMs,
-            });
+            if (exhaustedGroup) {
+              setBlockedApp({
+                packageName: app.packageName,
+                appName: app.appName,
+                usageMs: exhaustedGroup.usageMs,
+                limitMs: exhaustedGroup.group.limitMs,
+                reason: 'group',
+                groupName: exhaustedGroup.group.name,
+                ...getGraceInfo(app.packageName),
+              });
+            } else if (inCooldown) {
+              setBlockedApp({
+                packageName: app.packageName,
+                appName: app.appName,
+                usageMs,
+                limitMs: limits[app.packageName] ?? 0,
+                reason: 'session',
+                sessionMinutes: sessionCap?.maxSessionMinutes,
+                availableAt,
+                ...getGraceInfo(app.packageName),
+              });
+            } else if (overOpens) {
+              setBlockedApp({
+                packageName: app.packageName,
+                appName: app.appName,
+                usageMs,
+                limitMs: limits[app.packageName] ?? 0,
+                reason: 'opens',
+                opens,
+                maxOpens,
+                ...getGraceInfo(app.packageName),
+              });
+            } else {
+              setBlockedApp({
+                packageName: app.packageName,
+                appName: app.appName,
+                usageMs,
+                limitMs: evaluation.effectiveLimitMs ?? 0,
+                reason: evaluation.reason ?? 'limit',
+                blockedUntilMinute: evaluation.windowEndMinute,
+                ...getGraceInfo(app.packageName),
+              });
+            }
             return; // Show blocking for first blocked app found
           }
         }
@@ -182,33 +540,21 @@ export function useBlockingService() {
         return;
       }
 
-      // Prepare data for service
-      const appPackageNames = selectedApps.map((app) => app.packageName);
-      const limitsArray: Array<{ packageName: string; limitMs: number }> = [];
-      
-      selectedApps.forEach((app) => {
-        const limit = limits[app.packageName];
-        if (limit && limit > 0) {
-          limitsArray.push({
-            packageName: app.packageName,
-            limitMs: limit,
-          });
-        }
-      });
-
-      if (appPackageNames.length === 0 || limitsArray.length === 0) {
+      // A running focus session or pomodoro keeps the service alive even without limits
+      const config = getStoreBlockingConfig();
+      if (!hasTimedBlocking() && !hasEnforcedRules(config)) {
         console.log('BlockingService: No apps to block, stopping service');
         await stopService();
         return;
       }
 
       console.log('BlockingService: Starting service with', {
-        apps: appPackageNames.length,
-        limits: limitsArray.length,
+        apps: config.selectedApps.length,
+        limits: config.limits.length,
+        groups: config.groups.length,
       });
 
-      // Use TurboModule - pass as array
-      await BlockingServiceModule.startBlockingService(appPackageNames, limitsArray);
+      await BlockingServiceModule.startBlockingService();
       setIsServiceRunning(true);
       console.log('BlockingService: Service started successfully');
     } catch (error) {
@@ -223,6 +569,16 @@ export function useBlockingService() {
         return;
       }
 
+      // Checked without recording a denial - this also runs from effects, not just taps
+      if (!checkPolicy({ type: 'stopService' }, strictUntil, Date.now()).allowed) {
+        console.log('BlockingService: Strict mode active, keeping service running');
+        return;
+      }
+      if (!isPinUnlocked()) {
+        console.log('BlockingService: PIN locked, keeping service running');
+        return;
+      }
+
       console.log('BlockingService: Stopping service');
       await BlockingServiceModule.stopBlockingService();
       setIsServiceRunning(false);
@@ -233,11 +589,40 @@ export function useBlockingService() {
     }
   };
 
+  // "N more minutes" from the blocking screen, counted against today's allowance
+  const extendBlock = async () => {
+    if (!blockedApp || !blockedApp.extensionsRemaining || !blockedApp.extensionMinutes) {
+      return;
+    }
+    try {
+      const grant = useGraceStore
+        .getState()
+        .grantExtension(blockedApp.packageName, blockedApp.extensionMinutes);
+      if (BlockingServiceModule) {
+        await BlockingServiceModule.grantExtension(blockedApp.packageName, grant.expiresAt);
+      }
+      setBlockedApp(null);
+    } catch (error) {
+      console.error('BlockingService: Error granting extension:', error);
+    }
+  };
+
+  // Closing the blocking screen - recorded so stats can tell it from an extension
+  const clearBlock = () => {
+    if (blockedApp && BlockingServiceModule) {
+      BlockingServiceModule.markBlockDismissed(blockedApp.packageName).catch((error) => {
+        console.error('BlockingService: Error recording dismissed block:', error);
+      });
+    }
+    setBlockedApp(null);
+  };
+
   return {
     blockedApp,
     isServiceRunning,
     isAccessibilityEnabled,
-    clearBlock: () => setBlockedApp(null),
+    clearBlock,
+    extendBlock,
     startService,
     stopService,
     checkAccessibilityStatus,
@@ -0,0 +1,213 @@
+/**
+ * Config Screen - Export / Import Settings
+ *
+ * Export shares the configuration JSON through the system share sheet (save
+ * it to Files or Drive, or send it to another phone). Import takes the pasted
+ * document, validates it and previews every change before applying.
+ *
+ * UX Considerations:
+ * - Nothing changes until the preview is confirmed
+ * - Malformed or newer-version files show why they were rejected
+ * - Behind the PIN like LimitsScreen, since an import can loosen limits
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  Share,
+} from 'react-native';
+import { useTheme } from '../../utils/theme';
+import { useFocusStore } from '../../stores/useFocusStore';
+import { useStrictStore } from '../../stores/useStrictStore';
+import { diffConfig, parseConfig, type ConfigChange, type ConfigFile } from './configFile';
+import { applyConfig, exportConfig, getConfigSnapshot } from './configTransfer';
+
+const CHANGE_PREFIX: Record<ConfigChange['kind'], string> = {
+  add: '+',
+  remove: '−',
+  change: '~',
+};
+
+export default function ConfigScreen() {
+  const theme = useTheme();
+  const pomodoroConfig = useFocusStore((state) => state.pomodoroConfig);
+  const [input, setInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<{ config: ConfigFile; changes: ConfigChange[] } | null>(
+    null,
+  );
+  const [status, setStatus] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    try {
+      await Share.share({ title: 'Boundly configuration', message: exportConfig() });
+    } catch (shareError) {
+      console.error('ConfigScreen: Error sharing configuration:', shareError);
+    }
+  };
+
+  const handlePreview = () => {
+    setStatus(null);
+    const result = parseConfig(input, pomodoroConfig);
+    if (!result.ok) {
+      setError(result.error);
+      setPreview(null);
+      return;
+    }
+    setError(null);
+    setPreview({ config: result.config, changes: diffConfig(getConfigSnapshot(), result.config) });
+  };
+
+  const handleImport = () => {
+    if (!preview) {
+      return;
+    }
+    if (!applyConfig(preview.config)) {
+      setError(useStrictStore.getState().lastDenial ?? 'Import refused');
+      return;
+    }
+    setPreview(null);
+    setInput('');
+    setStatus('Configuration imported');
+  };
+
+  const inputStyle = [
+    styles.input,
+    {
+      backgroundColor: theme.colors.surface,
+      color: theme.colors.text,
+      borderColor: theme.colors.border,
+    },
+  ];
+
+  return (
+    <ScrollView
+      style={{ backgroundColor: theme.colors.background }}
+      contentContainerStyle={styles.content}>
+      <Text style={[styles.title, { color: theme.colors.text }]}>Backup & Restore</Text>
+
+      <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Export</Text>
+      <Text style={[styles.caption, { color: theme.colors.textSecondary }]}>
+        Apps, limits, schedules, extensions, challenges, groups, pomodoro lengths, warnings, the
+        time-left pill and the day start time. Usage history, strict mode and the PIN stay on
+        this phone.
+      </Text>
+      <TouchableOpacity
+        style={[styles.button, { backgroundColor: theme.colors.primary }]}
+        onPress={handleExport}
+        activeOpacity={0.8}>
+        <Text style={styles.buttonText}>Share configuration</Text>
+      </TouchableOpacity>
+
+      <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Import</Text>
+      <TextInput
+        style={inputStyle}
+        value={input}
+        onChangeText={(text) => {
+          setInput(text);
+          setPreview(null);
+        }}
+        placeholder="Paste an exported configuration"
+        placeholderTextColor={theme.colors.textSecondary}
+        multiline
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+      {error && <Text style={[styles.caption, { color: theme.colors.error }]}>{error}</Text>}
+      {status && <Text style={[styles.caption, { color: theme.colors.primary }]}>{status}</Text>}
+
+      {preview ? (
+        <View style={[styles.preview, { borderColor: theme.colors.border }]}>
+          <Text style={[styles.caption, { color: theme.colors.textSecondary }]}>
+            {preview.changes.length === 0
+              ? 'Identical to the current configuration'
+              : `${preview.changes.length} change${preview.changes.length !== 1 ? 's' : ''}`}
+          </Text>
+          {preview.changes.map((change, index) => (
+            <Text
+              key={`${change.kind}-${index}`}
+              style={[
+                styles.change,
+                { color: change.kind === 'remove' ? theme.colors.error : theme.colors.text },
+              ]}>
+              {CHANGE_PREFIX[change.kind]} {change.text}
+            </Text>
+          ))}
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: theme.colors.primary }]}
+            onPress={handleImport}
+            activeOpacity={0.8}>
+            <Text style={styles.buttonText}>Replace current settings</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <TouchableOpacity
+          style={[
+            styles.button,
+            { backgroundColor: theme.colors.surface, borderColor: theme.colors.border },
+            styles.secondaryButton,
+          ]}
+          onPress={handlePreview}
+          disabled={input.trim() === ''}
+          activeOpacity={0.8}>
+          <Text style={[styles.buttonText, { color: theme.colors.text }]}>Preview changes</Text>
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: 16,
+    gap: 12,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 8,
+  },
+  caption: {
+    fontSize: 14,
+  },
+  input: {
+    minHeight: 120,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    fontSize: 14,
+    textAlignVertical: 'top',
+  },
+  preview: {
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    gap: 4,
+  },
+  change: {
+    fontSize: 14,
+  },
+  button: {
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  secondaryButton: {
+    borderWidth: 1,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
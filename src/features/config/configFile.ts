@@ -0,0 +1,473 @@
+/**
+ * Configuration File
+ *
+ * Export and import of every setting as one versioned JSON document, so a
+ * team can set up Boundly identically on several phones.
+ *
+ * What's included:
+ * - Selected apps, daily limits, open limits, session caps, schedules, grace
+ *   settings, unlock challenges
+ * - The always-allowed and always-blocked app lists
+ * - App groups and the pomodoro config
+ * - Limit warning settings and the apps opted out of them
+ * - The time-left pill switch and the hour a new day starts
+ *
+ * What's not:
+ * - Usage history, focus sessions and grace logs (per device, short-lived)
+ * - Strict mode and the PIN (a file must never unlock or lock another phone)
+ *
+ * Versioning:
+ * - CONFIG_VERSION goes up whenever the document shape changes
+ * - Files from a newer app version are rejected, older ones are upgraded here
+ * - v2 added openLimits, v3 sessionCaps, v4 allowedApps and blockedApps (older
+ *   files import with none), v5 warningSettings and warningsDisabled (older
+ *   files import with the defaults), v6 showRemainingPill and dayStartHour
+ *   (older files import with the pill off and days starting at midnight)
+ *
+ * Pure - configTransfer.ts reads and writes the stores.
+ */
+
+import type { SelectedApp } from '../../stores/useAppStore';
+import { formatClockTime, type BlockedWindow, type LimitSchedule } from '../limits/schedule';
+import type { GraceSettings } from '../limits/grace';
+import type { SessionCap } from '../limits/sessionCap';
+import type { AppGroup } from '../limits/groups';
+import type { PomodoroConfig } from '../focus/pomodoro';
+import { DEFAULT_WARNING_SETTINGS, type WarningSettings } from '../limits/warnings';
+import { CHALLENGE_TYPES, type ChallengeType } from '../blocking/challenges/challenges';
+import { formatTime } from '../limits/timeInput';
+
+export const CONFIG_VERSION = 6;
+
+export interface ConfigSnapshot {
+  selectedApps: SelectedApp[];
+  allowedApps: SelectedApp[];
+  blockedApps: SelectedApp[];
+  limits: Record<string, number>;
+  openLimits: Record<string, number>;
+  sessionCaps: Record<string, SessionCap>;
+  schedules: Record<string, LimitSchedule>;
+  graceSettings: Record<string, GraceSettings>;
+  challenges: Record<string, ChallengeType>;
+  groups: AppGroup[];
+  pomodoroConfig: PomodoroConfig;
+  warningSettings: WarningSettings;
+  warningsDisabled: string[]; // packageNames
+  showRemainingPill: boolean;
+  dayStartHour: number; // 0-23
+}
+
+export interface ConfigFile extends ConfigSnapshot {
+  app: 'boundly';
+  version: number;
+  exportedAt: string; // ISO timestamp, informational only
+}
+
+export type ConfigParseResult = { ok: true; config: ConfigFile } | { ok: false; error: string };
+
+export interface ConfigChange {
+  kind: 'add' | 'remove' | 'change';
+  text: string;
+}
+
+export function buildConfigFile(snapshot: ConfigSnapshot, now: number): ConfigFile {
+  return {
+    app: 'boundly',
+    version: CONFIG_VERSION,
+    exportedAt: new Date(now).toISOString(),
+    ...snapshot,
+  };
+}
+
+export function serializeConfig(config: ConfigFile): string {
+  return JSON.stringify(config, null, 2);
+}
+
+// ----- Validation -----
+
+class ConfigError extends Error {}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isDuration = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isMinute = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < 24 * 60;
+
+function check(condition: boolean, message: string): asserts condition {
+  if (!condition) {
+    throw new ConfigError(message);
+  }
+}
+
+function readMap<T>(
+  value: unknown,
+  field: string,
+  readEntry: (entry: unknown, key: string) => T,
+): Record<string, T> {
+  if (value === undefined) {
+    return {};
+  }
+  check(isObject(value), `"${field}" must be an object`);
+  const result: Record<string, T> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    result[key] = readEntry(entry, key);
+  }
+  return result;
+}
+
+function readApps(value: unknown, field: string): SelectedApp[] {
+  check(Array.isArray(value), `"${field}" must be a list`);
+  return value.map((app, index) => {
+    check(
+      isObject(app) && typeof app.packageName === 'string' && typeof app.appName === 'string',
+      `${field}[${index}] needs a packageName and appName`,
+    );
+    return { packageName: app.packageName, appName: app.appName };
+  });
+}
+
+/**
+ * An app can't be always allowed and always blocked at the same time
+ */
+function checkAppLists(allowedApps: SelectedApp[], blockedApps: SelectedApp[]) {
+  const allowed = new Set(allowedApps.map((app) => app.packageName));
+  const conflict = blockedApps.find((app) => allowed.has(app.packageName));
+  check(
+    conflict === undefined,
+    `${conflict?.packageName} is on both allowedApps and blockedApps`,
+  );
+}
+
+function readSchedule(entry: unknown, key: string): LimitSchedule {
+  check(isObject(entry), `Schedule for ${key} must be an object`);
+  const { weekdayLimitMs, weekendLimitMs, blockedWindows } = entry;
+  const isOptionalDuration = (value: unknown) => value === undefined || isDuration(value);
+  check(isOptionalDuration(weekdayLimitMs), `Bad weekday limit for ${key}`);
+  check(isOptionalDuration(weekendLimitMs), `Bad weekend limit for ${key}`);
+  check(Array.isArray(blockedWindows), `Schedule for ${key} needs blockedWindows`);
+  const windows: BlockedWindow[] = blockedWindows.map((window) => {
+    check(
+      isObject(window) && isMinute(window.startMinute) && isMinute(window.endMinute),
+      `Bad blocked window for ${key}`,
+    );
+    return { startMinute: window.startMinute, endMinute: window.endMinute };
+  });
+  return { weekdayLimitMs, weekendLimitMs, blockedWindows: windows };
+}
+
+function readGrace(entry: unknown, key: string): GraceSettings {
+  check(
+    isObject(entry) && isDuration(entry.extensionsPerDay) && isDuration(entry.extensionMinutes),
+    `Bad extension settings for ${key}`,
+  );
+  return { extensionsPerDay: entry.extensionsPerDay, extensionMinutes: entry.extensionMinutes };
+}
+
+function readSessionCap(entry: unknown, key: string): SessionCap {
+  const isMinutes = (value: unknown) =>
+    typeof value === 'number' && Number.isInteger(value) && value > 0;
+  check(
+    isObject(entry) && isMinutes(entry.maxSessionMinutes) && isMinutes(entry.cooldownMinutes),
+    `Bad session cap for ${key}`,
+  );
+  return {
+    maxSessionMinutes: entry.maxSessionMinutes as number,
+    cooldownMinutes: entry.cooldownMinutes as number,
+  };
+}
+
+function readGroups(value: unknown): AppGroup[] {
+  if (value === undefined) {
+    return [];
+  }
+  check(Array.isArray(value), '"groups" must be a list');
+  return value.map((group, index) => {
+    check(
+      isObject(group) &&
+        typeof group.id === 'string' &&
+        typeof group.name === 'string' &&
+        isDuration(group.limitMs) &&
+        Array.isArray(group.packageNames) &&
+        group.packageNames.every((name) => typeof name === 'string'),
+      `groups[${index}] is malformed`,
+    );
+    return {
+      id: group.id,
+      name: group.name,
+      limitMs: group.limitMs,
+      packageNames: group.packageNames as string[],
+    };
+  });
+}
+
+function readPomodoroConfig(value: unknown, fallback: PomodoroConfig): PomodoroConfig {
+  if (value === undefined) {
+    return fallback;
+  }
+  check(isObject(value), '"pomodoroConfig" must be an object');
+  const { workMinutes, shortBreakMinutes, longBreakMinutes, cyclesBeforeLongBreak } = value;
+  check(
+    isDuration(workMinutes) &&
+      isDuration(shortBreakMinutes) &&
+      isDuration(longBreakMinutes) &&
+      isDuration(cyclesBeforeLongBreak),
+    'Bad pomodoro settings',
+  );
+  return { workMinutes, shortBreakMinutes, longBreakMinutes, cyclesBeforeLongBreak };
+}
+
+function readWarningSettings(value: unknown): WarningSettings {
+  if (value === undefined) {
+    return DEFAULT_WARNING_SETTINGS;
+  }
+  check(isObject(value), '"warningSettings" must be an object');
+  const { percent, minutesLeft } = value;
+  const isWhole = (entry: unknown, max: number) =>
+    typeof entry === 'number' && Number.isInteger(entry) && entry > 0 && entry < max;
+  check(percent === null || isWhole(percent, 100), 'Bad warning percentage');
+  check(minutesLeft === null || isWhole(minutesLeft, 24 * 60), 'Bad warning time left');
+  return { percent: percent as number | null, minutesLeft: minutesLeft as number | null };
+}
+
+function readPackageNames(value: unknown, field: string): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  check(
+    Array.isArray(value) && value.every((name) => typeof name === 'string'),
+    `"${field}" must be a list of package names`,
+  );
+  return value as string[];
+}
+
+function readShowRemainingPill(value: unknown): boolean {
+  if (value === undefined) {
+    return false;
+  }
+  check(typeof value === 'boolean', '"showRemainingPill" must be true or false');
+  return value;
+}
+
+function readDayStartHour(value: unknown): number {
+  if (value === undefined) {
+    return 0;
+  }
+  check(
+    typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 23,
+    '"dayStartHour" must be a whole hour from 0 to 23',
+  );
+  return value;
+}
+
+/**
+ * Validate an imported document - every field is checked, nothing is trusted
+ * `fallback` fills optional sections missing from older or hand-written files
+ */
+export function parseConfig(json: string, fallback: PomodoroConfig): ConfigParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return { ok: false, error: 'Not a valid JSON document' };
+  }
+
+  try {
+    check(isObject(raw) && raw.app === 'boundly', 'Not a Boundly configuration');
+    check(
+      typeof raw.version === 'number' && Number.isInteger(raw.version) && raw.version >= 1,
+      'Missing or invalid version',
+    );
+    check(
+      raw.version <= CONFIG_VERSION,
+      `Made by a newer version of Boundly (file v${raw.version}, app v${CONFIG_VERSION}). Update the app first.`,
+    );
+
+    const config: ConfigFile = {
+      app: 'boundly',
+      version: CONFIG_VERSION,
+      exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+      selectedApps: readApps(raw.selectedApps, 'selectedApps'),
+      allowedApps: readApps(raw.allowedApps ?? [], 'allowedApps'),
+      blockedApps: readApps(raw.blockedApps ?? [], 'blockedApps'),
+      limits: readMap(raw.limits, 'limits', (entry, key) => {
+        check(isDuration(entry), `Bad limit for ${key}`);
+        return entry;
+      }),
+      openLimits: readMap(raw.openLimits, 'openLimits', (entry, key) => {
+        check(
+          typeof entry === 'number' && Number.isInteger(entry) && entry > 0,
+          `Bad open limit for ${key}`,
+        );
+        return entry;
+      }),
+      sessionCaps: readMap(raw.sessionCaps, 'sessionCaps', readSessionCap),
+      schedules: readMap(raw.schedules, 'schedules', readSchedule),
+      graceSettings: readMap(raw.graceSettings, 'graceSettings', readGrace),
+      challenges: readMap(raw.challenges, 'challenges', (entry, key) => {
+        check(CHALLENGE_TYPES.includes(entry as ChallengeType), `Unknown challenge for ${key}`);
+        return entry as ChallengeType;
+      }),
+      groups: readGroups(raw.groups),
+      pomodoroConfig: readPomodoroConfig(raw.pomodoroConfig, fallback),
+      warningSettings: readWarningSettings(raw.warningSettings),
+      warningsDisabled: readPackageNames(raw.warningsDisabled, 'warningsDisabled'),
+      showRemainingPill: readShowRemainingPill(raw.showRemainingPill),
+      dayStartHour: readDayStartHour(raw.dayStartHour),
+    };
+    checkAppLists(config.allowedApps, config.blockedApps);
+    return { ok: true, config };
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      return { ok: false, error: error.message };
+    }
+    throw error;
+  }
+}
+
+// ----- Diff -----
+
+const describeLimit = (ms: number | undefined): string => (ms ? formatTime(ms) : 'none');
+
+const sameJson = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const packageNamesOf = (apps: SelectedApp[]): Set<string> =>
+  new Set(apps.map((app) => app.packageName));
+
+/**
+ * Human-readable list of what an import would change, for the preview
+ */
+export function diffConfig(current: ConfigSnapshot, incoming: ConfigSnapshot): ConfigChange[] {
+  const changes: ConfigChange[] = [];
+  const names = new Map<string, string>();
+  [current, incoming]
+    .flatMap((snapshot) => [
+      ...snapshot.selectedApps,
+      ...snapshot.allowedApps,
+      ...snapshot.blockedApps,
+    ])
+    .forEach((app) => names.set(app.packageName, app.appName));
+  const nameOf = (packageName: string) => names.get(packageName) ?? packageName;
+
+  const diffApps = (before: SelectedApp[], after: SelectedApp[], add: string, remove: string) => {
+    const currentApps = packageNamesOf(before);
+    const incomingApps = packageNamesOf(after);
+    incomingApps.forEach((name) => {
+      if (!currentApps.has(name)) {
+        changes.push({ kind: 'add', text: `${add} ${nameOf(name)}` });
+      }
+    });
+    currentApps.forEach((name) => {
+      if (!incomingApps.has(name)) {
+        changes.push({ kind: 'remove', text: `${remove} ${nameOf(name)}` });
+      }
+    });
+  };
+  diffApps(current.selectedApps, incoming.selectedApps, 'Track', 'Stop tracking');
+  diffApps(current.allowedApps, incoming.allowedApps, 'Always allow', 'Stop always allowing');
+  diffApps(current.blockedApps, incoming.blockedApps, 'Always block', 'Stop always blocking');
+
+  const packages = new Set([
+    ...Object.keys(current.limits),
+    ...Object.keys(incoming.limits),
+    ...Object.keys(current.openLimits),
+    ...Object.keys(incoming.openLimits),
+    ...Object.keys(current.sessionCaps),
+    ...Object.keys(incoming.sessionCaps),
+    ...Object.keys(current.schedules),
+    ...Object.keys(incoming.schedules),
+    ...Object.keys(current.graceSettings),
+    ...Object.keys(incoming.graceSettings),
+    ...Object.keys(current.challenges),
+    ...Object.keys(incoming.challenges),
+  ]);
+  packages.forEach((name) => {
+    const before = current.limits[name];
+    const after = incoming.limits[name];
+    if (before !== after) {
+      changes.push({
+        kind: before === undefined ? 'add' : after === undefined ? 'remove' : 'change',
+        text: `${nameOf(name)} limit: ${describeLimit(before)} → ${describeLimit(after)}`,
+      });
+    }
+    const opensBefore = current.openLimits[name];
+    const opensAfter = incoming.openLimits[name];
+    if (opensBefore !== opensAfter) {
+      changes.push({
+        kind: opensBefore === undefined ? 'add' : opensAfter === undefined ? 'remove' : 'change',
+        text: `${nameOf(name)} opens/day: ${opensBefore ?? 'none'} → ${opensAfter ?? 'none'}`,
+      });
+    }
+    if (!sameJson(current.sessionCaps[name], incoming.sessionCaps[name])) {
+      changes.push({ kind: 'change', text: `${nameOf(name)} session cap` });
+    }
+    if (!sameJson(current.schedules[name], incoming.schedules[name])) {
+      changes.push({ kind: 'change', text: `${nameOf(name)} schedule` });
+    }
+    if (!sameJson(current.graceSettings[name], incoming.graceSettings[name])) {
+      changes.push({ kind: 'change', text: `${nameOf(name)} extensions` });
+    }
+    const challengeBefore = current.challenges[name] ?? 'none';
+    const challengeAfter = incoming.challenges[name] ?? 'none';
+    if (challengeBefore !== challengeAfter) {
+      changes.push({
+        kind: 'change',
+        text: `${nameOf(name)} challenge: ${challengeBefore} → ${challengeAfter}`,
+      });
+    }
+  });
+
+  const currentGroups = new Map(current.groups.map((group) => [group.id, group]));
+  const incomingGroups = new Map(incoming.groups.map((group) => [group.id, group]));
+  incomingGroups.forEach((group, id) => {
+    const before = currentGroups.get(id);
+    if (!before) {
+      changes.push({ kind: 'add', text: `Group ${group.name} (${describeLimit(group.limitMs)})` });
+    } else if (!sameJson(before, group)) {
+      changes.push({ kind: 'change', text: `Group ${group.name}` });
+    }
+  });
+  currentGroups.forEach((group, id) => {
+    if (!incomingGroups.has(id)) {
+      changes.push({ kind: 'remove', text: `Group ${group.name}` });
+    }
+  });
+
+  if (!sameJson(current.pomodoroConfig, incoming.pomodoroConfig)) {
+    changes.push({ kind: 'change', text: 'Pomodoro lengths' });
+  }
+  if (!sameJson(current.warningSettings, incoming.warningSettings)) {
+    changes.push({ kind: 'change', text: 'Limit warnings' });
+  }
+  if (current.showRemainingPill !== incoming.showRemainingPill) {
+    const describe = (shown: boolean) => (shown ? 'on' : 'off');
+    changes.push({
+      kind: 'change',
+      text: `Time-left pill: ${describe(current.showRemainingPill)} → ${describe(incoming.showRemainingPill)}`,
+    });
+  }
+  if (current.dayStartHour !== incoming.dayStartHour) {
+    changes.push({
+      kind: 'change',
+      text: `Day starts at: ${formatClockTime(current.dayStartHour * 60)} → ${formatClockTime(
+        incoming.dayStartHour * 60,
+      )}`,
+    });
+  }
+  const warnedBefore = new Set(current.warningsDisabled);
+  const warnedAfter = new Set(incoming.warningsDisabled);
+  incoming.warningsDisabled.forEach((name) => {
+    if (!warnedBefore.has(name)) {
+      changes.push({ kind: 'change', text: `${nameOf(name)} warnings: on → off` });
+    }
+  });
+  current.warningsDisabled.forEach((name) => {
+    if (!warnedAfter.has(name)) {
+      changes.push({ kind: 'change', text: `${nameOf(name)} warnings: off → on` });
+    }
+  });
+
+  return changes;
+}
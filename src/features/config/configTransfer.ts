@@ -0,0 +1,96 @@
+/**
+ * Configuration Transfer
+ *
+ * Connects configFile.ts to the stores: snapshot for export, and applying a
+ * validated import through each store's replace action (which runs the strict
+ * mode policy like every other mutation).
+ */
+
+import { useAppStore } from '../../stores/useAppStore';
+import { useAppListsStore } from '../../stores/useAppListsStore';
+import { useLimitsStore } from '../../stores/useLimitsStore';
+import { useGroupsStore } from '../../stores/useGroupsStore';
+import { useFocusStore } from '../../stores/useFocusStore';
+import { useUsageStore } from '../../stores/useUsageStore';
+import { buildConfigFile, serializeConfig, type ConfigSnapshot } from './configFile';
+
+export function getConfigSnapshot(): ConfigSnapshot {
+  const { selectedApps } = useAppStore.getState();
+  const { allowedApps, blockedApps } = useAppListsStore.getState();
+  const {
+    limits,
+    openLimits,
+    sessionCaps,
+    schedules,
+    graceSettings,
+    challenges,
+    warningSettings,
+    warningsDisabled,
+    showRemainingPill,
+  } = useLimitsStore.getState();
+  const { groups } = useGroupsStore.getState();
+  const { pomodoroConfig } = useFocusStore.getState();
+  const { dayStartHour } = useUsageStore.getState();
+  return {
+    selectedApps,
+    allowedApps,
+    blockedApps,
+    limits,
+    openLimits,
+    sessionCaps,
+    schedules,
+    graceSettings,
+    challenges,
+    groups,
+    pomodoroConfig,
+    warningSettings,
+    warningsDisabled,
+    showRemainingPill,
+    dayStartHour,
+  };
+}
+
+export function exportConfig(): string {
+  return serializeConfig(buildConfigFile(getConfigSnapshot(), Date.now()));
+}
+
+/**
+ * Replace every setting with the imported ones - false if strict mode refused
+ * The app selection goes first, so a refusal leaves everything untouched.
+ */
+export function applyConfig(config: ConfigSnapshot): boolean {
+  if (!useAppStore.getState().replaceApps(config.selectedApps)) {
+    return false;
+  }
+  const {
+    limits,
+    openLimits,
+    sessionCaps,
+    schedules,
+    graceSettings,
+    challenges,
+    warningSettings,
+    warningsDisabled,
+    showRemainingPill,
+  } = config;
+  useLimitsStore.getState().replaceLimits({
+    limits,
+    openLimits,
+    sessionCaps,
+    schedules,
+    graceSettings,
+    challenges,
+    warningSettings,
+    warningsDisabled,
+    showRemainingPill,
+  });
+  useAppListsStore.getState().replaceAppLists(config);
+  useGroupsStore.getState().replaceGroups(config.groups);
+  useFocusStore.getState().setPomodoroConfig(config.pomodoroConfig);
+  // Only on a real change, as a new boundary refreshes today's usage
+  if (useUsageStore.getState().dayStartHour !== config.dayStartHour) {
+    useUsageStore.getState().setDayStartHour(config.dayStartHour);
+  }
+  console.log('Config: Imported', config.selectedApps.length, 'apps');
+  return true;
+}
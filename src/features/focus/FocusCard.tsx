@@ -0,0 +1,222 @@
+/**
+ * Focus Card
+ *
+ * "Focus now" launcher on HomeScreen: pick a duration and which selected
+ * apps to block, then everything chosen stays blocked until the timer ends.
+ *
+ * UX Considerations:
+ * - All selected apps are chosen by default, tap chips to narrow it down
+ * - While running, shows a live countdown instead of the launcher
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useTheme } from '../../utils/theme';
+import type { SelectedApp } from '../../stores/useAppStore';
+import { useFocusStore } from '../../stores/useFocusStore';
+import {
+  FOCUS_DURATION_OPTIONS,
+  formatCountdown,
+  getFocusRemainingMs,
+  isFocusActive,
+} from './focusSession';
+
+interface FocusCardProps {
+  selectedApps: SelectedApp[];
+}
+
+export default function FocusCard({ selectedApps }: FocusCardProps) {
+  const theme = useTheme();
+  const session = useFocusStore((state) => state.session);
+  const startFocus = useFocusStore((state) => state.startFocus);
+  const endFocus = useFocusStore((state) => state.endFocus);
+  const [durationMinutes, setDurationMinutes] = useState<number>(45);
+  const [excludedApps, setExcludedApps] = useState<string[]>([]);
+  const [now, setNow] = useState(Date.now());
+
+  const isActive = isFocusActive(session, now);
+  const chosenApps = selectedApps
+    .map((app) => app.packageName)
+    .filter((name) => !excludedApps.includes(name));
+
+  // Tick the countdown while a session runs
+  useEffect(() => {
+    if (!session) {
+      return;
+    }
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [session]);
+
+  const toggleApp = (packageName: string) => {
+    setExcludedApps((current) =>
+      current.includes(packageName)
+        ? current.filter((name) => name !== packageName)
+        : [...current, packageName],
+    );
+  };
+
+  const cardStyle = [
+    styles.card,
+    { backgroundColor: theme.colors.surface, borderColor: theme.colors.border },
+  ];
+
+  if (isActive && session) {
+    return (
+      <View style={cardStyle}>
+        <Text style={[styles.title, { color: theme.colors.text }]}>Focusing</Text>
+        <Text style={[styles.countdown, { color: theme.colors.primary }]}>
+          {formatCountdown(getFocusRemainingMs(session, now))}
+        </Text>
+        <Text style={[styles.caption, { color: theme.colors.textSecondary }]}>
+          {session.packageNames.length} app{session.packageNames.length !== 1 ? 's' : ''} blocked
+          until the timer ends
+        </Text>
+        <TouchableOpacity style={styles.textButton} onPress={endFocus} activeOpacity={0.6}>
+          <Text style={[styles.textButtonLabel, { color: theme.colors.error }]}>
+            End session
+          </Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={cardStyle}>
+      <Text style={[styles.title, { color: theme.colors.text }]}>Focus now</Text>
+
+      <View style={styles.chips}>
+        {FOCUS_DURATION_OPTIONS.map((minutes) => {
+          const isSelected = minutes === durationMinutes;
+          return (
+            <TouchableOpacity
+              key={minutes}
+              style={[
+                styles.chip,
+                { borderColor: theme.colors.border },
+                isSelected && {
+                  backgroundColor: theme.colors.primary,
+                  borderColor: theme.colors.primary,
+                },
+              ]}
+              onPress={() => setDurationMinutes(minutes)}
+              activeOpacity={0.7}>
+              <Text
+                style={[
+                  styles.chipText,
+                  isSelected ? styles.chipTextSelected : { color: theme.colors.text },
+                ]}>
+                {minutes}m
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <Text style={[styles.caption, { color: theme.colors.textSecondary }]}>Block</Text>
+      <View style={styles.chips}>
+        {selectedApps.map((app) => {
+          const isChosen = chosenApps.includes(app.packageName);
+          return (
+            <TouchableOpacity
+              key={app.packageName}
+              style={[
+                styles.chip,
+                { borderColor: theme.colors.border },
+                isChosen && {
+                  backgroundColor: theme.colors.primary,
+                  borderColor: theme.colors.primary,
+                },
+              ]}
+              onPress={() => toggleApp(app.packageName)}
+              activeOpacity={0.7}>
+              <Text
+                style={[
+                  styles.chipText,
+                  isChosen ? styles.chipTextSelected : { color: theme.colors.text },
+                ]}>
+                {app.appName}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <TouchableOpacity
+        style={[
+          styles.startButton,
+          { backgroundColor: theme.colors.primary },
+          chosenApps.length === 0 && styles.startButtonDisabled,
+        ]}
+        onPress={() => startFocus(durationMinutes * 60 * 1000, chosenApps)}
+        disabled={chosenApps.length === 0}
+        activeOpacity={0.8}>
+        <Text style={styles.startButtonText}>Focus for {durationMinutes} minutes</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    width: '100%',
+    maxWidth: 300,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 24,
+    gap: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  countdown: {
+    fontSize: 36,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+  caption: {
+    fontSize: 14,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  startButton: {
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  startButtonDisabled: {
+    opacity: 0.5,
+  },
+  startButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  textButton: {
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  textButtonLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,189 @@
+/**
+ * Pomodoro Card
+ *
+ * Work / break cycles on HomeScreen. Selected apps are blocked during work
+ * phases and released during breaks until the cycles are stopped.
+ *
+ * UX Considerations:
+ * - Lengths are remembered, so starting the next day is a single tap
+ * - While running, shows the current phase and a live countdown
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import { useTheme } from '../../utils/theme';
+import type { SelectedApp } from '../../stores/useAppStore';
+import { useFocusStore } from '../../stores/useFocusStore';
+import { formatCountdown } from './focusSession';
+import {
+  getPhaseLabel,
+  getPomodoroPhase,
+  isValidPomodoroConfig,
+  type PomodoroConfig,
+} from './pomodoro';
+
+interface PomodoroCardProps {
+  selectedApps: SelectedApp[];
+}
+
+const CONFIG_FIELDS: Array<{ key: keyof PomodoroConfig; label: string }> = [
+  { key: 'workMinutes', label: 'Work (min)' },
+  { key: 'shortBreakMinutes', label: 'Short break' },
+  { key: 'longBreakMinutes', label: 'Long break' },
+  { key: 'cyclesBeforeLongBreak', label: 'Cycles' },
+];
+
+export default function PomodoroCard({ selectedApps }: PomodoroCardProps) {
+  const theme = useTheme();
+  const pomodoro = useFocusStore((state) => state.pomodoro);
+  const pomodoroConfig = useFocusStore((state) => state.pomodoroConfig);
+  const startPomodoro = useFocusStore((state) => state.startPomodoro);
+  const stopPomodoro = useFocusStore((state) => state.stopPomodoro);
+  const setPomodoroConfig = useFocusStore((state) => state.setPomodoroConfig);
+  const [now, setNow] = useState(Date.now());
+
+  // Tick the countdown while cycles run
+  useEffect(() => {
+    if (!pomodoro) {
+      return;
+    }
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [pomodoro]);
+
+  const handleConfigChange = (key: keyof PomodoroConfig, text: string) => {
+    const value = parseInt(text, 10);
+    setPomodoroConfig({ ...pomodoroConfig, [key]: isNaN(value) ? 0 : value });
+  };
+
+  const cardStyle = [
+    styles.card,
+    { backgroundColor: theme.colors.surface, borderColor: theme.colors.border },
+  ];
+
+  if (pomodoro) {
+    const phase = getPomodoroPhase(pomodoro, now);
+    return (
+      <View style={cardStyle}>
+        <Text style={[styles.title, { color: theme.colors.text }]}>
+          {getPhaseLabel(phase, pomodoro.config)}
+        </Text>
+        <Text style={[styles.countdown, { color: theme.colors.primary }]}>
+          {formatCountdown(phase.endsAt - now)}
+        </Text>
+        <Text style={[styles.caption, { color: theme.colors.textSecondary }]}>
+          {phase.kind === 'work'
+            ? 'Selected apps are blocked until your break'
+            : 'Selected apps are available until the next work phase'}
+        </Text>
+        <TouchableOpacity style={styles.textButton} onPress={stopPomodoro} activeOpacity={0.6}>
+          <Text style={[styles.textButtonLabel, { color: theme.colors.error }]}>
+            Stop cycles
+          </Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const isValid = isValidPomodoroConfig(pomodoroConfig);
+
+  return (
+    <View style={cardStyle}>
+      <Text style={[styles.title, { color: theme.colors.text }]}>Pomodoro</Text>
+      <View style={styles.fields}>
+        {CONFIG_FIELDS.map(({ key, label }) => (
+          <View key={key} style={styles.field}>
+            <Text style={[styles.caption, { color: theme.colors.textSecondary }]}>{label}</Text>
+            <TextInput
+              style={[
+                styles.input,
+                {
+                  backgroundColor: theme.colors.background,
+                  color: theme.colors.text,
+                  borderColor: theme.colors.border,
+                },
+              ]}
+              value={pomodoroConfig[key] > 0 ? String(pomodoroConfig[key]) : ''}
+              onChangeText={(text) => handleConfigChange(key, text)}
+              keyboardType="number-pad"
+              maxLength={3}
+            />
+          </View>
+        ))}
+      </View>
+      <TouchableOpacity
+        style={[
+          styles.startButton,
+          { backgroundColor: theme.colors.primary },
+          !isValid && styles.startButtonDisabled,
+        ]}
+        onPress={() => startPomodoro(selectedApps.map((app) => app.packageName))}
+        disabled={!isValid}
+        activeOpacity={0.8}>
+        <Text style={styles.startButtonText}>Start cycles</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    width: '100%',
+    maxWidth: 300,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 24,
+    gap: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  countdown: {
+    fontSize: 36,
+    fontWeight: 'bold',
+    textAlign: 'center',
+  },
+  caption: {
+    fontSize: 14,
+  },
+  fields: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  field: {
+    width: '47%',
+    gap: 4,
+  },
+  input: {
+    padding: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    fontSize: 16,
+  },
+  startButton: {
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  startButtonDisabled: {
+    opacity: 0.5,
+  },
+  startButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  textButton: {
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  textButtonLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,54 @@
+/**
+ * Focus Sessions
+ *
+ * Pure logic for a timed "block everything" mode: the chosen apps are
+ * blocked until the session ends, regardless of daily limits or usage.
+ *
+ * Mirrored in Kotlin by FocusSessions.kt - keep the two in sync.
+ */
+
+export interface FocusSession {
+  startedAt: number; // epoch ms
+  endsAt: number; // epoch ms
+  packageNames: string[]; // apps blocked while the session runs
+}
+
+// Durations offered on HomeScreen, in minutes
+export const FOCUS_DURATION_OPTIONS = [25, 45, 60, 90] as const;
+
+export function isFocusActive(session: FocusSession | null, now: number): boolean {
+  return session !== null && session.endsAt > now;
+}
+
+export function getFocusRemainingMs(session: FocusSession | null, now: number): number {
+  if (!session) {
+    return 0;
+  }
+  return Math.max(0, session.endsAt - now);
+}
+
+/**
+ * True if the app is blocked by a running focus session
+ */
+export function isBlockedByFocus(
+  session: FocusSession | null,
+  packageName: string,
+  now: number,
+): boolean {
+  return session !== null && isFocusActive(session, now) && session.packageNames.includes(packageName);
+}
+
+/**
+ * Countdown text, e.g. "44:59" or "1:05:00"
+ */
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  if (hours > 0) {
+    return `${hours}:${pad(minutes)}:${pad(seconds)}`;
+  }
+  return `${minutes}:${pad(seconds)}`;
+}
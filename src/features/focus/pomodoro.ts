@@ -0,0 +1,108 @@
+/**
+ * Pomodoro Cycles
+ *
+ * Pure logic for work / short-break / long-break cycles. The current phase
+ * is derived from the start time and config alone, so nothing has to tick
+ * in the background and a restart resumes in the right phase.
+ *
+ * Mirrored in Kotlin by Pomodoro.kt - keep the two in sync.
+ */
+
+export interface PomodoroConfig {
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  cyclesBeforeLongBreak: number; // work phases per set, the last one is followed by the long break
+}
+
+export interface PomodoroState {
+  startedAt: number; // epoch ms
+  config: PomodoroConfig;
+  packageNames: string[]; // apps blocked during work phases
+}
+
+export type PomodoroPhaseKind = 'work' | 'shortBreak' | 'longBreak';
+
+export interface PomodoroPhase {
+  kind: PomodoroPhaseKind;
+  cycle: number; // 1-based position within the current set
+  endsAt: number; // epoch ms
+}
+
+export const DEFAULT_POMODORO_CONFIG: PomodoroConfig = {
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  cyclesBeforeLongBreak: 4,
+};
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Phases of one full set in order, as [kind, cycle, durationMs]
+ */
+function getSetPhases(config: PomodoroConfig): Array<[PomodoroPhaseKind, number, number]> {
+  const cycles = Math.max(1, Math.floor(config.cyclesBeforeLongBreak));
+  const phases: Array<[PomodoroPhaseKind, number, number]> = [];
+  for (let cycle = 1; cycle <= cycles; cycle++) {
+    phases.push(['work', cycle, config.workMinutes * MINUTE_MS]);
+    if (cycle < cycles) {
+      phases.push(['shortBreak', cycle, config.shortBreakMinutes * MINUTE_MS]);
+    } else {
+      phases.push(['longBreak', cycle, config.longBreakMinutes * MINUTE_MS]);
+    }
+  }
+  return phases.filter(([, , durationMs]) => durationMs > 0);
+}
+
+export function getPomodoroPhase(state: PomodoroState, now: number): PomodoroPhase {
+  const phases = getSetPhases(state.config);
+  const setMs = phases.reduce((total, [, , durationMs]) => total + durationMs, 0);
+  const elapsed = Math.max(0, now - state.startedAt);
+  const setStart = state.startedAt + (setMs > 0 ? Math.floor(elapsed / setMs) * setMs : 0);
+
+  let phaseStart = setStart;
+  for (const [kind, cycle, durationMs] of phases) {
+    if (now < phaseStart + durationMs) {
+      return { kind, cycle, endsAt: phaseStart + durationMs };
+    }
+    phaseStart += durationMs;
+  }
+  // Only reachable with an all-zero config
+  return { kind: 'work', cycle: 1, endsAt: now };
+}
+
+/**
+ * True if the app is blocked by the current pomodoro work phase
+ */
+export function isBlockedByPomodoro(
+  state: PomodoroState | null,
+  packageName: string,
+  now: number,
+): boolean {
+  return (
+    state !== null &&
+    state.packageNames.includes(packageName) &&
+    getPomodoroPhase(state, now).kind === 'work'
+  );
+}
+
+export function isValidPomodoroConfig(config: PomodoroConfig): boolean {
+  return (
+    config.workMinutes > 0 &&
+    config.shortBreakMinutes > 0 &&
+    config.longBreakMinutes > 0 &&
+    config.cyclesBeforeLongBreak >= 1
+  );
+}
+
+export function getPhaseLabel(phase: PomodoroPhase, config: PomodoroConfig): string {
+  switch (phase.kind) {
+    case 'work':
+      return `Work ${phase.cycle}/${config.cyclesBeforeLongBreak}`;
+    case 'shortBreak':
+      return 'Short break';
+    case 'longBreak':
+      return 'Long break';
+  }
+}
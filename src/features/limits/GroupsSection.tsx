@@ -0,0 +1,248 @@
+/**
+ * Groups Section
+ *
+ * Lets users bundle selected apps into named groups with one shared daily
+ * budget (e.g. "Social" = 1h total). Shown above the per-app limits.
+ *
+ * UX Considerations:
+ * - Members are toggled with chips, no extra screen
+ * - Combined usage shown so the shared budget is easy to judge
+ */
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import { useTheme } from '../../utils/theme';
+import type { SelectedApp } from '../../stores/useAppStore';
+import { useGroupsStore } from '../../stores/useGroupsStore';
+import { useUsageStore } from '../../stores/useUsageStore';
+import { getGroupUsage, type AppGroup } from './groups';
+import { formatTime, parseTimeInput } from './timeInput';
+
+interface GroupItemProps {
+  group: AppGroup;
+  selectedApps: SelectedApp[];
+  usageMs: number;
+}
+
+function GroupItem({ group, selectedApps, usageMs }: GroupItemProps) {
+  const theme = useTheme();
+  const updateGroup = useGroupsStore((state) => state.updateGroup);
+  const removeGroup = useGroupsStore((state) => state.removeGroup);
+  const toggleMember = useGroupsStore((state) => state.toggleMember);
+  const [name, setName] = useState(group.name);
+  const [limitValue, setLimitValue] = useState(
+    group.limitMs > 0 ? formatTime(group.limitMs) : '',
+  );
+
+  // Update input value when limit changes externally
+  useEffect(() => {
+    setLimitValue(group.limitMs > 0 ? formatTime(group.limitMs) : '');
+  }, [group.limitMs]);
+
+  const handleSaveName = () => {
+    const trimmed = name.trim();
+    if (trimmed) {
+      updateGroup(group.id, { name: trimmed });
+    } else {
+      setName(group.name);
+    }
+  };
+
+  const handleSaveLimit = () => {
+    const parsed = parseTimeInput(limitValue);
+    let saved = true;
+    if (parsed && parsed > 0) {
+      saved = updateGroup(group.id, { limitMs: parsed });
+    } else if (limitValue.trim() === '') {
+      saved = updateGroup(group.id, { limitMs: 0 });
+    }
+    // Refused by strict mode, show the stored budget again
+    if (!saved) {
+      setLimitValue(group.limitMs > 0 ? formatTime(group.limitMs) : '');
+    }
+  };
+
+  const inputStyle = [
+    styles.input,
+    {
+      backgroundColor: theme.colors.background,
+      color: theme.colors.text,
+      borderColor: theme.colors.border,
+    },
+  ];
+
+  return (
+    <View
+      style={[
+        styles.groupItem,
+        { backgroundColor: theme.colors.surface, borderColor: theme.colors.border },
+      ]}>
+      <View style={styles.row}>
+        <TextInput
+          style={inputStyle}
+          value={name}
+          onChangeText={setName}
+          onSubmitEditing={handleSaveName}
+          onBlur={handleSaveName}
+          placeholder="Group name"
+          placeholderTextColor={theme.colors.textSecondary}
+        />
+        <TouchableOpacity style={styles.textButton} onPress={() => removeGroup(group.id)}>
+          <Text style={[styles.textButtonLabel, { color: theme.colors.error }]}>
+            Delete
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.row}>
+        <TextInput
+          style={inputStyle}
+          value={limitValue}
+          onChangeText={setLimitValue}
+          onSubmitEditing={handleSaveLimit}
+          onBlur={handleSaveLimit}
+          placeholder="Shared limit, e.g. 1h"
+          placeholderTextColor={theme.colors.textSecondary}
+        />
+      </View>
+
+      {usageMs > 0 && (
+        <Text style={[styles.usageText, { color: theme.colors.textSecondary }]}>
+          Used together: {formatTime(usageMs)} today
+        </Text>
+      )}
+
+      <View style={styles.chips}>
+        {selectedApps.map((app) => {
+          const isMember = group.packageNames.includes(app.packageName);
+          return (
+            <TouchableOpacity
+              key={app.packageName}
+              style={[
+                styles.chip,
+                { borderColor: theme.colors.border },
+                isMember && {
+                  backgroundColor: theme.colors.primary,
+                  borderColor: theme.colors.primary,
+                },
+              ]}
+              onPress={() => toggleMember(group.id, app.packageName)}
+              activeOpacity={0.7}>
+              <Text
+                style={[
+                  styles.chipText,
+                  isMember ? styles.chipTextSelected : { color: theme.colors.text },
+                ]}>
+                {app.appName}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+interface GroupsSectionProps {
+  selectedApps: SelectedApp[];
+}
+
+export default function GroupsSection({ selectedApps }: GroupsSectionProps) {
+  const theme = useTheme();
+  const groups = useGroupsStore((state) => state.groups);
+  const addGroup = useGroupsStore((state) => state.addGroup);
+  const todayUsage = useUsageStore((state) => state.todayUsage);
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: theme.colors.text }]}>Groups</Text>
+        <TouchableOpacity
+          style={styles.textButton}
+          onPress={() => addGroup(`Group ${groups.length + 1}`, 0)}>
+          <Text style={[styles.textButtonLabel, { color: theme.colors.primary }]}>
+            + New group
+          </Text>
+        </TouchableOpacity>
+      </View>
+      {groups.length === 0 && (
+        <Text style={[styles.usageText, { color: theme.colors.textSecondary }]}>
+          Share one daily budget across several apps (e.g. "Social" = 1h total).
+        </Text>
+      )}
+      {groups.map((group) => (
+        <GroupItem
+          key={group.id}
+          group={group}
+          selectedApps={selectedApps}
+          usageMs={getGroupUsage(group, todayUsage)}
+        />
+      ))}
+      <Text style={[styles.title, { color: theme.colors.text }]}>Apps</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 4,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  groupItem: {
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+    gap: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    fontSize: 16,
+  },
+  textButton: {
+    padding: 12,
+  },
+  textButtonLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  usageText: {
+    fontSize: 14,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+});
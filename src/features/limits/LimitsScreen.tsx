@@ -8,6 +8,15 @@
  * - Clear visual feedback
  * - Easy to adjust
  * - Shows current usage for context
+ * - Optional schedule: weekday/weekend budgets and blocked time windows
+ * - Optional open limit: max times per day the app may be opened (see opens.ts)
+ * - Optional session cap: max minutes at a time, then a cooldown (see SessionCaps.kt)
+ * - Optional grace: N "more minutes" extensions per day from the blocking screen
+ * - Warning notifications before a limit is reached, with per-app opt-out (see WarningsSection)
+ * - Optional floating "time left" pill over limited apps (see RemainingPillSection)
+ * - Groups of apps sharing one budget (see GroupsSection)
+ * - Refused changes in strict mode snap back to the stored value
+ * - Optional PIN that guards this screen (see PinSection)
  */
 
 import React, { useState, useEffect } from 'react';
@@ -18,74 +27,474 @@ import {
   FlatList,
   TouchableOpacity,
   TextInput,
+  Switch,
 } from 'react-native';
 import { useTheme } from '../../utils/theme';
 import { useAppStore, type SelectedApp } from '../../stores/useAppStore';
 import { useLimitsStore } from '../../stores/useLimitsStore';
 import { useUsageStore } from '../../stores/useUsageStore';
+import {
+  EMPTY_SCHEDULE,
+  formatClockTime,
+  parseClockTime,
+  type LimitSchedule,
+} from './schedule';
+import { formatTime, parseTimeInput } from './timeInput';
+import { formatOpens, parseOpenLimitInput } from './opens';
+import {
+  MAX_COOLDOWN_MINUTES,
+  MAX_SESSION_MINUTES,
+  parseCapMinutes,
+  type SessionCap,
+} from './sessionCap';
+import type { GraceSettings } from './grace';
+import { getWarningPoints, type WarningSettings } from './warnings';
+import type { ChallengeType } from '../blocking/challenges/challenges';
+import { CHALLENGE_OPTIONS } from '../blocking/challenges/registry';
+import GroupsSection from './GroupsSection';
+import StrictNotice from '../strict/StrictNotice';
+import PinSection from '../pin/PinSection';
+import WarningsSection from './WarningsSection';
+import RemainingPillSection from './RemainingPillSection';
 
-/**
- * Format milliseconds to human-readable time string
- */
-const formatTime = (ms: number): string => {
-  const totalMinutes = Math.floor(ms / 60000);
-  const hours = Math.floor(totalMinutes / 60);
-  const minutes = totalMinutes % 60;
-  if (hours > 0) {
-    return `${hours}h ${minutes}m`;
-  }
-  return `${minutes}m`;
-};
+interface ScheduleEditorProps {
+  schedule: LimitSchedule;
+  onChange: (schedule: LimitSchedule) => boolean;
+}
 
-/**
- * Parse time input string to milliseconds
- * Supports formats like "1h 30m", "90m", "1.5h", "120"
- */
-const parseTimeInput = (input: string): number | null => {
-  const trimmed = input.trim().toLowerCase();
-  
-  // Try "Xh Ym" format
-  const hourMinMatch = trimmed.match(/(\d+)h\s*(\d+)m?/);
-  if (hourMinMatch) {
-    const hours = parseInt(hourMinMatch[1], 10);
-    const minutes = parseInt(hourMinMatch[2] || '0', 10);
-    return (hours * 60 + minutes) * 60000;
-  }
+function ScheduleEditor({ schedule, onChange }: ScheduleEditorProps) {
+  const theme = useTheme();
+  const [weekdayValue, setWeekdayValue] = useState(
+    schedule.weekdayLimitMs ? formatTime(schedule.weekdayLimitMs) : '',
+  );
+  const [weekendValue, setWeekendValue] = useState(
+    schedule.weekendLimitMs ? formatTime(schedule.weekendLimitMs) : '',
+  );
+  const [windowStart, setWindowStart] = useState('');
+  const [windowEnd, setWindowEnd] = useState('');
+  const [windowError, setWindowError] = useState<string | null>(null);
 
-  // Try "Xh" format
-  const hourMatch = trimmed.match(/(\d+(?:\.\d+)?)h/);
-  if (hourMatch) {
-    const hours = parseFloat(hourMatch[1]);
-    return hours * 60 * 60000;
-  }
+  const inputStyle = [
+    styles.input,
+    {
+      backgroundColor: theme.colors.background,
+      color: theme.colors.text,
+      borderColor: theme.colors.border,
+    },
+  ];
 
-  // Try "Xm" format
-  const minMatch = trimmed.match(/(\d+(?:\.\d+)?)m/);
-  if (minMatch) {
-    const minutes = parseFloat(minMatch[1]);
-    return minutes * 60000;
-  }
+  // Empty input clears the override (falls back to the daily limit)
+  const saveBudget = (key: 'weekdayLimitMs' | 'weekendLimitMs', value: string) => {
+    const parsed = value.trim() === '' ? undefined : parseTimeInput(value);
+    if (parsed === null || parsed === 0 || onChange({ ...schedule, [key]: parsed })) {
+      return;
+    }
+    // Refused by strict mode, show the stored value again
+    const stored = schedule[key];
+    const setValue = key === 'weekdayLimitMs' ? setWeekdayValue : setWeekendValue;
+    setValue(stored ? formatTime(stored) : '');
+  };
 
-  // Try just number (assume minutes)
-  const numMatch = trimmed.match(/^\d+$/);
-  if (numMatch) {
-    const minutes = parseInt(numMatch[0], 10);
-    return minutes * 60000;
-  }
+  const handleAddWindow = () => {
+    const startMinute = parseClockTime(windowStart);
+    const endMinute = parseClockTime(windowEnd);
+    if (startMinute === null || endMinute === null) {
+      setWindowError('Use 24h times like 22:00 and 07:00');
+      return;
+    }
+    if (startMinute === endMinute) {
+      setWindowError('Start and end must differ');
+      return;
+    }
+    setWindowError(null);
+    setWindowStart('');
+    setWindowEnd('');
+    onChange({
+      ...schedule,
+      blockedWindows: [...schedule.blockedWindows, { startMinute, endMinute }],
+    });
+  };
 
-  return null;
-};
+  const handleRemoveWindow = (index: number) => {
+    onChange({
+      ...schedule,
+      blockedWindows: schedule.blockedWindows.filter((_, i) => i !== index),
+    });
+  };
+
+  return (
+    <View style={[styles.scheduleEditor, { borderColor: theme.colors.border }]}>
+      <View style={styles.scheduleRow}>
+        <Text style={[styles.scheduleLabel, { color: theme.colors.textSecondary }]}>
+          Weekdays
+        </Text>
+        <TextInput
+          style={inputStyle}
+          value={weekdayValue}
+          onChangeText={setWeekdayValue}
+          placeholder="Same as daily"
+          placeholderTextColor={theme.colors.textSecondary}
+          onSubmitEditing={() => saveBudget('weekdayLimitMs', weekdayValue)}
+          onBlur={() => saveBudget('weekdayLimitMs', weekdayValue)}
+        />
+      </View>
+      <View style={styles.scheduleRow}>
+        <Text style={[styles.scheduleLabel, { color: theme.colors.textSecondary }]}>
+          Weekends
+        </Text>
+        <TextInput
+          style={inputStyle}
+          value={weekendValue}
+          onChangeText={setWeekendValue}
+          placeholder="Same as daily"
+          placeholderTextColor={theme.colors.textSecondary}
+          onSubmitEditing={() => saveBudget('weekendLimitMs', weekendValue)}
+          onBlur={() => saveBudget('weekendLimitMs', weekendValue)}
+        />
+      </View>
+
+      <Text style={[styles.scheduleLabel, { color: theme.colors.textSecondary }]}>
+        Blocked entirely between
+      </Text>
+      {schedule.blockedWindows.map((window, index) => (
+        <View key={`${window.startMinute}-${window.endMinute}`} style={styles.windowRow}>
+          <Text style={[styles.windowText, { color: theme.colors.text }]}>
+            {formatClockTime(window.startMinute)} – {formatClockTime(window.endMinute)}
+          </Text>
+          <TouchableOpacity style={styles.clearButton} onPress={() => handleRemoveWindow(index)}>
+            <Text style={[styles.clearButtonText, { color: theme.colors.error }]}>
+              Remove
+            </Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+      <View style={styles.inputContainer}>
+        <TextInput
+          style={inputStyle}
+          value={windowStart}
+          onChangeText={setWindowStart}
+          placeholder="22:00"
+          placeholderTextColor={theme.colors.textSecondary}
+        />
+        <TextInput
+          style={inputStyle}
+          value={windowEnd}
+          onChangeText={setWindowEnd}
+          placeholder="07:00"
+          placeholderTextColor={theme.colors.textSecondary}
+        />
+        <TouchableOpacity style={styles.clearButton} onPress={handleAddWindow}>
+          <Text style={[styles.clearButtonText, { color: theme.colors.primary }]}>
+            Add
+          </Text>
+        </TouchableOpacity>
+      </View>
+      {windowError && (
+        <Text style={[styles.errorText, { color: theme.colors.error }]}>
+          {windowError}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+interface OpenLimitEditorProps {
+  maxOpens: number | undefined;
+  opens: number;
+  onChange: (maxOpens: number | null) => boolean;
+}
+
+function OpenLimitEditor({ maxOpens, opens, onChange }: OpenLimitEditorProps) {
+  const theme = useTheme();
+  const [value, setValue] = useState(maxOpens ? String(maxOpens) : '');
+
+  // Empty input removes the limit, anything that isn't a count shows the stored value again
+  const handleSave = () => {
+    const isEmpty = value.trim() === '';
+    const parsed = isEmpty ? null : parseOpenLimitInput(value);
+    if (parsed === maxOpens || (isEmpty && maxOpens === undefined)) {
+      return;
+    }
+    if ((!isEmpty && parsed === null) || !onChange(parsed)) {
+      // Invalid, or refused by strict mode
+      setValue(maxOpens ? String(maxOpens) : '');
+    }
+  };
+
+  return (
+    <View style={[styles.scheduleEditor, { borderColor: theme.colors.border }]}>
+      <Text style={[styles.scheduleLabel, { color: theme.colors.textSecondary }]}>
+        Open limit
+      </Text>
+      <View style={styles.inputContainer}>
+        <TextInput
+          style={[
+            styles.input,
+            {
+              backgroundColor: theme.colors.background,
+              color: theme.colors.text,
+              borderColor: theme.colors.border,
+            },
+          ]}
+          value={value}
+          onChangeText={setValue}
+          placeholder="Max opens/day"
+          placeholderTextColor={theme.colors.textSecondary}
+          keyboardType="number-pad"
+          onSubmitEditing={handleSave}
+          onBlur={handleSave}
+        />
+        <Text style={[styles.usageText, { color: theme.colors.textSecondary }]}>
+          Today: {formatOpens(opens, maxOpens)}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+interface SessionCapEditorProps {
+  cap: SessionCap | undefined;
+  onChange: (cap: SessionCap | null) => boolean;
+}
+
+function SessionCapEditor({ cap, onChange }: SessionCapEditorProps) {
+  const theme = useTheme();
+  const [sessionValue, setSessionValue] = useState(cap ? String(cap.maxSessionMinutes) : '');
+  const [cooldownValue, setCooldownValue] = useState(cap ? String(cap.cooldownMinutes) : '');
+
+  const inputStyle = [
+    styles.input,
+    {
+      backgroundColor: theme.colors.background,
+      color: theme.colors.text,
+      borderColor: theme.colors.border,
+    },
+  ];
+
+  const showStored = () => {
+    setSessionValue(cap ? String(cap.maxSessionMinutes) : '');
+    setCooldownValue(cap ? String(cap.cooldownMinutes) : '');
+  };
+
+  // Both fields empty removes the cap, partial input waits for the other field
+  const handleSave = () => {
+    if (sessionValue.trim() === '' && cooldownValue.trim() === '') {
+      if (cap && !onChange(null)) {
+        showStored();
+      }
+      return;
+    }
+    const maxSessionMinutes = parseCapMinutes(sessionValue, MAX_SESSION_MINUTES);
+    const cooldownMinutes = parseCapMinutes(cooldownValue, MAX_COOLDOWN_MINUTES);
+    if (maxSessionMinutes === null || cooldownMinutes === null) {
+      return;
+    }
+    if (
+      maxSessionMinutes === cap?.maxSessionMinutes &&
+      cooldownMinutes === cap?.cooldownMinutes
+    ) {
+      return;
+    }
+    if (!onChange({ maxSessionMinutes, cooldownMinutes })) {
+      // Refused by strict mode, show the stored values again
+      showStored();
+    }
+  };
+
+  return (
+    <View style={[styles.scheduleEditor, { borderColor: theme.colors.border }]}>
+      <Text style={[styles.scheduleLabel, { color: theme.colors.textSecondary }]}>
+        At a time
+      </Text>
+      <View style={styles.inputContainer}>
+        <TextInput
+          style={inputStyle}
+          value={sessionValue}
+          onChangeText={setSessionValue}
+          placeholder="Max minutes"
+          placeholderTextColor={theme.colors.textSecondary}
+          keyboardType="number-pad"
+          onSubmitEditing={handleSave}
+          onBlur={handleSave}
+        />
+        <Text style={[styles.usageText, { color: theme.colors.textSecondary }]}>then</Text>
+        <TextInput
+          style={inputStyle}
+          value={cooldownValue}
+          onChangeText={setCooldownValue}
+          placeholder="Break minutes"
+          placeholderTextColor={theme.colors.textSecondary}
+          keyboardType="number-pad"
+          onSubmitEditing={handleSave}
+          onBlur={handleSave}
+        />
+      </View>
+      <Text style={[styles.capHint, { color: theme.colors.textSecondary }]}>
+        Only time in the app counts. A session ends after a break as long as the cooldown.
+      </Text>
+    </View>
+  );
+}
+
+interface GraceEditorProps {
+  settings: GraceSettings | undefined;
+  challenge: ChallengeType | undefined;
+  onChange: (settings: GraceSettings | null) => boolean;
+  onChallengeChange: (challenge: ChallengeType) => void;
+}
+
+function GraceEditor({ settings, challenge, onChange, onChallengeChange }: GraceEditorProps) {
+  const theme = useTheme();
+  const [countValue, setCountValue] = useState(
+    settings ? String(settings.extensionsPerDay) : '',
+  );
+  const [minutesValue, setMinutesValue] = useState(
+    settings ? String(settings.extensionMinutes) : '',
+  );
+
+  const inputStyle = [
+    styles.input,
+    {
+      backgroundColor: theme.colors.background,
+      color: theme.colors.text,
+      borderColor: theme.colors.border,
+    },
+  ];
+
+  // Both fields empty turns grace off, partial input waits for the other field
+  const handleSave = () => {
+    if (countValue.trim() === '' && minutesValue.trim() === '') {
+      onChange(null);
+      return;
+    }
+    const extensionsPerDay = parseInt(countValue, 10);
+    const extensionMinutes = parseInt(minutesValue, 10);
+    if (
+      extensionsPerDay > 0 &&
+      extensionMinutes > 0 &&
+      !onChange({ extensionsPerDay, extensionMinutes })
+    ) {
+      // Refused by strict mode, show the stored values again
+      setCountValue(settings ? String(settings.extensionsPerDay) : '');
+      setMinutesValue(settings ? String(settings.extensionMinutes) : '');
+    }
+  };
+
+  return (
+    <View style={[styles.scheduleEditor, { borderColor: theme.colors.border }]}>
+      <Text style={[styles.scheduleLabel, { color: theme.colors.textSecondary }]}>
+        Extensions
+      </Text>
+      <View style={styles.inputContainer}>
+        <TextInput
+          style={inputStyle}
+          value={countValue}
+          onChangeText={setCountValue}
+          placeholder="Times/day"
+          placeholderTextColor={theme.colors.textSecondary}
+          keyboardType="number-pad"
+          onSubmitEditing={handleSave}
+          onBlur={handleSave}
+        />
+        <Text style={[styles.usageText, { color: theme.colors.textSecondary }]}>×</Text>
+        <TextInput
+          style={inputStyle}
+          value={minutesValue}
+          onChangeText={setMinutesValue}
+          placeholder="Minutes"
+          placeholderTextColor={theme.colors.textSecondary}
+          keyboardType="number-pad"
+          onSubmitEditing={handleSave}
+          onBlur={handleSave}
+        />
+      </View>
+
+      <Text style={[styles.scheduleLabel, { color: theme.colors.textSecondary }]}>
+        Before extending
+      </Text>
+      <View style={styles.chips}>
+        {CHALLENGE_OPTIONS.map((option) => {
+          const isSelected = option.type === (challenge ?? 'none');
+          return (
+            <TouchableOpacity
+              key={option.type}
+              style={[
+                styles.chip,
+                { borderColor: theme.colors.border },
+                isSelected && {
+                  backgroundColor: theme.colors.primary,
+                  borderColor: theme.colors.primary,
+                },
+              ]}
+              onPress={() => onChallengeChange(option.type)}
+              activeOpacity={0.7}>
+              <Text
+                style={[
+                  styles.chipText,
+                  isSelected ? styles.chipTextSelected : { color: theme.colors.text },
+                ]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
 
 interface LimitItemProps {
   app: SelectedApp;
   limit: number | undefined;
+  schedule: LimitSchedule | undefined;
+  maxOpens: number | undefined;
+  opens: number;
+  sessionCap: SessionCap | undefined;
+  grace: GraceSettings | undefined;
+  challenge: ChallengeType | undefined;
+  warningSettings: WarningSettings;
+  warningsEnabled: boolean;
   usage: number;
-  onLimitChange: (packageName: string, limitMs: number | null) => void;
+  onLimitChange: (packageName: string, limitMs: number | null) => boolean;
+  onScheduleChange: (packageName: string, schedule: LimitSchedule) => boolean;
+  onOpenLimitChange: (packageName: string, maxOpens: number | null) => boolean;
+  onSessionCapChange: (packageName: string, cap: SessionCap | null) => boolean;
+  onGraceChange: (packageName: string, settings: GraceSettings | null) => boolean;
+  onChallengeChange: (packageName: string, challenge: ChallengeType) => void;
+  onWarningsChange: (packageName: string, enabled: boolean) => void;
 }
 
-function LimitItem({ app, limit, usage, onLimitChange }: LimitItemProps) {
+function LimitItem({
+  app,
+  limit,
+  schedule,
+  maxOpens,
+  opens,
+  sessionCap,
+  grace,
+  challenge,
+  warningSettings,
+  warningsEnabled,
+  usage,
+  onLimitChange,
+  onScheduleChange,
+  onOpenLimitChange,
+  onSessionCapChange,
+  onGraceChange,
+  onChallengeChange,
+  onWarningsChange,
+}: LimitItemProps) {
   const theme = useTheme();
   const [inputValue, setInputValue] = useState(limit ? formatTime(limit) : '');
+  const [showSchedule, setShowSchedule] = useState(
+    schedule !== undefined ||
+      maxOpens !== undefined ||
+      sessionCap !== undefined ||
+      grace !== undefined,
+  );
+  const warningTimes = getWarningPoints(warningSettings, limit ?? 0).map((point) =>
+    formatTime(point.atUsageMs),
+  );
 
   // Update input value when limit changes externally
   useEffect(() => {
@@ -98,10 +507,15 @@ function LimitItem({ app, limit, usage, onLimitChange }: LimitItemProps) {
 
   const handleSave = () => {
     const parsed = parseTimeInput(inputValue);
+    let saved = true;
     if (parsed && parsed > 0) {
-      onLimitChange(app.packageName, parsed);
+      saved = onLimitChange(app.packageName, parsed);
     } else if (inputValue.trim() === '') {
-      onLimitChange(app.packageName, null);
+      saved = onLimitChange(app.packageName, null);
+    }
+    // Refused by strict mode, show the stored limit again
+    if (!saved) {
+      setInputValue(limit ? formatTime(limit) : '');
     }
   };
 
@@ -146,8 +560,9 @@ function LimitItem({ app, limit, usage, onLimitChange }: LimitItemProps) {
           <TouchableOpacity
             style={styles.clearButton}
             onPress={() => {
-              setInputValue('');
-              onLimitChange(app.packageName, null);
+              if (onLimitChange(app.packageName, null)) {
+                setInputValue('');
+              }
             }}>
             <Text style={[styles.clearButtonText, { color: theme.colors.error }]}>
               Clear
@@ -155,6 +570,64 @@ function LimitItem({ app, limit, usage, onLimitChange }: LimitItemProps) {
           </TouchableOpacity>
         )}
       </View>
+
+      <TouchableOpacity
+        style={styles.scheduleToggle}
+        onPress={() => setShowSchedule(!showSchedule)}>
+        <Text style={[styles.clearButtonText, { color: theme.colors.primary }]}>
+          {showSchedule ? 'Hide options' : 'Schedule, opens, breaks & extensions…'}
+        </Text>
+      </TouchableOpacity>
+      {showSchedule && (
+        <ScheduleEditor
+          schedule={schedule ?? EMPTY_SCHEDULE}
+          onChange={(next) => onScheduleChange(app.packageName, next)}
+        />
+      )}
+      {showSchedule && (
+        <OpenLimitEditor
+          maxOpens={maxOpens}
+          opens={opens}
+          onChange={(next) => onOpenLimitChange(app.packageName, next)}
+        />
+      )}
+      {showSchedule && (
+        <SessionCapEditor
+          cap={sessionCap}
+          onChange={(next) => onSessionCapChange(app.packageName, next)}
+        />
+      )}
+      {showSchedule && (
+        <GraceEditor
+          settings={grace}
+          challenge={challenge}
+          onChange={(next) => onGraceChange(app.packageName, next)}
+          onChallengeChange={(next) => onChallengeChange(app.packageName, next)}
+        />
+      )}
+      {showSchedule && (
+        <View style={[styles.scheduleEditor, styles.warningRow, { borderColor: theme.colors.border }]}>
+          <View style={styles.warningInfo}>
+            <Text style={[styles.windowText, { color: theme.colors.text }]}>Warn before blocking</Text>
+            {warningsEnabled && limit !== undefined && limit > 0 && (
+              <Text style={[styles.usageText, { color: theme.colors.textSecondary }]}>
+                {warningTimes.length > 0
+                  ? `At ${warningTimes.join(' and ')} of use`
+                  : 'No warning fits this limit'}
+              </Text>
+            )}
+          </View>
+          <Switch
+            value={warningsEnabled}
+            onValueChange={(enabled) => onWarningsChange(app.packageName, enabled)}
+            trackColor={{
+              false: theme.colors.border,
+              true: theme.colors.primary,
+            }}
+            thumbColor="#FFFFFF"
+          />
+        </View>
+      )}
     </View>
   );
 }
@@ -165,14 +638,63 @@ export default function LimitsScreen() {
   const getLimit = useLimitsStore((state) => state.getLimit);
   const setLimit = useLimitsStore((state) => state.setLimit);
   const removeLimit = useLimitsStore((state) => state.removeLimit);
+  const getSchedule = useLimitsStore((state) => state.getSchedule);
+  const setSchedule = useLimitsStore((state) => state.setSchedule);
+  const removeSchedule = useLimitsStore((state) => state.removeSchedule);
+  const openLimits = useLimitsStore((state) => state.openLimits);
+  const setOpenLimit = useLimitsStore((state) => state.setOpenLimit);
+  const removeOpenLimit = useLimitsStore((state) => state.removeOpenLimit);
+  const sessionCaps = useLimitsStore((state) => state.sessionCaps);
+  const setSessionCap = useLimitsStore((state) => state.setSessionCap);
+  const removeSessionCap = useLimitsStore((state) => state.removeSessionCap);
+  const graceSettings = useLimitsStore((state) => state.graceSettings);
+  const setGraceSettings = useLimitsStore((state) => state.setGraceSettings);
+  const removeGraceSettings = useLimitsStore((state) => state.removeGraceSettings);
+  const challenges = useLimitsStore((state) => state.challenges);
+  const setChallenge = useLimitsStore((state) => state.setChallenge);
+  const warningSettings = useLimitsStore((state) => state.warningSettings);
+  const warningsDisabled = useLimitsStore((state) => state.warningsDisabled);
+  const setWarningsEnabled = useLimitsStore((state) => state.setWarningsEnabled);
   const getTodayUsage = useUsageStore((state) => state.getTodayUsage);
+  const getTodayOpens = useUsageStore((state) => state.getTodayOpens);
 
   const handleLimitChange = (packageName: string, limitMs: number | null) => {
     if (limitMs === null) {
-      removeLimit(packageName);
-    } else {
-      setLimit(packageName, limitMs);
+      return removeLimit(packageName);
+    }
+    return setLimit(packageName, limitMs);
+  };
+
+  const handleScheduleChange = (packageName: string, schedule: LimitSchedule) => {
+    const isEmpty =
+      !schedule.weekdayLimitMs &&
+      !schedule.weekendLimitMs &&
+      schedule.blockedWindows.length === 0;
+    if (isEmpty) {
+      return removeSchedule(packageName);
     }
+    return setSchedule(packageName, schedule);
+  };
+
+  const handleOpenLimitChange = (packageName: string, maxOpens: number | null) => {
+    if (maxOpens === null) {
+      return removeOpenLimit(packageName);
+    }
+    return setOpenLimit(packageName, maxOpens);
+  };
+
+  const handleSessionCapChange = (packageName: string, cap: SessionCap | null) => {
+    if (cap === null) {
+      return removeSessionCap(packageName);
+    }
+    return setSessionCap(packageName, cap);
+  };
+
+  const handleGraceChange = (packageName: string, settings: GraceSettings | null) => {
+    if (settings === null) {
+      return removeGraceSettings(packageName);
+    }
+    return setGraceSettings(packageName, settings);
   };
 
   if (selectedApps.length === 0) {
@@ -193,6 +715,7 @@ export default function LimitsScreen() {
       <Text style={[styles.subtitle, { color: theme.colors.textSecondary }]}>
         Enter time limits (e.g., "1h 30m", "90m", "2h")
       </Text>
+      <StrictNotice />
 
       <FlatList
         data={selectedApps}
@@ -201,10 +724,32 @@ export default function LimitsScreen() {
           <LimitItem
             app={item}
             limit={getLimit(item.packageName)}
+            schedule={getSchedule(item.packageName)}
+            maxOpens={openLimits[item.packageName]}
+            opens={getTodayOpens(item.packageName)}
+            sessionCap={sessionCaps[item.packageName]}
+            grace={graceSettings[item.packageName]}
+            challenge={challenges[item.packageName]}
+            warningSettings={warningSettings}
+            warningsEnabled={!warningsDisabled.includes(item.packageName)}
             usage={getTodayUsage(item.packageName)}
             onLimitChange={handleLimitChange}
+            onScheduleChange={handleScheduleChange}
+            onOpenLimitChange={handleOpenLimitChange}
+            onSessionCapChange={handleSessionCapChange}
+            onGraceChange={handleGraceChange}
+            onChallengeChange={setChallenge}
+            onWarningsChange={setWarningsEnabled}
           />
         )}
+        ListHeaderComponent={<GroupsSection selectedApps={selectedApps} />}
+        ListFooterComponent={
+          <>
+            <WarningsSection />
+            <RemainingPillSection />
+            <PinSection />
+          </>
+        }
         contentContainerStyle={styles.listContent}
       />
     </View>
@@ -264,6 +809,67 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
   },
+  scheduleToggle: {
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+    marginTop: 4,
+  },
+  scheduleEditor: {
+    borderTopWidth: 1,
+    paddingTop: 12,
+    gap: 8,
+  },
+  scheduleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  scheduleLabel: {
+    fontSize: 14,
+    width: 80,
+  },
+  windowRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  windowText: {
+    fontSize: 16,
+  },
+  warningRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  warningInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  errorText: {
+    fontSize: 12,
+  },
+  capHint: {
+    fontSize: 12,
+    marginTop: 4,
+  },
   emptyText: {
     fontSize: 16,
     textAlign: 'center',
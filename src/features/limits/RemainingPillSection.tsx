@@ -0,0 +1,104 @@
+/**
+ * Remaining Pill Section
+ *
+ * Switch for the small "12 min left" pill the blocking service floats over an
+ * app while it's under a limit or group budget (see RemainingTime.kt).
+ *
+ * UX Considerations:
+ * - Off by default - it's drawn over other apps, see the overlay notes in BlockingScreen
+ * - Needs "Display over other apps", granted from system settings - re-checked on return
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Switch, TouchableOpacity, AppState } from 'react-native';
+import { useTheme } from '../../utils/theme';
+import { useLimitsStore } from '../../stores/useLimitsStore';
+import BlockingServiceModule from '../../native/BlockingServiceModule';
+
+export default function RemainingPillSection() {
+  const theme = useTheme();
+  const showRemainingPill = useLimitsStore((state) => state.showRemainingPill);
+  const setShowRemainingPill = useLimitsStore((state) => state.setShowRemainingPill);
+  const [canDraw, setCanDraw] = useState(true);
+
+  useEffect(() => {
+    const checkPermission = () => {
+      BlockingServiceModule?.canDrawOverlays()
+        .then(setCanDraw)
+        .catch((error) => {
+          console.error('RemainingPillSection: Error checking overlay permission:', error);
+        });
+    };
+
+    checkPermission();
+    const subscription = AppState.addEventListener('change', (nextAppState) => {
+      if (nextAppState === 'active') {
+        checkPermission();
+      }
+    });
+    return () => subscription.remove();
+  }, []);
+
+  const handleAllow = async () => {
+    try {
+      await BlockingServiceModule?.openOverlaySettings();
+    } catch (error) {
+      console.error('RemainingPillSection: Error opening overlay settings:', error);
+    }
+  };
+
+  return (
+    <View
+      style={[
+        styles.section,
+        { backgroundColor: theme.colors.surface, borderColor: theme.colors.border },
+      ]}>
+      <View style={styles.row}>
+        <Text style={[styles.title, { color: theme.colors.text }]}>Time left pill</Text>
+        <Switch value={showRemainingPill} onValueChange={setShowRemainingPill} />
+      </View>
+      <Text style={[styles.caption, { color: theme.colors.textSecondary }]}>
+        Shows the minutes left today in a corner while you use an app with a limit. It can't be
+        tapped and never covers other apps.
+      </Text>
+
+      {showRemainingPill && !canDraw && (
+        <TouchableOpacity style={styles.textButton} onPress={handleAllow} activeOpacity={0.6}>
+          <Text style={[styles.textButtonLabel, { color: theme.colors.primary }]}>
+            Allow display over other apps
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    padding: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginBottom: 12,
+    gap: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  caption: {
+    fontSize: 14,
+  },
+  textButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+  },
+  textButtonLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
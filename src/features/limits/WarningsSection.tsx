@@ -0,0 +1,164 @@
+/**
+ * Warnings Section
+ *
+ * When to be warned before a limit blocks an app - shared by all apps, each
+ * app can opt out from its own options in LimitsScreen. The notifications
+ * are posted by the blocking service.
+ *
+ * UX Considerations:
+ * - Two independent thresholds, either can be turned off
+ * - Android 13+ needs the notification permission - asked from here, not on launch
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  PermissionsAndroid,
+  Platform,
+} from 'react-native';
+import { useTheme } from '../../utils/theme';
+import { useLimitsStore } from '../../stores/useLimitsStore';
+import { WARNING_MINUTES_OPTIONS, WARNING_PERCENT_OPTIONS } from './warnings';
+
+const needsPermission = Platform.OS === 'android' && Platform.Version >= 33;
+
+export default function WarningsSection() {
+  const theme = useTheme();
+  const warningSettings = useLimitsStore((state) => state.warningSettings);
+  const setWarningSettings = useLimitsStore((state) => state.setWarningSettings);
+  const [isPermitted, setIsPermitted] = useState(!needsPermission);
+
+  useEffect(() => {
+    if (!needsPermission) {
+      return;
+    }
+    PermissionsAndroid.check(PermissionsAndroid.PERMISSIONS.POST_NOTIFICATIONS)
+      .then(setIsPermitted)
+      .catch((error) => {
+        console.error('WarningsSection: Error checking notification permission:', error);
+      });
+  }, []);
+
+  const handleAllow = async () => {
+    try {
+      const result = await PermissionsAndroid.request(
+        PermissionsAndroid.PERMISSIONS.POST_NOTIFICATIONS,
+      );
+      setIsPermitted(result === PermissionsAndroid.RESULTS.GRANTED);
+    } catch (error) {
+      console.error('WarningsSection: Error requesting notification permission:', error);
+    }
+  };
+
+  const isOff = warningSettings.percent === null && warningSettings.minutesLeft === null;
+
+  const renderChip = (label: string, isSelected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[
+        styles.chip,
+        { borderColor: theme.colors.border },
+        isSelected && { backgroundColor: theme.colors.primary, borderColor: theme.colors.primary },
+      ]}
+      onPress={onPress}
+      activeOpacity={0.7}>
+      <Text
+        style={[styles.chipText, isSelected ? styles.chipTextSelected : { color: theme.colors.text }]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View
+      style={[
+        styles.section,
+        { backgroundColor: theme.colors.surface, borderColor: theme.colors.border },
+      ]}>
+      <Text style={[styles.title, { color: theme.colors.text }]}>Warnings</Text>
+      <Text style={[styles.caption, { color: theme.colors.textSecondary }]}>
+        {isOff
+          ? 'No notice before an app is blocked.'
+          : 'A notification before an app reaches its limit, once per step and day.'}
+      </Text>
+
+      <Text style={[styles.caption, { color: theme.colors.textSecondary }]}>At</Text>
+      <View style={styles.chips}>
+        {renderChip('Off', warningSettings.percent === null, () =>
+          setWarningSettings({ ...warningSettings, percent: null }),
+        )}
+        {WARNING_PERCENT_OPTIONS.map((percent) =>
+          renderChip(`${percent}%`, warningSettings.percent === percent, () =>
+            setWarningSettings({ ...warningSettings, percent }),
+          ),
+        )}
+      </View>
+
+      <Text style={[styles.caption, { color: theme.colors.textSecondary }]}>With time left</Text>
+      <View style={styles.chips}>
+        {renderChip('Off', warningSettings.minutesLeft === null, () =>
+          setWarningSettings({ ...warningSettings, minutesLeft: null }),
+        )}
+        {WARNING_MINUTES_OPTIONS.map((minutesLeft) =>
+          renderChip(`${minutesLeft} min`, warningSettings.minutesLeft === minutesLeft, () =>
+            setWarningSettings({ ...warningSettings, minutesLeft }),
+          ),
+        )}
+      </View>
+
+      {!isOff && !isPermitted && (
+        <TouchableOpacity style={styles.textButton} onPress={handleAllow} activeOpacity={0.6}>
+          <Text style={[styles.textButtonLabel, { color: theme.colors.primary }]}>
+            Allow notifications
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    padding: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginTop: 4,
+    marginBottom: 12,
+    gap: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  caption: {
+    fontSize: 14,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  textButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+  },
+  textButtonLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
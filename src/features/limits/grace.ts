@@ -0,0 +1,77 @@
+/**
+ * Grace Extensions
+ *
+ * Pure logic for "five more minutes": each app can allow N extensions per
+ * day of M minutes each. Every granted extension is logged so the daily
+ * allowance can be counted and past use reviewed.
+ *
+ * Mirrored in Kotlin by GraceExtensions.kt - keep the two in sync.
+ */
+
+import { addDays, type DayKey } from '../../utils/dates';
+
+export interface GraceSettings {
+  extensionsPerDay: number;
+  extensionMinutes: number;
+}
+
+export interface GraceGrant {
+  packageName: string;
+  dayKey: DayKey; // day the extension counts against
+  grantedAt: number; // epoch ms
+  expiresAt: number; // epoch ms
+}
+
+// How long the grant log is kept
+export const GRACE_LOG_DAYS = 30;
+
+export function isGraceEnabled(settings: GraceSettings | undefined): settings is GraceSettings {
+  return settings !== undefined && settings.extensionsPerDay > 0 && settings.extensionMinutes > 0;
+}
+
+export function countGrantsForDay(
+  grants: GraceGrant[],
+  packageName: string,
+  dayKey: DayKey,
+): number {
+  return grants.filter((grant) => grant.packageName === packageName && grant.dayKey === dayKey)
+    .length;
+}
+
+/**
+ * Extensions the app still has today, 0 when grace is not configured
+ */
+export function getRemainingExtensions(
+  settings: GraceSettings | undefined,
+  grants: GraceGrant[],
+  packageName: string,
+  dayKey: DayKey,
+): number {
+  if (!isGraceEnabled(settings)) {
+    return 0;
+  }
+  return Math.max(0, settings.extensionsPerDay - countGrantsForDay(grants, packageName, dayKey));
+}
+
+/**
+ * Extension currently keeping the app unblocked, if any
+ */
+export function findActiveGrant(
+  grants: GraceGrant[],
+  packageName: string,
+  now: number,
+): GraceGrant | null {
+  return (
+    grants.find(
+      (grant) => grant.packageName === packageName && grant.grantedAt <= now && now < grant.expiresAt,
+    ) ?? null
+  );
+}
+
+/**
+ * Drop log entries older than GRACE_LOG_DAYS
+ */
+export function pruneGrants(grants: GraceGrant[], todayKey: DayKey): GraceGrant[] {
+  const oldestKey = addDays(todayKey, -(GRACE_LOG_DAYS - 1));
+  return grants.filter((grant) => grant.dayKey >= oldestKey);
+}
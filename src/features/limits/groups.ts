@@ -0,0 +1,52 @@
+/**
+ * App Groups
+ *
+ * Pure logic for named groups of apps sharing one daily budget
+ * (e.g. "Social" = Instagram + TikTok + X, 1h total).
+ *
+ * Mirrored in Kotlin by AppGroups.kt - keep the two in sync.
+ */
+
+export interface AppGroup {
+  id: string;
+  name: string;
+  packageNames: string[];
+  limitMs: number; // Combined daily budget across all members
+}
+
+export interface GroupEvaluation {
+  group: AppGroup;
+  usageMs: number;
+}
+
+/**
+ * Combined usage of all group members
+ */
+export function getGroupUsage(group: AppGroup, usage: Record<string, number>): number {
+  return group.packageNames.reduce((total, name) => total + (usage[name] ?? 0), 0);
+}
+
+export function getGroupsForApp(packageName: string, groups: AppGroup[]): AppGroup[] {
+  return groups.filter((group) => group.packageNames.includes(packageName));
+}
+
+/**
+ * First group containing the app whose combined budget is used up
+ * Every member is blocked once its group budget is exhausted.
+ */
+export function findExhaustedGroup(
+  packageName: string,
+  groups: AppGroup[],
+  usage: Record<string, number>,
+): GroupEvaluation | null {
+  for (const group of getGroupsForApp(packageName, groups)) {
+    if (group.limitMs <= 0) {
+      continue;
+    }
+    const usageMs = getGroupUsage(group, usage);
+    if (usageMs >= group.limitMs) {
+      return { group, usageMs };
+    }
+  }
+  return null;
+}
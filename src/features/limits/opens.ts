@@ -0,0 +1,45 @@
+/**
+ * Open Limits
+ *
+ * "Max opens per day" for apps that are a problem because of how often they
+ * are checked rather than for how long. Works alongside the time limit -
+ * whichever runs out first blocks the app.
+ *
+ * Notes:
+ * - An open is the app coming to the foreground from another app (or after
+ *   the screen was off), counted natively from usage events - switching
+ *   screens inside the app doesn't count
+ * - The open that goes over the limit is the one that gets blocked: with a
+ *   limit of 10, the 10th open is allowed and the 11th isn't
+ *
+ * Mirrored in Kotlin by LimitRules.kt - keep the two in sync.
+ */
+
+export const MAX_OPEN_LIMIT = 999;
+
+export function hasOpenLimit(maxOpens: number | undefined): maxOpens is number {
+  return maxOpens !== undefined && maxOpens > 0;
+}
+
+export function isOpenLimitExceeded(maxOpens: number | undefined, opens: number): boolean {
+  return hasOpenLimit(maxOpens) && opens > maxOpens;
+}
+
+/**
+ * Whole number of opens from user input, null when it isn't one
+ */
+export function parseOpenLimitInput(input: string): number | null {
+  const trimmed = input.trim();
+  if (!/^\d+$/.test(trimmed)) {
+    return null;
+  }
+  const value = parseInt(trimmed, 10);
+  return value > 0 && value <= MAX_OPEN_LIMIT ? value : null;
+}
+
+export function formatOpens(opens: number, maxOpens?: number): string {
+  if (hasOpenLimit(maxOpens)) {
+    return `${opens}/${maxOpens} opens`;
+  }
+  return `${opens} open${opens === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,153 @@
+/**
+ * Limit Schedules
+ *
+ * Pure evaluation of scheduled limits:
+ * - Weekday (Mon-Fri) and weekend (Sat-Sun) budgets that override the daily limit
+ * - Blocked windows (e.g. 22:00-07:00) where the app is blocked regardless of usage
+ *
+ * Mirrored in Kotlin by LimitRules.kt - keep the two in sync.
+ */
+
+import { getDayKey, parseDayKey } from '../../utils/dates';
+
+export interface BlockedWindow {
+  startMinute: number; // minutes since midnight, 0-1439
+  endMinute: number; // exclusive; may be < startMinute to wrap past midnight
+}
+
+export interface LimitSchedule {
+  weekdayLimitMs?: number;
+  weekendLimitMs?: number;
+  blockedWindows: BlockedWindow[];
+}
+
+export type BlockReason = 'limit' | 'window';
+
+export interface LimitEvaluation {
+  blocked: boolean;
+  reason: BlockReason | null;
+  effectiveLimitMs: number | undefined;
+  windowEndMinute?: number; // set when blocked by a window
+}
+
+export const EMPTY_SCHEDULE: LimitSchedule = { blockedWindows: [] };
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export function isWeekend(date: Date): boolean {
+  const day = date.getDay();
+  return day === 0 || day === 6;
+}
+
+/**
+ * Daily budget for the given day (weekday/weekend override, else base limit)
+ */
+export function getEffectiveLimit(
+  baseLimitMs: number | undefined,
+  schedule: LimitSchedule | undefined,
+  date: Date,
+): number | undefined {
+  const override = isWeekend(date)
+    ? schedule?.weekendLimitMs
+    : schedule?.weekdayLimitMs;
+  if (override !== undefined && override > 0) {
+    return override;
+  }
+  return baseLimitMs !== undefined && baseLimitMs > 0 ? baseLimitMs : undefined;
+}
+
+/**
+ * The blocked window containing `date`, if any
+ */
+export function findActiveWindow(
+  schedule: LimitSchedule | undefined,
+  date: Date,
+): BlockedWindow | undefined {
+  const minute = date.getHours() * 60 + date.getMinutes();
+  return schedule?.blockedWindows.find((window) => {
+    if (window.startMinute === window.endMinute) {
+      return false;
+    }
+    if (window.startMinute < window.endMinute) {
+      return minute >= window.startMinute && minute < window.endMinute;
+    }
+    // Wraps past midnight, e.g. 22:00-07:00
+    return minute >= window.startMinute || minute < window.endMinute;
+  });
+}
+
+/**
+ * Whether an app has anything to enforce (a budget or a blocked window)
+ */
+export function hasActiveRule(
+  baseLimitMs: number | undefined,
+  schedule: LimitSchedule | undefined,
+): boolean {
+  return (
+    (baseLimitMs !== undefined && baseLimitMs > 0) ||
+    (schedule?.weekdayLimitMs ?? 0) > 0 ||
+    (schedule?.weekendLimitMs ?? 0) > 0 ||
+    (schedule?.blockedWindows.length ?? 0) > 0
+  );
+}
+
+/**
+ * Decide whether an app is blocked right now
+ * Blocked windows win over budgets: they apply even with zero usage.
+ * Windows follow the clock, budgets the day - before the day start hour
+ * the previous day's weekday/weekend budget still applies.
+ */
+export function evaluateLimit(
+  baseLimitMs: number | undefined,
+  schedule: LimitSchedule | undefined,
+  usageMs: number,
+  now: Date,
+): LimitEvaluation {
+  const effectiveLimitMs = getEffectiveLimit(
+    baseLimitMs,
+    schedule,
+    parseDayKey(getDayKey(now.getTime())),
+  );
+
+  const window = findActiveWindow(schedule, now);
+  if (window) {
+    return {
+      blocked: true,
+      reason: 'window',
+      effectiveLimitMs,
+      windowEndMinute: window.endMinute,
+    };
+  }
+
+  if (effectiveLimitMs !== undefined && usageMs >= effectiveLimitMs) {
+    return { blocked: true, reason: 'limit', effectiveLimitMs };
+  }
+
+  return { blocked: false, reason: null, effectiveLimitMs };
+}
+
+/**
+ * Parse "HH:MM" (24h) into minutes since midnight
+ */
+export function parseClockTime(input: string): number | null {
+  const match = input.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+  return hours * 60 + minutes;
+}
+
+/**
+ * Format minutes since midnight as "HH:MM"
+ */
+export function formatClockTime(minuteOfDay: number): string {
+  const normalized = ((minuteOfDay % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours = Math.floor(normalized / 60);
+  const minutes = normalized % 60;
+  return `${hours < 10 ? '0' : ''}${hours}:${minutes < 10 ? '0' : ''}${minutes}`;
+}
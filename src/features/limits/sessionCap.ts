@@ -0,0 +1,34 @@
+/**
+ * Session Caps
+ *
+ * Settings for "no more than 15 minutes at a time": once an app has been
+ * used for its maximum session length it is blocked for a cooldown, however
+ * much of the daily budget is left.
+ *
+ * The sessions themselves are timed by the blocking service (SessionCaps.kt);
+ * JS only edits the caps and reads the running cooldowns.
+ */
+
+export const MAX_SESSION_MINUTES = 240;
+export const MAX_COOLDOWN_MINUTES = 24 * 60;
+
+export interface SessionCap {
+  maxSessionMinutes: number;
+  cooldownMinutes: number;
+}
+
+export function isSessionCapEnabled(cap: SessionCap | undefined): cap is SessionCap {
+  return cap !== undefined && cap.maxSessionMinutes > 0 && cap.cooldownMinutes > 0;
+}
+
+/**
+ * Whole minutes within the allowed range, null otherwise
+ */
+export function parseCapMinutes(input: string, max: number): number | null {
+  const trimmed = input.trim();
+  if (!/^\d+$/.test(trimmed)) {
+    return null;
+  }
+  const value = parseInt(trimmed, 10);
+  return value > 0 && value <= max ? value : null;
+}
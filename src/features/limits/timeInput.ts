@@ -0,0 +1,58 @@
+/**
+ * Time Input Helpers
+ *
+ * Shared by the limit, schedule and group editors so every budget field
+ * accepts the same formats.
+ */
+
+/**
+ * Format milliseconds to human-readable time string
+ */
+export const formatTime = (ms: number): string => {
+  const totalMinutes = Math.floor(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return `${minutes}m`;
+};
+
+/**
+ * Parse time input string to milliseconds
+ * Supports formats like "1h 30m", "90m", "1.5h", "120"
+ */
+export const parseTimeInput = (input: string): number | null => {
+  const trimmed = input.trim().toLowerCase();
+  
+  // Try "Xh Ym" format
+  const hourMinMatch = trimmed.match(/(\d+)h\s*(\d+)m?/);
+  if (hourMinMatch) {
+    const hours = parseInt(hourMinMatch[1], 10);
+    const minutes = parseInt(hourMinMatch[2] || '0', 10);
+    return (hours * 60 + minutes) * 60000;
+  }
+
+  // Try "Xh" format
+  const hourMatch = trimmed.match(/(\d+(?:\.\d+)?)h/);
+  if (hourMatch) {
+    const hours = parseFloat(hourMatch[1]);
+    return hours * 60 * 60000;
+  }
+
+  // Try "Xm" format
+  const minMatch = trimmed.match(/(\d+(?:\.\d+)?)m/);
+  if (minMatch) {
+    const minutes = parseFloat(minMatch[1]);
+    return minutes * 60000;
+  }
+
+  // Try just number (assume minutes)
+  const numMatch = trimmed.match(/^\d+$/);
+  if (numMatch) {
+    const minutes = parseInt(numMatch[0], 10);
+    return minutes * 60000;
+  }
+
+  return null;
+};
@@ -0,0 +1,51 @@
+/**
+ * Limit Warnings
+ *
+ * Settings for the notifications posted before a limit blocks an app: one at
+ * a share of the limit (e.g. 80%) and one at a time left (e.g. 5 minutes).
+ *
+ * Only an app's own limit is warned about - blocked windows start at a known
+ * time and group budgets are shared, so neither has a per-app "almost there".
+ *
+ * The blocking service decides when to post them and keeps the once-a-day
+ * log (LimitWarnings.kt); getWarningPoints here only previews the times on
+ * the limits screen and must place them the same way.
+ */
+
+export interface WarningSettings {
+  percent: number | null; // share of the limit used, null when off
+  minutesLeft: number | null; // time left before the block, null when off
+}
+
+export type WarningThreshold = 'percent' | 'minutesLeft';
+
+export interface WarningPoint {
+  threshold: WarningThreshold;
+  atUsageMs: number;
+}
+
+export const DEFAULT_WARNING_SETTINGS: WarningSettings = { percent: 80, minutesLeft: 5 };
+
+export const WARNING_PERCENT_OPTIONS = [50, 75, 80, 90];
+export const WARNING_MINUTES_OPTIONS = [1, 5, 10, 15];
+
+/**
+ * Usage at which each enabled warning fires, earliest first
+ */
+export function getWarningPoints(settings: WarningSettings, limitMs: number): WarningPoint[] {
+  if (limitMs <= 0) {
+    return [];
+  }
+  const points: WarningPoint[] = [];
+  if (settings.percent !== null && settings.percent > 0 && settings.percent < 100) {
+    points.push({ threshold: 'percent', atUsageMs: Math.round((limitMs * settings.percent) / 100) });
+  }
+  // A limit shorter than the warning window would warn before any use
+  if (settings.minutesLeft !== null && settings.minutesLeft > 0) {
+    const atUsageMs = limitMs - settings.minutesLeft * 60 * 1000;
+    if (atUsageMs > 0) {
+      points.push({ threshold: 'minutesLeft', atUsageMs });
+    }
+  }
+  return points.sort((a, b) => a.atUsageMs - b.atUsageMs);
+}
@@ -0,0 +1,203 @@
+/**
+ * PIN Gate
+ *
+ * Wraps a screen so it only renders after the PIN was entered. Without a PIN
+ * set, or within a few minutes of entering it, the screen shows directly.
+ *
+ * UX Considerations:
+ * - Says how many tries are left and when a lockout ends
+ * - "Forgot PIN?" takes the recovery code shown when the PIN was set
+ * - Back leaves the screen instead of trapping the user
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { useTheme } from '../../utils/theme';
+import { usePinStore, type PinAttemptResult } from '../../stores/usePinStore';
+import { formatCountdown } from '../focus/focusSession';
+import { PIN_MAX_LENGTH, isLockedOut } from './pinLock';
+
+interface PinGateProps {
+  children: React.ReactNode;
+}
+
+export default function PinGate({ children }: PinGateProps) {
+  const theme = useTheme();
+  const navigation = useNavigation();
+  const record = usePinStore((state) => state.record);
+  const lockout = usePinStore((state) => state.lockout);
+  const unlockedUntil = usePinStore((state) => state.unlockedUntil);
+  const unlock = usePinStore((state) => state.unlock);
+  const recover = usePinStore((state) => state.recover);
+  const [value, setValue] = useState('');
+  const [isRecovering, setIsRecovering] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const isLocked = isLockedOut(lockout, now);
+
+  // Tick the lockout countdown
+  useEffect(() => {
+    if (!isLocked) {
+      return;
+    }
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isLocked]);
+
+  // `now` only ticks while locked out, so an open screen stays open when the
+  // unlocked session runs out - the next visit asks again
+  if (record === null || (unlockedUntil !== null && unlockedUntil > now)) {
+    return <>{children}</>;
+  }
+
+  const handleResult = (result: PinAttemptResult) => {
+    setValue('');
+    setNow(Date.now());
+    if (result.ok) {
+      setMessage(null);
+    } else if (result.lockedUntil !== null) {
+      setMessage('Too many wrong tries');
+    } else {
+      setMessage(
+        `Wrong ${isRecovering ? 'code' : 'PIN'}, ${result.attemptsLeft} tr${
+          result.attemptsLeft === 1 ? 'y' : 'ies'
+        } left`,
+      );
+    }
+  };
+
+  const handleSubmit = () => {
+    if (value.trim() === '' || isLocked) {
+      return;
+    }
+    handleResult(isRecovering ? recover(value) : unlock(value));
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+      <Text style={[styles.title, { color: theme.colors.text }]}>
+        {isRecovering ? 'Enter recovery code' : 'Enter PIN'}
+      </Text>
+      <Text style={[styles.subtitle, { color: theme.colors.textSecondary }]}>
+        {isRecovering
+          ? 'The code shown when the PIN was set. It removes the PIN.'
+          : 'Changing limits is protected with a PIN.'}
+      </Text>
+
+      <TextInput
+        style={[
+          styles.input,
+          {
+            backgroundColor: theme.colors.surface,
+            color: theme.colors.text,
+            borderColor: theme.colors.border,
+          },
+        ]}
+        value={value}
+        onChangeText={setValue}
+        placeholder={isRecovering ? 'XXXX-XXXX-XXXX' : 'PIN'}
+        placeholderTextColor={theme.colors.textSecondary}
+        keyboardType={isRecovering ? 'default' : 'number-pad'}
+        autoCapitalize="characters"
+        autoCorrect={false}
+        secureTextEntry={!isRecovering}
+        maxLength={isRecovering ? 14 : PIN_MAX_LENGTH}
+        editable={!isLocked}
+        onSubmitEditing={handleSubmit}
+      />
+
+      {isLocked && lockout.lockedUntil !== null ? (
+        <Text style={[styles.message, { color: theme.colors.error }]}>
+          Try again in {formatCountdown(lockout.lockedUntil - now)}
+        </Text>
+      ) : (
+        message && <Text style={[styles.message, { color: theme.colors.error }]}>{message}</Text>
+      )}
+
+      <TouchableOpacity
+        style={[
+          styles.button,
+          { backgroundColor: theme.colors.primary },
+          isLocked && styles.buttonDisabled,
+        ]}
+        onPress={handleSubmit}
+        disabled={isLocked}
+        activeOpacity={0.8}>
+        <Text style={styles.buttonText}>Unlock</Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        style={styles.textButton}
+        onPress={() => {
+          setIsRecovering(!isRecovering);
+          setValue('');
+          setMessage(null);
+        }}
+        activeOpacity={0.6}>
+        <Text style={[styles.textButtonLabel, { color: theme.colors.primary }]}>
+          {isRecovering ? 'Use PIN instead' : 'Forgot PIN?'}
+        </Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.textButton}
+        onPress={() => (navigation.canGoBack() ? navigation.goBack() : undefined)}
+        activeOpacity={0.6}>
+        <Text style={[styles.textButtonLabel, { color: theme.colors.textSecondary }]}>Back</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+    gap: 12,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+  },
+  subtitle: {
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  input: {
+    width: '100%',
+    maxWidth: 240,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    fontSize: 20,
+    textAlign: 'center',
+  },
+  message: {
+    fontSize: 14,
+  },
+  button: {
+    width: '100%',
+    maxWidth: 240,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  textButton: {
+    paddingVertical: 4,
+  },
+  textButtonLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
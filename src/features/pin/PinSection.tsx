@@ -0,0 +1,176 @@
+/**
+ * PIN Section
+ *
+ * Set, change or remove the PIN at the bottom of LimitsScreen. Only reachable
+ * behind PinGate, so whoever changes the PIN already knows it.
+ *
+ * UX Considerations:
+ * - PIN entered twice to avoid locking yourself out with a typo
+ * - Recovery code shown once in an alert - it is not stored in readable form
+ */
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Alert } from 'react-native';
+import { useTheme } from '../../utils/theme';
+import { usePinStore } from '../../stores/usePinStore';
+import { PIN_MAX_LENGTH, PIN_MIN_LENGTH, isValidPin } from './pinLock';
+
+export default function PinSection() {
+  const theme = useTheme();
+  const record = usePinStore((state) => state.record);
+  const setPin = usePinStore((state) => state.setPin);
+  const removePin = usePinStore((state) => state.removePin);
+  const [isEditing, setIsEditing] = useState(false);
+  const [pin, setPinValue] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const resetForm = () => {
+    setIsEditing(false);
+    setPinValue('');
+    setConfirmPin('');
+    setError(null);
+  };
+
+  const handleSave = () => {
+    if (!isValidPin(pin)) {
+      setError(`Use ${PIN_MIN_LENGTH}-${PIN_MAX_LENGTH} digits`);
+      return;
+    }
+    if (pin !== confirmPin) {
+      setError("PINs don't match");
+      return;
+    }
+    const recoveryCode = setPin(pin);
+    if (recoveryCode === null) {
+      setError('Enter the current PIN again first');
+      return;
+    }
+    resetForm();
+    Alert.alert(
+      'Write down your recovery code',
+      `${recoveryCode}\n\nIt removes the PIN if it's forgotten. It won't be shown again.`,
+      [{ text: 'Done' }],
+    );
+  };
+
+  const inputStyle = [
+    styles.input,
+    {
+      backgroundColor: theme.colors.background,
+      color: theme.colors.text,
+      borderColor: theme.colors.border,
+    },
+  ];
+
+  return (
+    <View
+      style={[
+        styles.section,
+        { backgroundColor: theme.colors.surface, borderColor: theme.colors.border },
+      ]}>
+      <Text style={[styles.title, { color: theme.colors.text }]}>PIN protection</Text>
+      <Text style={[styles.caption, { color: theme.colors.textSecondary }]}>
+        {record
+          ? 'Limits and app selection ask for the PIN.'
+          : 'Let a partner or parent set a PIN for changing limits.'}
+      </Text>
+
+      {isEditing ? (
+        <>
+          <View style={styles.row}>
+            <TextInput
+              style={inputStyle}
+              value={pin}
+              onChangeText={setPinValue}
+              placeholder="New PIN"
+              placeholderTextColor={theme.colors.textSecondary}
+              keyboardType="number-pad"
+              secureTextEntry
+              maxLength={PIN_MAX_LENGTH}
+            />
+            <TextInput
+              style={inputStyle}
+              value={confirmPin}
+              onChangeText={setConfirmPin}
+              placeholder="Repeat"
+              placeholderTextColor={theme.colors.textSecondary}
+              keyboardType="number-pad"
+              secureTextEntry
+              maxLength={PIN_MAX_LENGTH}
+              onSubmitEditing={handleSave}
+            />
+          </View>
+          {error && <Text style={[styles.caption, { color: theme.colors.error }]}>{error}</Text>}
+          <View style={styles.row}>
+            <TouchableOpacity style={styles.textButton} onPress={handleSave} activeOpacity={0.6}>
+              <Text style={[styles.textButtonLabel, { color: theme.colors.primary }]}>
+                Save PIN
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.textButton} onPress={resetForm} activeOpacity={0.6}>
+              <Text style={[styles.textButtonLabel, { color: theme.colors.textSecondary }]}>
+                Cancel
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </>
+      ) : (
+        <View style={styles.row}>
+          <TouchableOpacity
+            style={styles.textButton}
+            onPress={() => setIsEditing(true)}
+            activeOpacity={0.6}>
+            <Text style={[styles.textButtonLabel, { color: theme.colors.primary }]}>
+              {record ? 'Change PIN' : 'Set PIN'}
+            </Text>
+          </TouchableOpacity>
+          {record && (
+            <TouchableOpacity style={styles.textButton} onPress={removePin} activeOpacity={0.6}>
+              <Text style={[styles.textButtonLabel, { color: theme.colors.error }]}>
+                Remove PIN
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: {
+    padding: 16,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginTop: 4,
+    gap: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  caption: {
+    fontSize: 14,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    padding: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    fontSize: 16,
+  },
+  textButton: {
+    paddingVertical: 8,
+    paddingRight: 12,
+  },
+  textButtonLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
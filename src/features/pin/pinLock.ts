@@ -0,0 +1,169 @@
+/**
+ * PIN Lock
+ *
+ * Optional PIN, usually set by a partner or parent, that guards the screens
+ * where limits can be loosened. Only a salted, stretched hash is stored -
+ * PBKDF2-HMAC-SHA256, derived natively by SecureKeyModule.
+ *
+ * Why a recovery code instead of "forgot PIN" by email:
+ * - The app has no account or backend
+ * - The code is shown once when the PIN is set, so whoever set the PIN can
+ *   keep it; entering it removes the PIN
+ *
+ * Lockout:
+ * - Every MAX_ATTEMPTS wrong entries in a row lock input for a while
+ * - Each further lockout lasts longer, a correct entry resets the count
+ *
+ * Salts and recovery codes come from secureRandom; tests pass their own source.
+ *
+ * usePinStore holds the state, this does the math.
+ */
+
+import SecureKeyModule from '../../native/SecureKeyModule';
+import { secureRandom } from '../../utils/secureRandom';
+
+export const PIN_MIN_LENGTH = 4;
+export const PIN_MAX_LENGTH = 8;
+export const MAX_ATTEMPTS = 5;
+export const HASH_ITERATIONS = 100000;
+export const PIN_UNLOCK_MS = 5 * 60 * 1000; // how long a correct PIN keeps screens open
+
+const MINUTE_MS = 60 * 1000;
+const LOCKOUT_STEPS_MS = [MINUTE_MS, 5 * MINUTE_MS, 30 * MINUTE_MS, 2 * 60 * MINUTE_MS];
+
+// No 0/O or 1/I so the code survives being written down
+const RECOVERY_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const RECOVERY_LENGTH = 12;
+const SALT_LENGTH = 16;
+
+export interface PinRecord {
+  salt: string;
+  hash: string;
+  recoverySalt: string;
+  recoveryHash: string;
+  iterations: number;
+}
+
+export interface LockoutState {
+  failedAttempts: number; // consecutive, reset by a correct entry
+  lockedUntil: number | null; // epoch ms
+}
+
+export const INITIAL_LOCKOUT: LockoutState = { failedAttempts: 0, lockedUntil: null };
+
+export function isValidPin(pin: string): boolean {
+  return new RegExp(`^\\d{${PIN_MIN_LENGTH},${PIN_MAX_LENGTH}}$`).test(pin);
+}
+
+function randomString(alphabet: string, length: number, random: () => number): string {
+  let result = '';
+  for (let i = 0; i < length; i++) {
+    result += alphabet[Math.floor(random() * alphabet.length)];
+  }
+  return result;
+}
+
+export function generateSalt(random: () => number = secureRandom): string {
+  return randomString('0123456789abcdef', SALT_LENGTH * 2, random);
+}
+
+/**
+ * e.g. "K7QM-2XPA-H9DN"
+ */
+export function generateRecoveryCode(random: () => number = secureRandom): string {
+  const raw = randomString(RECOVERY_ALPHABET, RECOVERY_LENGTH, random);
+  return raw.match(/.{4}/g)?.join('-') ?? raw;
+}
+
+/**
+ * Uppercase without separators, so "k7qm 2xpa-h9dn" still matches
+ */
+export function normalizeRecoveryCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Salted PBKDF2 hash, stretched over `iterations` rounds to slow down
+ * guessing 4-digit PINs
+ */
+export function hashSecret(
+  secret: string,
+  salt: string,
+  iterations: number = HASH_ITERATIONS,
+): string {
+  if (!SecureKeyModule) {
+    throw new Error('SecureKeyModule is not available to hash the PIN');
+  }
+  return SecureKeyModule.hashSecret(secret, salt, iterations);
+}
+
+/**
+ * Compares every character so timing doesn't leak the matching prefix
+ */
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let mismatches = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatches += a.charCodeAt(i) === b.charCodeAt(i) ? 0 : 1;
+  }
+  return mismatches === 0;
+}
+
+/**
+ * New record plus the recovery code to show once - the code itself is not stored
+ */
+export function createPinRecord(
+  pin: string,
+  random: () => number = secureRandom,
+): { record: PinRecord; recoveryCode: string } {
+  const salt = generateSalt(random);
+  const recoverySalt = generateSalt(random);
+  const recoveryCode = generateRecoveryCode(random);
+  return {
+    record: {
+      salt,
+      hash: hashSecret(pin, salt),
+      recoverySalt,
+      recoveryHash: hashSecret(normalizeRecoveryCode(recoveryCode), recoverySalt),
+      iterations: HASH_ITERATIONS,
+    },
+    recoveryCode,
+  };
+}
+
+export function verifyPin(record: PinRecord, pin: string): boolean {
+  return safeEqual(hashSecret(pin, record.salt, record.iterations), record.hash);
+}
+
+export function verifyRecoveryCode(record: PinRecord, code: string): boolean {
+  const normalized = normalizeRecoveryCode(code);
+  return safeEqual(
+    hashSecret(normalized, record.recoverySalt, record.iterations),
+    record.recoveryHash,
+  );
+}
+
+export function isLockedOut(state: LockoutState, now: number): boolean {
+  return state.lockedUntil !== null && state.lockedUntil > now;
+}
+
+/**
+ * Wrong entries left before the next lockout
+ */
+export function getAttemptsLeft(state: LockoutState): number {
+  return MAX_ATTEMPTS - (state.failedAttempts % MAX_ATTEMPTS);
+}
+
+/**
+ * Count a wrong entry, locking input on every MAX_ATTEMPTS-th one
+ */
+export function registerFailure(state: LockoutState, now: number): LockoutState {
+  const failedAttempts = state.failedAttempts + 1;
+  if (failedAttempts % MAX_ATTEMPTS !== 0) {
+    return { failedAttempts, lockedUntil: state.lockedUntil };
+  }
+  const step = Math.min(failedAttempts / MAX_ATTEMPTS - 1, LOCKOUT_STEPS_MS.length - 1);
+  return { failedAttempts, lockedUntil: now + LOCKOUT_STEPS_MS[step] };
+}
@@ -0,0 +1,112 @@
+/**
+ * Block Timeline Card
+ *
+ * Today's blocks, newest first: when each app was opened while blocked and
+ * what happened next (see blockEvents.ts).
+ *
+ * Design Philosophy:
+ * - A plain list, capped so a rough day doesn't push everything else down
+ * - Only shown once something was blocked today
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTheme } from '../../utils/theme';
+import { formatClockTime } from '../limits/schedule';
+import type { BlockEvent } from '../../native/NativeBlockingServiceModule';
+import { formatBlockOutcome, getBlockOutcome, getBlockTimeline } from './blockEvents';
+
+const MAX_ROWS = 20;
+
+interface BlockTimelineCardProps {
+  events: BlockEvent[];
+  getAppName: (packageName: string) => string;
+}
+
+const formatEventTime = (timestampMs: number): string => {
+  const date = new Date(timestampMs);
+  return formatClockTime(date.getHours() * 60 + date.getMinutes());
+};
+
+export default function BlockTimelineCard({ events, getAppName }: BlockTimelineCardProps) {
+  const theme = useTheme();
+
+  if (events.length === 0) {
+    return null;
+  }
+
+  const timeline = getBlockTimeline(events, MAX_ROWS);
+  const hiddenCount = events.length - timeline.length;
+
+  return (
+    <View
+      style={[
+        styles.card,
+        { backgroundColor: theme.colors.surface, borderColor: theme.colors.border },
+      ]}>
+      <Text style={[styles.title, { color: theme.colors.text }]}>Blocked Today</Text>
+      {timeline.map((event) => (
+        <View key={`${event.packageName}-${event.timestampMs}`} style={styles.row}>
+          <Text style={[styles.time, { color: theme.colors.textSecondary }]}>
+            {formatEventTime(event.timestampMs)}
+          </Text>
+          <Text style={[styles.appName, { color: theme.colors.text }]} numberOfLines={1}>
+            {getAppName(event.packageName)}
+          </Text>
+          <Text
+            style={[
+              styles.outcome,
+              {
+                color:
+                  getBlockOutcome(event) === 'extended'
+                    ? theme.colors.warning
+                    : theme.colors.textSecondary,
+              },
+            ]}>
+            {formatBlockOutcome(event)}
+          </Text>
+        </View>
+      ))}
+      {hiddenCount > 0 && (
+        <Text style={[styles.more, { color: theme.colors.textSecondary }]}>
+          and {hiddenCount} earlier
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    gap: 12,
+  },
+  time: {
+    fontSize: 14,
+    width: 44,
+  },
+  appName: {
+    flex: 1,
+    fontSize: 14,
+  },
+  outcome: {
+    fontSize: 14,
+  },
+  more: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+});
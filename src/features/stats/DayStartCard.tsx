@@ -0,0 +1,107 @@
+/**
+ * Day Start Card
+ *
+ * When "today" begins - for night owls and night shifts whose day ends after
+ * midnight. Applies to usage, limits, extensions, warnings and these stats.
+ *
+ * UX Considerations:
+ * - A few early-morning hours to pick from, midnight by default
+ * - Locked while strict mode is on, as a later start would give extra time tonight
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useTheme } from '../../utils/theme';
+import { useUsageStore } from '../../stores/useUsageStore';
+import { useStrictStore } from '../../stores/useStrictStore';
+import { DAY_START_HOUR_OPTIONS } from '../../utils/dates';
+import { formatClockTime } from '../limits/schedule';
+import { isStrictActive } from '../strict/policy';
+
+export default function DayStartCard() {
+  const theme = useTheme();
+  const dayStartHour = useUsageStore((state) => state.dayStartHour);
+  const setDayStartHour = useUsageStore((state) => state.setDayStartHour);
+  const strictUntil = useStrictStore((state) => state.strictUntil);
+  const isLocked = isStrictActive(strictUntil, Date.now());
+
+  return (
+    <View
+      style={[styles.card, { backgroundColor: theme.colors.surface, borderColor: theme.colors.border }]}>
+      <Text style={[styles.title, { color: theme.colors.text }]}>Day starts at</Text>
+      <Text style={[styles.caption, { color: theme.colors.textSecondary }]}>
+        {isLocked
+          ? 'Locked while strict mode is on.'
+          : dayStartHour === 0
+          ? 'Usage and limits reset at midnight.'
+          : `Usage and limits reset at ${formatClockTime(dayStartHour * 60)} - anything before counts towards the previous day.`}
+      </Text>
+      <View style={styles.chips}>
+        {DAY_START_HOUR_OPTIONS.map((hour) => {
+          const isSelected = hour === dayStartHour;
+          return (
+            <TouchableOpacity
+              key={hour}
+              style={[
+                styles.chip,
+                { borderColor: theme.colors.border },
+                isSelected && {
+                  backgroundColor: theme.colors.primary,
+                  borderColor: theme.colors.primary,
+                },
+                isLocked && !isSelected && styles.chipDisabled,
+              ]}
+              onPress={() => setDayStartHour(hour)}
+              disabled={isLocked}
+              activeOpacity={0.7}>
+              <Text
+                style={[
+                  styles.chipText,
+                  isSelected ? styles.chipTextSelected : { color: theme.colors.text },
+                ]}>
+                {formatClockTime(hour * 60)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginTop: 12,
+    gap: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  caption: {
+    fontSize: 14,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipDisabled: {
+    opacity: 0.4,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+});
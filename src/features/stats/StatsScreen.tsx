@@ -2,8 +2,12 @@
  * Stats Screen
  * 
  * Shows simple usage statistics:
- * - Today's usage per tracked app
+ * - Today's usage and opens per tracked app
  * - Time saved vs yesterday (local calculation)
+ * - How often each app was blocked today, and a timeline of those blocks
+ * - 7-day / 30-day trends per app and in aggregate
+ * - CSV / JSON export of the usage history (see UsageExportCard)
+ * - The hour a day starts, for days that end after midnight (see DayStartCard)
  * 
  * Design Philosophy:
  * - Simple list, no complex charts
@@ -11,7 +15,7 @@
  * - Minimal data, maximum clarity
  */
 
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -22,18 +26,67 @@ import {
 } from 'react-native';
 import { useTheme } from '../../utils/theme';
 import { useAppStore } from '../../stores/useAppStore';
+import { useAppListsStore } from '../../stores/useAppListsStore';
 import { useLimitsStore } from '../../stores/useLimitsStore';
 import { useUsageStore } from '../../stores/useUsageStore';
+import { getDayKey, getDayRange } from '../../utils/dates';
+import BlockingServiceModule from '../../native/BlockingServiceModule';
+import type { BlockEvent } from '../../native/NativeBlockingServiceModule';
+import { computeTrend, type TrendRange } from './trends';
+import { countBlocksByApp, formatBlockCount } from './blockEvents';
+import { formatOpens, hasOpenLimit } from '../limits/opens';
+import TrendCard from './TrendCard';
+import BlockTimelineCard from './BlockTimelineCard';
+import UsageExportCard from './UsageExportCard';
+import DayStartCard from './DayStartCard';
+
+type StatsRange = 'today' | TrendRange;
+
+const RANGE_OPTIONS: Array<{ value: StatsRange; label: string }> = [
+  { value: 'today', label: 'Today' },
+  { value: 7, label: '7 Days' },
+  { value: 30, label: '30 Days' },
+];
 
 export default function StatsScreen() {
   const theme = useTheme();
   const selectedApps = useAppStore((state) => state.selectedApps);
+  const blockedApps = useAppListsStore((state) => state.blockedApps);
+  const limits = useLimitsStore((state) => state.limits);
+  const schedules = useLimitsStore((state) => state.schedules);
   const getLimit = useLimitsStore((state) => state.getLimit);
-  const { todayUsage, yesterdayUsage, isLoading, refreshUsage, getTimeSaved } =
-    useUsageStore();
+  const openLimits = useLimitsStore((state) => state.openLimits);
+  const {
+    todayUsage,
+    yesterdayUsage,
+    history,
+    isLoading,
+    refreshUsage,
+    getTimeSaved,
+    getTodayOpens,
+  } = useUsageStore();
+  const [range, setRange] = useState<StatsRange>('today');
+  const [blockEvents, setBlockEvents] = useState<BlockEvent[]>([]);
 
-  useEffect(() => {
+  const loadBlockEvents = async () => {
+    try {
+      if (!BlockingServiceModule) {
+        return;
+      }
+      const { startMs } = getDayRange(getDayKey(Date.now()));
+      setBlockEvents(await BlockingServiceModule.getBlockEvents(startMs));
+    } catch (error) {
+      console.error('StatsScreen: Error loading block events:', error);
+    }
+  };
+
+  const refresh = () => {
     refreshUsage();
+    loadBlockEvents();
+  };
+
+  useEffect(() => {
+    refresh();
   }, []);
 
   const formatTime = (ms: number): string => {
@@ -66,143 +119,245 @@ export default function StatsScreen() {
     );
   }
 
+  const todayKey = getDayKey(Date.now());
+
   const totalTimeSaved = selectedApps.reduce((total, app) => {
     return total + getTimeSaved(app.packageName);
   }, 0);
 
+  const blockCounts = countBlocksByApp(blockEvents);
+  // Always-blocked apps are logged too, tracked or not
+  const getAppName = (packageName: string): string =>
+    [...selectedApps, ...blockedApps].find((app) => app.packageName === packageName)?.appName ??
+    packageName;
+
   return (
     <ScrollView
       style={[styles.container, { backgroundColor: theme.colors.background }]}
       refreshControl={
         <RefreshControl
           refreshing={isLoading}
-          onRefresh={refreshUsage}
+          onRefresh={refresh}
           tintColor={theme.colors.primary}
         />
       }>
       <View style={styles.content}>
-        {totalTimeSaved > 0 && (
-          <View
-            style={[
-              styles.summaryCard,
-              { backgroundColor: theme.colors.surface, borderColor: theme.colors.border },
-            ]}>
-            <Text style={[styles.summaryLabel, { color: theme.colors.textSecondary }]}>
-              Time Saved Today
-            </Text>
-            <Text style={[styles.summaryValue, { color: theme.colors.success }]}>
-              {formatTime(totalTimeSaved)}
-            </Text>
-            <Text style={[styles.summarySubtext, { color: theme.colors.textSecondary }]}>
-              vs yesterday
-            </Text>
-          </View>
-        )}
-
-        <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
-          App Usage Today
-        </Text>
-
-        {selectedApps.map((app) => {
-          const usage = todayUsage[app.packageName] || 0;
-          const limit = getLimit(app.packageName) || 0;
-          const timeSaved = getTimeSaved(app.packageName);
-          const yesterday = yesterdayUsage[app.packageName] || 0;
-
-          return (
-            <View
-              key={app.packageName}
-              style={[
-                styles.appCard,
-                { backgroundColor: theme.colors.surface, borderColor: theme.colors.border },
-              ]}>
-              <View style={styles.appHeader}>
-                <Text style={[styles.appName, { color: theme.colors.text }]}>
-                  {app.appName}
+        <View style={[styles.rangeSelector, { borderColor: theme.colors.border }]}>
+          {RANGE_OPTIONS.map((option) => {
+            const isActive = option.value === range;
+            return (
+              <TouchableOpacity
+                key={option.label}
+                style={[
+                  styles.rangeOption,
+                  isActive && { backgroundColor: theme.colors.primary },
+                ]}
+                onPress={() => setRange(option.value)}
+                activeOpacity={0.8}>
+                <Text
+                  style={
+                    isActive
+                      ? [styles.rangeOptionText, styles.rangeOptionTextActive]
+                      : [styles.rangeOptionText, { color: theme.colors.text }]
+                  }>
+                  {option.label}
                 </Text>
-                {limit > 0 && (
-                  <Text
-                    style={[
-                      styles.percentage,
-                      {
-                        color:
-                          usage >= limit
-                            ? theme.colors.error
-                            : usage >= limit * 0.8
-                            ? theme.colors.warning
-                            : theme.colors.textSecondary,
-                      },
-                    ]}>
-                    {formatPercentage(usage, limit)}
-                  </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {range !== 'today' ? (
+          <>
+            <TrendCard
+              title="All Tracked Apps"
+              trend={computeTrend(
+                history,
+                selectedApps.map((app) => app.packageName),
+                limits,
+                schedules,
+                range,
+                todayKey,
+              )}
+              formatTime={formatTime}
+            />
+            {selectedApps.map((app) => (
+              <TrendCard
+                key={app.packageName}
+                title={app.appName}
+                trend={computeTrend(
+                  history,
+                  [app.packageName],
+                  limits,
+                  schedules,
+                  range,
+                  todayKey,
                 )}
+                limitMs={getLimit(app.packageName)}
+                formatTime={formatTime}
+              />
+            ))}
+          </>
+        ) : (
+          <>
+            {totalTimeSaved > 0 && (
+              <View
+                style={[
+                  styles.summaryCard,
+                  { backgroundColor: theme.colors.surface, borderColor: theme.colors.border },
+                ]}>
+                <Text style={[styles.summaryLabel, { color: theme.colors.textSecondary }]}>
+                  Time Saved Today
+                </Text>
+                <Text style={[styles.summaryValue, { color: theme.colors.success }]}>
+                  {formatTime(totalTimeSaved)}
+                </Text>
+                <Text style={[styles.summarySubtext, { color: theme.colors.textSecondary }]}>
+                  vs yesterday
+                </Text>
               </View>
+            )}
 
-              <View style={styles.statsRow}>
-                <View style={styles.stat}>
-                  <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
-                    Today
-                  </Text>
-                  <Text style={[styles.statValue, { color: theme.colors.text }]}>
-                    {formatTime(usage)}
-                  </Text>
-                </View>
+            <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>
+              App Usage Today
+            </Text>
 
-                {yesterday > 0 && (
-                  <View style={styles.stat}>
-                    <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
-                      Yesterday
-                    </Text>
-                    <Text style={[styles.statValue, { color: theme.colors.textSecondary }]}>
-                      {formatTime(yesterday)}
+            {selectedApps.map((app) => {
+              const usage = todayUsage[app.packageName] || 0;
+              const limit = getLimit(app.packageName) || 0;
+              const timeSaved = getTimeSaved(app.packageName);
+              const yesterday = yesterdayUsage[app.packageName] || 0;
+              const blockCount = blockCounts[app.packageName] ?? 0;
+              const opens = getTodayOpens(app.packageName);
+              const maxOpens = openLimits[app.packageName];
+
+              return (
+                <View
+                  key={app.packageName}
+                  style={[
+                    styles.appCard,
+                    { backgroundColor: theme.colors.surface, borderColor: theme.colors.border },
+                  ]}>
+                  <View style={styles.appHeader}>
+                    <Text style={[styles.appName, { color: theme.colors.text }]}>
+                      {app.appName}
                     </Text>
+                    {limit > 0 && (
+                      <Text
+                        style={[
+                          styles.percentage,
+                          {
+                            color:
+                              usage >= limit
+                                ? theme.colors.error
+                                : usage >= limit * 0.8
+                                ? theme.colors.warning
+                                : theme.colors.textSecondary,
+                          },
+                        ]}>
+                        {formatPercentage(usage, limit)}
+                      </Text>
+                    )}
                   </View>
-                )}
 
-                {timeSaved > 0 && (
-                  <View style={styles.stat}>
-                    <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
-                      Saved
-                    </Text>
-                    <Text style={[styles.statValue, { color: theme.colors.success }]}>
-                      {formatTime(timeSaved)}
-                    </Text>
+                  <View style={styles.statsRow}>
+                    <View style={styles.stat}>
+                      <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
+                        Today
+                      </Text>
+                      <Text style={[styles.statValue, { color: theme.colors.text }]}>
+                        {formatTime(usage)}
+                      </Text>
+                    </View>
+
+                    {(opens > 0 || hasOpenLimit(maxOpens)) && (
+                      <View style={styles.stat}>
+                        <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
+                          Opened
+                        </Text>
+                        <Text
+                          style={[
+                            styles.statValue,
+                            {
+                              color:
+                                hasOpenLimit(maxOpens) && opens >= maxOpens
+                                  ? theme.colors.error
+                                  : theme.colors.text,
+                            },
+                          ]}>
+                          {formatOpens(opens, maxOpens)}
+                        </Text>
+                      </View>
+                    )}
+
+                    {yesterday > 0 && (
+                      <View style={styles.stat}>
+                        <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
+                          Yesterday
+                        </Text>
+                        <Text style={[styles.statValue, { color: theme.colors.textSecondary }]}>
+                          {formatTime(yesterday)}
+                        </Text>
+                      </View>
+                    )}
+
+                    {timeSaved > 0 && (
+                      <View style={styles.stat}>
+                        <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
+                          Saved
+                        </Text>
+                        <Text style={[styles.statValue, { color: theme.colors.success }]}>
+                          {formatTime(timeSaved)}
+                        </Text>
+                      </View>
+                    )}
+
+                    {limit > 0 && (
+                      <View style={styles.stat}>
+                        <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
+                          Limit
+                        </Text>
+                        <Text style={[styles.statValue, { color: theme.colors.text }]}>
+                          {formatTime(limit)}
+                        </Text>
+                      </View>
+                    )}
                   </View>
-                )}
 
-                {limit > 0 && (
-                  <View style={styles.stat}>
-                    <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
-                      Limit
+                  {blockCount > 0 && (
+                    <Text style={[styles.blockCount, { color: theme.colors.textSecondary }]}>
+                      {formatBlockCount(blockCount)}
                     </Text>
-                    <Text style={[styles.statValue, { color: theme.colors.text }]}>
-                      {formatTime(limit)}
-                    </Text>
-                  </View>
-                )}
-              </View>
+                  )}
 
-              {limit > 0 && (
-                <View style={styles.progressBarContainer}>
-                  <View
-                    style={[
-                      styles.progressBar,
-                      {
-                        width: `${Math.min(100, (usage / limit) * 100)}%`,
-                        backgroundColor:
-                          usage >= limit
-                            ? theme.colors.error
-                            : usage >= limit * 0.8
-                            ? theme.colors.warning
-                            : theme.colors.primary,
-                      },
-                    ]}
-                  />
+                  {limit > 0 && (
+                    <View style={styles.progressBarContainer}>
+                      <View
+                        style={[
+                          styles.progressBar,
+                          {
+                            width: `${Math.min(100, (usage / limit) * 100)}%`,
+                            backgroundColor:
+                              usage >= limit
+                                ? theme.colors.error
+                                : usage >= limit * 0.8
+                                ? theme.colors.warning
+                                : theme.colors.primary,
+                          },
+                        ]}
+                      />
+                    </View>
+                  )}
                 </View>
-              )}
-            </View>
-          );
-        })}
+              );
+            })}
+
+            <BlockTimelineCard events={blockEvents} getAppName={getAppName} />
+          </>
+        )}
+
+        <DayStartCard />
+        <UsageExportCard />
       </View>
     </ScrollView>
   );
@@ -215,6 +370,25 @@ const styles = StyleSheet.create({
   content: {
     padding: 16,
   },
+  rangeSelector: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderRadius: 8,
+    overflow: 'hidden',
+    marginBottom: 16,
+  },
+  rangeOption: {
+    flex: 1,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  rangeOptionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  rangeOptionTextActive: {
+    color: '#FFFFFF',
+  },
   summaryCard: {
     padding: 20,
     borderRadius: 12,
@@ -277,6 +451,10 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  blockCount: {
+    fontSize: 14,
+    marginBottom: 12,
+  },
   progressBarContainer: {
     height: 4,
     backgroundColor: '#E0E0E0',
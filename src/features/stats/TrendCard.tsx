@@ -0,0 +1,182 @@
+/**
+ * Trend Card
+ *
+ * One 7-day / 30-day trend: daily bars plus average, best/worst day and streak.
+ *
+ * Design Philosophy:
+ * - Plain Views for bars (no charting library)
+ * - Bar color follows the same under/near/over limit colors as the Today list
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { useTheme } from '../../utils/theme';
+import { parseDayKey } from '../../utils/dates';
+import type { Trend, TrendDay } from './trends';
+
+interface TrendCardProps {
+  title: string;
+  trend: Trend;
+  limitMs?: number; // Only for single-app trends
+  formatTime: (ms: number) => string;
+}
+
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const formatDay = (day: TrendDay): string => {
+  const date = parseDayKey(day.dayKey);
+  return `${date.getMonth() + 1}/${date.getDate()}`;
+};
+
+export default function TrendCard({ title, trend, limitMs, formatTime }: TrendCardProps) {
+  const theme = useTheme();
+  const isWeek = trend.days.length <= 7;
+
+  const barColor = (day: TrendDay): string => {
+    if (day.underLimit === false) {
+      return theme.colors.error;
+    }
+    if (limitMs && day.usageMs >= limitMs * 0.8) {
+      return theme.colors.warning;
+    }
+    return theme.colors.primary;
+  };
+
+  return (
+    <View
+      style={[
+        styles.card,
+        { backgroundColor: theme.colors.surface, borderColor: theme.colors.border },
+      ]}>
+      <Text style={[styles.title, { color: theme.colors.text }]}>{title}</Text>
+
+      <View style={styles.chart}>
+        {trend.days.map((day) => {
+          const heightPercent =
+            trend.maxUsageMs > 0 ? (day.usageMs / trend.maxUsageMs) * 100 : 0;
+          return (
+            <View key={day.dayKey} style={styles.barColumn}>
+              <View style={styles.barTrack}>
+                <View
+                  style={[
+                    styles.bar,
+                    {
+                      height: `${Math.max(day.hasData ? 2 : 0, heightPercent)}%`,
+                      backgroundColor: barColor(day),
+                    },
+                  ]}
+                />
+              </View>
+              {isWeek && (
+                <Text style={[styles.barLabel, { color: theme.colors.textSecondary }]}>
+                  {WEEKDAYS[parseDayKey(day.dayKey).getDay()]}
+                </Text>
+              )}
+            </View>
+          );
+        })}
+      </View>
+
+      <View style={styles.statsRow}>
+        <View style={styles.stat}>
+          <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
+            Average
+          </Text>
+          <Text style={[styles.statValue, { color: theme.colors.text }]}>
+            {formatTime(trend.averageMs)}
+          </Text>
+        </View>
+
+        {trend.bestDay && (
+          <View style={styles.stat}>
+            <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
+              Best ({formatDay(trend.bestDay)})
+            </Text>
+            <Text style={[styles.statValue, { color: theme.colors.success }]}>
+              {formatTime(trend.bestDay.usageMs)}
+            </Text>
+          </View>
+        )}
+
+        {trend.worstDay && (
+          <View style={styles.stat}>
+            <Text style={[styles.statLabel, { color: theme.colors.textSecondary }]}>
+              Worst ({formatDay(trend.worstDay)})
+            </Text>
+            <Text style={[styles.statValue, { color: theme.colors.error }]}>
+              {formatTime(trend.worstDay.usageMs)}
+            </Text>
+          </View>
+        )}
+      </View>
+
+      {trend.days.some((day) => day.underLimit !== null) && (
+        <Text style={[styles.streak, { color: theme.colors.textSecondary }]}>
+          {trend.streakDays > 0
+            ? `🔥 ${trend.streakDays} day${trend.streakDays !== 1 ? 's' : ''} under limit`
+            : 'No current streak under limit'}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: 80,
+    gap: 2,
+    marginBottom: 12,
+  },
+  barColumn: {
+    flex: 1,
+    height: '100%',
+    alignItems: 'center',
+  },
+  barTrack: {
+    flex: 1,
+    width: '100%',
+    justifyContent: 'flex-end',
+  },
+  bar: {
+    width: '100%',
+    borderRadius: 2,
+  },
+  barLabel: {
+    fontSize: 10,
+    marginTop: 4,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  stat: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  statLabel: {
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  statValue: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  streak: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+});
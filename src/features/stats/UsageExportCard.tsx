@@ -0,0 +1,205 @@
+/**
+ * Usage Export Card
+ *
+ * Bottom of StatsScreen: pick a format and date range, then hand the export
+ * to the Android share sheet (save to Drive/Files, mail it, open in Sheets).
+ *
+ * UX Considerations:
+ * - Range presets fill the from/to fields, which can then be adjusted
+ * - Says how many rows the export has before sharing
+ */
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Share } from 'react-native';
+import { useTheme } from '../../utils/theme';
+import { useAppStore } from '../../stores/useAppStore';
+import { useLimitsStore } from '../../stores/useLimitsStore';
+import { useUsageStore } from '../../stores/useUsageStore';
+import { getDayKey } from '../../utils/dates';
+import {
+  EXPORT_RANGE_OPTIONS,
+  buildUsageRows,
+  getExportRange,
+  isValidDayKey,
+  serializeUsage,
+  type ExportFormat,
+} from './usageExport';
+
+const FORMATS: ExportFormat[] = ['csv', 'json'];
+
+export default function UsageExportCard() {
+  const theme = useTheme();
+  const selectedApps = useAppStore((state) => state.selectedApps);
+  const limits = useLimitsStore((state) => state.limits);
+  const schedules = useLimitsStore((state) => state.schedules);
+  const history = useUsageStore((state) => state.history);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [range, setRange] = useState(() => getExportRange(30, getDayKey(Date.now())));
+  const [error, setError] = useState<string | null>(null);
+
+  const isRangeValid =
+    isValidDayKey(range.fromKey) && isValidDayKey(range.toKey) && range.fromKey <= range.toKey;
+  const rows = isRangeValid
+    ? buildUsageRows(history, selectedApps, limits, schedules, range.fromKey, range.toKey)
+    : [];
+
+  const handleShare = async () => {
+    if (!isRangeValid) {
+      setError('Use dates like 2026-03-01, with "from" before "to"');
+      return;
+    }
+    setError(null);
+    try {
+      await Share.share({
+        title: `Boundly usage ${range.fromKey} to ${range.toKey}.${format}`,
+        message: serializeUsage(rows, format, range.fromKey, range.toKey),
+      });
+    } catch (shareError) {
+      console.error('UsageExportCard: Error sharing export:', shareError);
+    }
+  };
+
+  const chipStyle = (isSelected: boolean) => [
+    styles.chip,
+    { borderColor: theme.colors.border },
+    isSelected && { backgroundColor: theme.colors.primary, borderColor: theme.colors.primary },
+  ];
+  const chipTextStyle = (isSelected: boolean) => [
+    styles.chipText,
+    isSelected ? styles.chipTextSelected : { color: theme.colors.text },
+  ];
+  const inputStyle = [
+    styles.input,
+    {
+      backgroundColor: theme.colors.background,
+      color: theme.colors.text,
+      borderColor: theme.colors.border,
+    },
+  ];
+
+  return (
+    <View
+      style={[
+        styles.card,
+        { backgroundColor: theme.colors.surface, borderColor: theme.colors.border },
+      ]}>
+      <Text style={[styles.title, { color: theme.colors.text }]}>Export usage</Text>
+
+      <View style={styles.chips}>
+        {FORMATS.map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={chipStyle(option === format)}
+            onPress={() => setFormat(option)}
+            activeOpacity={0.7}>
+            <Text style={chipTextStyle(option === format)}>{option.toUpperCase()}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.chips}>
+        {EXPORT_RANGE_OPTIONS.map((option) => {
+          const preset = getExportRange(option.days, getDayKey(Date.now()));
+          const isSelected = preset.fromKey === range.fromKey && preset.toKey === range.toKey;
+          return (
+            <TouchableOpacity
+              key={option.days}
+              style={chipStyle(isSelected)}
+              onPress={() => setRange(preset)}
+              activeOpacity={0.7}>
+              <Text style={chipTextStyle(isSelected)}>{option.label}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.rangeRow}>
+        <TextInput
+          style={inputStyle}
+          value={range.fromKey}
+          onChangeText={(fromKey) => setRange({ ...range, fromKey })}
+          placeholder="From"
+          placeholderTextColor={theme.colors.textSecondary}
+          maxLength={10}
+        />
+        <Text style={[styles.caption, { color: theme.colors.textSecondary }]}>to</Text>
+        <TextInput
+          style={inputStyle}
+          value={range.toKey}
+          onChangeText={(toKey) => setRange({ ...range, toKey })}
+          placeholder="To"
+          placeholderTextColor={theme.colors.textSecondary}
+          maxLength={10}
+        />
+      </View>
+
+      <Text style={[styles.caption, { color: error ? theme.colors.error : theme.colors.textSecondary }]}>
+        {error ?? `${rows.length} row${rows.length !== 1 ? 's' : ''} (one per app and day)`}
+      </Text>
+
+      <TouchableOpacity
+        style={[styles.button, { backgroundColor: theme.colors.primary }]}
+        onPress={handleShare}
+        activeOpacity={0.8}>
+        <Text style={styles.buttonText}>Share {format.toUpperCase()}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginTop: 12,
+    gap: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  caption: {
+    fontSize: 14,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    padding: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    fontSize: 16,
+  },
+  button: {
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  buttonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,52 @@
+/**
+ * Block Events
+ *
+ * Pure helpers over the block event log kept by the native service - how
+ * often each app was opened and blocked, and what happened next.
+ *
+ * Notes:
+ * - One event per open: the service folds its repeated checks together
+ * - Counts include every outcome; a dismissed block is still an attempt
+ *
+ * Written in Kotlin by BlockEvents.kt - keep the two in sync.
+ */
+
+import type { BlockEvent } from '../../native/NativeBlockingServiceModule';
+
+export type BlockOutcome = 'blocked' | 'dismissed' | 'extended';
+
+const OUTCOME_LABELS: Record<BlockOutcome, string> = {
+  blocked: 'Blocked',
+  dismissed: 'Closed',
+  extended: 'Extended',
+};
+
+export function getBlockOutcome(event: BlockEvent): BlockOutcome {
+  return event.outcome === 'dismissed' || event.outcome === 'extended' ? event.outcome : 'blocked';
+}
+
+export function formatBlockOutcome(event: BlockEvent): string {
+  return OUTCOME_LABELS[getBlockOutcome(event)];
+}
+
+export function countBlocksByApp(events: BlockEvent[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const event of events) {
+    counts[event.packageName] = (counts[event.packageName] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Newest first, at most `limit` events
+ */
+export function getBlockTimeline(events: BlockEvent[], limit: number): BlockEvent[] {
+  return [...events].sort((a, b) => b.timestampMs - a.timestampMs).slice(0, limit);
+}
+
+export function formatBlockCount(count: number): string {
+  if (count === 1) {
+    return 'Blocked once today';
+  }
+  return `Blocked ${count} times today`;
+}
@@ -0,0 +1,96 @@
+/**
+ * Usage Trends
+ *
+ * Pure calculations behind the 7-day / 30-day views in StatsScreen.
+ * Works on the day-keyed ledger from useUsageStore, so no native calls here.
+ *
+ * Notes:
+ * - Days without a ledger entry (before install, history pruned) have no data
+ *   and are excluded from average/best/worst instead of counting as 0
+ * - Limits are today's limits with each day's weekday/weekend override; we
+ *   don't keep a history of limit changes (same as usageExport.ts)
+ */
+
+import { addDays, parseDayKey, type DayKey } from '../../utils/dates';
+import type { UsageHistory } from '../../utils/usageHistory';
+import { getEffectiveLimit, type LimitSchedule } from '../limits/schedule';
+
+export type TrendRange = 7 | 30;
+
+export interface TrendDay {
+  dayKey: DayKey;
+  usageMs: number;
+  hasData: boolean;
+  underLimit: boolean | null; // null when none of the apps has a limit
+}
+
+export interface Trend {
+  days: TrendDay[]; // oldest first, ends today
+  averageMs: number;
+  bestDay: TrendDay | null; // lowest usage
+  worstDay: TrendDay | null; // highest usage
+  streakDays: number; // consecutive days under limit, ending today
+  maxUsageMs: number; // for scaling bars
+}
+
+/**
+ * Build a trend for one app or an aggregate of several apps
+ *
+ * A day counts as "under limit" only if every app with a limit stayed below it
+ * (blocking kicks in at usage >= limit).
+ */
+export function computeTrend(
+  history: UsageHistory,
+  packageNames: string[],
+  limits: Record<string, number>,
+  schedules: Record<string, LimitSchedule>,
+  range: TrendRange,
+  todayKey: DayKey,
+): Trend {
+  const days: TrendDay[] = [];
+  for (let offset = range - 1; offset >= 0; offset--) {
+    const dayKey = addDays(todayKey, -offset);
+    const dayUsage = history[dayKey];
+    const usageMs = packageNames.reduce(
+      (total, name) => total + (dayUsage?.[name] ?? 0),
+      0,
+    );
+    const date = parseDayKey(dayKey);
+    const dayLimits = packageNames
+      .map((name) => ({ name, limitMs: getEffectiveLimit(limits[name], schedules[name], date) }))
+      .filter((entry): entry is { name: string; limitMs: number } => entry.limitMs !== undefined);
+    const underLimit =
+      dayUsage && dayLimits.length > 0
+        ? dayLimits.every(({ name, limitMs }) => (dayUsage[name] ?? 0) < limitMs)
+        : null;
+    days.push({ dayKey, usageMs, hasData: dayUsage !== undefined, underLimit });
+  }
+
+  const daysWithData = days.filter((day) => day.hasData);
+  const totalMs = daysWithData.reduce((total, day) => total + day.usageMs, 0);
+
+  let bestDay: TrendDay | null = null;
+  let worstDay: TrendDay | null = null;
+  daysWithData.forEach((day) => {
+    if (!bestDay || day.usageMs < bestDay.usageMs) {
+      bestDay = day;
+    }
+    if (!worstDay || day.usageMs > worstDay.usageMs) {
+      worstDay = day;
+    }
+  });
+
+  let streakDays = 0;
+  for (let i = days.length - 1; i >= 0 && days[i].underLimit === true; i--) {
+    streakDays++;
+  }
+
+  return {
+    days,
+    averageMs: daysWithData.length > 0 ? Math.round(totalMs / daysWithData.length) : 0,
+    bestDay,
+    worstDay,
+    streakDays,
+    maxUsageMs: Math.max(0, ...days.map((day) => day.usageMs)),
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * Usage Export
+ *
+ * Pure serialisation of the usage ledger for spreadsheets: one row per day
+ * and tracked app with usage, that day's limit and whether it was hit.
+ *
+ * Notes:
+ * - The limit is today's limit with that day's weekday/weekend override;
+ *   we don't keep a history of limit changes (same as trends.ts, so the
+ *   exported limit_hit matches the trend bars)
+ * - Days without a ledger entry are skipped rather than exported as 0
+ * - Durations are exported in minutes, which spreadsheets handle better than ms
+ */
+
+import { addDays, parseDayKey, type DayKey } from '../../utils/dates';
+import { HISTORY_DAYS, type UsageHistory } from '../../utils/usageHistory';
+import { getEffectiveLimit, type LimitSchedule } from '../limits/schedule';
+import type { SelectedApp } from '../../stores/useAppStore';
+
+export type ExportFormat = 'csv' | 'json';
+
+export interface UsageExportRow {
+  date: DayKey;
+  packageName: string;
+  appName: string;
+  usageMinutes: number;
+  limitMinutes: number | null; // null when the app had no limit that day
+  limitHit: boolean | null;
+}
+
+export const EXPORT_RANGE_OPTIONS: Array<{ days: number; label: string }> = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: HISTORY_DAYS, label: `${HISTORY_DAYS} days` },
+];
+
+const CSV_HEADER = ['date', 'package', 'app', 'usage_minutes', 'limit_minutes', 'limit_hit'];
+
+const toMinutes = (ms: number): number => Math.round((ms / 60000) * 10) / 10;
+
+export function isValidDayKey(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  // Rejects rollovers like 2026-02-31
+  const date = parseDayKey(value);
+  const [year, month, day] = value.split('-').map((part) => parseInt(part, 10));
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+}
+
+/**
+ * Inclusive range of the last `days` days ending today
+ */
+export function getExportRange(days: number, todayKey: DayKey): { fromKey: DayKey; toKey: DayKey } {
+  return { fromKey: addDays(todayKey, -(days - 1)), toKey: todayKey };
+}
+
+/**
+ * Rows for every day in [fromKey, toKey] with data, oldest first
+ */
+export function buildUsageRows(
+  history: UsageHistory,
+  apps: SelectedApp[],
+  limits: Record<string, number>,
+  schedules: Record<string, LimitSchedule>,
+  fromKey: DayKey,
+  toKey: DayKey,
+): UsageExportRow[] {
+  const rows: UsageExportRow[] = [];
+  for (let dayKey = fromKey; dayKey <= toKey; dayKey = addDays(dayKey, 1)) {
+    const dayUsage = history[dayKey];
+    if (!dayUsage) {
+      continue;
+    }
+    const date = parseDayKey(dayKey);
+    apps.forEach((app) => {
+      const usageMs = dayUsage[app.packageName] ?? 0;
+      const limitMs = getEffectiveLimit(limits[app.packageName], schedules[app.packageName], date);
+      rows.push({
+        date: dayKey,
+        packageName: app.packageName,
+        appName: app.appName,
+        usageMinutes: toMinutes(usageMs),
+        limitMinutes: limitMs !== undefined ? toMinutes(limitMs) : null,
+        limitHit: limitMs !== undefined ? usageMs >= limitMs : null,
+      });
+    });
+  }
+  return rows;
+}
+
+/**
+ * Quote a CSV field when it contains a separator, quote or newline (RFC 4180)
+ *
+ * Fields a spreadsheet would read as a formula (app names are chosen by
+ * their developers) get a leading ' so they stay plain text.
+ */
+export function escapeCsvField(value: string): string {
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: UsageExportRow[]): string {
+  const lines = rows.map((row) =>
+    [
+      row.date,
+      row.packageName,
+      row.appName,
+      String(row.usageMinutes),
+      row.limitMinutes === null ? '' : String(row.limitMinutes),
+      row.limitHit === null ? '' : String(row.limitHit),
+    ]
+      .map(escapeCsvField)
+      .join(','),
+  );
+  return [CSV_HEADER.join(','), ...lines].join('\n');
+}
+
+export function toJson(rows: UsageExportRow[], fromKey: DayKey, toKey: DayKey): string {
+  return JSON.stringify({ app: 'boundly', from: fromKey, to: toKey, rows }, null, 2);
+}
+
+export function serializeUsage(
+  rows: UsageExportRow[],
+  format: ExportFormat,
+  fromKey: DayKey,
+  toKey: DayKey,
+): string {
+  return format === 'csv' ? toCsv(rows) : toJson(rows, fromKey, toKey);
+}
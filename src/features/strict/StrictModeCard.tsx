@@ -0,0 +1,166 @@
+/**
+ * Strict Mode Card
+ *
+ * Locks settings on HomeScreen until a chosen time. While active, limits can
+ * only get stricter - nothing can be raised, removed, deselected or stopped.
+ *
+ * UX Considerations:
+ * - Presets for the common cases, a typed end time for anything else
+ * - Always asks for confirmation, there is no way back until it ends
+ * - While active, can still be extended with the same controls
+ */
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Alert } from 'react-native';
+import { useTheme } from '../../utils/theme';
+import { useStrictStore } from '../../stores/useStrictStore';
+import { isStrictActive } from './policy';
+import { STRICT_PRESETS, formatStrictEnd, parseStrictEnd } from './strictMode';
+
+export default function StrictModeCard() {
+  const theme = useTheme();
+  const strictUntil = useStrictStore((state) => state.strictUntil);
+  const enableStrictMode = useStrictStore((state) => state.enableStrictMode);
+  const [customEnd, setCustomEnd] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const isActive = isStrictActive(strictUntil, Date.now());
+
+  const confirmEnd = (endsAt: number) => {
+    if (isActive && strictUntil !== null && endsAt <= strictUntil) {
+      setError('Strict mode can only be extended');
+      return;
+    }
+    setError(null);
+    Alert.alert(
+      'Turn on strict mode?',
+      `Until ${formatStrictEnd(endsAt)} you will not be able to raise or remove limits, deselect apps or stop blocking.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Lock settings',
+          style: 'destructive',
+          onPress: () => {
+            if (enableStrictMode(endsAt)) {
+              setCustomEnd('');
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleCustom = () => {
+    const endsAt = parseStrictEnd(customEnd, Date.now());
+    if (endsAt === null) {
+      setError('Use a future time like 2026-03-09 18:00');
+      return;
+    }
+    confirmEnd(endsAt);
+  };
+
+  return (
+    <View
+      style={[
+        styles.card,
+        { backgroundColor: theme.colors.surface, borderColor: theme.colors.border },
+      ]}>
+      <Text style={[styles.title, { color: theme.colors.text }]}>Strict mode</Text>
+      <Text style={[styles.caption, { color: theme.colors.textSecondary }]}>
+        {isActive && strictUntil !== null
+          ? `Settings locked until ${formatStrictEnd(strictUntil)}. Limits can only get stricter.`
+          : 'Lock your limits so they can only get stricter until a chosen time.'}
+      </Text>
+
+      <View style={styles.chips}>
+        {STRICT_PRESETS.map((preset) => (
+          <TouchableOpacity
+            key={preset.label}
+            style={[styles.chip, { borderColor: theme.colors.border }]}
+            onPress={() => confirmEnd(Math.max(Date.now(), strictUntil ?? 0) + preset.durationMs)}
+            activeOpacity={0.7}>
+            <Text style={[styles.chipText, { color: theme.colors.text }]}>
+              {isActive ? `+${preset.label}` : preset.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.customRow}>
+        <TextInput
+          style={[
+            styles.input,
+            {
+              backgroundColor: theme.colors.background,
+              color: theme.colors.text,
+              borderColor: theme.colors.border,
+            },
+          ]}
+          value={customEnd}
+          onChangeText={setCustomEnd}
+          placeholder="YYYY-MM-DD HH:MM"
+          placeholderTextColor={theme.colors.textSecondary}
+          onSubmitEditing={handleCustom}
+        />
+        <TouchableOpacity style={styles.textButton} onPress={handleCustom} activeOpacity={0.6}>
+          <Text style={[styles.textButtonLabel, { color: theme.colors.primary }]}>Set</Text>
+        </TouchableOpacity>
+      </View>
+
+      {error && <Text style={[styles.caption, { color: theme.colors.error }]}>{error}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    width: '100%',
+    maxWidth: 300,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 24,
+    gap: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  caption: {
+    fontSize: 14,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+  },
+  customRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    padding: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+    fontSize: 16,
+  },
+  textButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 4,
+  },
+  textButtonLabel: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
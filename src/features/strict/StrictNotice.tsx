@@ -0,0 +1,62 @@
+/**
+ * Strict Notice
+ *
+ * Banner for settings screens while strict mode is on. Explains the lock and,
+ * after a refused change, why nothing happened.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useTheme } from '../../utils/theme';
+import { useStrictStore } from '../../stores/useStrictStore';
+import { isStrictActive } from './policy';
+import { formatStrictEnd } from './strictMode';
+
+export default function StrictNotice() {
+  const theme = useTheme();
+  const strictUntil = useStrictStore((state) => state.strictUntil);
+  const lastDenial = useStrictStore((state) => state.lastDenial);
+  const clearDenial = useStrictStore((state) => state.clearDenial);
+
+  if (!isStrictActive(strictUntil, Date.now()) || strictUntil === null) {
+    return null;
+  }
+
+  return (
+    <View
+      style={[
+        styles.notice,
+        { backgroundColor: theme.colors.surface, borderColor: theme.colors.primary },
+      ]}>
+      <Text style={[styles.title, { color: theme.colors.text }]}>
+        Strict mode until {formatStrictEnd(strictUntil)}
+      </Text>
+      {lastDenial ? (
+        <TouchableOpacity onPress={clearDenial} activeOpacity={0.6}>
+          <Text style={[styles.text, { color: theme.colors.error }]}>{lastDenial}</Text>
+        </TouchableOpacity>
+      ) : (
+        <Text style={[styles.text, { color: theme.colors.textSecondary }]}>
+          Limits can only get stricter for now.
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  notice: {
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginBottom: 16,
+    gap: 4,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  text: {
+    fontSize: 14,
+  },
+});
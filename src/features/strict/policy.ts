@@ -0,0 +1,197 @@
+/**
+ * Strict Mode Policy
+ *
+ * Until the user-chosen end time, settings may only get stricter:
+ * no raising or removing limits, no deselecting apps, no stopping the
+ * blocking service. Every guarded store mutation describes itself as a
+ * PolicyAction and is checked here before it is applied.
+ *
+ * Pure - the stores hold the state, this decides.
+ */
+
+import type { LimitSchedule } from '../limits/schedule';
+import type { GraceSettings } from '../limits/grace';
+import { isSessionCapEnabled, type SessionCap } from '../limits/sessionCap';
+import type { ChallengeType } from '../blocking/challenges/challenges';
+import type { AppList } from '../appSelection/appLists';
+
+export type PolicyAction =
+  | { type: 'setLimit'; previousMs: number | undefined; nextMs: number }
+  | { type: 'removeLimit' }
+  | { type: 'setOpenLimit'; previous: number | undefined; next: number }
+  | { type: 'removeOpenLimit' }
+  | { type: 'setSessionCap'; previous: SessionCap | undefined; next: SessionCap }
+  | { type: 'removeSessionCap' }
+  | {
+      type: 'setSchedule';
+      previous: LimitSchedule | undefined;
+      next: LimitSchedule;
+      baseLimitMs: number | undefined;
+    }
+  | { type: 'removeSchedule' }
+  | { type: 'setGrace'; previous: GraceSettings | undefined; next: GraceSettings }
+  | { type: 'removeGrace' }
+  | { type: 'setChallenge'; previous: ChallengeType | undefined; next: ChallengeType }
+  | { type: 'clearLimits' }
+  | { type: 'removeApp' }
+  | { type: 'clearApps' }
+  | { type: 'setAppList'; previous: AppList | null; next: AppList | null }
+  | { type: 'setGroupLimit'; previousMs: number; nextMs: number }
+  | { type: 'removeGroupMember' }
+  | { type: 'removeGroup' }
+  | { type: 'clearGroups' }
+  | { type: 'stopService' }
+  | { type: 'importConfig' }
+  | { type: 'setDayStartHour' }
+  | { type: 'setStrictMode'; previousEndsAt: number | null; nextEndsAt: number };
+
+export interface PolicyDecision {
+  allowed: boolean;
+  reason?: string;
+}
+
+const ALLOW: PolicyDecision = { allowed: true };
+const deny = (reason: string): PolicyDecision => ({ allowed: false, reason });
+
+export function isStrictActive(strictUntil: number | null, now: number): boolean {
+  return strictUntil !== null && strictUntil > now;
+}
+
+/**
+ * A budget may be added or lowered, never raised or removed (0 = none)
+ */
+function isBudgetStricter(previousMs: number | undefined, nextMs: number | undefined): boolean {
+  if (!previousMs || previousMs <= 0) {
+    return true;
+  }
+  return nextMs !== undefined && nextMs > 0 && nextMs <= previousMs;
+}
+
+/**
+ * Overrides may not exceed what applied before, and no blocked window may disappear
+ */
+export function isScheduleStricter(
+  previous: LimitSchedule | undefined,
+  next: LimitSchedule,
+  baseLimitMs: number | undefined,
+): boolean {
+  for (const key of ['weekdayLimitMs', 'weekendLimitMs'] as const) {
+    const before = previous?.[key] ?? baseLimitMs;
+    const after = next[key] ?? baseLimitMs;
+    if (!isBudgetStricter(before, after)) {
+      return false;
+    }
+  }
+  return (previous?.blockedWindows ?? []).every((window) =>
+    next.blockedWindows.some(
+      (candidate) =>
+        candidate.startMinute === window.startMinute && candidate.endMinute === window.endMinute,
+    ),
+  );
+}
+
+/**
+ * Sessions may only get shorter and cooldowns longer
+ */
+export function isSessionCapStricter(previous: SessionCap | undefined, next: SessionCap): boolean {
+  if (!isSessionCapEnabled(previous)) {
+    return true;
+  }
+  return (
+    next.maxSessionMinutes <= previous.maxSessionMinutes &&
+    next.cooldownMinutes >= previous.cooldownMinutes
+  );
+}
+
+/**
+ * Extensions may only get fewer and shorter; no setting means none at all
+ */
+export function isGraceStricter(previous: GraceSettings | undefined, next: GraceSettings): boolean {
+  const before = previous ?? { extensionsPerDay: 0, extensionMinutes: 0 };
+  return (
+    next.extensionsPerDay <= before.extensionsPerDay &&
+    next.extensionMinutes <= before.extensionMinutes
+  );
+}
+
+const LIST_STRICTNESS: Record<AppList | 'none', number> = { allow: 0, none: 1, block: 2 };
+
+/**
+ * Apps may move towards "always blocked", never towards "always allowed"
+ */
+export function isListChangeStricter(previous: AppList | null, next: AppList | null): boolean {
+  return LIST_STRICTNESS[next ?? 'none'] >= LIST_STRICTNESS[previous ?? 'none'];
+}
+
+export function checkPolicy(
+  action: PolicyAction,
+  strictUntil: number | null,
+  now: number,
+): PolicyDecision {
+  if (!isStrictActive(strictUntil, now)) {
+    return ALLOW;
+  }
+
+  switch (action.type) {
+    case 'setLimit':
+      return isBudgetStricter(action.previousMs, action.nextMs)
+        ? ALLOW
+        : deny('Limits can only be lowered while strict mode is on.');
+    case 'setOpenLimit':
+      return isBudgetStricter(action.previous, action.next)
+        ? ALLOW
+        : deny('Open limits can only be lowered while strict mode is on.');
+    case 'setSessionCap':
+      return isSessionCapStricter(action.previous, action.next)
+        ? ALLOW
+        : deny('Session caps can only get stricter while strict mode is on.');
+    case 'setAppList':
+      return isListChangeStricter(action.previous, action.next)
+        ? ALLOW
+        : deny('Apps cannot be allowed or unblocked while strict mode is on.');
+    case 'setGroupLimit':
+      return isBudgetStricter(action.previousMs, action.nextMs)
+        ? ALLOW
+        : deny('Group limits can only be lowered while strict mode is on.');
+    case 'setSchedule':
+      return isScheduleStricter(action.previous, action.next, action.baseLimitMs)
+        ? ALLOW
+        : deny('Schedules can only get stricter while strict mode is on.');
+    case 'setGrace':
+      return isGraceStricter(action.previous, action.next)
+        ? ALLOW
+        : deny('Extensions can only be reduced while strict mode is on.');
+    case 'removeGrace':
+      // Fewer extensions is always stricter
+      return ALLOW;
+    case 'setChallenge':
+      return action.next !== 'none' || !action.previous || action.previous === 'none'
+        ? ALLOW
+        : deny('Unlock challenges cannot be turned off while strict mode is on.');
+    case 'setStrictMode':
+      return action.nextEndsAt >= (action.previousEndsAt ?? 0)
+        ? ALLOW
+        : deny('Strict mode can be extended, not shortened.');
+    case 'removeLimit':
+    case 'removeOpenLimit':
+    case 'removeSessionCap':
+    case 'removeSchedule':
+    case 'clearLimits':
+      return deny('Limits cannot be removed while strict mode is on.');
+    case 'removeApp':
+    case 'clearApps':
+      return deny('Apps cannot be deselected while strict mode is on.');
+    case 'removeGroupMember':
+    case 'removeGroup':
+    case 'clearGroups':
+      return deny('Groups cannot be shrunk or deleted while strict mode is on.');
+    case 'stopService':
+      return deny('Blocking cannot be stopped while strict mode is on.');
+    case 'importConfig':
+      // An imported file could loosen anything, so it waits until strict mode ends
+      return deny('Configurations cannot be imported while strict mode is on.');
+    case 'setDayStartHour':
+      // Moving the boundary could start a fresh day early
+      return deny('The day start time cannot be changed while strict mode is on.');
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Strict Mode Helpers
+ *
+ * End-time presets and formatting for the strict mode card.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const STRICT_PRESETS: Array<{ label: string; durationMs: number }> = [
+  { label: '1 hour', durationMs: HOUR_MS },
+  { label: '8 hours', durationMs: 8 * HOUR_MS },
+  { label: '1 day', durationMs: 24 * HOUR_MS },
+  { label: '1 week', durationMs: 7 * 24 * HOUR_MS },
+];
+
+/**
+ * Parse "YYYY-MM-DD HH:MM" (local time) - null if invalid or not in the future
+ */
+export function parseStrictEnd(input: string, now: number): number | null {
+  const match = input.trim().match(/^(\d{4})-(\d{2})-(\d{2})\s+(\d{1,2}):(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hours, minutes] = match.map((part) => parseInt(part, 10));
+  const date = new Date(year, month - 1, day, hours, minutes);
+  // Reject rollovers like 2026-02-31 or 25:00
+  if (
+    date.getMonth() !== month - 1 ||
+    date.getDate() !== day ||
+    date.getHours() !== hours ||
+    date.getMinutes() !== minutes
+  ) {
+    return null;
+  }
+  const endsAt = date.getTime();
+  return endsAt > now ? endsAt : null;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * e.g. "Mon 9 Mar, 18:00"
+ */
+export function formatStrictEnd(endsAt: number): string {
+  const date = new Date(endsAt);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${WEEKDAYS[date.getDay()]} ${date.getDate()} ${MONTHS[date.getMonth()]}, ${pad(
+    date.getHours(),
+  )}:${pad(date.getMinutes())}`;
+}
@@ -8,6 +8,8 @@
  * - Battery-efficient: We check on-demand, not continuous polling
  * - Requires PACKAGE_USAGE_STATS permission for accurate detection
  * - Can be called from JS when needed (e.g., when app comes to foreground)
+ * - onForegroundAppChanged pushes every app switch (other than Boundly)
+ *   reported by the accessibility service, after startForegroundAppUpdates()
  * 
  * Now using TurboModules for New Architecture support!
  */
@@ -8,17 +8,50 @@
 import type { TurboModule } from 'react-native';
 import { TurboModuleRegistry } from 'react-native';
 
-export interface AppLimit {
+export interface PomodoroCycleConfig {
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  cyclesBeforeLongBreak: number;
+}
+
+export interface BlockEvent {
+  packageName: string;
+  timestampMs: number;
+  usageMs: number;
+  limitMs: number; // 0 for focus sessions and pomodoro
+  outcome: string; // 'blocked' until answered, then 'dismissed' or 'extended'
+}
+
+export interface SessionCooldown {
   packageName: string;
-  limitMs: number;
+  untilMs: number; // epoch ms the app can be reopened
 }
 
 export interface Spec extends TurboModule {
-  startBlockingService(selectedApps: string[], limits: AppLimit[]): Promise<void>;
+  // Whole blocking config document (see blockingConfig.ts), validated and stored in one write
+  applyBlockingConfig(configJson: string): Promise<void>;
+  getBlockingConfig(): Promise<string | null>;
+  startBlockingService(): Promise<void>; // enforces the stored config
   stopBlockingService(): Promise<void>;
+  startFocusSession(packageNames: string[], endsAtMs: number): Promise<void>;
+  stopFocusSession(): Promise<void>;
+  startPomodoro(
+    packageNames: string[],
+    startedAtMs: number,
+    config: PomodoroCycleConfig,
+  ): Promise<void>;
+  stopPomodoro(): Promise<void>;
+  grantExtension(packageName: string, untilMs: number): Promise<void>;
+  setStrictMode(endsAtMs: number): Promise<void>; // Can only move the end later
+  markBlockDismissed(packageName: string): Promise<void>;
+  getBlockEvents(sinceMs: number): Promise<BlockEvent[]>; // oldest first, capped on device
+  getSessionCooldowns(): Promise<SessionCooldown[]>; // capped apps waiting out a cooldown
   isBlockingServiceRunning(): Promise<boolean>;
   isAccessibilityServiceEnabled(): Promise<boolean>;
   openAccessibilitySettings(): Promise<void>;
+  canDrawOverlays(): Promise<boolean>;
+  openOverlaySettings(): Promise<void>;
 }
 
 const module = TurboModuleRegistry.get<Spec>('BlockingServiceModule');
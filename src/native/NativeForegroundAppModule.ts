@@ -5,7 +5,7 @@
  * React Native Codegen will generate the native interfaces from this.
  */
 
-import type { TurboModule } from 'react-native';
+import type { CodegenTypes, TurboModule } from 'react-native';
 import { TurboModuleRegistry } from 'react-native';
 
 export interface ForegroundAppInfo {
@@ -15,8 +15,10 @@ export interface ForegroundAppInfo {
 
 export interface Spec extends TurboModule {
   getCurrentForegroundApp(): Promise<ForegroundAppInfo | null>;
-  addForegroundAppListener(callback: (appInfo: ForegroundAppInfo) => void): void;
-  removeForegroundAppListener(): void;
+  // Events flow while updates are started; they need the accessibility service
+  startForegroundAppUpdates(): void;
+  stopForegroundAppUpdates(): void;
+  readonly onForegroundAppChanged: CodegenTypes.EventEmitter<ForegroundAppInfo>;
 }
 
 const module = TurboModuleRegistry.get<Spec>('ForegroundAppModule');
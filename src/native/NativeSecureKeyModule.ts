@@ -0,0 +1,35 @@
+/**
+ * SecureKeyModule TurboModule Spec
+ *
+ * This is the TypeScript spec for the TurboModule.
+ * React Native Codegen will generate the native interfaces from this.
+ *
+ * Methods are synchronous: storage.ts needs the key while the JS bundle is
+ * still loading, before any store can read MMKV.
+ */
+
+import type { TurboModule } from 'react-native';
+import { TurboModuleRegistry } from 'react-native';
+
+export interface Spec extends TurboModule {
+  // Per-install MMKV key, generated on first call and kept wrapped by the Android Keystore
+  // Throws if the stored key can't be read - it is never silently replaced
+  getStorageKey(): string;
+  // Replace the key after the user chose to start over; returns the new one
+  resetStorageKey(): string;
+  // Bytes (0-255) from java.security.SecureRandom, for salts and recovery codes
+  getRandomBytes(count: number): Array<number>;
+  // PBKDF2-HMAC-SHA256 of the secret as 64 hex characters, for the PIN and recovery code
+  hashSecret(secret: string, salt: string, iterations: number): string;
+  // Whether storage has been re-encrypted from the legacy fixed key
+  isLegacyKeyMigrated(): boolean;
+  setLegacyKeyMigrated(): void;
+}
+
+const module = TurboModuleRegistry.get<Spec>('SecureKeyModule');
+
+if (!module) {
+  console.warn('SecureKeyModule TurboModule not found. Make sure it is properly registered.');
+}
+
+export default module;
@@ -14,9 +14,22 @@ export interface UsageStat {
   totalTimeInForeground: number; // milliseconds
 }
 
+export interface AppOpenCount {
+  packageName: string;
+  opens: number; // times it came to the foreground from another app
+}
+
 export interface Spec extends TurboModule {
   getTodayUsageStats(): Promise<UsageStat[]>;
   getAppUsageToday(packageName: string): Promise<UsageStat | null>;
+  // Foreground time per app within [startMs, endMs), clipped at the boundaries
+  getUsageStatsForRange(startMs: number, endMs: number): Promise<UsageStat[]>;
+  getAppUsageForRange(
+    packageName: string,
+    startMs: number,
+    endMs: number,
+  ): Promise<UsageStat | null>;
+  getOpenCountsForRange(startMs: number, endMs: number): Promise<AppOpenCount[]>;
   hasUsageStatsPermission(): Promise<boolean>;
   openUsageStatsSettings(): Promise<void>;
 }
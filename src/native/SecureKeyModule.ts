@@ -0,0 +1,18 @@
+/**
+ * SecureKeyModule TurboModule
+ *
+ * Hands out the per-install encryption key for MMKV.
+ *
+ * Android Security Notes:
+ * - The key is 16 random characters (MMKV's maximum key length)
+ * - It is stored encrypted with an AES key that lives in the Android Keystore
+ *   and never leaves it, so copying the app's files off the device is not
+ *   enough to read storage
+ * - Clearing app data removes both the storage and the wrapped key
+ */
+
+import NativeSecureKeyModule, { type Spec } from './NativeSecureKeyModule';
+
+export type { Spec };
+
+export default NativeSecureKeyModule;
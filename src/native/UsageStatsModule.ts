@@ -13,10 +13,10 @@
  * Now using TurboModules for New Architecture support!
  */
 
-import NativeUsageStatsModule, { type UsageStat, type Spec } from './NativeUsageStatsModule';
+import NativeUsageStatsModule, { type AppOpenCount, type UsageStat, type Spec } from './NativeUsageStatsModule';
 
 // Re-export types
-export type { UsageStat };
+export type { AppOpenCount, UsageStat };
 
 // Export the module instance
 export default NativeUsageStatsModule;
@@ -0,0 +1,49 @@
+/**
+ * NativeSecureKeyModule Jest Mock
+ *
+ * Stands in for the Keystore-backed module with Node's crypto, which has the
+ * same SecureRandom and PBKDF2-HMAC-SHA256 primitives, so PIN hashing can be
+ * tested without a device.
+ *
+ * Usage:
+ *   jest.mock('../src/native/NativeSecureKeyModule');
+ */
+
+import type { Spec } from '../NativeSecureKeyModule';
+
+interface NodeBytes extends Iterable<number> {
+  toString(encoding: 'hex'): string;
+}
+
+// The app's type-check has no Node types, so only what's used is declared
+const { pbkdf2Sync, randomBytes } = jest.requireActual<{
+  pbkdf2Sync(
+    secret: string,
+    salt: string,
+    iterations: number,
+    length: number,
+    digest: 'sha256',
+  ): NodeBytes;
+  randomBytes(count: number): NodeBytes;
+}>('crypto');
+
+let storageKey = 'mock-storage-key';
+let legacyKeyMigrated = false;
+
+const SecureKeyModuleMock: Spec = {
+  getStorageKey: jest.fn(() => storageKey),
+  resetStorageKey: jest.fn(() => {
+    storageKey = randomBytes(8).toString('hex');
+    return storageKey;
+  }),
+  getRandomBytes: jest.fn((count: number) => Array.from(randomBytes(count))),
+  hashSecret: jest.fn((secret: string, salt: string, iterations: number) =>
+    pbkdf2Sync(secret, salt, iterations, 32, 'sha256').toString('hex'),
+  ),
+  isLegacyKeyMigrated: jest.fn(() => legacyKeyMigrated),
+  setLegacyKeyMigrated: jest.fn(() => {
+    legacyKeyMigrated = true;
+  }),
+};
+
+export default SecureKeyModuleMock;
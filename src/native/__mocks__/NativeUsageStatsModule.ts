@@ -0,0 +1,90 @@
+/**
+ * NativeUsageStatsModule Jest Mock
+ *
+ * Backs the range API with an in-memory list of foreground sessions so the
+ * day-boundary logic in the stores can be tested without a device. Each
+ * session counts as one open.
+ *
+ * Usage:
+ *   jest.mock('../src/native/NativeUsageStatsModule');
+ *   setMockSessions([{ packageName, startMs, endMs }]);
+ */
+
+import type { AppOpenCount, Spec, UsageStat } from '../NativeUsageStatsModule';
+
+export interface MockSession {
+  packageName: string;
+  appName?: string;
+  startMs: number;
+  endMs: number;
+}
+
+let sessions: MockSession[] = [];
+
+export function setMockSessions(nextSessions: MockSession[]) {
+  sessions = nextSessions;
+}
+
+/**
+ * Sum session time per package, clipped to [startMs, endMs) like the native
+ * UsageEventsAggregator does
+ */
+function aggregate(startMs: number, endMs: number): UsageStat[] {
+  const totals = new Map<string, UsageStat>();
+  sessions.forEach((session) => {
+    const overlap =
+      Math.min(session.endMs, endMs) - Math.max(session.startMs, startMs);
+    if (overlap <= 0) {
+      return;
+    }
+    const existing = totals.get(session.packageName);
+    totals.set(session.packageName, {
+      packageName: session.packageName,
+      appName: session.appName ?? session.packageName,
+      totalTimeInForeground: (existing?.totalTimeInForeground ?? 0) + overlap,
+    });
+  });
+  return Array.from(totals.values());
+}
+
+function countOpens(startMs: number, endMs: number): AppOpenCount[] {
+  const counts = new Map<string, number>();
+  sessions.forEach((session) => {
+    if (session.startMs >= startMs && session.startMs < endMs) {
+      counts.set(session.packageName, (counts.get(session.packageName) ?? 0) + 1);
+    }
+  });
+  return Array.from(counts, ([packageName, opens]) => ({ packageName, opens }));
+}
+
+const startOfToday = (): number => {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+const UsageStatsModuleMock: Spec = {
+  getTodayUsageStats: jest.fn(async () => aggregate(startOfToday(), Date.now())),
+  getAppUsageToday: jest.fn(
+    async (packageName: string) =>
+      aggregate(startOfToday(), Date.now()).find(
+        (stat) => stat.packageName === packageName,
+      ) ?? null,
+  ),
+  getUsageStatsForRange: jest.fn(async (startMs: number, endMs: number) =>
+    aggregate(startMs, endMs),
+  ),
+  getAppUsageForRange: jest.fn(
+    async (packageName: string, startMs: number, endMs: number) =>
+      aggregate(startMs, endMs).find(
+        (stat) => stat.packageName === packageName,
+      ) ?? null,
+  ),
+  getOpenCountsForRange: jest.fn(async (startMs: number, endMs: number) =>
+    countOpens(startMs, endMs),
+  ),
+  hasUsageStatsPermission: jest.fn(async () => true),
+  openUsageStatsSettings: jest.fn(async () => {}),
+};
+
+export default UsageStatsModuleMock;
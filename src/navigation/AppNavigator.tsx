@@ -21,6 +21,7 @@ import { StyleSheet } from 'react-native';
 import { checkUsageStatsPermission } from '../utils/permissions';
 import { useBlockingService } from '../features/blocking/useBlockingService';
 import BlockingScreen from '../features/blocking/BlockingScreen';
+import PinGate from '../features/pin/PinGate';
 
 // Screens
 import HomeScreen from '../features/appSelection/HomeScreen';
@@ -28,22 +29,49 @@ import PermissionsScreen from '../features/appSelection/PermissionsScreen';
 import AppSelectionScreen from '../features/appSelection/AppSelectionScreen';
 import LimitsScreen from '../features/limits/LimitsScreen';
 import StatsScreen from '../features/stats/StatsScreen';
+import ConfigScreen from '../features/config/ConfigScreen';
 
 export type RootStackParamList = {
   Home: undefined;
   AppSelection: undefined;
   Limits: undefined;
   Stats: undefined;
+  Config: undefined;
   Permissions: { returnTo?: 'Home' | 'AppSelection' } | undefined;
   Blocking: undefined;
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
+// Screens where limits can be loosened sit behind the optional PIN
+function GuardedAppSelectionScreen() {
+  return (
+    <PinGate>
+      <AppSelectionScreen />
+    </PinGate>
+  );
+}
+
+function GuardedLimitsScreen() {
+  return (
+    <PinGate>
+      <LimitsScreen />
+    </PinGate>
+  );
+}
+
+function GuardedConfigScreen() {
+  return (
+    <PinGate>
+      <ConfigScreen />
+    </PinGate>
+  );
+}
+
 export default function AppNavigator() {
   const [initialRoute, setInitialRoute] = useState<'Home' | 'Permissions'>('Home');
   const [isChecking, setIsChecking] = useState(true);
-  const { blockedApp, clearBlock } = useBlockingService();
+  const { blockedApp, clearBlock, extendBlock } = useBlockingService();
 
   useEffect(() => {
     checkInitialPermission();
@@ -76,14 +104,20 @@ export default function AppNavigator() {
           }}>
           <Stack.Screen name="Home" component={HomeScreen} />
           <Stack.Screen name="Permissions" component={PermissionsScreen} />
-          <Stack.Screen name="AppSelection" component={AppSelectionScreen} />
-          <Stack.Screen name="Limits" component={LimitsScreen} />
+          <Stack.Screen name="AppSelection" component={GuardedAppSelectionScreen} />
+          <Stack.Screen name="Limits" component={GuardedLimitsScreen} />
           <Stack.Screen name="Stats" component={StatsScreen} />
+          <Stack.Screen name="Config" component={GuardedConfigScreen} />
         </Stack.Navigator>
       </NavigationContainer>
       {/* Global blocking screen - shows on top of everything */}
       {blockedApp && (
-        <BlockingScreen blockedApp={blockedApp} onDismiss={clearBlock} />
+        <BlockingScreen
+          key={blockedApp.packageName}
+          blockedApp={blockedApp}
+          onDismiss={clearBlock}
+          onExtend={extendBlock}
+        />
       )}
     </GestureHandlerRootView>
   );
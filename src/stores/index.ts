@@ -2,22 +2,48 @@
  * Store Index
  * 
  * Central export for all stores
- * Also initializes stores from MMKV on app start
+ * Also initializes stores from MMKV on app start (after storage migrations)
  */
 
 import { useAppStore } from './useAppStore';
+import { useAppListsStore } from './useAppListsStore';
 import { useLimitsStore } from './useLimitsStore';
 import { useUsageStore } from './useUsageStore';
+import { useGroupsStore } from './useGroupsStore';
+import { useFocusStore } from './useFocusStore';
+import { useGraceStore } from './useGraceStore';
+import { useStrictStore } from './useStrictStore';
+import { usePinStore } from './usePinStore';
+import { runMigrations } from '../utils/migrations';
 
 /**
  * Initialize all stores from persistent storage
  * Call this once on app startup
  */
 export function initializeStores() {
+  // Stores validate what they load, so they must see the current schema
+  runMigrations();
+  // Sets the day start hour the other stores key their days by
+  useUsageStore.getState().loadFromStorage();
   useAppStore.getState().loadFromStorage();
+  useAppListsStore.getState().loadFromStorage();
   useLimitsStore.getState().loadFromStorage();
-  useUsageStore.getState().loadFromStorage();
+  useGroupsStore.getState().loadFromStorage();
+  useFocusStore.getState().loadFromStorage();
+  useGraceStore.getState().loadFromStorage();
+  useStrictStore.getState().loadFromStorage();
+  usePinStore.getState().loadFromStorage();
 }
 
-export { useAppStore, useLimitsStore, useUsageStore };
+export {
+  useAppStore,
+  useAppListsStore,
+  useLimitsStore,
+  useUsageStore,
+  useGroupsStore,
+  useFocusStore,
+  useGraceStore,
+  useStrictStore,
+  usePinStore,
+};
 
@@ -0,0 +1,88 @@
+/**
+ * App Lists Store - Always-Allowed and Always-Blocked Apps
+ *
+ * Why separate store:
+ * - The lists are independent of tracking: an app can be on one without
+ *   being selected, and the selection screen edits both side by side
+ *
+ * Store Structure:
+ * - allowedApps: Apps that are never blocked
+ * - blockedApps: Apps that are always blocked
+ * - An app is on at most one of them (see features/appSelection/appLists.ts)
+ * - Changes go through the strict mode policy and return false when refused
+ * - Persisted with MMKV
+ */
+
+import { create } from 'zustand';
+import { storage, StorageKeys } from '../utils/storage';
+import { readStored, StoredShapes } from '../utils/storageSchema';
+import type { SelectedApp } from './useAppStore';
+import {
+  assignAppList,
+  EMPTY_APP_LISTS,
+  getAppList,
+  type AppList,
+  type AppLists,
+} from '../features/appSelection/appLists';
+import { enforcePolicy } from './useStrictStore';
+
+interface AppListsStore extends AppLists {
+  getAppList: (packageName: string) => AppList | null;
+  setAppList: (app: SelectedApp, list: AppList | null) => boolean;
+  replaceAppLists: (lists: AppLists) => boolean;
+  loadFromStorage: () => void;
+}
+
+const persist = (lists: AppLists) => {
+  storage.set(StorageKeys.ALLOWED_APPS, JSON.stringify(lists.allowedApps));
+  storage.set(StorageKeys.BLOCKED_APPS, JSON.stringify(lists.blockedApps));
+};
+
+export const useAppListsStore = create<AppListsStore>((set, get) => ({
+  ...EMPTY_APP_LISTS,
+
+  getAppList: (packageName: string) => {
+    return getAppList(packageName, get());
+  },
+
+  setAppList: (app: SelectedApp, list: AppList | null) => {
+    const previous = get().getAppList(app.packageName);
+    if (previous === list) {
+      return true;
+    }
+    if (!enforcePolicy({ type: 'setAppList', previous, next: list })) {
+      return false;
+    }
+    set((state) => {
+      const lists = assignAppList(state, app, list);
+      persist(lists);
+      return lists;
+    });
+    return true;
+  },
+
+  // Configuration import - swaps both lists at once
+  replaceAppLists: (lists: AppLists) => {
+    if (!enforcePolicy({ type: 'importConfig' })) {
+      return false;
+    }
+    set({ allowedApps: lists.allowedApps, blockedApps: lists.blockedApps });
+    persist(lists);
+    return true;
+  },
+
+  loadFromStorage: () => {
+    try {
+      const allowedApps = readStored(StorageKeys.ALLOWED_APPS, StoredShapes.selectedApps);
+      if (allowedApps) {
+        set({ allowedApps });
+      }
+      const blockedApps = readStored(StorageKeys.BLOCKED_APPS, StoredShapes.selectedApps);
+      if (blockedApps) {
+        set({ blockedApps });
+      }
+    } catch (error) {
+      console.error('Error loading app lists from storage:', error);
+    }
+  },
+}));
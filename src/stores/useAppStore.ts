@@ -9,11 +9,14 @@
  * Store Structure:
  * - selectedApps: Set of package names
  * - Simple add/remove operations
+ * - Removals go through the strict mode policy and return false when refused
  * - Persisted with MMKV
  */
 
 import { create } from 'zustand';
 import { storage, StorageKeys } from '../utils/storage';
+import { readStored, StoredShapes } from '../utils/storageSchema';
+import { enforcePolicy } from './useStrictStore';
 
 export interface SelectedApp {
   packageName: string;
@@ -23,8 +26,9 @@ export interface SelectedApp {
 interface AppStore {
   selectedApps: SelectedApp[];
   addApp: (app: SelectedApp) => void;
-  removeApp: (packageName: string) => void;
-  clearApps: () => void;
+  removeApp: (packageName: string) => boolean;
+  clearApps: () => boolean;
+  replaceApps: (apps: SelectedApp[]) => boolean;
   isSelected: (packageName: string) => boolean;
   loadFromStorage: () => void;
 }
@@ -46,6 +50,9 @@ export const useAppStore = create<AppStore>((set, get) => ({
   },
 
   removeApp: (packageName: string) => {
+    if (!enforcePolicy({ type: 'removeApp' })) {
+      return false;
+    }
     set((state) => {
       const newApps = state.selectedApps.filter(
         (app) => app.packageName !== packageName,
@@ -54,11 +61,26 @@ export const useAppStore = create<AppStore>((set, get) => ({
       storage.set(StorageKeys.SELECTED_APPS, JSON.stringify(newApps));
       return { selectedApps: newApps };
     });
+    return true;
   },
 
   clearApps: () => {
+    if (!enforcePolicy({ type: 'clearApps' })) {
+      return false;
+    }
     set({ selectedApps: [] });
-    storage.delete(StorageKeys.SELECTED_APPS);
+    storage.remove(StorageKeys.SELECTED_APPS);
+    return true;
+  },
+
+  // Configuration import - swaps the whole selection at once
+  replaceApps: (apps: SelectedApp[]) => {
+    if (!enforcePolicy({ type: 'importConfig' })) {
+      return false;
+    }
+    set({ selectedApps: apps });
+    storage.set(StorageKeys.SELECTED_APPS, JSON.stringify(apps));
+    return true;
   },
 
   isSelected: (packageName: string) => {
@@ -67,9 +89,8 @@ export const useAppStore = create<AppStore>((set, get) => ({
 
   loadFromStorage: () => {
     try {
-      const stored = storage.getString(StorageKeys.SELECTED_APPS);
-      if (stored) {
-        const apps = JSON.parse(stored) as SelectedApp[];
+      const apps = readStored(StorageKeys.SELECTED_APPS, StoredShapes.selectedApps);
+      if (apps) {
         set({ selectedApps: apps });
       }
     } catch (error) {
@@ -0,0 +1,104 @@
+/**
+ * Focus Store - Timed Focus Sessions and Pomodoro Cycles
+ *
+ * Why persisted:
+ * - A process restart must not end a running session or cycle
+ * - The native service keeps its own copy, this one drives the UI
+ *
+ * Store Structure:
+ * - session: { startedAt, endsAt, packageNames } or null
+ * - pomodoro: { startedAt, config, packageNames } or null
+ * - pomodoroConfig: last used work/break lengths
+ * - Persisted with MMKV
+ */
+
+import { create } from 'zustand';
+import { storage, StorageKeys } from '../utils/storage';
+import { readStored, StoredShapes } from '../utils/storageSchema';
+import type { FocusSession } from '../features/focus/focusSession';
+import {
+  DEFAULT_POMODORO_CONFIG,
+  type PomodoroConfig,
+  type PomodoroState,
+} from '../features/focus/pomodoro';
+
+interface FocusStore {
+  session: FocusSession | null;
+  pomodoro: PomodoroState | null;
+  pomodoroConfig: PomodoroConfig;
+  startFocus: (durationMs: number, packageNames: string[]) => void;
+  endFocus: () => void;
+  startPomodoro: (packageNames: string[]) => void;
+  stopPomodoro: () => void;
+  setPomodoroConfig: (config: PomodoroConfig) => void;
+  loadFromStorage: () => void;
+}
+
+export const useFocusStore = create<FocusStore>((set, get) => ({
+  session: null,
+  pomodoro: null,
+  pomodoroConfig: DEFAULT_POMODORO_CONFIG,
+
+  startFocus: (durationMs: number, packageNames: string[]) => {
+    const startedAt = Date.now();
+    const session: FocusSession = {
+      startedAt,
+      endsAt: startedAt + durationMs,
+      packageNames,
+    };
+    storage.set(StorageKeys.FOCUS_SESSION, JSON.stringify(session));
+    set({ session });
+  },
+
+  endFocus: () => {
+    storage.remove(StorageKeys.FOCUS_SESSION);
+    set({ session: null });
+  },
+
+  startPomodoro: (packageNames: string[]) => {
+    const pomodoro: PomodoroState = {
+      startedAt: Date.now(),
+      config: get().pomodoroConfig,
+      packageNames,
+    };
+    storage.set(StorageKeys.POMODORO_STATE, JSON.stringify(pomodoro));
+    set({ pomodoro });
+  },
+
+  stopPomodoro: () => {
+    storage.remove(StorageKeys.POMODORO_STATE);
+    set({ pomodoro: null });
+  },
+
+  setPomodoroConfig: (config: PomodoroConfig) => {
+    storage.set(StorageKeys.POMODORO_CONFIG, JSON.stringify(config));
+    set({ pomodoroConfig: config });
+  },
+
+  loadFromStorage: () => {
+    try {
+      const session = readStored(StorageKeys.FOCUS_SESSION, StoredShapes.focusSession);
+      if (session) {
+        // Drop sessions that ended while the app was not running
+        if (session.endsAt > Date.now()) {
+          set({ session });
+        } else {
+          storage.remove(StorageKeys.FOCUS_SESSION);
+        }
+      }
+
+      // Cycles run until stopped, so a stored one is always resumed
+      const pomodoro = readStored(StorageKeys.POMODORO_STATE, StoredShapes.pomodoroState);
+      if (pomodoro) {
+        set({ pomodoro });
+      }
+
+      const pomodoroConfig = readStored(StorageKeys.POMODORO_CONFIG, StoredShapes.pomodoroConfig);
+      if (pomodoroConfig) {
+        set({ pomodoroConfig });
+      }
+    } catch (error) {
+      console.error('Error loading focus state from storage:', error);
+    }
+  },
+}));
@@ -0,0 +1,62 @@
+/**
+ * Grace Store - Log of Granted Extensions
+ *
+ * Why separate store:
+ * - The log grows with every extension, limits config should stay small
+ * - Counting today's grants needs the log, not just a counter, so a
+ *   day rollover never needs a reset
+ *
+ * Store Structure:
+ * - grants: List of { packageName, dayKey, grantedAt, expiresAt }
+ * - Pruned to the last 30 days, persisted with MMKV
+ */
+
+import { create } from 'zustand';
+import { storage, StorageKeys } from '../utils/storage';
+import { readStored, StoredShapes } from '../utils/storageSchema';
+import { getDayKey } from '../utils/dates';
+import { pruneGrants, type GraceGrant } from '../features/limits/grace';
+
+interface GraceStore {
+  grants: GraceGrant[];
+  grantExtension: (packageName: string, minutes: number) => GraceGrant;
+  clearGrants: () => void;
+  loadFromStorage: () => void;
+}
+
+export const useGraceStore = create<GraceStore>((set) => ({
+  grants: [],
+
+  grantExtension: (packageName: string, minutes: number) => {
+    const now = Date.now();
+    const grant: GraceGrant = {
+      packageName,
+      dayKey: getDayKey(now),
+      grantedAt: now,
+      expiresAt: now + minutes * 60 * 1000,
+    };
+    set((state) => {
+      const newGrants = pruneGrants([...state.grants, grant], grant.dayKey);
+      storage.set(StorageKeys.GRACE_LOG, JSON.stringify(newGrants));
+      return { grants: newGrants };
+    });
+    console.log('Grace: Granted', minutes, 'minutes for', packageName);
+    return grant;
+  },
+
+  clearGrants: () => {
+    set({ grants: [] });
+    storage.remove(StorageKeys.GRACE_LOG);
+  },
+
+  loadFromStorage: () => {
+    try {
+      const stored = readStored(StorageKeys.GRACE_LOG, StoredShapes.graceLog);
+      if (stored) {
+        set({ grants: pruneGrants(stored, getDayKey(Date.now())) });
+      }
+    } catch (error) {
+      console.error('Error loading grace log from storage:', error);
+    }
+  },
+}));
@@ -0,0 +1,159 @@
+/**
+ * Groups Store - App Groups with Shared Limits
+ *
+ * Why separate store:
+ * - Groups span several apps, so they don't fit the per-package limits map
+ * - Editing a group shouldn't re-render every limit row
+ *
+ * Store Structure:
+ * - groups: List of { id, name, packageNames, limitMs }
+ * - Persisted with MMKV
+ * - Loosening changes go through the strict mode policy and return false when refused
+ */
+
+import { create } from 'zustand';
+import { storage, StorageKeys } from '../utils/storage';
+import { readStored, StoredShapes } from '../utils/storageSchema';
+import type { AppGroup } from '../features/limits/groups';
+import { enforcePolicy } from './useStrictStore';
+
+interface GroupsStore {
+  groups: AppGroup[];
+  addGroup: (name: string, limitMs: number) => string;
+  updateGroup: (id: string, changes: Partial<Omit<AppGroup, 'id'>>) => boolean;
+  removeGroup: (id: string) => boolean;
+  toggleMember: (id: string, packageName: string) => boolean;
+  removeAppFromGroups: (packageName: string) => boolean;
+  clearGroups: () => boolean;
+  replaceGroups: (groups: AppGroup[]) => boolean;
+  loadFromStorage: () => void;
+}
+
+const persist = (groups: AppGroup[]) => {
+  storage.set(StorageKeys.APP_GROUPS, JSON.stringify(groups));
+};
+
+export const useGroupsStore = create<GroupsStore>((set, get) => ({
+  groups: [],
+
+  addGroup: (name: string, limitMs: number) => {
+    const id = `group_${Date.now().toString(36)}`;
+    set((state) => {
+      const newGroups = [...state.groups, { id, name, packageNames: [], limitMs }];
+      persist(newGroups);
+      return { groups: newGroups };
+    });
+    return id;
+  },
+
+  updateGroup: (id: string, changes: Partial<Omit<AppGroup, 'id'>>) => {
+    const current = get().groups.find((candidate) => candidate.id === id);
+    if (!current) {
+      return false;
+    }
+    if (
+      changes.limitMs !== undefined &&
+      !enforcePolicy({ type: 'setGroupLimit', previousMs: current.limitMs, nextMs: changes.limitMs })
+    ) {
+      return false;
+    }
+    const removesMember =
+      changes.packageNames !== undefined &&
+      current.packageNames.some((name) => !changes.packageNames?.includes(name));
+    if (removesMember && !enforcePolicy({ type: 'removeGroupMember' })) {
+      return false;
+    }
+    set((state) => {
+      const newGroups = state.groups.map((group) =>
+        group.id === id ? { ...group, ...changes } : group,
+      );
+      persist(newGroups);
+      return { groups: newGroups };
+    });
+    return true;
+  },
+
+  removeGroup: (id: string) => {
+    if (!enforcePolicy({ type: 'removeGroup' })) {
+      return false;
+    }
+    set((state) => {
+      const newGroups = state.groups.filter((group) => group.id !== id);
+      persist(newGroups);
+      return { groups: newGroups };
+    });
+    return true;
+  },
+
+  toggleMember: (id: string, packageName: string) => {
+    const current = get().groups.find((candidate) => candidate.id === id);
+    const isRemoval = current?.packageNames.includes(packageName) ?? false;
+    if (isRemoval && !enforcePolicy({ type: 'removeGroupMember' })) {
+      return false;
+    }
+    set((state) => {
+      const newGroups = state.groups.map((group) => {
+        if (group.id !== id) {
+          return group;
+        }
+        const isMember = group.packageNames.includes(packageName);
+        return {
+          ...group,
+          packageNames: isMember
+            ? group.packageNames.filter((name) => name !== packageName)
+            : [...group.packageNames, packageName],
+        };
+      });
+      persist(newGroups);
+      return { groups: newGroups };
+    });
+    return true;
+  },
+
+  // Called when an app is deselected so groups never reference untracked apps
+  removeAppFromGroups: (packageName: string) => {
+    const isMember = get().groups.some((group) => group.packageNames.includes(packageName));
+    if (isMember && !enforcePolicy({ type: 'removeGroupMember' })) {
+      return false;
+    }
+    set((state) => {
+      const newGroups = state.groups.map((group) => ({
+        ...group,
+        packageNames: group.packageNames.filter((name) => name !== packageName),
+      }));
+      persist(newGroups);
+      return { groups: newGroups };
+    });
+    return true;
+  },
+
+  clearGroups: () => {
+    if (!enforcePolicy({ type: 'clearGroups' })) {
+      return false;
+    }
+    set({ groups: [] });
+    storage.remove(StorageKeys.APP_GROUPS);
+    return true;
+  },
+
+  // Configuration import - swaps all groups at once
+  replaceGroups: (groups: AppGroup[]) => {
+    if (!enforcePolicy({ type: 'importConfig' })) {
+      return false;
+    }
+    set({ groups });
+    persist(groups);
+    return true;
+  },
+
+  loadFromStorage: () => {
+    try {
+      const groups = readStored(StorageKeys.APP_GROUPS, StoredShapes.groups);
+      if (groups) {
+        set({ groups });
+      }
+    } catch (error) {
+      console.error('Error loading app groups from storage:', error);
+    }
+  },
+}));
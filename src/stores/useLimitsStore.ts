@@ -8,37 +8,101 @@
  * 
  * Store Structure:
  * - limits: Map of packageName -> limit in milliseconds
+ * - openLimits: Map of packageName -> max opens per day (see features/limits/opens.ts)
+ * - sessionCaps: Map of packageName -> max minutes at a time and the cooldown after
+ * - schedules: Map of packageName -> weekday/weekend budgets and blocked windows
+ * - graceSettings: Map of packageName -> allowed "N more minutes" extensions per day
+ * - challenges: Map of packageName -> friction shown before an override
+ * - warningSettings: When to notify before a limit is reached (all apps)
+ * - warningsDisabled: Apps opted out of those notifications
+ * - showRemainingPill: Floating "time left" pill over limited apps (off by default)
  * - Simple get/set operations
+ * - Mutations go through the strict mode policy and return false when refused
+ *   (warnings and the pill only inform, so they aren't guarded)
  * - Persisted with MMKV
  */
 
 import { create } from 'zustand';
 import { storage, StorageKeys } from '../utils/storage';
+import { readStored, StoredShapes } from '../utils/storageSchema';
+import type { LimitSchedule } from '../features/limits/schedule';
+import type { GraceSettings } from '../features/limits/grace';
+import type { SessionCap } from '../features/limits/sessionCap';
+import type { ChallengeType } from '../features/blocking/challenges/challenges';
+import { DEFAULT_WARNING_SETTINGS, type WarningSettings } from '../features/limits/warnings';
+import { enforcePolicy } from './useStrictStore';
 
 export interface AppLimit {
   packageName: string;
   limitMs: number; // Daily limit in milliseconds
 }
 
+export interface LimitsConfig {
+  limits: Record<string, number>;
+  openLimits: Record<string, number>;
+  sessionCaps: Record<string, SessionCap>;
+  schedules: Record<string, LimitSchedule>;
+  graceSettings: Record<string, GraceSettings>;
+  challenges: Record<string, ChallengeType>;
+  warningSettings: WarningSettings;
+  warningsDisabled: string[];
+  showRemainingPill: boolean;
+}
+
 interface LimitsStore {
   limits: Record<string, number>; // packageName -> limitMs
-  setLimit: (packageName: string, limitMs: number) => void;
+  openLimits: Record<string, number>; // packageName -> max opens per day
+  sessionCaps: Record<string, SessionCap>; // packageName -> session length cap
+  schedules: Record<string, LimitSchedule>; // packageName -> schedule
+  graceSettings: Record<string, GraceSettings>; // packageName -> extension allowance
+  challenges: Record<string, ChallengeType>; // packageName -> unlock challenge
+  warningSettings: WarningSettings;
+  warningsDisabled: string[]; // packageNames
+  showRemainingPill: boolean;
+  setLimit: (packageName: string, limitMs: number) => boolean;
   getLimit: (packageName: string) => number | undefined;
-  removeLimit: (packageName: string) => void;
-  clearLimits: () => void;
+  removeLimit: (packageName: string) => boolean;
+  setOpenLimit: (packageName: string, maxOpens: number) => boolean;
+  removeOpenLimit: (packageName: string) => boolean;
+  setSessionCap: (packageName: string, cap: SessionCap) => boolean;
+  removeSessionCap: (packageName: string) => boolean;
+  setSchedule: (packageName: string, schedule: LimitSchedule) => boolean;
+  getSchedule: (packageName: string) => LimitSchedule | undefined;
+  removeSchedule: (packageName: string) => boolean;
+  setGraceSettings: (packageName: string, settings: GraceSettings) => boolean;
+  removeGraceSettings: (packageName: string) => boolean;
+  setChallenge: (packageName: string, challenge: ChallengeType) => boolean;
+  setWarningSettings: (settings: WarningSettings) => void;
+  setWarningsEnabled: (packageName: string, enabled: boolean) => void;
+  setShowRemainingPill: (enabled: boolean) => void;
+  clearLimits: () => boolean;
+  replaceLimits: (config: LimitsConfig) => boolean;
   loadFromStorage: () => void;
 }
 
 export const useLimitsStore = create<LimitsStore>((set, get) => ({
   limits: {},
+  openLimits: {},
+  sessionCaps: {},
+  schedules: {},
+  graceSettings: {},
+  challenges: {},
+  warningSettings: DEFAULT_WARNING_SETTINGS,
+  warningsDisabled: [],
+  showRemainingPill: false,
 
   setLimit: (packageName: string, limitMs: number) => {
+    const previousMs = get().limits[packageName];
+    if (!enforcePolicy({ type: 'setLimit', previousMs, nextMs: limitMs })) {
+      return false;
+    }
     set((state) => {
       const newLimits = { ...state.limits, [packageName]: limitMs };
       // Persist to MMKV
       storage.set(StorageKeys.APP_LIMITS, JSON.stringify(newLimits));
       return { limits: newLimits };
     });
+    return true;
   },
 
   getLimit: (packageName: string) => {
@@ -46,26 +110,260 @@ export const useLimitsStore = create<LimitsStore>((set, get) => ({
   },
 
   removeLimit: (packageName: string) => {
+    if (!enforcePolicy({ type: 'removeLimit' })) {
+      return false;
+    }
     set((state) => {
       const { [packageName]: removed, ...newLimits } = state.limits;
       // Persist to MMKV
       storage.set(StorageKeys.APP_LIMITS, JSON.stringify(newLimits));
       return { limits: newLimits };
     });
+    return true;
+  },
+
+  setOpenLimit: (packageName: string, maxOpens: number) => {
+    const previous = get().openLimits[packageName];
+    if (!enforcePolicy({ type: 'setOpenLimit', previous, next: maxOpens })) {
+      return false;
+    }
+    set((state) => {
+      const newOpenLimits = { ...state.openLimits, [packageName]: maxOpens };
+      // Persist to MMKV
+      storage.set(StorageKeys.OPEN_LIMITS, JSON.stringify(newOpenLimits));
+      return { openLimits: newOpenLimits };
+    });
+    return true;
+  },
+
+  removeOpenLimit: (packageName: string) => {
+    if (!enforcePolicy({ type: 'removeOpenLimit' })) {
+      return false;
+    }
+    set((state) => {
+      const newOpenLimits = { ...state.openLimits };
+      delete newOpenLimits[packageName];
+      // Persist to MMKV
+      storage.set(StorageKeys.OPEN_LIMITS, JSON.stringify(newOpenLimits));
+      return { openLimits: newOpenLimits };
+    });
+    return true;
+  },
+
+  setSessionCap: (packageName: string, cap: SessionCap) => {
+    const previous = get().sessionCaps[packageName];
+    if (!enforcePolicy({ type: 'setSessionCap', previous, next: cap })) {
+      return false;
+    }
+    set((state) => {
+      const newSessionCaps = { ...state.sessionCaps, [packageName]: cap };
+      // Persist to MMKV
+      storage.set(StorageKeys.SESSION_CAPS, JSON.stringify(newSessionCaps));
+      return { sessionCaps: newSessionCaps };
+    });
+    return true;
+  },
+
+  removeSessionCap: (packageName: string) => {
+    if (!enforcePolicy({ type: 'removeSessionCap' })) {
+      return false;
+    }
+    set((state) => {
+      const newSessionCaps = { ...state.sessionCaps };
+      delete newSessionCaps[packageName];
+      // Persist to MMKV
+      storage.set(StorageKeys.SESSION_CAPS, JSON.stringify(newSessionCaps));
+      return { sessionCaps: newSessionCaps };
+    });
+    return true;
+  },
+
+  setSchedule: (packageName: string, schedule: LimitSchedule) => {
+    const { schedules, limits } = get();
+    const allowed = enforcePolicy({
+      type: 'setSchedule',
+      previous: schedules[packageName],
+      next: schedule,
+      baseLimitMs: limits[packageName],
+    });
+    if (!allowed) {
+      return false;
+    }
+    set((state) => {
+      const newSchedules = { ...state.schedules, [packageName]: schedule };
+      // Persist to MMKV
+      storage.set(StorageKeys.LIMIT_SCHEDULES, JSON.stringify(newSchedules));
+      return { schedules: newSchedules };
+    });
+    return true;
+  },
+
+  getSchedule: (packageName: string) => {
+    return get().schedules[packageName];
+  },
+
+  removeSchedule: (packageName: string) => {
+    if (!enforcePolicy({ type: 'removeSchedule' })) {
+      return false;
+    }
+    set((state) => {
+      const newSchedules = { ...state.schedules };
+      delete newSchedules[packageName];
+      // Persist to MMKV
+      storage.set(StorageKeys.LIMIT_SCHEDULES, JSON.stringify(newSchedules));
+      return { schedules: newSchedules };
+    });
+    return true;
+  },
+
+  setGraceSettings: (packageName: string, settings: GraceSettings) => {
+    const previous = get().graceSettings[packageName];
+    if (!enforcePolicy({ type: 'setGrace', previous, next: settings })) {
+      return false;
+    }
+    set((state) => {
+      const newGraceSettings = { ...state.graceSettings, [packageName]: settings };
+      // Persist to MMKV
+      storage.set(StorageKeys.GRACE_SETTINGS, JSON.stringify(newGraceSettings));
+      return { graceSettings: newGraceSettings };
+    });
+    return true;
+  },
+
+  removeGraceSettings: (packageName: string) => {
+    if (!enforcePolicy({ type: 'removeGrace' })) {
+      return false;
+    }
+    set((state) => {
+      const newGraceSettings = { ...state.graceSettings };
+      delete newGraceSettings[packageName];
+      // Persist to MMKV
+      storage.set(StorageKeys.GRACE_SETTINGS, JSON.stringify(newGraceSettings));
+      return { graceSettings: newGraceSettings };
+    });
+    return true;
+  },
+
+  // 'none' removes the entry so the map only holds real challenges
+  setChallenge: (packageName: string, challenge: ChallengeType) => {
+    const previous = get().challenges[packageName];
+    if (!enforcePolicy({ type: 'setChallenge', previous, next: challenge })) {
+      return false;
+    }
+    set((state) => {
+      const newChallenges = { ...state.challenges, [packageName]: challenge };
+      if (challenge === 'none') {
+        delete newChallenges[packageName];
+      }
+      // Persist to MMKV
+      storage.set(StorageKeys.UNLOCK_CHALLENGES, JSON.stringify(newChallenges));
+      return { challenges: newChallenges };
+    });
+    return true;
+  },
+
+  setWarningSettings: (settings: WarningSettings) => {
+    set({ warningSettings: settings });
+    // Persist to MMKV
+    storage.set(StorageKeys.WARNING_SETTINGS, JSON.stringify(settings));
+  },
+
+  setWarningsEnabled: (packageName: string, enabled: boolean) => {
+    set((state) => {
+      const others = state.warningsDisabled.filter((name) => name !== packageName);
+      const newDisabled = enabled ? others : [...others, packageName];
+      // Persist to MMKV
+      storage.set(StorageKeys.WARNINGS_DISABLED, JSON.stringify(newDisabled));
+      return { warningsDisabled: newDisabled };
+    });
+  },
+
+  setShowRemainingPill: (enabled: boolean) => {
+    set({ showRemainingPill: enabled });
+    // Persist to MMKV
+    storage.set(StorageKeys.REMAINING_PILL, JSON.stringify(enabled));
   },
 
   clearLimits: () => {
-    set({ limits: {} });
-    storage.delete(StorageKeys.APP_LIMITS);
+    if (!enforcePolicy({ type: 'clearLimits' })) {
+      return false;
+    }
+    set({
+      limits: {},
+      openLimits: {},
+      sessionCaps: {},
+      schedules: {},
+      graceSettings: {},
+      challenges: {},
+    });
+    storage.remove(StorageKeys.APP_LIMITS);
+    storage.remove(StorageKeys.OPEN_LIMITS);
+    storage.remove(StorageKeys.SESSION_CAPS);
+    storage.remove(StorageKeys.LIMIT_SCHEDULES);
+    storage.remove(StorageKeys.GRACE_SETTINGS);
+    storage.remove(StorageKeys.UNLOCK_CHALLENGES);
+    return true;
+  },
+
+  // Configuration import - swaps every per-app rule at once
+  replaceLimits: (config: LimitsConfig) => {
+    if (!enforcePolicy({ type: 'importConfig' })) {
+      return false;
+    }
+    set(config);
+    storage.set(StorageKeys.APP_LIMITS, JSON.stringify(config.limits));
+    storage.set(StorageKeys.OPEN_LIMITS, JSON.stringify(config.openLimits));
+    storage.set(StorageKeys.SESSION_CAPS, JSON.stringify(config.sessionCaps));
+    storage.set(StorageKeys.LIMIT_SCHEDULES, JSON.stringify(config.schedules));
+    storage.set(StorageKeys.GRACE_SETTINGS, JSON.stringify(config.graceSettings));
+    storage.set(StorageKeys.UNLOCK_CHALLENGES, JSON.stringify(config.challenges));
+    storage.set(StorageKeys.WARNING_SETTINGS, JSON.stringify(config.warningSettings));
+    storage.set(StorageKeys.WARNINGS_DISABLED, JSON.stringify(config.warningsDisabled));
+    storage.set(StorageKeys.REMAINING_PILL, JSON.stringify(config.showRemainingPill));
+    return true;
   },
 
   loadFromStorage: () => {
     try {
-      const stored = storage.getString(StorageKeys.APP_LIMITS);
-      if (stored) {
-        const limits = JSON.parse(stored) as Record<string, number>;
+      const limits = readStored(StorageKeys.APP_LIMITS, StoredShapes.limits);
+      if (limits) {
         set({ limits });
       }
+      const openLimits = readStored(StorageKeys.OPEN_LIMITS, StoredShapes.openLimits);
+      if (openLimits) {
+        set({ openLimits });
+      }
+      const sessionCaps = readStored(StorageKeys.SESSION_CAPS, StoredShapes.sessionCaps);
+      if (sessionCaps) {
+        set({ sessionCaps });
+      }
+      const schedules = readStored(StorageKeys.LIMIT_SCHEDULES, StoredShapes.schedules);
+      if (schedules) {
+        set({ schedules });
+      }
+      const graceSettings = readStored(StorageKeys.GRACE_SETTINGS, StoredShapes.graceSettings);
+      if (graceSettings) {
+        set({ graceSettings });
+      }
+      const challenges = readStored(StorageKeys.UNLOCK_CHALLENGES, StoredShapes.challenges);
+      if (challenges) {
+        set({ challenges });
+      }
+      const warningSettings = readStored(StorageKeys.WARNING_SETTINGS, StoredShapes.warningSettings);
+      if (warningSettings) {
+        set({ warningSettings });
+      }
+      const warningsDisabled = readStored(
+        StorageKeys.WARNINGS_DISABLED,
+        StoredShapes.warningsDisabled,
+      );
+      if (warningsDisabled) {
+        set({ warningsDisabled });
+      }
+      const showRemainingPill = readStored(StorageKeys.REMAINING_PILL, StoredShapes.remainingPill);
+      if (showRemainingPill !== null) {
+        set({ showRemainingPill });
+      }
     } catch (error) {
       console.error('Error loading limits from storage:', error);
     }
@@ -0,0 +1,153 @@
+/**
+ * PIN Store - Optional Lock for Limit Settings
+ *
+ * Why separate store:
+ * - Guards screens and the service-stop path, not any single store's data
+ * - Lockout has to survive restarts, the unlocked session must not
+ *
+ * Store Structure:
+ * - record: salted PIN and recovery hashes, or null when no PIN is set
+ * - lockout: consecutive failures and lockout end (persisted)
+ * - unlockedUntil: end of the current unlocked session (memory only)
+ */
+
+import { create } from 'zustand';
+import { storage, StorageKeys } from '../utils/storage';
+import { readStored, StoredShapes } from '../utils/storageSchema';
+import {
+  INITIAL_LOCKOUT,
+  PIN_UNLOCK_MS,
+  createPinRecord,
+  getAttemptsLeft,
+  isLockedOut,
+  isValidPin,
+  registerFailure,
+  verifyPin,
+  verifyRecoveryCode,
+  type LockoutState,
+  type PinRecord,
+} from '../features/pin/pinLock';
+
+export interface PinAttemptResult {
+  ok: boolean;
+  lockedUntil: number | null; // set while further attempts are refused
+  attemptsLeft: number;
+}
+
+interface PinStore {
+  record: PinRecord | null;
+  lockout: LockoutState;
+  unlockedUntil: number | null;
+  isUnlocked: () => boolean;
+  setPin: (pin: string) => string | null; // recovery code, null if refused
+  removePin: () => boolean;
+  unlock: (pin: string) => PinAttemptResult;
+  recover: (code: string) => PinAttemptResult;
+  lock: () => void;
+  loadFromStorage: () => void;
+}
+
+const persistLockout = (lockout: LockoutState) => {
+  storage.set(StorageKeys.PIN_LOCKOUT, JSON.stringify(lockout));
+};
+
+export const usePinStore = create<PinStore>((set, get) => {
+  // Shared by PIN and recovery code entry - both count toward the same lockout
+  const attempt = (isCorrect: (record: PinRecord) => boolean, onSuccess: () => void) => {
+    const { record, lockout } = get();
+    const now = Date.now();
+    if (!record) {
+      return { ok: true, lockedUntil: null, attemptsLeft: getAttemptsLeft(lockout) };
+    }
+    if (isLockedOut(lockout, now)) {
+      return { ok: false, lockedUntil: lockout.lockedUntil, attemptsLeft: 0 };
+    }
+    if (isCorrect(record)) {
+      persistLockout(INITIAL_LOCKOUT);
+      set({ lockout: INITIAL_LOCKOUT, unlockedUntil: now + PIN_UNLOCK_MS });
+      onSuccess();
+      return { ok: true, lockedUntil: null, attemptsLeft: getAttemptsLeft(INITIAL_LOCKOUT) };
+    }
+    const next = registerFailure(lockout, now);
+    persistLockout(next);
+    set({ lockout: next });
+    console.log('PIN: Wrong entry', next.failedAttempts);
+    return {
+      ok: false,
+      lockedUntil: isLockedOut(next, now) ? next.lockedUntil : null,
+      attemptsLeft: isLockedOut(next, now) ? 0 : getAttemptsLeft(next),
+    };
+  };
+
+  return {
+    record: null,
+    lockout: INITIAL_LOCKOUT,
+    unlockedUntil: null,
+
+    isUnlocked: () => {
+      const { record, unlockedUntil } = get();
+      return record === null || (unlockedUntil !== null && unlockedUntil > Date.now());
+    },
+
+    // Setting or changing the PIN requires an unlocked session when one exists
+    setPin: (pin: string) => {
+      if (!isValidPin(pin) || !get().isUnlocked()) {
+        return null;
+      }
+      const { record, recoveryCode } = createPinRecord(pin);
+      storage.set(StorageKeys.PIN_RECORD, JSON.stringify(record));
+      set({ record, unlockedUntil: Date.now() + PIN_UNLOCK_MS });
+      console.log('PIN: Set');
+      return recoveryCode;
+    },
+
+    removePin: () => {
+      if (!get().isUnlocked()) {
+        return false;
+      }
+      storage.remove(StorageKeys.PIN_RECORD);
+      set({ record: null, unlockedUntil: null });
+      console.log('PIN: Removed');
+      return true;
+    },
+
+    unlock: (pin: string) => attempt((record) => verifyPin(record, pin), () => {}),
+
+    // A correct recovery code removes the PIN so a new one can be set
+    recover: (code: string) =>
+      attempt(
+        (record) => verifyRecoveryCode(record, code),
+        () => {
+          storage.remove(StorageKeys.PIN_RECORD);
+          set({ record: null });
+          console.log('PIN: Removed with recovery code');
+        },
+      ),
+
+    lock: () => {
+      set({ unlockedUntil: null });
+    },
+
+    loadFromStorage: () => {
+      try {
+        const record = readStored(StorageKeys.PIN_RECORD, StoredShapes.pinRecord);
+        if (record) {
+          set({ record });
+        }
+        const lockout = readStored(StorageKeys.PIN_LOCKOUT, StoredShapes.pinLockout);
+        if (lockout) {
+          set({ lockout });
+        }
+      } catch (error) {
+        console.error('Error loading PIN from storage:', error);
+      }
+    },
+  };
+});
+
+/**
+ * True when no PIN is set or it was entered recently
+ */
+export function isPinUnlocked(): boolean {
+  return usePinStore.getState().isUnlocked();
+}
@@ -0,0 +1,83 @@
+/**
+ * Strict Store - Settings Lock Until a Chosen Time
+ *
+ * Why a store and not just a flag:
+ * - Every guarded mutation in the other stores calls enforcePolicy()
+ *   before applying, so the check lives in one place
+ * - The last denial is kept so screens can explain why nothing changed
+ *
+ * Store Structure:
+ * - strictUntil: epoch ms or null
+ * - lastDenial: reason of the last refused change (not persisted)
+ * - Persisted with MMKV
+ */
+
+import { create } from 'zustand';
+import { storage, StorageKeys } from '../utils/storage';
+import { readStored, StoredShapes } from '../utils/storageSchema';
+import { checkPolicy, type PolicyAction } from '../features/strict/policy';
+
+interface StrictStore {
+  strictUntil: number | null;
+  lastDenial: string | null;
+  enableStrictMode: (endsAt: number) => boolean;
+  enforce: (action: PolicyAction) => boolean;
+  clearDenial: () => void;
+  loadFromStorage: () => void;
+}
+
+export const useStrictStore = create<StrictStore>((set, get) => ({
+  strictUntil: null,
+  lastDenial: null,
+
+  // Turning on or extending only - it can't be shortened while active
+  enableStrictMode: (endsAt: number) => {
+    const allowed = get().enforce({
+      type: 'setStrictMode',
+      previousEndsAt: get().strictUntil,
+      nextEndsAt: endsAt,
+    });
+    if (allowed) {
+      storage.set(StorageKeys.STRICT_MODE, JSON.stringify({ strictUntil: endsAt }));
+      set({ strictUntil: endsAt });
+    }
+    return allowed;
+  },
+
+  enforce: (action: PolicyAction) => {
+    const decision = checkPolicy(action, get().strictUntil, Date.now());
+    if (!decision.allowed) {
+      console.log('Strict mode: Refused', action.type);
+      set({ lastDenial: decision.reason ?? null });
+    }
+    return decision.allowed;
+  },
+
+  clearDenial: () => {
+    set({ lastDenial: null });
+  },
+
+  loadFromStorage: () => {
+    try {
+      const stored = readStored(StorageKeys.STRICT_MODE, StoredShapes.strictMode);
+      if (stored) {
+        const { strictUntil } = stored;
+        // Drop strict mode that ended while the app was not running
+        if (strictUntil > Date.now()) {
+          set({ strictUntil });
+        } else {
+          storage.remove(StorageKeys.STRICT_MODE);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading strict mode from storage:', error);
+    }
+  },
+}));
+
+/**
+ * Policy check for store mutations - false means "leave the state alone"
+ */
+export function enforcePolicy(action: PolicyAction): boolean {
+  return useStrictStore.getState().enforce(action);
+}
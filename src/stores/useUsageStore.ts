@@ -1,31 +1,69 @@
 /**
  * Usage Store - App Usage Statistics
- * 
+ *
  * Why separate store:
  * - Usage stats update frequently (need fast reads)
  * - Can be large (many apps)
  * - Separate from app selection/limits for performance
- * 
+ *
  * Store Structure:
  * - todayUsage: Map of packageName -> usage in milliseconds (today)
  * - yesterdayUsage: Map of packageName -> usage in milliseconds (yesterday)
+ * - history: Day-keyed ledger (YYYY-MM-DD -> packageName -> usageMs), rolling 90 days
+ * - todayOpens: Map of packageName -> times opened today, for open limits (memory only)
  * - Last updated timestamp
+ * - liveSession: Foreground session of a tracked app, timed in JS because
+ *   system totals lag - today's getters include it (memory only)
+ * - dayStartHour: Hour a new day starts (0 = midnight), applied to every day
+ *   key and range through utils/dates - guarded by strict mode
  * - Persisted with MMKV (cached, refreshed from native module)
  */
 
 import { create } from 'zustand';
 import { storage, StorageKeys } from '../utils/storage';
+import { readStored, StoredShapes } from '../utils/storageSchema';
+import {
+  addDays,
+  getDayKey,
+  getDayRange,
+  setDayStartHour as applyDayStartHour,
+  type DayKey,
+} from '../utils/dates';
+import {
+  getDaysToBackfill,
+  pruneHistory,
+  toDailyUsage,
+  type DailyUsage,
+  type UsageHistory,
+} from '../utils/usageHistory';
+import {
+  endLiveSession,
+  getLiveUsageMs,
+  mergeLiveUsage,
+  startLiveSession,
+  type LiveSession,
+} from '../utils/liveUsage';
 import UsageStatsModule from '../native/UsageStatsModule';
-import type { UsageStat } from '../native/UsageStatsModule';
+import { enforcePolicy } from './useStrictStore';
 
 interface UsageStore {
-  todayUsage: Record<string, number>; // packageName -> usageMs
-  yesterdayUsage: Record<string, number>; // packageName -> usageMs
+  todayUsage: DailyUsage;
+  yesterdayUsage: DailyUsage;
+  history: UsageHistory;
+  todayOpens: Record<string, number>;
   lastUpdated: number | null;
   isLoading: boolean;
+  liveSession: LiveSession | null;
+  dayStartHour: number;
   refreshUsage: () => Promise<void>;
-  getTodayUsage: (packageName: string) => number;
+  startSession: (packageName: string) => void;
+  endSession: () => void;
+  setDayStartHour: (hour: number) => boolean;
+  getTodayUsage: (packageName: string) => number; // includes the live session
+  getTodayOpens: (packageName: string) => number;
+  getLiveTodayUsage: () => DailyUsage;
   getYesterdayUsage: (packageName: string) => number;
+  getUsageForDay: (dayKey: DayKey, packageName: string) => number;
   getTimeSaved: (packageName: string) => number; // vs yesterday
   loadFromStorage: () => void;
 }
@@ -33,8 +71,12 @@ interface UsageStore {
 export const useUsageStore = create<UsageStore>((set, get) => ({
   todayUsage: {},
   yesterdayUsage: {},
+  history: {},
+  todayOpens: {},
   lastUpdated: null,
   isLoading: false,
+  liveSession: null,
+  dayStartHour: 0,
 
   refreshUsage: async () => {
     if (!UsageStatsModule) {
@@ -43,45 +85,128 @@ export const useUsageStore = create<UsageStore>((set, get) => ({
 
     set({ isLoading: true });
     try {
-      const stats = await UsageStatsModule.getTodayUsageStats();
-      
-      // Convert array to map
-      const todayUsage: Record<string, number> = {};
-      stats.forEach((stat) => {
-        todayUsage[stat.packageName] = stat.totalTimeInForeground;
+      const now = Date.now();
+      const todayKey = getDayKey(now);
+      const yesterdayKey = addDays(todayKey, -1);
+      const history = { ...get().history };
+
+      // Today is an open range up to now
+      const todayStartMs = getDayRange(todayKey).startMs;
+      const todayStats = await UsageStatsModule.getUsageStatsForRange(todayStartMs, now);
+      const todayUsage = toDailyUsage(todayStats);
+      history[todayKey] = todayUsage;
+
+      const todayOpens: Record<string, number> = {};
+      const openCounts = await UsageStatsModule.getOpenCountsForRange(todayStartMs, now);
+      openCounts.forEach((count) => {
+        todayOpens[count.packageName] = count.opens;
       });
 
-      // For MVP, we'll calculate yesterday from stored data
-      // In production, you'd query UsageStatsManager for yesterday's range
-      const previousTodayUsage = get().todayUsage;
-      
+      // Back-fill full calendar days: the last refresh day (its snapshot was
+      // taken before the day ended) and any days the app was not opened
+      const daysToBackfill = getDaysToBackfill(get().lastUpdated, now, get().history);
+      for (const dayKey of daysToBackfill) {
+        const { startMs, endMs } = getDayRange(dayKey);
+        const dayStats = await UsageStatsModule.getUsageStatsForRange(startMs, endMs);
+        history[dayKey] = toDailyUsage(dayStats);
+      }
+
+      const prunedHistory = pruneHistory(history, todayKey);
+      const yesterdayUsage = prunedHistory[yesterdayKey] || {};
+
       set({
         todayUsage,
-        yesterdayUsage: previousTodayUsage, // Simple: yesterday = previous today
-        lastUpdated: Date.now(),
+        yesterdayUsage,
+        history: prunedHistory,
+        todayOpens,
+        lastUpdated: now,
         isLoading: false,
       });
 
       // Persist to MMKV
       storage.set(StorageKeys.USAGE_STATS, JSON.stringify({
         todayUsage,
-        yesterdayUsage: previousTodayUsage,
-        lastUpdated: Date.now(),
+        yesterdayUsage,
+        lastUpdated: now,
       }));
+      storage.set(StorageKeys.USAGE_HISTORY, JSON.stringify(prunedHistory));
     } catch (error) {
       console.error('Error refreshing usage stats:', error);
       set({ isLoading: false });
     }
   },
 
+  startSession: (packageName: string) => {
+    const { liveSession } = get();
+    if (liveSession?.packageName === packageName && liveSession.endedAt === undefined) {
+      return;
+    }
+    const now = Date.now();
+    set({ liveSession: startLiveSession(packageName, get().getTodayUsage(packageName), now) });
+  },
+
+  endSession: () => {
+    const { liveSession } = get();
+    if (liveSession) {
+      set({ liveSession: endLiveSession(liveSession, Date.now()) });
+    }
+  },
+
+  setDayStartHour: (hour: number) => {
+    if (!enforcePolicy({ type: 'setDayStartHour' })) {
+      return false;
+    }
+    applyDayStartHour(hour);
+    set({ dayStartHour: hour });
+    // Persist to MMKV
+    storage.set(StorageKeys.DAY_START_HOUR, JSON.stringify(hour));
+    // Today now covers a different range - earlier days keep their old boundary
+    get().refreshUsage();
+    return true;
+  },
+
   getTodayUsage: (packageName: string) => {
-    return get().todayUsage[packageName] || 0;
+    const { todayUsage, lastUpdated, liveSession } = get();
+    const now = Date.now();
+    return getLiveUsageMs(
+      packageName,
+      todayUsage[packageName] || 0,
+      lastUpdated,
+      liveSession,
+      now,
+      getDayRange(getDayKey(now)).startMs,
+    );
+  },
+
+  // Counts from an earlier day don't carry over
+  getTodayOpens: (packageName: string) => {
+    const { todayOpens, lastUpdated } = get();
+    if (lastUpdated === null || getDayKey(lastUpdated) !== getDayKey(Date.now())) {
+      return 0;
+    }
+    return todayOpens[packageName] ?? 0;
+  },
+
+  getLiveTodayUsage: () => {
+    const { todayUsage, lastUpdated, liveSession } = get();
+    const now = Date.now();
+    return mergeLiveUsage(
+      todayUsage,
+      lastUpdated,
+      liveSession,
+      now,
+      getDayRange(getDayKey(now)).startMs,
+    );
   },
 
   getYesterdayUsage: (packageName: string) => {
     return get().yesterdayUsage[packageName] || 0;
   },
 
+  getUsageForDay: (dayKey: DayKey, packageName: string) => {
+    return get().history[dayKey]?.[packageName] || 0;
+  },
+
   getTimeSaved: (packageName: string) => {
     const today = get().getTodayUsage(packageName);
     const yesterday = get().getYesterdayUsage(packageName);
@@ -90,16 +215,27 @@ export const useUsageStore = create<UsageStore>((set, get) => ({
 
   loadFromStorage: () => {
     try {
-      const stored = storage.getString(StorageKeys.USAGE_STATS);
-      if (stored) {
-        const data = JSON.parse(stored) as {
-          todayUsage: Record<string, number>;
-          yesterdayUsage: Record<string, number>;
-          lastUpdated: number;
-        };
+      // First, so every day key below uses the configured boundary
+      const dayStartHour = readStored(StorageKeys.DAY_START_HOUR, StoredShapes.dayStartHour);
+      if (dayStartHour !== null) {
+        applyDayStartHour(dayStartHour);
+        set({ dayStartHour });
+      }
+
+      const history = readStored(StorageKeys.USAGE_HISTORY, StoredShapes.usageHistory) ?? {};
+      set({ history });
+
+      const data = readStored(StorageKeys.USAGE_STATS, StoredShapes.usageStats);
+      if (data) {
+
+        // Cached values are only "today"/"yesterday" relative to when they were
+        // written - re-key them against the ledger for the current calendar day
+        const todayKey = getDayKey(Date.now());
+        const isSameDay =
+          data.lastUpdated !== undefined && getDayKey(data.lastUpdated) === todayKey;
         set({
-          todayUsage: data.todayUsage || {},
-          yesterdayUsage: data.yesterdayUsage || {},
+          todayUsage: isSameDay ? data.todayUsage || {} : history[todayKey] || {},
+          yesterdayUsage: history[addDays(todayKey, -1)] || {},
           lastUpdated: data.lastUpdated || null,
         });
       }
@@ -108,4 +244,3 @@ export const useUsageStore = create<UsageStore>((set, get) => ({
     }
   },
 }));
-
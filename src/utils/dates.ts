@@ -0,0 +1,90 @@
+/**
+ * Date Utilities
+ *
+ * Calendar-day helpers for usage history, limits and stats.
+ *
+ * Why day keys instead of timestamps:
+ * - A "day" is a local calendar concept, not a fixed 24h window
+ * - DST days are 23h or 25h long, so adding 86400000ms drifts
+ * - YYYY-MM-DD strings sort correctly and are readable in storage
+ *
+ * Day boundary:
+ * - Days start at a configurable hour (useUsageStore.dayStartHour), so with 4
+ *   a session at 02:00 still counts towards the previous day
+ * - Always computed from local calendar fields in the device's current time
+ *   zone - after travelling, "today" follows the new zone and the day that
+ *   spans the change is simply shorter or longer, like a DST day
+ *
+ * Mirrored in Kotlin by DayBoundary.kt - keep the two in sync.
+ */
+
+export type DayKey = string; // YYYY-MM-DD (local time)
+
+export const DAY_START_HOUR_OPTIONS = [0, 1, 2, 3, 4, 5, 6];
+
+let dayStartHour = 0;
+
+const pad = (value: number): string => (value < 10 ? `0${value}` : `${value}`);
+
+const formatDayKey = (date: Date): DayKey =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Hour (0-23) at which a new day starts - set once loaded, see useUsageStore
+ */
+export function setDayStartHour(hour: number): void {
+  dayStartHour = hour;
+}
+
+export function getDayStartHour(): number {
+  return dayStartHour;
+}
+
+/**
+ * Local day key for a timestamp - before the day start hour it's still the previous day
+ */
+export function getDayKey(timestampMs: number): DayKey {
+  const date = new Date(timestampMs);
+  if (date.getHours() < dayStartHour) {
+    // Calendar fields, not -24h, so a DST change overnight can't skip a day
+    return formatDayKey(new Date(date.getFullYear(), date.getMonth(), date.getDate() - 1));
+  }
+  return formatDayKey(date);
+}
+
+/**
+ * Parse a day key back into a local Date at midnight of that calendar date
+ */
+export function parseDayKey(dayKey: DayKey): Date {
+  const [year, month, day] = dayKey.split('-').map((part) => parseInt(part, 10));
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Shift a day key by N calendar days (negative = past)
+ * Uses Date arithmetic on calendar fields so DST never skips or repeats a day
+ */
+export function addDays(dayKey: DayKey, days: number): DayKey {
+  const date = parseDayKey(dayKey);
+  date.setDate(date.getDate() + days);
+  return formatDayKey(date);
+}
+
+/**
+ * Local time the day starts - an hour skipped by DST resolves to the first
+ * time after it, which getDayKey agrees is already the new day
+ */
+function getDayStart(dayKey: DayKey): Date {
+  const date = parseDayKey(dayKey);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), dayStartHour);
+}
+
+/**
+ * Start/end timestamps of a day, from one day start hour to the next: [startMs, endMs)
+ */
+export function getDayRange(dayKey: DayKey): { startMs: number; endMs: number } {
+  return {
+    startMs: getDayStart(dayKey).getTime(),
+    endMs: getDayStart(addDays(dayKey, 1)).getTime(),
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Live Usage
+ *
+ * Pure merge of system usage totals with the foreground session in progress.
+ * System totals lag (queryUsageStats only counts a session once it ends, and
+ * events are flushed late), so on their own a limit can be overrun by minutes.
+ * Timing the current session ourselves lets limits trigger within seconds.
+ *
+ * How the merge works - the larger of two estimates wins:
+ * 1. The system total plus the time since it was read (exact if the system
+ *    already counted the open session up to that point)
+ * 2. The total when the session started plus the whole session so far
+ *    (exact if the system hasn't counted the open session at all)
+ * Taking the larger one never counts the open session twice.
+ *
+ * An ended session keeps counting up to its end, until the next session
+ * replaces it - by then the system totals have usually caught up.
+ *
+ * Mirrored in Kotlin by LiveUsage.kt - keep the two in sync.
+ */
+
+import type { DailyUsage } from './usageHistory';
+
+export interface LiveSession {
+  packageName: string;
+  startedAt: number; // epoch ms, when the app came to the foreground
+  baseUsageMs: number; // system total for the app when the session started
+  endedAt?: number; // epoch ms, set once another app (or Boundly) is in front
+}
+
+export function startLiveSession(
+  packageName: string,
+  systemUsageMs: number,
+  now: number,
+): LiveSession {
+  return { packageName, startedAt: now, baseUsageMs: systemUsageMs };
+}
+
+export function endLiveSession(session: LiveSession, now: number): LiveSession {
+  return session.endedAt !== undefined ? session : { ...session, endedAt: now };
+}
+
+/**
+ * Today's usage for one app including the session in progress
+ *
+ * @param reportedAt when systemUsageMs was read (null if never)
+ * @param dayStartMs start of today - sessions running into a new day only count from here
+ */
+export function getLiveUsageMs(
+  packageName: string,
+  systemUsageMs: number,
+  reportedAt: number | null,
+  session: LiveSession | null,
+  now: number,
+  dayStartMs: number,
+): number {
+  if (!session || session.packageName !== packageName || session.startedAt > now) {
+    return systemUsageMs;
+  }
+
+  const sessionStart = Math.max(session.startedAt, dayStartMs);
+  const sessionEnd = Math.min(now, session.endedAt ?? now);
+  const sinceReport = sessionEnd - Math.max(sessionStart, reportedAt ?? sessionStart);
+  // The base was taken on another day when the session started before the day did
+  const base = session.startedAt >= dayStartMs ? session.baseUsageMs : 0;
+
+  return Math.max(
+    systemUsageMs + Math.max(0, sinceReport),
+    base + Math.max(0, sessionEnd - sessionStart),
+  );
+}
+
+/**
+ * Copy of a day's usage with the live session's app brought up to date
+ */
+export function mergeLiveUsage(
+  usage: DailyUsage,
+  reportedAt: number | null,
+  session: LiveSession | null,
+  now: number,
+  dayStartMs: number,
+): DailyUsage {
+  if (!session) {
+    return usage;
+  }
+  const { packageName } = session;
+  return {
+    ...usage,
+    [packageName]: getLiveUsageMs(
+      packageName,
+      usage[packageName] ?? 0,
+      reportedAt,
+      session,
+      now,
+      dayStartMs,
+    ),
+  };
+}
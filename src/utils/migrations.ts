@@ -0,0 +1,78 @@
+/**
+ * Storage Migrations
+ *
+ * Ordered, versioned upgrades of the MMKV layout. The installed schema
+ * version lives under StorageKeys.SCHEMA_VERSION; initializeStores() runs
+ * pending migrations before any store loads.
+ *
+ * Adding a migration:
+ * 1. Append { version: SCHEMA_VERSION + 1, ... } to MIGRATIONS
+ * 2. Rewrite the affected blobs in `migrate` (read raw, never through stores)
+ * 3. Update the validator in storageSchema.ts to the new shape
+ *
+ * Rules:
+ * - Migrations run oldest first and the version is saved after each one,
+ *   so an interrupted upgrade resumes where it stopped
+ * - A failing migration stops the run; loading then falls back to
+ *   validation, which quarantines whatever it can't read
+ * - A version newer than this build (after a downgrade) is left untouched
+ */
+
+import { storage, StorageKeys } from './storage';
+import type { KeyValueStore } from './storageSchema';
+
+export interface Migration {
+  version: number; // schema version after this migration
+  description: string;
+  migrate: (store: KeyValueStore) => void;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Stamp installs from before schema versioning',
+    // The unversioned layout is schema 1 - nothing to rewrite
+    migrate: () => {},
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  error?: string;
+}
+
+export function getSchemaVersion(store: KeyValueStore = storage): number {
+  return store.getNumber(StorageKeys.SCHEMA_VERSION) ?? 0;
+}
+
+export function runMigrations(
+  store: KeyValueStore = storage,
+  migrations: Migration[] = MIGRATIONS,
+): MigrationResult {
+  const fromVersion = getSchemaVersion(store);
+  const latest = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+  if (fromVersion > latest) {
+    console.warn(`Storage: Schema v${fromVersion} is newer than this build (v${latest})`);
+    return { fromVersion, toVersion: fromVersion };
+  }
+
+  let version = fromVersion;
+  const pending = migrations
+    .filter((migration) => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version);
+  for (const migration of pending) {
+    try {
+      migration.migrate(store);
+      version = migration.version;
+      store.set(StorageKeys.SCHEMA_VERSION, version);
+      console.log(`Storage: Migrated to v${version} (${migration.description})`);
+    } catch (error) {
+      console.error(`Storage: Migration to v${migration.version} failed:`, error);
+      return { fromVersion, toVersion: version, error: String(error) };
+    }
+  }
+  return { fromVersion, toVersion: version };
+}
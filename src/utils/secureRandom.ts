@@ -0,0 +1,42 @@
+/**
+ * Secure Random
+ *
+ * Random numbers for secrets (PIN salts, recovery codes), drawn from the
+ * platform CSPRNG - never Math.random.
+ *
+ * Sources, in order:
+ * - SecureKeyModule.getRandomBytes (java.security.SecureRandom), as Hermes
+ *   has no WebCrypto
+ * - crypto.getRandomValues where the runtime has it (e.g. Jest)
+ */
+
+import SecureKeyModule from '../native/SecureKeyModule';
+
+// Bytes fetched per native call, so a recovery code doesn't cost one call per character
+const POOL_SIZE = 64;
+const BYTES_PER_NUMBER = 4;
+
+let pool: number[] = [];
+
+function randomBytes(count: number): number[] {
+  if (SecureKeyModule) {
+    return SecureKeyModule.getRandomBytes(count);
+  }
+  const webCrypto = (globalThis as { crypto?: { getRandomValues(array: Uint8Array): Uint8Array } })
+    .crypto;
+  if (webCrypto) {
+    return Array.from(webCrypto.getRandomValues(new Uint8Array(count)));
+  }
+  throw new Error('No secure random source available');
+}
+
+/**
+ * Drop-in for Math.random: a uniform number in [0, 1) from 32 random bits
+ */
+export function secureRandom(): number {
+  if (pool.length < BYTES_PER_NUMBER) {
+    pool = randomBytes(POOL_SIZE);
+  }
+  const bytes = pool.splice(0, BYTES_PER_NUMBER);
+  return bytes.reduce((value, byte) => value * 256 + byte, 0) / 2 ** 32;
+}
@@ -6,26 +6,127 @@
  * - Synchronous API (no async/await overhead)
  * - Thread-safe and efficient for frequent reads/writes
  * - Perfect for storing app limits and usage stats
+ *
+ * Encryption:
+ * - Each install has its own random key, kept in the Android Keystore by
+ *   SecureKeyModule and read before the instance is created
  */
 
-import { createMMKV } from 'react-native-mmkv';
+import { createMMKV, type MMKV } from 'react-native-mmkv';
+import SecureKeyModule from '../native/SecureKeyModule';
+
+const STORAGE_ID = 'daily-focus-storage';
+
+// Used for one launch when the real storage can't be unlocked
+const FALLBACK_STORAGE_ID = 'daily-focus-storage-fallback';
+
+// Key every install used before keys moved to the Keystore - only needed to
+// open existing storage once and re-encrypt it
+const LEGACY_ENCRYPTION_KEY = 'daily-focus-encryption-key';
+
+/**
+ * Open storage with the per-install key from the Android Keystore
+ *
+ * Installs from before per-install keys are opened once with the legacy key
+ * and re-encrypted in place. If recrypt() fails, the data stays readable
+ * under the legacy key and the migration is retried on the next launch.
+ *
+ * If the key can't be read, the encrypted storage is left untouched and the
+ * app runs on empty fallback storage; App shows why and offers resetStorage().
+ */
+function openStorage(): MMKV {
+  let encryptionKey: string | undefined;
+  try {
+    encryptionKey = SecureKeyModule?.getStorageKey();
+  } catch (error) {
+    console.error('Storage: Storage key unavailable, using fallback storage:', error);
+    storageUnavailable = true;
+    const fallback = createMMKV({ id: FALLBACK_STORAGE_ID });
+    // Settings made now must not outlive the launch and shadow the real ones
+    fallback.clearAll();
+    return fallback;
+  }
+  if (!encryptionKey) {
+    // Native module missing (e.g. Jest) - keep existing data readable
+    return createMMKV({ id: STORAGE_ID, encryptionKey: LEGACY_ENCRYPTION_KEY });
+  }
+
+  if (!SecureKeyModule?.isLegacyKeyMigrated()) {
+    const legacyStorage = createMMKV({ id: STORAGE_ID, encryptionKey: LEGACY_ENCRYPTION_KEY });
+    try {
+      legacyStorage.recrypt(encryptionKey);
+      SecureKeyModule?.setLegacyKeyMigrated();
+      console.log('Storage: Re-encrypted with per-install key');
+    } catch (error) {
+      console.error('Storage: Error re-encrypting storage, keeping legacy key:', error);
+    }
+    return legacyStorage;
+  }
+
+  return createMMKV({ id: STORAGE_ID, encryptionKey });
+}
+
+let storageUnavailable = false;
 
 // Create a single storage instance - reuse throughout the app
 // createMMKV is the correct API for react-native-mmkv v4+
-export const storage = createMMKV({
-  id: 'daily-focus-storage',
-  // Encrypted storage for sensitive data (optional, but good for privacy)
-  // In production, generate encryption key securely
-  encryptionKey: 'daily-focus-encryption-key',
-});
+export const storage = openStorage();
+
+/**
+ * Whether the saved data couldn't be unlocked and this launch uses fallback storage
+ */
+export function isStorageUnavailable(): boolean {
+  return storageUnavailable;
+}
+
+/**
+ * Give up on the saved data: new key, empty storage from the next launch on
+ *
+ * Only ever called after the user confirmed it. Returns false if a new key
+ * can't be made either.
+ */
+export function resetStorage(): boolean {
+  try {
+    const encryptionKey = SecureKeyModule?.resetStorageKey();
+    if (!encryptionKey) {
+      return false;
+    }
+    createMMKV({ id: STORAGE_ID, encryptionKey }).clearAll();
+    return true;
+  } catch (error) {
+    console.error('Storage: Error resetting storage:', error);
+    return false;
+  }
+}
 
 /**
  * Type-safe storage helpers
  */
 export const StorageKeys = {
   SELECTED_APPS: 'selected_apps',
+  ALLOWED_APPS: 'allowed_apps',
+  BLOCKED_APPS: 'blocked_apps',
   APP_LIMITS: 'app_limits',
+  OPEN_LIMITS: 'open_limits',
+  SESSION_CAPS: 'session_caps',
+  LIMIT_SCHEDULES: 'limit_schedules',
+  GRACE_SETTINGS: 'grace_settings',
+  GRACE_LOG: 'grace_log',
+  UNLOCK_CHALLENGES: 'unlock_challenges',
+  WARNING_SETTINGS: 'warning_settings',
+  WARNINGS_DISABLED: 'warnings_disabled',
+  REMAINING_PILL: 'remaining_pill',
+  DAY_START_HOUR: 'day_start_hour',
+  APP_GROUPS: 'app_groups',
+  FOCUS_SESSION: 'focus_session',
+  POMODORO_STATE: 'pomodoro_state',
+  POMODORO_CONFIG: 'pomodoro_config',
+  STRICT_MODE: 'strict_mode',
+  PIN_RECORD: 'pin_record',
+  PIN_LOCKOUT: 'pin_lockout',
   USAGE_STATS: 'usage_stats',
+  USAGE_HISTORY: 'usage_history',
   PERMISSIONS_GRANTED: 'permissions_granted',
+  SCHEMA_VERSION: 'schema_version',
 } as const;
 
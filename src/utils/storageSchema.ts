@@ -0,0 +1,194 @@
+/**
+ * Storage Schema
+ *
+ * Runtime shape of every JSON blob the stores keep in MMKV, and the one
+ * reader they all load through.
+ *
+ * Why validate on load:
+ * - Blobs may have been written by an older app version or be truncated
+ * - A bad blob used to throw inside loadFromStorage (or worse, load a wrong
+ *   shape that crashed a screen later)
+ *
+ * Why quarantine instead of delete:
+ * - A blob that doesn't match is moved aside under a "quarantine." key with
+ *   its raw text intact, so a later migration or a bug report can recover it
+ * - The store then starts from its defaults for that key only
+ *
+ * Shape changes: bump SCHEMA_VERSION in migrations.ts, migrate the old blob,
+ * then update the validator here.
+ */
+
+import { storage } from './storage';
+import {
+  isArrayOf,
+  isBoolean,
+  isIntegerInRange,
+  isNonNegativeNumber,
+  isNullable,
+  isOneOf,
+  isOptional,
+  isRecordOf,
+  isShape,
+  isString,
+  type Validator,
+} from './validation';
+import type { SelectedApp } from '../stores/useAppStore';
+import type { BlockedWindow, LimitSchedule } from '../features/limits/schedule';
+import type { GraceGrant, GraceSettings } from '../features/limits/grace';
+import type { SessionCap } from '../features/limits/sessionCap';
+import type { WarningSettings } from '../features/limits/warnings';
+import type { AppGroup } from '../features/limits/groups';
+import type { FocusSession } from '../features/focus/focusSession';
+import type { PomodoroConfig, PomodoroState } from '../features/focus/pomodoro';
+import type { LockoutState, PinRecord } from '../features/pin/pinLock';
+import type { DailyUsage, UsageHistory } from './usageHistory';
+import { CHALLENGE_TYPES, type ChallengeType } from '../features/blocking/challenges/challenges';
+
+export type KeyValueStore = Pick<
+  typeof storage,
+  'getString' | 'getNumber' | 'set' | 'remove' | 'getAllKeys'
+>;
+
+export const QUARANTINE_PREFIX = 'quarantine.';
+
+const isDailyUsage: Validator<DailyUsage> = isRecordOf(isNonNegativeNumber);
+
+const isPomodoroConfig = isShape<PomodoroConfig>({
+  workMinutes: isNonNegativeNumber,
+  shortBreakMinutes: isNonNegativeNumber,
+  longBreakMinutes: isNonNegativeNumber,
+  cyclesBeforeLongBreak: isNonNegativeNumber,
+});
+
+export const StoredShapes = {
+  selectedApps: isArrayOf(
+    isShape<SelectedApp>({ packageName: isString, appName: isString }),
+  ),
+  limits: isRecordOf(isNonNegativeNumber),
+  openLimits: isRecordOf(isNonNegativeNumber),
+  schedules: isRecordOf(
+    isShape<LimitSchedule>({
+      weekdayLimitMs: isOptional(isNonNegativeNumber),
+      weekendLimitMs: isOptional(isNonNegativeNumber),
+      blockedWindows: isArrayOf(
+        isShape<BlockedWindow>({ startMinute: isNonNegativeNumber, endMinute: isNonNegativeNumber }),
+      ),
+    }),
+  ),
+  graceSettings: isRecordOf(
+    isShape<GraceSettings>({
+      extensionsPerDay: isNonNegativeNumber,
+      extensionMinutes: isNonNegativeNumber,
+    }),
+  ),
+  sessionCaps: isRecordOf(
+    isShape<SessionCap>({
+      maxSessionMinutes: isNonNegativeNumber,
+      cooldownMinutes: isNonNegativeNumber,
+    }),
+  ),
+  graceLog: isArrayOf(
+    isShape<GraceGrant>({
+      packageName: isString,
+      dayKey: isString,
+      grantedAt: isNonNegativeNumber,
+      expiresAt: isNonNegativeNumber,
+    }),
+  ),
+  challenges: isRecordOf(isOneOf<ChallengeType>(CHALLENGE_TYPES)),
+  warningSettings: isShape<WarningSettings>({
+    percent: isNullable(isNonNegativeNumber),
+    minutesLeft: isNullable(isNonNegativeNumber),
+  }),
+  warningsDisabled: isArrayOf(isString),
+  remainingPill: isBoolean,
+  dayStartHour: isIntegerInRange(0, 23),
+  groups: isArrayOf(
+    isShape<AppGroup>({
+      id: isString,
+      name: isString,
+      packageNames: isArrayOf(isString),
+      limitMs: isNonNegativeNumber,
+    }),
+  ),
+  focusSession: isShape<FocusSession>({
+    startedAt: isNonNegativeNumber,
+    endsAt: isNonNegativeNumber,
+    packageNames: isArrayOf(isString),
+  }),
+  pomodoroState: isShape<PomodoroState>({
+    startedAt: isNonNegativeNumber,
+    config: isPomodoroConfig,
+    packageNames: isArrayOf(isString),
+  }),
+  pomodoroConfig: isPomodoroConfig,
+  strictMode: isShape<{ strictUntil: number }>({ strictUntil: isNonNegativeNumber }),
+  pinRecord: isShape<PinRecord>({
+    salt: isString,
+    hash: isString,
+    recoverySalt: isString,
+    recoveryHash: isString,
+    iterations: isNonNegativeNumber,
+  }),
+  pinLockout: isShape<LockoutState>({
+    failedAttempts: isNonNegativeNumber,
+    lockedUntil: isNullable(isNonNegativeNumber),
+  }),
+  usageStats: isShape<{
+    todayUsage?: DailyUsage;
+    yesterdayUsage?: DailyUsage;
+    lastUpdated?: number;
+  }>({
+    todayUsage: isOptional(isDailyUsage),
+    yesterdayUsage: isOptional(isDailyUsage),
+    lastUpdated: isOptional(isNonNegativeNumber),
+  }),
+  usageHistory: isRecordOf(isDailyUsage) as Validator<UsageHistory>,
+};
+
+/**
+ * Move a blob that can't be loaded out of the way, keeping its raw text
+ */
+export function quarantine(
+  key: string,
+  raw: string,
+  reason: string,
+  store: KeyValueStore = storage,
+  now: number = Date.now(),
+): string {
+  const quarantineKey = `${QUARANTINE_PREFIX}${key}.${now}`;
+  store.set(quarantineKey, raw);
+  store.remove(key);
+  console.error(`Storage: Quarantined "${key}" as "${quarantineKey}" (${reason})`);
+  return quarantineKey;
+}
+
+export function getQuarantinedKeys(store: KeyValueStore = storage): string[] {
+  return store.getAllKeys().filter((key) => key.startsWith(QUARANTINE_PREFIX));
+}
+
+/**
+ * Parse and validate a stored blob - null when missing or quarantined
+ */
+export function readStored<T>(
+  key: string,
+  validate: Validator<T>,
+  store: KeyValueStore = storage,
+): T | null {
+  const raw = store.getString(key);
+  if (raw === undefined) {
+    return null;
+  }
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    quarantine(key, raw, 'invalid JSON', store);
+    return null;
+  }
+  if (!validate(value)) {
+    quarantine(key, raw, 'unexpected shape', store);
+    return null;
+  }
+  return value;
+}
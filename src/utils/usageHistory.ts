@@ -0,0 +1,75 @@
+/**
+ * Usage History Helpers
+ *
+ * Pure functions behind the day-keyed usage ledger in useUsageStore.
+ * Kept free of storage/native imports so the range logic is easy to test.
+ */
+
+import { addDays, getDayKey, type DayKey } from './dates';
+import type { UsageStat } from '../native/UsageStatsModule';
+
+export type DailyUsage = Record<string, number>; // packageName -> usageMs
+export type UsageHistory = Record<DayKey, DailyUsage>;
+
+// Days of history kept in MMKV (older days are pruned on every write)
+export const HISTORY_DAYS = 90;
+
+// Android only keeps raw usage events for roughly a week, so a fresh install
+// (or a very long gap) can't back-fill further than this
+export const MAX_BACKFILL_DAYS = 7;
+
+export function toDailyUsage(stats: UsageStat[]): DailyUsage {
+  const usage: DailyUsage = {};
+  stats.forEach((stat) => {
+    usage[stat.packageName] = stat.totalTimeInForeground;
+  });
+  return usage;
+}
+
+/**
+ * Drop days older than the retention window
+ */
+export function pruneHistory(history: UsageHistory, todayKey: DayKey): UsageHistory {
+  const oldestKey = addDays(todayKey, -(HISTORY_DAYS - 1));
+  const pruned: UsageHistory = {};
+  Object.keys(history).forEach((dayKey) => {
+    // YYYY-MM-DD keys compare correctly as strings
+    if (dayKey >= oldestKey && dayKey <= todayKey) {
+      pruned[dayKey] = history[dayKey];
+    }
+  });
+  return pruned;
+}
+
+/**
+ * Past days that need a full-day range query, oldest first
+ *
+ * - The day of the last refresh was only captured partially, so it is re-queried
+ * - Days in between (app not opened) have no entry at all
+ * - Yesterday is always included if missing from the ledger
+ */
+export function getDaysToBackfill(
+  lastUpdated: number | null,
+  now: number,
+  history: UsageHistory,
+): DayKey[] {
+  const todayKey = getDayKey(now);
+  const oldestKey = addDays(todayKey, -MAX_BACKFILL_DAYS);
+  const lastKey = lastUpdated !== null ? getDayKey(lastUpdated) : todayKey;
+
+  const days: DayKey[] = [];
+  for (let dayKey = oldestKey; dayKey < todayKey; dayKey = addDays(dayKey, 1)) {
+    const wasPartial = dayKey === lastKey;
+    const isMissing = !history[dayKey];
+    const isAfterLastRefresh = dayKey > lastKey;
+    if (wasPartial || (isMissing && (isAfterLastRefresh || lastUpdated === null))) {
+      days.push(dayKey);
+    }
+  }
+
+  const yesterdayKey = addDays(todayKey, -1);
+  if (!history[yesterdayKey] && !days.includes(yesterdayKey)) {
+    days.push(yesterdayKey);
+  }
+  return days;
+}
@@ -0,0 +1,56 @@
+/**
+ * Runtime Type Guards
+ *
+ * Small composable guards for data that crosses a trust boundary (MMKV blobs
+ * written by older app versions). TypeScript types vanish at runtime, so a
+ * `JSON.parse(...) as T` cast checks nothing.
+ */
+
+export type Validator<T> = (value: unknown) => value is T;
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isString = (value: unknown): value is string => typeof value === 'string';
+
+export const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+
+export const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+export const isNonNegativeNumber = (value: unknown): value is number =>
+  isFiniteNumber(value) && value >= 0;
+
+export function isIntegerInRange(min: number, max: number): Validator<number> {
+  return (value): value is number =>
+    Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
+
+export function isOptional<T>(guard: Validator<T>): Validator<T | undefined> {
+  return (value): value is T | undefined => value === undefined || guard(value);
+}
+
+export function isNullable<T>(guard: Validator<T>): Validator<T | null> {
+  return (value): value is T | null => value === null || guard(value);
+}
+
+export function isArrayOf<T>(guard: Validator<T>): Validator<T[]> {
+  return (value): value is T[] => Array.isArray(value) && value.every(guard);
+}
+
+export function isRecordOf<T>(guard: Validator<T>): Validator<Record<string, T>> {
+  return (value): value is Record<string, T> => isObject(value) && Object.values(value).every(guard);
+}
+
+export function isOneOf<T extends string>(options: readonly T[]): Validator<T> {
+  return (value): value is T => options.includes(value as T);
+}
+
+/**
+ * Object with (at least) these fields - extra fields are allowed
+ */
+export function isShape<T>(fields: { [K in keyof T]: Validator<T[K]> }): Validator<T> {
+  return (value): value is T =>
+    isObject(value) &&
+    (Object.keys(fields) as Array<keyof T>).every((key) => fields[key](value[key as string]));
+}